@@ -10,18 +10,68 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { importCommand, printExtractionScript } from './commands/import.js';
-import { exportCommand, exportSingleFile } from './commands/export.js';
+import { exportCommand } from './commands/export.js';
+import { listExporterNames } from './exporters/registry.js';
 import { searchCommand, listDomainsCommand } from './commands/search.js';
+import { dedupeCommand } from './commands/dedupe.js';
+import { tagCommand } from './commands/tag.js';
+import { checkLinksCommand } from './commands/check-links.js';
+import { archiveLookupCommand } from './commands/archive-lookup.js';
+import { enrichCommand } from './commands/enrich.js';
+import { captureCommand } from './commands/capture.js';
+import { migrateCommand } from './commands/migrate.js';
+import { diffCommand } from './commands/diff.js';
+import { serveCommand } from './commands/serve.js';
+import { statsCommand } from './commands/stats.js';
+import { snapshotCommand } from './commands/snapshot.js';
+import { recoverHistoryCommand } from './commands/recover-history.js';
 import { listLevelDbKeys, dumpLevelDb } from './parsers/leveldb.js';
-import { DEFAULT_EXTENSION_IDS, DEFAULT_PATHS } from './models/types.js';
-import { writeJson } from './utils/files.js';
+import { findFirefoxOneTab } from './parsers/firefox.js';
+import { DEFAULT_EXTENSION_IDS, DEFAULT_PATHS, FIREFOX_EXTENSION_ID } from './models/types.js';
+import {
+  CHROMIUM_BROWSERS,
+  discoverFirefoxProfiles,
+  discoverProfiles,
+  formatProfile,
+  getFirefoxDataDirs,
+  getUserDataDirs,
+} from './utils/browsers.js';
+import { formatBytes, writeJson } from './utils/files.js';
+import { recoverLevelDb } from './utils/leveldb-reader.js';
+import { DEFAULT_WAYBACK_API } from './utils/wayback.js';
+import {
+  CONFIG_FILE_NAMES,
+  CONFIG_SETTINGS,
+  getCommandDefaults,
+  getUserConfigDir,
+  loadConfig,
+} from './utils/config.js';
 
 const program = new Command();
 
 program
   .name('onetab')
   .description('Import and manage OneTab links with timestamps')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--profile <name>', 'Config profile from an onetabrc file')
+  .configureHelp({ showGlobalOptions: true });
+
+// Fill options not given on the command line from the onetabrc config
+program.hook('preAction', async (_program, actionCommand) => {
+  try {
+    const config = await loadConfig(program.opts().profile);
+    const declared = new Set(actionCommand.options.map((option) => option.attributeName()));
+
+    for (const [key, { value }] of Object.entries(getCommandDefaults(config, actionCommand.name()))) {
+      if (declared.has(key) && actionCommand.getOptionValueSource(key) !== 'cli') {
+        actionCommand.setOptionValueWithSource(key, value, 'config');
+      }
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+});
 
 // ============================================================================
 // Import Command
@@ -29,12 +79,19 @@ program
 
 program
   .command('import')
-  .description('Import OneTab data from JSON export or LevelDB')
+  .description('Import OneTab data from JSON export, text export, LevelDB or Firefox storage')
   .option('-i, --input <path>', 'JSON file from DevTools export')
   .option('-l, --leveldb <path>', 'LevelDB directory path')
-  .option('-b, --browser <browser>', 'Browser type: edge | chrome', 'edge')
+  .option('-x, --text <path>', 'Text file from OneTab "Export URLs"')
+  .option('--date <date>', 'Base date for text imports (default: file modification time)')
+  .option('-f, --firefox [path]', 'Firefox profile, OneTab storage dir or .sqlite file (default: discover)')
+  .option('--auto', 'Find OneTab in local browser profiles and import from there')
+  .option('-b, --browser <browser>', 'Browser type: edge | chrome | chromium | brave | vivaldi (default: edge; with --auto: any)')
+  .option('--browser-profile <name>', 'Browser profile for --auto (directory or display name)')
   .option('-e, --extension-id <id>', 'Custom extension ID')
   .option('-o, --output <path>', 'Output master JSON path', DEFAULT_PATHS.masterJson)
+  .option('--dedupe <mode>', 'Deduplicate URLs after merging: collapse | annotate')
+  .option('--keep <which>', 'Occurrence to keep when collapsing: first | last', 'first')
   .action(async (options) => {
     try {
       await importCommand(options);
@@ -44,26 +101,72 @@ program
     }
   });
 
+// ============================================================================
+// Snapshot Command
+// ============================================================================
+
+program
+  .command('snapshot')
+  .description('Copy a live LevelDB directory into a timestamped folder for importing')
+  .argument('[leveldb]', 'LevelDB directory (e.g. <profile>/Local Extension Settings/<id>)')
+  .option('--auto', 'Snapshot the OneTab LevelDB found in local browser profiles')
+  .option('-b, --browser <browser>', 'Browser for --auto: edge | chrome | chromium | brave | vivaldi')
+  .option('--browser-profile <name>', 'Browser profile for --auto (directory or display name)')
+  .option('-e, --extension-id <id>', 'Custom extension ID for --auto')
+  .option('-o, --output <dir>', 'Folder that receives the snapshot', DEFAULT_PATHS.leveldbCopy)
+  .option('--attempts <n>', 'Copy attempts if files change mid-copy', '5')
+  .action(async (leveldb, options) => {
+    try {
+      await snapshotCommand(leveldb, options);
+    } catch (error) {
+      console.error(chalk.red('❌ Snapshot failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Recover History Command
+// ============================================================================
+
+program
+  .command('recover-history')
+  .description('Recover deleted groups from old versions of OneTab state left in LevelDB files')
+  .argument('<leveldb>', 'LevelDB directory (or snapshot folder; the browser may keep running)')
+  .option('-o, --output <path>', 'Master JSON to merge into', DEFAULT_PATHS.masterJson)
+  .option('-b, --browser <browser>', 'Browser type for a new master file: edge | chrome | chromium | brave | vivaldi', 'edge')
+  .option('--dry-run', 'Show what would be recovered without writing')
+  .action(async (leveldb, options) => {
+    try {
+      await recoverHistoryCommand(leveldb, options);
+    } catch (error) {
+      console.error(chalk.red('❌ Recovery failed:'), error);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Export Command
 // ============================================================================
 
 program
   .command('export')
-  .description('Export master data to Markdown files')
+  .description('Export master data to Markdown, an Obsidian vault, a static site, JSON, CSV, JSON Lines, bookmarks HTML or OneTab import formats')
   .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
   .option('-o, --output <path>', 'Output directory', DEFAULT_PATHS.outputDir)
   .option('-g, --group-by <period>', 'Group by: month | week | day', 'month')
   .option('--from <date>', 'Filter from date (YYYY-MM-DD or YYYY-MM)')
   .option('--to <date>', 'Filter to date (YYYY-MM-DD or YYYY-MM)')
-  .option('--single', 'Export as single consolidated file')
+  .option('--single', 'Export as single consolidated Markdown file (markdown format only)')
+  .option('-f, --format <format>', `Output format: ${listExporterNames().join(' | ')}`, 'markdown')
+  .option('--delimiter <char>', 'CSV field delimiter (\\t or "tab" for tabs)', ',')
+  .option('--domain-notes', 'Also write a note per domain linking its groups (obsidian format)')
+  .option('-q, --query <text>', 'Only tabs matching a search query')
+  .option('--groups <ids>', 'Only these comma-separated group IDs')
+  .option('--exclude-dead', 'Leave out tabs that check-links found dead')
+  .option('--archive-links', 'Add "(archived)" links found by archive-lookup (markdown format)')
   .action(async (options) => {
     try {
-      if (options.single) {
-        await exportSingleFile(options);
-      } else {
-        await exportCommand(options);
-      }
+      await exportCommand(options);
     } catch (error) {
       console.error(chalk.red('❌ Export failed:'), error);
       process.exit(1);
@@ -77,13 +180,18 @@ program
 program
   .command('search')
   .description('Search through OneTab data')
-  .option('-q, --query <text>', 'Search query (matches title and URL)')
-  .option('-u, --url-pattern <regex>', 'URL pattern (regex)')
-  .option('-t, --title-pattern <regex>', 'Title pattern (regex)')
-  .option('-d, --domain <domain>', 'Domain filter')
+  .option('-q, --query <query>', 'Search query: words, "phrases", field:value (title, url, domain, meta, tag, is, after, before, on), AND/OR/NOT, -term, ( )')
+  .option('-u, --url-pattern <regex>', 'URL pattern (regex), same as url:/regex/')
+  .option('-t, --title-pattern <regex>', 'Title pattern (regex), same as title:/regex/')
+  .option('-d, --domain <domain>', 'Domain filter (includes subdomains), same as domain:<domain>')
+  .option('--tag <tag>', 'Tag filter (tab or group tags), same as tag:<tag>')
   .option('--from <date>', 'Filter from date')
   .option('--to <date>', 'Filter to date')
-  .option('-f, --format <format>', 'Output format: console | json | markdown', 'console')
+  .option('-f, --format <format>', `Output format: ${['console', ...listExporterNames()].join(' | ')}`, 'console')
+  .option('--delimiter <char>', 'CSV field delimiter (\\t or "tab" for tabs)', ',')
+  .option('--no-index', 'Scan every tab instead of using the ranked search index')
+  .option('--exclude-dead', 'Leave out tabs that check-links found dead')
+  .option('--in-content', 'Also match the page text saved by capture')
   .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
   .action(async (options) => {
     try {
@@ -94,6 +202,192 @@ program
     }
   });
 
+// ============================================================================
+// Dedupe Command
+// ============================================================================
+
+program
+  .command('dedupe')
+  .description('Find duplicate URLs across groups and collapse or annotate them')
+  .option('-m, --mode <mode>', 'Mode: report | collapse | annotate', 'report')
+  .option('--keep <which>', 'Occurrence to keep when collapsing: first | last', 'first')
+  .option('--dry-run', 'Show what would change without writing')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await dedupeCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Dedupe failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Tag Command
+// ============================================================================
+
+program
+  .command('tag')
+  .description('Add/remove tags and notes on tabs and groups (lists tags without changes)')
+  .option('-a, --add <tags>', 'Comma-separated tags to add')
+  .option('-r, --remove <tags>', 'Comma-separated tags to remove')
+  .option('-n, --note <text>', 'Set notes (empty string clears)')
+  .option('--tab <id>', 'Select a tab by ID')
+  .option('--group <id>', 'Select a group by ID')
+  .option('-d, --domain <domain>', 'Select tabs by domain (includes subdomains)')
+  .option('-q, --query <text>', 'Select tabs matching a search query')
+  .option('--dry-run', 'Show what would change without writing')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await tagCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Tag failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Check Links Command
+// ============================================================================
+
+program
+  .command('check-links')
+  .description('Check which tab URLs still work and record the HTTP status on each tab (resumable)')
+  .option('-c, --concurrency <n>', 'Requests in flight at once (one per domain)', '8')
+  .option('--delay <ms>', 'Minimum delay between requests to the same domain', '1000')
+  .option('--timeout <ms>', 'Request timeout', '10000')
+  .option('--recheck', 'Check again URLs that already have a result')
+  .option('--older-than <days>', 'Check again results older than this many days')
+  .option('--limit <n>', 'Check at most this many URLs')
+  .option('--dry-run', 'Show what would be checked without sending requests')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await checkLinksCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Link check failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Archive Lookup Command
+// ============================================================================
+
+program
+  .command('archive-lookup')
+  .description('Find the Wayback Machine snapshot closest to when each tab was saved (cached, resumable)')
+  .option('--api <url>', 'Wayback-style availability API endpoint', DEFAULT_WAYBACK_API)
+  .option('--dead-only', 'Only tabs that check-links found dead')
+  .option('-q, --query <text>', 'Only tabs matching a search query')
+  .option('--delay <ms>', 'Delay between API requests', '1000')
+  .option('--timeout <ms>', 'Request timeout', '30000')
+  .option('--limit <n>', 'Look up at most this many URLs')
+  .option('--retry-missing', 'Ask again for URLs that had no snapshot')
+  .option('--dry-run', 'Show what would be looked up without sending requests')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await archiveLookupCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Archive lookup failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Enrich Command
+// ============================================================================
+
+program
+  .command('enrich')
+  .description('Fetch page metadata (description, canonical URL, site name, language, favicon) and fill in missing titles (resumable)')
+  .option('-c, --concurrency <n>', 'Pages fetched at once (one per domain)', '4')
+  .option('--delay <ms>', 'Minimum delay between requests to the same domain', '1000')
+  .option('--timeout <ms>', 'Request timeout', '15000')
+  .option('-q, --query <text>', 'Only tabs matching a search query')
+  .option('--refresh', 'Fetch again pages that were already enriched')
+  .option('--retry-failed', 'Fetch again pages that failed last time')
+  .option('--limit <n>', 'Fetch at most this many URLs')
+  .option('--dry-run', 'Show what would be fetched without sending requests')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await enrichCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Enrich failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Capture Command
+// ============================================================================
+
+program
+  .command('capture')
+  .description('Download page content into the content store for search --in-content (resumable)')
+  .option('-c, --concurrency <n>', 'Pages downloaded at once (one per domain)', '4')
+  .option('--delay <ms>', 'Minimum delay between requests to the same domain', '1000')
+  .option('--timeout <ms>', 'Request timeout', '30000')
+  .option('--max-size <kb>', 'Largest page kept; longer pages are cut', '2048')
+  .option('-q, --query <text>', 'Only tabs matching a search query')
+  .option('--refresh', 'Download again pages that were already captured')
+  .option('--retry-failed', 'Download again pages that failed last time')
+  .option('--limit <n>', 'Download at most this many URLs')
+  .option('--dry-run', 'Show what would be downloaded without sending requests')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await captureCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Capture failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Stats Command
+// ============================================================================
+
+program
+  .command('stats')
+  .description('Show statistics: tabs per period, top domains, group sizes, streaks')
+  .option('-p, --period <period>', 'Breakdown by: day | week | month', 'month')
+  .option('-f, --format <format>', 'Output format: console | json | html', 'console')
+  .option('-o, --output <path>', 'Output file or directory (json/html)', DEFAULT_PATHS.outputDir)
+  .option('--from <date>', 'Filter from date')
+  .option('--to <date>', 'Filter to date')
+  .option('--top <n>', 'Top domains per period', '3')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await statsCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Stats failed:'), error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Serve Command
+// ============================================================================
+
+program
+  .command('serve')
+  .description('Browse and search the archive in a local web UI (localhost only)')
+  .option('-p, --port <port>', 'Port to listen on', '4710')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await serveCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Serve failed:'), error);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Utility Commands
 // ============================================================================
@@ -111,6 +405,35 @@ program
     }
   });
 
+program
+  .command('diff')
+  .description('Compare two snapshots (master JSON or OneTab exports)')
+  .argument('<old>', 'Older snapshot path')
+  .argument('<new>', 'Newer snapshot path')
+  .option('-f, --format <format>', 'Output format: console | json', 'console')
+  .action(async (oldPath, newPath, options) => {
+    try {
+      await diffCommand(oldPath, newPath, options);
+    } catch (error) {
+      console.error(chalk.red('❌ Diff failed:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('migrate')
+  .description('Upgrade master JSON to the current schema version')
+  .option('--dry-run', 'Show the migration plan without writing')
+  .option('-i, --input <path>', 'Master JSON input path', DEFAULT_PATHS.masterJson)
+  .action(async (options) => {
+    try {
+      await migrateCommand(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Migration failed:'), error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('script')
   .description('Print the DevTools extraction script')
@@ -163,30 +486,148 @@ debug
     }
   });
 
+debug
+  .command('recover')
+  .description('Read LevelDB log and table files directly (works when the DB cannot be opened)')
+  .argument('<path>', 'LevelDB directory path')
+  .option('-k, --key <key>', 'Only show this key')
+  .option('--versions', 'Include every recovered version, not only the latest')
+  .option('-o, --output <file>', 'Output JSON file')
+  .action(async (path, options) => {
+    try {
+      const recovered = await recoverLevelDb(path);
+      const keys = Array.from(recovered.versions.keys())
+        .filter((key) => !options.key || key === options.key)
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+      console.log(chalk.blue(`🔍 Recovered ${recovered.versions.size} keys from ${recovered.files.length} files:`));
+      for (const key of keys) {
+        const latest = recovered.latest.get(key)!;
+        const older = recovered.versions.get(key)!.length - 1;
+        const state = latest.deleted
+          ? chalk.yellow('deleted')
+          : formatBytes(Buffer.byteLength(latest.value ?? ''));
+        console.log(
+          chalk.white(`  ${key}`) +
+          chalk.gray(`  seq ${latest.sequence}, ${state}, ${latest.file}`) +
+          (older > 0 ? chalk.gray(` (+${older} older version${older === 1 ? '' : 's'})`) : '')
+        );
+      }
+
+      if (recovered.errors.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  ${recovered.errors.length} damaged parts skipped:`));
+        for (const error of recovered.errors) {
+          console.log(chalk.gray(`   ${error}`));
+        }
+      }
+
+      if (options.output) {
+        const parse = (value: string): unknown => {
+          try {
+            return JSON.parse(value);
+          } catch {
+            return value;
+          }
+        };
+        const data: Record<string, unknown> = {};
+        for (const key of keys) {
+          const latest = recovered.latest.get(key)!;
+          if (options.versions) {
+            data[key] = recovered.versions.get(key)!.map((entry) => ({
+              sequence: entry.sequence,
+              file: entry.file,
+              deleted: entry.deleted,
+              value: entry.value === undefined ? null : parse(entry.value),
+            }));
+          } else if (!latest.deleted) {
+            data[key] = parse(latest.value!);
+          }
+        }
+        await writeJson(options.output, data);
+        console.log(chalk.green(`\n✅ Recovered data saved to: ${options.output}`));
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ Failed:'), error);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Info Command
 // ============================================================================
 
 program
   .command('info')
-  .description('Show configuration and paths')
-  .action(() => {
+  .description('Show the effective configuration (with the source of each value), paths and browser profiles')
+  .action(async () => {
     console.log(chalk.blue('📋 OneTab Importer Configuration'));
     console.log('');
+
+    const config = await loadConfig(program.opts().profile);
+    console.log(chalk.gray('Config Files:'));
+    if (config.files.length === 0) {
+      console.log(chalk.white('  None found. Searched:'));
+      console.log(chalk.gray(`    ${CONFIG_FILE_NAMES.join(', ')} in ${process.cwd()} and its parents`));
+      console.log(chalk.gray(`    onetabrc (.json, .yaml, .yml) in ${getUserConfigDir()}`));
+    }
+    for (const file of config.files) {
+      console.log(chalk.white(`  ${file}`));
+    }
+    console.log('');
+    console.log(chalk.gray('Profile:'));
+    console.log(config.profile
+      ? chalk.white(`  ${config.profile}`) + chalk.gray(`  (${config.profileSource})`)
+      : chalk.white('  none'));
+    if (config.profiles.length > 0) {
+      console.log(chalk.gray(`  Available: ${config.profiles.join(', ')}`));
+    }
+    console.log('');
+    console.log(chalk.gray('Effective Settings:'));
+    for (const setting of CONFIG_SETTINGS) {
+      const entry = config.values[setting];
+      console.log(entry
+        ? chalk.white(`  ${setting.padEnd(20)} ${entry.value}`) + chalk.gray(`  (${entry.source})`)
+        : chalk.white(`  ${setting.padEnd(20)} `) + chalk.gray('(not set)'));
+    }
+    console.log('');
     console.log(chalk.gray('Default Extension IDs:'));
     console.log(chalk.white(`  Edge:   ${DEFAULT_EXTENSION_IDS.edge}`));
-    console.log(chalk.white(`  Chrome: ${DEFAULT_EXTENSION_IDS.chrome}`));
+    console.log(chalk.white(`  Chrome: ${DEFAULT_EXTENSION_IDS.chrome} (also Chromium, Brave, Vivaldi)`));
+    console.log(chalk.white(`  Firefox: ${FIREFOX_EXTENSION_ID}`));
     console.log('');
     console.log(chalk.gray('Default Paths:'));
-    console.log(chalk.white(`  Master JSON:  ${DEFAULT_PATHS.masterJson}`));
-    console.log(chalk.white(`  Output Dir:   ${DEFAULT_PATHS.outputDir}`));
     console.log(chalk.white(`  LevelDB Copy: ${DEFAULT_PATHS.leveldbCopy}`));
     console.log('');
-    console.log(chalk.gray('Browser LevelDB Locations (Windows):'));
+    console.log(chalk.gray('Browser Profiles:'));
+
+    const profiles = await discoverProfiles();
+    const firefoxProfiles = await discoverFirefoxProfiles();
+    if (profiles.length === 0 && firefoxProfiles.length === 0) {
+      console.log(chalk.white('  None found. Searched:'));
+      for (const browser of CHROMIUM_BROWSERS) {
+        for (const dir of getUserDataDirs(browser)) {
+          console.log(chalk.gray(`    ${dir}`));
+        }
+      }
+      for (const dir of getFirefoxDataDirs()) {
+        console.log(chalk.gray(`    ${dir}`));
+      }
+    }
+    for (const profile of profiles) {
+      const oneTab = profile.oneTab
+        ? chalk.green(`OneTab: ${profile.oneTab.path}`)
+        : chalk.gray('no OneTab');
+      console.log(chalk.white(`  ${formatProfile(profile)}  `) + oneTab);
+    }
 
-    const localAppData = process.env.LOCALAPPDATA ?? '%LOCALAPPDATA%';
-    console.log(chalk.white(`  Edge:   ${localAppData}\\Microsoft\\Edge\\User Data\\Default\\Local Extension Settings\\${DEFAULT_EXTENSION_IDS.edge}`));
-    console.log(chalk.white(`  Chrome: ${localAppData}\\Google\\Chrome\\User Data\\Default\\Local Extension Settings\\${DEFAULT_EXTENSION_IDS.chrome}`));
+    const firefoxOneTab = await findFirefoxOneTab();
+    for (const profile of firefoxProfiles) {
+      const location = firefoxOneTab.find((l) => l.profile.path === profile.path);
+      const oneTab = location
+        ? chalk.green(`OneTab: ${location.databasePath}`)
+        : chalk.gray('no OneTab');
+      console.log(chalk.white(`  Firefox / ${profile.name}  `) + oneTab);
+    }
   });
 
 // Parse and run
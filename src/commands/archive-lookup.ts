@@ -0,0 +1,174 @@
+/**
+ * Archive Lookup Command - Find archived copies of saved tabs
+ *
+ * Asks a Wayback-style availability API for the snapshot of each tab
+ * URL closest to the day its group was saved. Answers (including "no
+ * snapshot") are cached next to master.json, so an interrupted run
+ * resumes and `export --archive-links` can link them without network
+ * access.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { ArchiveLookupOptions } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { nowIso } from '../utils/dates.js';
+import { isCheckableUrl, isDeadLink } from '../utils/link-check.js';
+import { loadMasterDataOrExit, parseCount } from '../utils/resumable-run.js';
+import {
+  DEFAULT_WAYBACK_API,
+  getArchiveCachePath,
+  loadArchiveCache,
+  lookupKey,
+  lookupSnapshot,
+  saveArchiveCache,
+  toWaybackDate,
+} from '../utils/wayback.js';
+import { searchData } from './search.js';
+
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Lookups between cache saves
+ */
+const SAVE_EVERY = 25;
+
+/**
+ * Consecutive API failures before giving up
+ */
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+/**
+ * Execute the archive-lookup command
+ */
+export async function archiveLookupCommand(options: ArchiveLookupOptions): Promise<void> {
+  console.log(chalk.blue('🏛️  OneTab Archive Lookup'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const apiUrl = options.api ?? DEFAULT_WAYBACK_API;
+  const delayMs = parseCount(options.delay, 'delay', DEFAULT_DELAY_MS);
+  const timeoutMs = parseCount(options.timeout, 'timeout', DEFAULT_TIMEOUT_MS);
+  const limit = options.limit !== undefined ? parseCount(options.limit, 'limit', 0) : undefined;
+
+  try {
+    new URL(apiUrl);
+  } catch {
+    console.error(chalk.red(`❌ Invalid --api URL: ${apiUrl}`));
+    process.exit(1);
+  }
+
+  const masterData = await loadMasterDataOrExit(inputPath);
+  const cache = await loadArchiveCache(inputPath);
+
+  const selected = options.query
+    ? new Set(searchData(masterData, { query: options.query }).map((r) => `${r.group.id}\t${r.tab.id}`))
+    : undefined;
+
+  // One lookup per URL and day; the first tab seen stands for the others
+  const pending = new Map<string, { url: string; waybackDate: string }>();
+  let tabs = 0;
+  let cached = 0;
+
+  for (const group of masterData.groups) {
+    const waybackDate = toWaybackDate(group.createdAt);
+
+    for (const tab of group.tabs) {
+      if (!isCheckableUrl(tab.url)) continue;
+      if (options.deadOnly && !isDeadLink(tab.linkCheck)) continue;
+      if (selected && !selected.has(`${group.id}\t${tab.id}`)) continue;
+      tabs++;
+
+      const key = lookupKey(tab.url, waybackDate);
+      const entry = cache.entries[key];
+      if (entry && (entry.snapshot || !options.retryMissing)) {
+        cached++;
+        continue;
+      }
+      pending.set(key, { url: tab.url, waybackDate });
+    }
+  }
+
+  const queued = Array.from(pending.values()).slice(0, limit);
+
+  console.log(chalk.gray(`📂 Master data: ${inputPath}`));
+  console.log(chalk.gray(`🌐 API: ${apiUrl}`));
+  console.log(chalk.gray(`   Tabs selected:  ${tabs}`));
+  console.log(chalk.gray(`   Already cached: ${cached}`));
+  console.log(chalk.gray(`   To look up:     ${queued.length}` +
+    (queued.length < pending.size ? ` (of ${pending.size}, --limit)` : '')));
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n⚠️  Dry run: no requests sent, nothing written'));
+    return;
+  }
+
+  if (queued.length === 0) {
+    console.log(chalk.green('\n✅ Nothing to look up'));
+    return;
+  }
+
+  let stopping = false;
+  const onInterrupt = (): void => {
+    stopping = true;
+    console.log(chalk.yellow('\n⏸️  Stopping after the current request (run again to resume)'));
+  };
+  process.once('SIGINT', onInterrupt);
+
+  const counts = { found: 0, missing: 0, failed: 0 };
+  let consecutiveFailures = 0;
+  let done = 0;
+  console.log('');
+
+  try {
+    for (const { url, waybackDate } of queued) {
+      if (stopping) break;
+      if (done > 0 && delayMs > 0) {
+        await new Promise((resolveDelay) => setTimeout(resolveDelay, delayMs));
+      }
+
+      try {
+        const snapshot = await lookupSnapshot(url, waybackDate, apiUrl, timeoutMs);
+        cache.entries[lookupKey(url, waybackDate)] = { snapshot, lookedUpAt: nowIso() };
+        consecutiveFailures = 0;
+        if (snapshot) counts.found++;
+        else counts.missing++;
+      } catch (error) {
+        // Failures are not cached, so the next run asks again
+        counts.failed++;
+        consecutiveFailures++;
+        console.log(chalk.yellow(`   ⚠️  ${(error as Error).message}`) + chalk.gray(`  ${url}`));
+
+        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+          console.error(chalk.red(`❌ ${consecutiveFailures} lookups failed in a row, giving up`));
+          break;
+        }
+      }
+
+      done++;
+      if (done % SAVE_EVERY === 0) {
+        console.log(chalk.gray(`   ... ${done}/${queued.length} looked up`));
+        await saveArchiveCache(inputPath, cache);
+      }
+    }
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+    await saveArchiveCache(inputPath, cache);
+  }
+
+  console.log('');
+  console.log(chalk.blue('📊 Results:'));
+  console.log(chalk.green(`   Archived:     ${counts.found}`));
+  console.log(chalk.gray(`   Not archived: ${counts.missing}`));
+  if (counts.failed > 0) {
+    console.log(chalk.yellow(`   Failed:       ${counts.failed}`));
+  }
+  console.log(chalk.green(`\n💾 Cache saved to: ${getArchiveCachePath(inputPath)}`));
+
+  const remaining = queued.length - counts.found - counts.missing;
+  if (remaining > 0) {
+    console.log(chalk.yellow(`\n⚠️  ${remaining} URL(s) not looked up yet: run archive-lookup again to resume`));
+  }
+  console.log(chalk.gray('\n💡 Link snapshots in Markdown exports with: onetab export --archive-links'));
+}
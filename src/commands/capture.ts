@@ -0,0 +1,169 @@
+/**
+ * Capture Command - Save page content for full-text search
+ *
+ * Each distinct URL is downloaded once (up to a size cap) into the
+ * content store next to master.json, and every tab with that URL gets a
+ * `capture` reference to the stored page. The page text is indexed for
+ * `search --in-content`.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { CaptureOptions } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { exists, formatBytes } from '../utils/files.js';
+import { capturePage } from '../utils/capture.js';
+import type { BodyFetcher } from '../utils/capture.js';
+import {
+  addContentDocument,
+  getContentStorePath,
+  getObjectPath,
+  loadContentIndex,
+  readObjectText,
+  saveContentIndex,
+} from '../utils/content-store.js';
+import { collectTabsByUrl, loadMasterDataOrExit, parseCount, runResumable } from '../utils/resumable-run.js';
+import { searchData } from './search.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_SIZE_KB = 2048;
+
+/**
+ * Pages between progress saves
+ */
+const SAVE_EVERY = 25;
+
+/**
+ * Execute the capture command
+ *
+ * @param fetcher - Page downloader, replaceable for tests (defaults to fetch)
+ */
+export async function captureCommand(options: CaptureOptions, fetcher?: BodyFetcher): Promise<void> {
+  console.log(chalk.blue('📥 OneTab Page Capture'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const concurrency = parseCount(options.concurrency, 'concurrency', DEFAULT_CONCURRENCY);
+  const delayMs = parseCount(options.delay, 'delay', DEFAULT_DELAY_MS);
+  const timeoutMs = parseCount(options.timeout, 'timeout', DEFAULT_TIMEOUT_MS);
+  const maxSizeKb = parseCount(options.maxSize, 'max-size', DEFAULT_MAX_SIZE_KB);
+  const limit = options.limit !== undefined ? parseCount(options.limit, 'limit', 0) : undefined;
+
+  if (concurrency < 1) {
+    console.error(chalk.red(`❌ Invalid --concurrency: ${options.concurrency}`));
+    process.exit(1);
+  }
+  if (maxSizeKb < 1) {
+    console.error(chalk.red(`❌ Invalid --max-size: ${options.maxSize}`));
+    process.exit(1);
+  }
+
+  const masterData = await loadMasterDataOrExit(inputPath);
+  const storeDir = getContentStorePath(inputPath);
+  const index = await loadContentIndex(storeDir);
+  const indexed = new Set(index.documents);
+  const selected = options.query
+    ? new Set(searchData(masterData, { query: options.query }).map((result) => result.tab))
+    : undefined;
+  const tabsByUrl = collectTabsByUrl(masterData, selected);
+
+  // Any tab of a URL that was captured stands for all of them; pages whose
+  // objects went missing from the store are downloaded again
+  const pending: string[] = [];
+  const unindexed = new Set<string>();
+  for (const [url, tabs] of tabsByUrl) {
+    const capture = tabs.find((tab) => tab.capture)?.capture;
+    const stored = capture?.hash !== undefined && (await exists(getObjectPath(storeDir, capture.hash, 'txt')));
+
+    if (
+      !capture ||
+      options.refresh ||
+      (capture.error !== undefined ? options.retryFailed : !stored)
+    ) {
+      pending.push(url);
+    } else if (stored && !indexed.has(capture.hash!)) {
+      unindexed.add(capture.hash!);
+    }
+  }
+
+  const queued = limit !== undefined ? pending.slice(0, limit) : pending;
+
+  console.log(chalk.gray(`📂 Master data: ${inputPath}`));
+  console.log(chalk.gray(`🗄️  Content store: ${storeDir}`));
+  console.log(chalk.gray(`   Distinct URLs:    ${tabsByUrl.size}`));
+  console.log(chalk.gray(`   Already captured: ${tabsByUrl.size - pending.length}`));
+  console.log(chalk.gray(`   To download:      ${queued.length}` +
+    (queued.length < pending.length ? ` (of ${pending.length}, --limit)` : '')));
+  if (unindexed.size > 0) {
+    console.log(chalk.gray(`   To re-index:      ${unindexed.size}`));
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n⚠️  Dry run: no requests sent, nothing written'));
+    return;
+  }
+
+  // Stored pages missing from the index (e.g. after it was deleted)
+  for (const hash of unindexed) {
+    addContentDocument(index, hash, await readObjectText(storeDir, hash));
+    indexed.add(hash);
+  }
+
+  if (queued.length === 0) {
+    if (unindexed.size > 0) await saveContentIndex(storeDir, index);
+    console.log(chalk.green('\n✅ Nothing to download'));
+    return;
+  }
+
+  const counts = { captured: 0, failed: 0, truncated: 0, bytes: 0 };
+  const task = (url: string) => capturePage(url, storeDir, { timeoutMs, maxBytes: maxSizeKb * 1024, fetcher });
+
+  const done = await runResumable(queued, task, {
+    inputPath,
+    masterData,
+    concurrency,
+    delayMs,
+    saveEvery: SAVE_EVERY,
+    progressVerb: 'downloaded',
+    beforeSave: () => saveContentIndex(storeDir, index),
+    onResult: (url, { capture, text }) => {
+      for (const tab of tabsByUrl.get(url) ?? []) {
+        tab.capture = capture;
+      }
+
+      if (capture.hash !== undefined && text !== undefined && !indexed.has(capture.hash)) {
+        addContentDocument(index, capture.hash, text);
+        indexed.add(capture.hash);
+      }
+
+      if (capture.error !== undefined) {
+        counts.failed++;
+        console.log(chalk.yellow(`   ⚠️  ${capture.error}`) + chalk.gray(`  ${url}`));
+      } else {
+        counts.captured++;
+        counts.bytes += capture.bytes ?? 0;
+        if (capture.truncated) counts.truncated++;
+      }
+    },
+  });
+
+  console.log('');
+  console.log(chalk.blue('📊 Results:'));
+  console.log(chalk.gray(`   Downloaded: ${done} of ${queued.length}`));
+  console.log(chalk.green(`   Captured:   ${counts.captured} (${formatBytes(counts.bytes)})`));
+  if (counts.truncated > 0) {
+    console.log(chalk.yellow(`   Truncated:  ${counts.truncated}`) + chalk.gray(` (larger than ${maxSizeKb} KB)`));
+  }
+  if (counts.failed > 0) {
+    console.log(chalk.yellow(`   Failed:     ${counts.failed}`) + chalk.gray(' (retry with --retry-failed)'));
+  }
+  console.log(chalk.green(`\n💾 Saved to: ${inputPath}`));
+  console.log(chalk.green(`   Pages in: ${storeDir}`));
+
+  if (done < queued.length) {
+    console.log(chalk.yellow(`\n⚠️  ${queued.length - done} URL(s) not downloaded yet: run capture again to resume`));
+  }
+  console.log(chalk.gray('\n💡 Search page text with: onetab search --query "..." --in-content'));
+}
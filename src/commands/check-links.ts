@@ -0,0 +1,157 @@
+/**
+ * Check Links Command - Record which tab URLs still work
+ *
+ * Each distinct URL is requested once and the result is stored on every
+ * tab with that URL.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { CheckLinksOptions, LinkCheck, Tab } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { checkUrl, describeLinkCheck, isDeadLink } from '../utils/link-check.js';
+import type { HttpClient } from '../utils/link-check.js';
+import {
+  collectTabsByUrl,
+  loadMasterDataOrExit,
+  parseCount,
+  runResumable,
+  saveMasterData,
+} from '../utils/resumable-run.js';
+
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Results between progress saves
+ */
+const SAVE_EVERY = 50;
+
+/**
+ * Newest result any of the tabs already has, unless it is out of date
+ */
+function findCurrentCheck(tabs: Tab[], notBefore: string | undefined): LinkCheck | undefined {
+  let newest: LinkCheck | undefined;
+
+  for (const tab of tabs) {
+    const check = tab.linkCheck;
+    if (check && (!newest || check.checkedAt > newest.checkedAt)) newest = check;
+  }
+
+  if (newest && notBefore && newest.checkedAt < notBefore) return undefined;
+  return newest;
+}
+
+/**
+ * Execute the check-links command
+ *
+ * @param http - HTTP layer, replaceable for tests (defaults to fetch)
+ */
+export async function checkLinksCommand(
+  options: CheckLinksOptions,
+  http?: HttpClient
+): Promise<void> {
+  console.log(chalk.blue('🔗 OneTab Link Check'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const concurrency = parseCount(options.concurrency, 'concurrency', DEFAULT_CONCURRENCY);
+  const delayMs = parseCount(options.delay, 'delay', DEFAULT_DELAY_MS);
+  const timeoutMs = parseCount(options.timeout, 'timeout', DEFAULT_TIMEOUT_MS);
+  const olderThanDays = options.olderThan !== undefined
+    ? parseCount(options.olderThan, 'older-than', 0)
+    : undefined;
+  const limit = options.limit !== undefined ? parseCount(options.limit, 'limit', 0) : undefined;
+
+  if (concurrency < 1) {
+    console.error(chalk.red(`❌ Invalid --concurrency: ${options.concurrency}`));
+    process.exit(1);
+  }
+
+  const masterData = await loadMasterDataOrExit(inputPath);
+  const tabsByUrl = collectTabsByUrl(masterData);
+
+  // --recheck ignores every stored result, --older-than only the stale ones
+  const notBefore = olderThanDays !== undefined
+    ? new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined;
+
+  const pending: string[] = [];
+  let copied = 0;
+
+  for (const [url, tabs] of tabsByUrl) {
+    const current = options.recheck ? undefined : findCurrentCheck(tabs, notBefore);
+    if (!current) {
+      pending.push(url);
+      continue;
+    }
+
+    // Tabs added since the last run share the result of their URL
+    for (const tab of tabs) {
+      if (!tab.linkCheck || tab.linkCheck.checkedAt < current.checkedAt) {
+        tab.linkCheck = current;
+        copied++;
+      }
+    }
+  }
+
+  const queued = limit !== undefined ? pending.slice(0, limit) : pending;
+
+  console.log(chalk.gray(`📂 Master data: ${inputPath}`));
+  console.log(chalk.gray(`   Distinct URLs:   ${tabsByUrl.size}`));
+  console.log(chalk.gray(`   Already checked: ${tabsByUrl.size - pending.length}`));
+  console.log(chalk.gray(`   To check:        ${queued.length}` +
+    (queued.length < pending.length ? ` (of ${pending.length}, --limit)` : '')));
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n⚠️  Dry run: no requests sent, nothing written'));
+    return;
+  }
+
+  if (queued.length === 0) {
+    if (copied > 0) {
+      await saveMasterData(inputPath, masterData);
+      console.log(chalk.green(`\n💾 Copied results to ${copied} tab(s), saved to: ${inputPath}`));
+    } else {
+      console.log(chalk.green('\n✅ Nothing to check'));
+    }
+    return;
+  }
+
+  const counts = { alive: 0, dead: 0, redirected: 0 };
+
+  const done = await runResumable(queued, (url) => checkUrl(url, timeoutMs, http), {
+    inputPath,
+    masterData,
+    concurrency,
+    delayMs,
+    saveEvery: SAVE_EVERY,
+    progressVerb: 'checked',
+    onResult: (url, check) => {
+      for (const tab of tabsByUrl.get(url) ?? []) {
+        tab.linkCheck = check;
+      }
+
+      if (isDeadLink(check)) {
+        counts.dead++;
+        console.log(chalk.red(`   ✗ ${describeLinkCheck(check)}`) + chalk.gray(`  ${url}`));
+      } else {
+        counts.alive++;
+        if (check.finalUrl) counts.redirected++;
+      }
+    },
+  });
+
+  console.log('');
+  console.log(chalk.blue('📊 Results:'));
+  console.log(chalk.gray(`   Checked:    ${done} of ${queued.length}`));
+  console.log(chalk.green(`   Alive:      ${counts.alive}`) +
+    chalk.gray(counts.redirected > 0 ? ` (${counts.redirected} redirected)` : ''));
+  console.log(chalk.red(`   Dead:       ${counts.dead}`));
+  console.log(chalk.green(`\n💾 Saved to: ${inputPath}`));
+
+  if (done < queued.length) {
+    console.log(chalk.yellow(`\n⚠️  ${queued.length - done} URL(s) not checked yet: run check-links again to resume`));
+  }
+}
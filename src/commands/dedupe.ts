@@ -0,0 +1,245 @@
+/**
+ * Dedupe Command - Find and resolve duplicate URLs across tab groups
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type {
+  DedupeOptions,
+  DuplicateOccurrence,
+  DuplicateSet,
+  MasterData,
+  Tab,
+  TabGroup,
+} from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { calculateStats } from '../parsers/json.js';
+import { loadMasterData } from '../parsers/master.js';
+import { writeJson, exists } from '../utils/files.js';
+import { normalizeUrl } from '../utils/urls.js';
+import { nowIso } from '../utils/dates.js';
+
+/**
+ * Maximum number of duplicate sets printed in the report
+ */
+const MAX_SETS_TO_DISPLAY = 25;
+
+/**
+ * Accepted --mode values (import --dedupe takes the ones that write)
+ */
+export const DEDUPE_MODES: ReadonlyArray<NonNullable<DedupeOptions['mode']>> = ['report', 'collapse', 'annotate'];
+
+/**
+ * Accepted --keep values
+ */
+export const KEEP_CHOICES: ReadonlyArray<NonNullable<DedupeOptions['keep']>> = ['first', 'last'];
+
+/**
+ * Find URLs that appear more than once across all groups
+ *
+ * Sets are ordered by occurrence count (most duplicated first); the
+ * occurrences inside each set are ordered oldest group first.
+ */
+export function findDuplicates(masterData: MasterData): DuplicateSet[] {
+  const byUrl = new Map<string, DuplicateOccurrence[]>();
+
+  for (const group of masterData.groups) {
+    for (const tab of group.tabs) {
+      const key = normalizeUrl(tab.url);
+      const occurrences = byUrl.get(key) ?? [];
+      occurrences.push({
+        tab,
+        group: {
+          id: group.id,
+          createdAt: group.createdAt,
+          createdAtEpoch: group.createdAtEpoch,
+        },
+      });
+      byUrl.set(key, occurrences);
+    }
+  }
+
+  const sets: DuplicateSet[] = [];
+
+  for (const [normalizedUrl, occurrences] of byUrl) {
+    if (occurrences.length < 2) continue;
+
+    // Stable sort keeps tab order within a group
+    occurrences.sort((a, b) => a.group.createdAtEpoch - b.group.createdAtEpoch);
+    sets.push({ normalizedUrl, occurrences });
+  }
+
+  sets.sort((a, b) => b.occurrences.length - a.occurrences.length);
+
+  return sets;
+}
+
+/**
+ * Rebuild master data around a new list of groups
+ */
+function withGroups(masterData: MasterData, groups: TabGroup[]): MasterData {
+  return {
+    ...masterData,
+    exportedAt: nowIso(),
+    stats: calculateStats(groups),
+    groups,
+  };
+}
+
+/**
+ * Remove duplicate tabs, keeping only the first or last occurrence of each URL.
+ * Groups left without tabs are dropped.
+ */
+export function collapseDuplicates(
+  masterData: MasterData,
+  keep: 'first' | 'last' = 'first'
+): MasterData {
+  const toRemove = new Set<Tab>();
+
+  for (const set of findDuplicates(masterData)) {
+    const kept = keep === 'first'
+      ? set.occurrences[0]
+      : set.occurrences[set.occurrences.length - 1];
+
+    for (const occurrence of set.occurrences) {
+      if (occurrence !== kept) {
+        toRemove.add(occurrence.tab);
+      }
+    }
+  }
+
+  const groups = masterData.groups
+    .map((group) => {
+      const tabs = group.tabs.filter((tab) => !toRemove.has(tab));
+      return { ...group, tabs, tabCount: tabs.length };
+    })
+    .filter((group) => group.tabs.length > 0);
+
+  return withGroups(masterData, groups);
+}
+
+/**
+ * Annotate every duplicated tab with its occurrence count and
+ * first/last-seen dates. Stale annotations on unique tabs are cleared.
+ */
+export function annotateDuplicates(masterData: MasterData): MasterData {
+  const annotations = new Map<Tab, Required<Pick<Tab, 'occurrences' | 'firstSeen' | 'lastSeen'>>>();
+
+  for (const set of findDuplicates(masterData)) {
+    const annotation = {
+      occurrences: set.occurrences.length,
+      firstSeen: set.occurrences[0].group.createdAt,
+      lastSeen: set.occurrences[set.occurrences.length - 1].group.createdAt,
+    };
+
+    for (const occurrence of set.occurrences) {
+      annotations.set(occurrence.tab, annotation);
+    }
+  }
+
+  const groups = masterData.groups.map((group) => ({
+    ...group,
+    tabs: group.tabs.map((tab) => {
+      const { occurrences, firstSeen, lastSeen, ...rest } = tab;
+      const annotation = annotations.get(tab);
+      return annotation ? { ...rest, ...annotation } : rest;
+    }),
+  }));
+
+  return withGroups(masterData, groups);
+}
+
+/**
+ * Format duplicate sets for console output
+ */
+function formatDuplicatesForConsole(sets: DuplicateSet[]): string {
+  if (sets.length === 0) {
+    return chalk.green('No duplicate URLs found.');
+  }
+
+  const lines: string[] = [];
+
+  for (const set of sets.slice(0, MAX_SETS_TO_DISPLAY)) {
+    const first = set.occurrences[0];
+    const last = set.occurrences[set.occurrences.length - 1];
+
+    lines.push(
+      chalk.white(`${set.occurrences.length.toString().padStart(4)}× `) +
+      chalk.white(first.tab.title) +
+      chalk.gray(` [${first.tab.domain}]`)
+    );
+    lines.push(chalk.gray(`      ${set.normalizedUrl}`));
+    lines.push(
+      chalk.dim(`      first: ${first.group.createdAt.substring(0, 10)}, last: ${last.group.createdAt.substring(0, 10)}`)
+    );
+  }
+
+  if (sets.length > MAX_SETS_TO_DISPLAY) {
+    lines.push(chalk.gray(`\n... and ${sets.length - MAX_SETS_TO_DISPLAY} more duplicated URLs`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Execute the dedupe command
+ */
+export async function dedupeCommand(options: DedupeOptions): Promise<void> {
+  console.log(chalk.blue('🧹 OneTab Dedupe'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const mode = options.mode ?? 'report';
+  const keep = options.keep ?? 'first';
+
+  // A typo must not fall through to a mode that rewrites master.json
+  if (!DEDUPE_MODES.includes(mode)) {
+    console.error(chalk.red(`❌ Invalid --mode: ${mode} (expected ${DEDUPE_MODES.join(', ')})`));
+    process.exit(1);
+  }
+  if (!KEEP_CHOICES.includes(keep)) {
+    console.error(chalk.red(`❌ Invalid --keep: ${keep} (expected ${KEEP_CHOICES.join(', ')})`));
+    process.exit(1);
+  }
+
+  if (!(await exists(inputPath))) {
+    console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
+    console.log(chalk.yellow('\n💡 Run import first:'));
+    console.log(chalk.gray('   onetab import --input your-export.json'));
+    process.exit(1);
+  }
+
+  console.log(chalk.gray(`📂 Loading from: ${inputPath}`));
+  const masterData = await loadMasterData(inputPath);
+
+  const sets = findDuplicates(masterData);
+  const redundantTabs = sets.reduce((sum, set) => sum + set.occurrences.length - 1, 0);
+
+  console.log(chalk.green(`✅ Found ${sets.length} duplicated URLs (${redundantTabs} redundant tabs)`));
+  console.log('');
+  console.log(formatDuplicatesForConsole(sets));
+
+  if (mode === 'report') {
+    return;
+  }
+
+  const updated = mode === 'collapse'
+    ? collapseDuplicates(masterData, keep)
+    : annotateDuplicates(masterData);
+
+  console.log('');
+
+  if (options.dryRun) {
+    console.log(chalk.yellow(`⚠️  Dry run: ${mode} not written`));
+  } else {
+    await writeJson(inputPath, updated);
+    console.log(chalk.green(`💾 Saved to: ${inputPath}`));
+  }
+
+  // Print summary
+  console.log('');
+  console.log(chalk.blue('📊 Summary:'));
+  console.log(chalk.gray(`   Mode:         ${mode}${mode === 'collapse' ? ` (keep ${keep})` : ''}`));
+  console.log(chalk.gray(`   Total groups: ${masterData.stats.totalGroups} → ${updated.stats.totalGroups}`));
+  console.log(chalk.gray(`   Total tabs:   ${masterData.stats.totalTabs} → ${updated.stats.totalTabs}`));
+}
@@ -0,0 +1,131 @@
+/**
+ * Diff Command - Compare two snapshots of OneTab data
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { DiffOptions, MasterData, MasterDiff, Tab } from '../models/types.js';
+import { parseOneTabJson } from '../parsers/json.js';
+import { migrateMasterData } from '../parsers/master.js';
+import { readJson, exists } from '../utils/files.js';
+import { formatDateForHeader } from '../utils/dates.js';
+import { diffGroups } from '../utils/diff.js';
+
+/**
+ * Load a snapshot: either a master.json or a raw OneTab export
+ */
+async function loadSnapshot(filePath: string): Promise<MasterData> {
+  const inputPath = resolve(filePath);
+
+  if (!(await exists(inputPath))) {
+    throw new Error(`Snapshot not found: ${inputPath}`);
+  }
+
+  const raw = await readJson<unknown>(inputPath);
+
+  if (raw && typeof raw === 'object' && Array.isArray((raw as Record<string, unknown>).groups)) {
+    return migrateMasterData(raw).data;
+  }
+
+  return parseOneTabJson(raw, {
+    browser: 'unknown',
+    extensionId: '',
+    extractionMethod: 'devtools',
+  });
+}
+
+/**
+ * Format a tab as a single console line
+ */
+function formatTab(prefix: string, tab: Tab): string {
+  return `${prefix} ${tab.title}` + chalk.gray(` ${tab.url}`);
+}
+
+/**
+ * Format a diff for console output
+ */
+function formatDiffForConsole(diff: MasterDiff): string {
+  const lines: string[] = [];
+
+  for (const group of diff.addedGroups) {
+    const title = group.title ? ` - ${group.title}` : '';
+    lines.push(chalk.green(`\n+ Group ${formatDateForHeader(group.createdAt)}${title} (${group.tabCount} tabs)`));
+    for (const tab of group.tabs) {
+      lines.push(chalk.green(formatTab('    +', tab)));
+    }
+  }
+
+  for (const group of diff.removedGroups) {
+    const title = group.title ? ` - ${group.title}` : '';
+    lines.push(chalk.red(`\n- Group ${formatDateForHeader(group.createdAt)}${title} (${group.tabCount} tabs)`));
+    for (const tab of group.tabs) {
+      lines.push(chalk.red(formatTab('    -', tab)));
+    }
+  }
+
+  for (const change of diff.changedGroups) {
+    const group = change.group;
+    const title = group.title ? ` - ${group.title}` : '';
+    const fields = change.changedFields.length > 0 ? ` [${change.changedFields.join(', ')} changed]` : '';
+    lines.push(chalk.yellow(`\n~ Group ${formatDateForHeader(group.createdAt)}${title}${fields}`));
+
+    for (const tab of change.addedTabs) {
+      lines.push(chalk.green(formatTab('    +', tab)));
+    }
+    for (const tab of change.removedTabs) {
+      lines.push(chalk.red(formatTab('    -', tab)));
+    }
+    for (const { before, after } of change.changedTabs) {
+      lines.push(chalk.yellow(formatTab('    ~', before)));
+      lines.push(chalk.yellow(formatTab('    →', after)));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Execute the diff command
+ */
+export async function diffCommand(
+  oldPath: string,
+  newPath: string,
+  options: DiffOptions
+): Promise<void> {
+  const format = options.format ?? 'console';
+
+  const before = await loadSnapshot(oldPath);
+  const after = await loadSnapshot(newPath);
+  const diff = diffGroups(before.groups, after.groups);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+
+  console.log(chalk.blue('🔀 OneTab Diff'));
+  console.log(chalk.gray(`   Old: ${resolve(oldPath)}`));
+  console.log(chalk.gray(`   New: ${resolve(newPath)}`));
+
+  const total = diff.addedGroups.length + diff.removedGroups.length + diff.changedGroups.length;
+  if (total === 0) {
+    console.log('');
+    console.log(chalk.green('✅ No differences'));
+    return;
+  }
+
+  console.log(formatDiffForConsole(diff));
+
+  const count = (fn: (c: MasterDiff['changedGroups'][number]) => number): number =>
+    diff.changedGroups.reduce((sum, c) => sum + fn(c), 0);
+
+  // Print summary
+  console.log('');
+  console.log(chalk.blue('📊 Summary:'));
+  console.log(chalk.gray(`   Groups added:   ${diff.addedGroups.length}`));
+  console.log(chalk.gray(`   Groups removed: ${diff.removedGroups.length}`));
+  console.log(chalk.gray(`   Groups changed: ${diff.changedGroups.length}`));
+  console.log(chalk.gray(`   Tabs added:     ${count((c) => c.addedTabs.length)} (in changed groups)`));
+  console.log(chalk.gray(`   Tabs removed:   ${count((c) => c.removedTabs.length)} (in changed groups)`));
+  console.log(chalk.gray(`   Tabs changed:   ${count((c) => c.changedTabs.length)}`));
+}
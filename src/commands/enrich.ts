@@ -0,0 +1,121 @@
+/**
+ * Enrich Command - Fetch page metadata for saved tabs
+ *
+ * Each distinct URL is fetched once; its title, description, canonical
+ * URL, site name, language and favicon are stored as `enrichment` on
+ * every tab with that URL, and tabs OneTab saved without a title get
+ * the page title.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { EnrichOptions } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { enrichPage, isUntitled } from '../utils/enrich.js';
+import type { PageFetcher } from '../utils/enrich.js';
+import { collectTabsByUrl, loadMasterDataOrExit, parseCount, runResumable } from '../utils/resumable-run.js';
+import { searchData } from './search.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Pages between progress saves
+ */
+const SAVE_EVERY = 50;
+
+/**
+ * Execute the enrich command
+ *
+ * @param fetcher - Page fetcher, replaceable for tests (defaults to fetch)
+ */
+export async function enrichCommand(options: EnrichOptions, fetcher?: PageFetcher): Promise<void> {
+  console.log(chalk.blue('🧾 OneTab Page Metadata'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const concurrency = parseCount(options.concurrency, 'concurrency', DEFAULT_CONCURRENCY);
+  const delayMs = parseCount(options.delay, 'delay', DEFAULT_DELAY_MS);
+  const timeoutMs = parseCount(options.timeout, 'timeout', DEFAULT_TIMEOUT_MS);
+  const limit = options.limit !== undefined ? parseCount(options.limit, 'limit', 0) : undefined;
+
+  if (concurrency < 1) {
+    console.error(chalk.red(`❌ Invalid --concurrency: ${options.concurrency}`));
+    process.exit(1);
+  }
+
+  const masterData = await loadMasterDataOrExit(inputPath);
+  const selected = options.query
+    ? new Set(searchData(masterData, { query: options.query }).map((result) => result.tab))
+    : undefined;
+  const tabsByUrl = collectTabsByUrl(masterData, selected);
+
+  // Any tab of a URL that was fetched stands for all of them
+  const pending: string[] = [];
+  for (const [url, tabs] of tabsByUrl) {
+    const enrichment = tabs.find((tab) => tab.enrichment)?.enrichment;
+    if (!enrichment || options.refresh || (options.retryFailed && enrichment.error !== undefined)) {
+      pending.push(url);
+    }
+  }
+
+  const queued = limit !== undefined ? pending.slice(0, limit) : pending;
+
+  console.log(chalk.gray(`📂 Master data: ${inputPath}`));
+  console.log(chalk.gray(`   Distinct URLs:   ${tabsByUrl.size}`));
+  console.log(chalk.gray(`   Already fetched: ${tabsByUrl.size - pending.length}`));
+  console.log(chalk.gray(`   To fetch:        ${queued.length}` +
+    (queued.length < pending.length ? ` (of ${pending.length}, --limit)` : '')));
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n⚠️  Dry run: no requests sent, nothing written'));
+    return;
+  }
+
+  if (queued.length === 0) {
+    console.log(chalk.green('\n✅ Nothing to fetch'));
+    return;
+  }
+
+  const counts = { enriched: 0, failed: 0, titled: 0 };
+
+  const done = await runResumable(queued, (url) => enrichPage(url, timeoutMs, fetcher), {
+    inputPath,
+    masterData,
+    concurrency,
+    delayMs,
+    saveEvery: SAVE_EVERY,
+    progressVerb: 'fetched',
+    onResult: (url, enrichment) => {
+      for (const tab of tabsByUrl.get(url) ?? []) {
+        if (enrichment.title && isUntitled(tab)) {
+          tab.title = enrichment.title;
+          counts.titled++;
+        }
+        tab.enrichment = enrichment;
+      }
+
+      if (enrichment.error !== undefined) {
+        counts.failed++;
+        console.log(chalk.yellow(`   ⚠️  ${enrichment.error}`) + chalk.gray(`  ${url}`));
+      } else {
+        counts.enriched++;
+      }
+    },
+  });
+
+  console.log('');
+  console.log(chalk.blue('📊 Results:'));
+  console.log(chalk.gray(`   Fetched:       ${done} of ${queued.length}`));
+  console.log(chalk.green(`   Enriched:      ${counts.enriched}`));
+  console.log(chalk.green(`   Titles filled: ${counts.titled}`));
+  if (counts.failed > 0) {
+    console.log(chalk.yellow(`   Failed:        ${counts.failed}`) + chalk.gray(' (retry with --retry-failed)'));
+  }
+  console.log(chalk.green(`\n💾 Saved to: ${inputPath}`));
+
+  if (done < queued.length) {
+    console.log(chalk.yellow(`\n⚠️  ${queued.length - done} URL(s) not fetched yet: run enrich again to resume`));
+  }
+}
@@ -1,144 +1,175 @@
 /**
- * Export Command - Export master data to Markdown files
+ * Export Command - Export master data through an exporter (see
+ * src/exporters), or as a single consolidated Markdown file
  */
 
 import chalk from 'chalk';
 import { resolve, join } from 'path';
-import type { ExportOptions, MasterData, TabGroup } from '../models/types.js';
+import type { Exporter, ExportOptions, ExportPeriod, MasterData, RenderOptions, TabGroup } from '../models/types.js';
 import { DEFAULT_PATHS } from '../models/types.js';
-import { readJson, writeText, exists, ensureDir } from '../utils/files.js';
-import {
-  getYearMonth,
-  getYearWeek,
-  getDateOnly,
-  formatDateForHeader,
-  isDateInRange,
-  parseFlexibleDate,
-} from '../utils/dates.js';
+import { loadMasterData } from '../parsers/master.js';
+import { calculateStats } from '../parsers/json.js';
+import { generateGroupMarkdown } from '../exporters/markdown.js';
+import { getExporter, listExporterNames } from '../exporters/registry.js';
+import { readText, writeText, writeTextStream, exists, ensureDir } from '../utils/files.js';
+import { isDateInRange, parseFlexibleDate } from '../utils/dates.js';
+import { excludeDeadLinks } from '../utils/link-check.js';
+import { createArchiveLookup, loadArchiveCache } from '../utils/wayback.js';
+import { getOutputPath, groupByPeriod } from '../utils/periods.js';
+import { searchData } from './search.js';
 
 /**
- * Group tabs by a date period
+ * Filter groups by the --from/--to options (no-op when neither is set)
  */
-function groupByPeriod(
+export function filterGroupsByDate(
   groups: TabGroup[],
-  groupBy: 'month' | 'week' | 'day'
-): Map<string, TabGroup[]> {
-  const periodMap = new Map<string, TabGroup[]>();
-
-  for (const group of groups) {
-    let periodKey: string;
-
-    switch (groupBy) {
-      case 'month':
-        periodKey = getYearMonth(group.createdAt);
-        break;
-      case 'week':
-        periodKey = getYearWeek(group.createdAt);
-        break;
-      case 'day':
-        periodKey = getDateOnly(group.createdAt);
-        break;
-    }
-
-    const existing = periodMap.get(periodKey) ?? [];
-    existing.push(group);
-    periodMap.set(periodKey, existing);
+  options: Pick<ExportOptions, 'from' | 'to'>
+): TabGroup[] {
+  if (!options.from && !options.to) {
+    return groups;
   }
 
-  return periodMap;
+  const fromDate = options.from ? parseFlexibleDate(options.from) : undefined;
+  const toDate = options.to ? parseFlexibleDate(options.to, true) : undefined;
+
+  return groups.filter((group) => isDateInRange(group.createdAt, fromDate, toDate));
 }
 
 /**
- * Generate Markdown content for a group of tabs
+ * Apply the --from/--to and --exclude-dead filters
  */
-function generateGroupMarkdown(group: TabGroup): string {
-  const lines: string[] = [];
+export function filterExportGroups(
+  groups: TabGroup[],
+  options: Pick<ExportOptions, 'from' | 'to' | 'excludeDead'>
+): TabGroup[] {
+  const inRange = filterGroupsByDate(groups, options);
+  return options.excludeDead ? excludeDeadLinks(inRange) : inRange;
+}
+
+/**
+ * Select the groups (and tabs) to export from the filter options
+ *
+ * Date range and group IDs select whole groups; a query narrows each
+ * group down to its matching tabs and drops groups with no matches.
+ */
+export function selectGroups(
+  masterData: MasterData,
+  options: Pick<ExportOptions, 'from' | 'to' | 'excludeDead' | 'query' | 'groups'>
+): TabGroup[] {
+  let groups = filterExportGroups(masterData.groups, options);
+
+  if (options.groups) {
+    const ids = new Set(options.groups.split(',').map((id) => id.trim()).filter(Boolean));
+    groups = groups.filter((group) => ids.has(group.id));
+  }
 
-  // Group header with timestamp
-  const dateStr = formatDateForHeader(group.createdAt);
-  const title = group.title ? ` - ${group.title}` : '';
-  const starred = group.starred ? ' ⭐' : '';
+  if (options.query) {
+    const matches = new Map<string, Set<string>>();
 
-  lines.push(`### ${dateStr}${title}${starred}`);
-  lines.push('');
+    for (const result of searchData({ ...masterData, groups }, { query: options.query })) {
+      const tabIds = matches.get(result.group.id) ?? new Set<string>();
+      tabIds.add(result.tab.id);
+      matches.set(result.group.id, tabIds);
+    }
 
-  // Tabs as bullet list with links
-  for (const tab of group.tabs) {
-    const title = tab.title || tab.domain;
-    lines.push(`- [${title}](${tab.url})`);
+    groups = groups
+      .filter((group) => matches.has(group.id))
+      .map((group) => {
+        const tabs = group.tabs.filter((tab) => matches.get(group.id)!.has(tab.id));
+        return { ...group, tabs, tabCount: tabs.length };
+      });
   }
 
-  lines.push('');
-
-  return lines.join('\n');
+  return groups;
 }
 
 /**
- * Generate Markdown file for a period
+ * Render options for an export, with the archive-lookup cache behind
+ * --archive-links
  */
-function generatePeriodMarkdown(
-  periodKey: string,
-  groups: TabGroup[],
-  groupBy: 'month' | 'week' | 'day'
-): string {
-  const lines: string[] = [];
-
-  // YAML frontmatter
-  lines.push('---');
-  lines.push(`period: "${periodKey}"`);
-  lines.push(`groupBy: "${groupBy}"`);
-  lines.push(`totalGroups: ${groups.length}`);
-  lines.push(`totalTabs: ${groups.reduce((sum, g) => sum + g.tabCount, 0)}`);
-  lines.push(`generated: "${new Date().toISOString()}"`);
-  lines.push('---');
-  lines.push('');
-
-  // Title
-  lines.push(`# OneTab Links: ${periodKey}`);
-  lines.push('');
-
-  // Summary
-  lines.push(`> **${groups.length}** tab groups, **${groups.reduce((sum, g) => sum + g.tabCount, 0)}** total links`);
-  lines.push('');
-
-  // Sort groups by date (newest first)
-  const sortedGroups = [...groups].sort(
-    (a, b) => b.createdAtEpoch - a.createdAtEpoch
-  );
+async function getRenderOptions(
+  inputPath: string,
+  options: ExportOptions
+): Promise<ExportOptions & RenderOptions> {
+  if (!options.archiveLinks) {
+    return options;
+  }
 
-  // Generate content for each group
-  for (const group of sortedGroups) {
-    lines.push(generateGroupMarkdown(group));
+  const cache = await loadArchiveCache(inputPath);
+  const snapshots = Object.values(cache.entries).filter((entry) => entry.snapshot).length;
+  console.log(chalk.gray(`🏛️  Archive links: ${snapshots} cached snapshot(s)`));
+  if (snapshots === 0) {
+    console.log(chalk.yellow('   Run archive-lookup first to find archived copies'));
   }
 
-  return lines.join('\n');
+  return { ...options, archiveLink: createArchiveLookup(cache) };
 }
 
 /**
- * Get output file path for a period
+ * Write all groups to one file: the exporter's whole document, or its
+ * groups streamed a group at a time (newest first)
  */
-function getOutputPath(
-  outputDir: string,
-  periodKey: string,
-  groupBy: 'month' | 'week' | 'day'
-): string {
-  const year = periodKey.substring(0, 4);
-
-  switch (groupBy) {
-    case 'month':
-      return join(outputDir, year, `${periodKey}.md`);
-    case 'week':
-      return join(outputDir, year, `${periodKey}.md`);
-    case 'day':
-      return join(outputDir, year, periodKey.substring(0, 7), `${periodKey}.md`);
+async function exportStreamedFile(
+  exporter: Exporter,
+  groups: TabGroup[],
+  groupBy: ExportPeriod,
+  options: ExportOptions & RenderOptions
+): Promise<void> {
+  const output = options.output ?? DEFAULT_PATHS.outputDir;
+  const getPath = (fileName: string): string =>
+    resolve(output.endsWith(exporter.extension) ? output : join(output, fileName));
+  let outputPath: string;
+
+  if (exporter.renderFiles) {
+    const [file] = exporter.renderFiles(groups, groupBy, options);
+    outputPath = getPath(file.path);
+    await writeText(outputPath, file.content);
+  } else {
+    // Rendered up front so invalid settings fail before the file is created
+    const header = exporter.header?.(options) ?? '';
+    const sortedGroups = [...groups].sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+
+    outputPath = getPath(`onetab-tabs${exporter.extension}`);
+    await writeTextStream(outputPath, (function* () {
+      if (header) yield header;
+      for (const group of sortedGroups) {
+        yield exporter.renderGroup(group, options);
+      }
+    })());
   }
+
+  console.log(chalk.green(`✅ Exported to: ${outputPath}`));
+
+  // Print summary
+  console.log('');
+  console.log(chalk.blue('📊 Summary:'));
+  console.log(chalk.gray(`   Groups exported: ${groups.length}`));
+  console.log(chalk.gray(`   Tabs exported:   ${groups.reduce((sum, g) => sum + g.tabCount, 0)}`));
 }
 
 /**
  * Execute the export command
  */
 export async function exportCommand(options: ExportOptions): Promise<void> {
-  console.log(chalk.blue('📝 OneTab Export to Markdown'));
+  const format = options.format ?? 'markdown';
+  const exporter = getExporter(format);
+
+  if (!exporter) {
+    console.error(chalk.red(`❌ Unknown format: ${format}`));
+    console.log(chalk.gray(`   Available: ${listExporterNames().join(', ')}`));
+    process.exit(1);
+  }
+
+  if (options.single) {
+    if (format !== 'markdown') {
+      console.error(chalk.red(`❌ --single only applies to the markdown format, not ${format}`));
+      process.exit(1);
+    }
+    await exportSingleFile(options);
+    return;
+  }
+
+  console.log(chalk.blue(`📝 OneTab Export to ${exporter.label}`));
   console.log('');
 
   const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
@@ -155,24 +186,19 @@ export async function exportCommand(options: ExportOptions): Promise<void> {
 
   // Load master data
   console.log(chalk.gray(`📂 Loading from: ${inputPath}`));
-  const masterData = await readJson<MasterData>(inputPath);
-
-  // Filter by date range if specified
-  let filteredGroups = masterData.groups;
+  const masterData = await loadMasterData(inputPath);
 
-  if (options.from || options.to) {
-    const fromDate = options.from ? parseFlexibleDate(options.from) : undefined;
-    const toDate = options.to ? parseFlexibleDate(options.to, true) : undefined;
+  const renderOptions = await getRenderOptions(inputPath, options);
 
-    filteredGroups = masterData.groups.filter((group) =>
-      isDateInRange(group.createdAt, fromDate, toDate)
-    );
+  // Filter by date range, group IDs and query if specified
+  const filteredGroups = selectGroups(masterData, options);
 
-    console.log(
-      chalk.gray(
-        `📅 Filtered to date range: ${options.from ?? 'start'} to ${options.to ?? 'now'}`
-      )
-    );
+  const filters: string[] = [];
+  if (options.from || options.to) filters.push(`dates ${options.from ?? 'start'} to ${options.to ?? 'now'}`);
+  if (options.groups) filters.push(`groups ${options.groups}`);
+  if (options.query) filters.push(`query "${options.query}"`);
+  if (filters.length > 0) {
+    console.log(chalk.gray(`🔎 Filtered by: ${filters.join(', ')}`));
     console.log(chalk.gray(`   ${filteredGroups.length} groups match`));
   }
 
@@ -181,6 +207,11 @@ export async function exportCommand(options: ExportOptions): Promise<void> {
     return;
   }
 
+  if (exporter.singleFile) {
+    await exportStreamedFile(exporter, filteredGroups, groupBy, renderOptions);
+    return;
+  }
+
   // Group by period
   const periodMap = groupByPeriod(filteredGroups, groupBy);
   console.log(chalk.gray(`📊 Grouped into ${periodMap.size} ${groupBy}(s)`));
@@ -190,19 +221,40 @@ export async function exportCommand(options: ExportOptions): Promise<void> {
 
   // Generate and write files
   let filesWritten = 0;
+  let filesUnchanged = 0;
+
+  if (exporter.renderFiles) {
+    // Multi-file formats can produce many files, so only the total is shown
+    for (const file of exporter.renderFiles(filteredGroups, groupBy, renderOptions)) {
+      const filePath = join(outputDir, file.path);
+      let content = file.content;
+
+      if (exporter.mergeFile && (await exists(filePath))) {
+        const existing = await readText(filePath);
+        content = exporter.mergeFile(existing, content);
+        if (content === existing) {
+          filesUnchanged++;
+          continue;
+        }
+      }
+
+      await writeText(filePath, content);
+      filesWritten++;
+    }
+  } else {
+    for (const [periodKey, groups] of periodMap) {
+      const content = exporter.renderPeriod(periodKey, groups, groupBy, renderOptions);
+      const filePath = getOutputPath(outputDir, periodKey, groupBy, exporter.extension);
 
-  for (const [periodKey, groups] of periodMap) {
-    const markdown = generatePeriodMarkdown(periodKey, groups, groupBy);
-    const filePath = getOutputPath(outputDir, periodKey, groupBy);
-
-    await writeText(filePath, markdown);
-    filesWritten++;
+      await writeText(filePath, content);
+      filesWritten++;
 
-    console.log(chalk.gray(`   📄 ${filePath}`));
+      console.log(chalk.gray(`   📄 ${filePath}`));
+    }
   }
 
   console.log('');
-  console.log(chalk.green(`✅ Exported ${filesWritten} Markdown file(s) to: ${outputDir}`));
+  console.log(chalk.green(`✅ Exported ${filesWritten} ${exporter.label} file(s) to: ${outputDir}`));
 
   // Print summary
   console.log('');
@@ -210,11 +262,14 @@ export async function exportCommand(options: ExportOptions): Promise<void> {
   console.log(chalk.gray(`   Groups exported: ${filteredGroups.length}`));
   console.log(chalk.gray(`   Tabs exported:   ${filteredGroups.reduce((sum, g) => sum + g.tabCount, 0)}`));
   console.log(chalk.gray(`   Files created:   ${filesWritten}`));
+  if (filesUnchanged > 0) {
+    console.log(chalk.gray(`   Files unchanged: ${filesUnchanged}`));
+  }
   console.log(chalk.gray(`   Grouped by:      ${groupBy}`));
 }
 
 /**
- * Generate a single consolidated Markdown file
+ * Generate a single consolidated Markdown file from the selected groups
  */
 export async function exportSingleFile(options: ExportOptions): Promise<void> {
   const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
@@ -225,37 +280,45 @@ export async function exportSingleFile(options: ExportOptions): Promise<void> {
     process.exit(1);
   }
 
-  const masterData = await readJson<MasterData>(inputPath);
+  const masterData = await loadMasterData(inputPath);
+  const renderOptions = await getRenderOptions(inputPath, options);
+
+  // Same filters as the other exports; totals describe what is written
+  const groups = selectGroups(masterData, options);
+  if (groups.length === 0) {
+    console.log(chalk.yellow('⚠️  No groups to export'));
+    return;
+  }
+  const stats = calculateStats(groups);
 
   const lines: string[] = [];
 
   // YAML frontmatter
   lines.push('---');
   lines.push(`title: "OneTab Links Export"`);
-  lines.push(`totalGroups: ${masterData.stats.totalGroups}`);
-  lines.push(`totalTabs: ${masterData.stats.totalTabs}`);
-  lines.push(`dateRange: "${masterData.stats.dateRange.earliest.substring(0, 10)} to ${masterData.stats.dateRange.latest.substring(0, 10)}"`);
+  lines.push(`totalGroups: ${stats.totalGroups}`);
+  lines.push(`totalTabs: ${stats.totalTabs}`);
+  lines.push(`dateRange: "${stats.dateRange.earliest.substring(0, 10)} to ${stats.dateRange.latest.substring(0, 10)}"`);
   lines.push(`generated: "${new Date().toISOString()}"`);
   lines.push('---');
   lines.push('');
 
   lines.push('# OneTab Links Export');
   lines.push('');
-  lines.push(`> **${masterData.stats.totalGroups}** groups, **${masterData.stats.totalTabs}** tabs`);
-  lines.push(`> From ${masterData.stats.dateRange.earliest.substring(0, 10)} to ${masterData.stats.dateRange.latest.substring(0, 10)}`);
+  lines.push(`> **${stats.totalGroups}** groups, **${stats.totalTabs}** tabs`);
+  lines.push(`> From ${stats.dateRange.earliest.substring(0, 10)} to ${stats.dateRange.latest.substring(0, 10)}`);
   lines.push('');
 
   // Group by month for organization
-  const byMonth = groupByPeriod(masterData.groups, 'month');
+  const byMonth = groupByPeriod(groups, 'month');
   const sortedMonths = Array.from(byMonth.keys()).sort().reverse();
 
   for (const month of sortedMonths) {
-    const groups = byMonth.get(month)!;
     lines.push(`## ${month}`);
     lines.push('');
 
-    for (const group of groups) {
-      lines.push(generateGroupMarkdown(group));
+    for (const group of byMonth.get(month)!) {
+      lines.push(generateGroupMarkdown(group, renderOptions));
     }
   }
 
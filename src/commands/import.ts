@@ -3,12 +3,98 @@
  */
 
 import chalk from 'chalk';
-import { resolve } from 'path';
-import type { ImportOptions, MasterData } from '../models/types.js';
-import { DEFAULT_EXTENSION_IDS, DEFAULT_PATHS } from '../models/types.js';
+import { join, resolve } from 'path';
+import { tmpdir } from 'os';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import type { BrowserProfile, ImportOptions, MasterData, OneTabLocation } from '../models/types.js';
+import { DEFAULT_PATHS, FIREFOX_EXTENSION_ID } from '../models/types.js';
 import { parseOneTabJson, mergeMasterData } from '../parsers/json.js';
 import { parseLevelDb } from '../parsers/leveldb.js';
-import { readJson, writeJson, exists, getDefaultLevelDbPath } from '../utils/files.js';
+import { findFirefoxOneTab, parseFirefoxStorage } from '../parsers/firefox.js';
+import { parseOneTabText } from '../parsers/text.js';
+import { loadMasterData } from '../parsers/master.js';
+import { readJson, readText, writeJson, exists } from '../utils/files.js';
+import {
+  CHROMIUM_BROWSERS,
+  discoverProfiles,
+  formatProfile,
+  getDefaultExtensionId,
+  getUserDataDirs,
+  matchesProfile,
+} from '../utils/browsers.js';
+import { findLatestSnapshot, snapshotLevelDb } from '../utils/leveldb-snapshot.js';
+import { isoToEpoch, parseFlexibleDate } from '../utils/dates.js';
+import { diffGroups } from '../utils/diff.js';
+import { refreshSearchIndex } from '../utils/search-index.js';
+import { collapseDuplicates, annotateDuplicates, DEDUPE_MODES, KEEP_CHOICES } from './dedupe.js';
+
+/**
+ * Pick the OneTab installation to import with --auto
+ *
+ * Candidates are narrowed by --browser and --browser-profile; of the rest, the
+ * most recently modified one wins.
+ */
+export async function selectAutoSource(
+  options: Pick<ImportOptions, 'browser' | 'browserProfile' | 'extensionId'>
+): Promise<{ profile: BrowserProfile; oneTab: OneTabLocation }> {
+  const profiles = await discoverProfiles(undefined, {
+    browsers: options.browser ? [options.browser] : undefined,
+    extensionIds: options.extensionId ? [options.extensionId] : undefined,
+  });
+
+  const installations = profiles
+    .filter((profile) => !options.browserProfile || matchesProfile(profile, options.browserProfile))
+    .filter((profile): profile is BrowserProfile & { oneTab: OneTabLocation } => profile.oneTab !== undefined)
+    .sort((a, b) => b.oneTab.lastModified.localeCompare(a.oneTab.lastModified));
+
+  if (installations.length === 0) {
+    const searched = (options.browser ? [options.browser] : CHROMIUM_BROWSERS)
+      .flatMap((browser) => getUserDataDirs(browser));
+    const selection = options.browserProfile ? ` in profile "${options.browserProfile}"` : '';
+    console.error(chalk.red(`❌ No OneTab installation found${selection} (${profiles.length} browser profile(s) checked)`));
+    console.log(chalk.yellow('\nSearched:'));
+    for (const dir of searched) {
+      console.log(chalk.gray(`   ${dir}`));
+    }
+    process.exit(1);
+  }
+
+  console.log(chalk.gray(`🔎 Found OneTab in ${installations.length} profile(s):`));
+  installations.forEach((installation, i) => {
+    const marker = i === 0 ? chalk.green('→') : ' ';
+    console.log(
+      `  ${marker} ` + chalk.white(formatProfile(installation)) +
+      chalk.gray(` (last used ${installation.oneTab.lastModified.substring(0, 10)})`)
+    );
+  });
+
+  if (installations.length > 1) {
+    console.log(chalk.gray('   Using the most recently used one; pick another with --browser and --browser-profile'));
+  }
+
+  const [selected] = installations;
+  return { profile: selected, oneTab: selected.oneTab };
+}
+
+/**
+ * Read a live browser LevelDB through a temporary snapshot
+ * (the browser holds the LOCK file and must not see our writes)
+ */
+async function parseLiveLevelDb(
+  sourcePath: string,
+  source: MasterData['source']
+): Promise<MasterData> {
+  const snapshotRoot = await mkdtemp(join(tmpdir(), 'onetab-leveldb-'));
+
+  try {
+    const snapshot = await snapshotLevelDb(sourcePath, snapshotRoot, {
+      onRetry: (attempt, reason) => console.log(chalk.yellow(`⚠️  Copy attempt ${attempt} failed: ${reason}, retrying`)),
+    });
+    return await parseLevelDb(snapshot.path, source);
+  } finally {
+    await rm(snapshotRoot, { recursive: true, force: true });
+  }
+}
 
 /**
  * Execute the import command
@@ -17,8 +103,23 @@ export async function importCommand(options: ImportOptions): Promise<void> {
   console.log(chalk.blue('🔄 OneTab Import'));
   console.log('');
 
-  const browser = options.browser ?? 'edge';
-  const extensionId = options.extensionId ?? DEFAULT_EXTENSION_IDS[browser];
+  if (options.browser && !CHROMIUM_BROWSERS.includes(options.browser)) {
+    console.error(chalk.red(`❌ Unknown browser: ${options.browser} (expected ${CHROMIUM_BROWSERS.join(', ')})`));
+    process.exit(1);
+  }
+
+  const dedupeModes = DEDUPE_MODES.filter((mode) => mode !== 'report');
+  if (options.dedupe !== undefined && !dedupeModes.includes(options.dedupe)) {
+    console.error(chalk.red(`❌ Invalid --dedupe: ${options.dedupe} (expected ${dedupeModes.join(', ')})`));
+    process.exit(1);
+  }
+  if (options.keep !== undefined && !KEEP_CHOICES.includes(options.keep)) {
+    console.error(chalk.red(`❌ Invalid --keep: ${options.keep} (expected ${KEEP_CHOICES.join(', ')})`));
+    process.exit(1);
+  }
+
+  let browser = options.browser ?? 'edge';
+  let extensionId = options.extensionId ?? getDefaultExtensionId(browser);
   const outputPath = resolve(options.output ?? DEFAULT_PATHS.masterJson);
 
   let masterData: MasterData;
@@ -44,14 +145,53 @@ export async function importCommand(options: ImportOptions): Promise<void> {
 
     console.log(chalk.green(`✅ Parsed ${masterData.stats.totalGroups} groups with ${masterData.stats.totalTabs} tabs`));
 
+  } else if (options.text) {
+    // Import from OneTab's "Export URLs" text dump
+    const textPath = resolve(options.text);
+
+    let dateEpoch: number | undefined;
+    if (options.date !== undefined) {
+      try {
+        dateEpoch = isoToEpoch(parseFlexibleDate(options.date));
+      } catch {
+        // Free-form dates throw; malformed ISO-like ones come back as NaN below
+        dateEpoch = NaN;
+      }
+      if (Number.isNaN(dateEpoch)) {
+        console.error(chalk.red(`❌ Invalid --date: ${options.date}`));
+        process.exit(1);
+      }
+    }
+
+    if (!(await exists(textPath))) {
+      console.error(chalk.red(`❌ Input file not found: ${textPath}`));
+      process.exit(1);
+    }
+
+    // The text format has no timestamps: anchor groups to --date or the file's mtime
+    const baseEpoch = dateEpoch ?? (await stat(textPath)).mtimeMs;
+
+    console.log(chalk.gray(`📂 Reading text export from: ${textPath}`));
+    console.log(chalk.gray(`📅 Using synthetic dates ending at: ${new Date(baseEpoch).toISOString()}`));
+    const content = await readText(textPath);
+
+    masterData = parseOneTabText(content, {
+      browser,
+      extensionId,
+      extractionMethod: 'text',
+    }, { baseEpoch: Math.floor(baseEpoch) });
+
+    console.log(chalk.green(`✅ Parsed ${masterData.stats.totalGroups} groups with ${masterData.stats.totalTabs} tabs`));
+
   } else if (options.leveldb) {
-    // Import from LevelDB copy
-    const leveldbPath = resolve(options.leveldb);
+    // Import from LevelDB copy (a folder of snapshots means its newest one)
+    const requestedPath = resolve(options.leveldb);
+    const leveldbPath = (await findLatestSnapshot(requestedPath)) ?? requestedPath;
 
     if (!(await exists(leveldbPath))) {
       console.error(chalk.red(`❌ LevelDB directory not found: ${leveldbPath}`));
-      console.log(chalk.yellow('\n💡 Tip: Run the copy-leveldb script first:'));
-      console.log(chalk.gray('   npm run copy-db'));
+      console.log(chalk.yellow('\n💡 Tip: Take a snapshot first:'));
+      console.log(chalk.gray('   onetab snapshot --auto'));
       process.exit(1);
     }
 
@@ -65,14 +205,67 @@ export async function importCommand(options: ImportOptions): Promise<void> {
 
     console.log(chalk.green(`✅ Parsed ${masterData.stats.totalGroups} groups with ${masterData.stats.totalTabs} tabs`));
 
+  } else if (options.firefox) {
+    // Import from Firefox's IndexedDB storage (a path, or discovered in the profiles)
+    const firefoxExtensionId = options.extensionId ?? FIREFOX_EXTENSION_ID;
+    let storagePath: string;
+
+    if (typeof options.firefox === 'string') {
+      storagePath = resolve(options.firefox);
+
+      if (!(await exists(storagePath))) {
+        console.error(chalk.red(`❌ Firefox storage not found: ${storagePath}`));
+        process.exit(1);
+      }
+    } else {
+      const locations = await findFirefoxOneTab(undefined, firefoxExtensionId);
+
+      if (locations.length === 0) {
+        console.error(chalk.red('❌ No OneTab installation found in Firefox profiles'));
+        console.log(chalk.yellow('\n💡 Tip: Pass the profile directory explicitly:'));
+        console.log(chalk.gray('   onetab import --firefox <profile-dir>'));
+        process.exit(1);
+      }
+
+      console.log(chalk.gray(`🔎 Found OneTab in ${locations.length} Firefox database(s), using: ${locations[0].profile.name}`));
+      storagePath = locations[0].databasePath;
+    }
+
+    console.log(chalk.gray(`📂 Reading Firefox storage from: ${storagePath}`));
+
+    masterData = await parseFirefoxStorage(storagePath, {
+      browser: 'firefox',
+      extensionId: firefoxExtensionId,
+      extractionMethod: 'indexeddb',
+    });
+
+    console.log(chalk.green(`✅ Parsed ${masterData.stats.totalGroups} groups with ${masterData.stats.totalTabs} tabs`));
+
+  } else if (options.auto) {
+    // Discover the browser profile and read its live LevelDB through a copy
+    const { profile, oneTab } = await selectAutoSource(options);
+    browser = profile.browser;
+    extensionId = oneTab.extensionId;
+
+    console.log(chalk.gray(`📂 Reading LevelDB from: ${oneTab.path}`));
+
+    masterData = await parseLiveLevelDb(oneTab.path, {
+      browser,
+      extensionId,
+      extractionMethod: 'leveldb',
+    });
+
+    console.log(chalk.green(`✅ Parsed ${masterData.stats.totalGroups} groups with ${masterData.stats.totalTabs} tabs`));
+
   } else {
     // Try default LevelDB copy location
     const defaultCopyPath = resolve(DEFAULT_PATHS.leveldbCopy);
+    const latestCopyPath = await findLatestSnapshot(defaultCopyPath);
 
-    if (await exists(defaultCopyPath)) {
-      console.log(chalk.gray(`📂 Using default LevelDB copy: ${defaultCopyPath}`));
+    if (latestCopyPath) {
+      console.log(chalk.gray(`📂 Using default LevelDB copy: ${latestCopyPath}`));
 
-      masterData = await parseLevelDb(defaultCopyPath, {
+      masterData = await parseLevelDb(latestCopyPath, {
         browser,
         extensionId,
         extractionMethod: 'leveldb',
@@ -90,17 +283,33 @@ export async function importCommand(options: ImportOptions): Promise<void> {
       console.log(chalk.white('     onetab import --input onetab-export.json'));
       console.log('');
       console.log(chalk.gray('  2. LevelDB copy:'));
-      console.log(chalk.white('     npm run copy-db'));
-      console.log(chalk.white('     onetab import --leveldb ./leveldb-copy'));
+      console.log(chalk.white('     onetab snapshot <leveldb-dir>   (or: npm run copy-db)'));
+      console.log(chalk.white('     onetab import --leveldb ./leveldb-copy/<snapshot>'));
+      console.log('');
+      console.log(chalk.gray('  3. OneTab "Export URLs" text:'));
+      console.log(chalk.white('     onetab import --text onetab-urls.txt --date 2024-06-01'));
+      console.log('');
+      console.log(chalk.gray('  4. Browser profile discovery (Chrome, Edge, Chromium, Brave, Vivaldi):'));
+      console.log(chalk.white('     onetab import --auto'));
+      console.log(chalk.white('     onetab import --auto --browser chrome --browser-profile "Profile 1"'));
+      console.log('');
+      console.log(chalk.gray('  5. Firefox profile (or its OneTab IndexedDB file):'));
+      console.log(chalk.white('     onetab import --firefox'));
+      console.log(chalk.white('     onetab import --firefox ~/.mozilla/firefox/<profile>'));
       console.log('');
-      console.log(chalk.gray('  3. Or place LevelDB copy at default location:'));
+      console.log(chalk.gray('  6. Or snapshot it to the default location (newest snapshot is used):'));
+      console.log(chalk.white('     onetab snapshot --auto'));
       console.log(chalk.white(`     ${defaultCopyPath}`));
       console.log('');
 
-      // Show browser LevelDB paths for reference
-      console.log(chalk.yellow('Browser LevelDB locations:'));
-      console.log(chalk.gray('  Edge:   ' + getDefaultLevelDbPath('edge', DEFAULT_EXTENSION_IDS.edge)));
-      console.log(chalk.gray('  Chrome: ' + getDefaultLevelDbPath('chrome', DEFAULT_EXTENSION_IDS.chrome)));
+      // Show discovered OneTab locations for reference
+      const installations = (await discoverProfiles()).filter((profile) => profile.oneTab);
+      if (installations.length > 0) {
+        console.log(chalk.yellow('OneTab LevelDB locations found:'));
+        for (const installation of installations) {
+          console.log(chalk.gray(`  ${formatProfile(installation)}: ${installation.oneTab!.path}`));
+        }
+      }
 
       process.exit(1);
     }
@@ -109,23 +318,44 @@ export async function importCommand(options: ImportOptions): Promise<void> {
   // Check for existing master data to merge
   if (await exists(outputPath)) {
     console.log(chalk.gray(`📂 Found existing master data, merging...`));
-    const existingData = await readJson<MasterData>(outputPath);
-    const previousCount = existingData.stats.totalGroups;
+    const existingData = await loadMasterData(outputPath);
+    const { addedGroups, changedGroups } = diffGroups(existingData.groups, masterData.groups);
 
     masterData = mergeMasterData(existingData, masterData);
 
-    const newGroups = masterData.stats.totalGroups - previousCount;
-    if (newGroups > 0) {
-      console.log(chalk.green(`✅ Added ${newGroups} new groups`));
+    if (addedGroups.length > 0) {
+      console.log(chalk.green(`✅ Added ${addedGroups.length} new groups`));
     } else {
       console.log(chalk.gray('ℹ️  No new groups to add'));
     }
+
+    if (changedGroups.length > 0) {
+      const removedTabs = changedGroups.reduce((sum, c) => sum + c.removedTabs.length, 0);
+      console.log(chalk.green(`✅ Updated ${changedGroups.length} changed groups (${removedTabs} tabs removed)`));
+    }
+  }
+
+  // Deduplicate URLs across groups if requested
+  if (options.dedupe) {
+    const previousTabs = masterData.stats.totalTabs;
+
+    if (options.dedupe === 'collapse') {
+      masterData = collapseDuplicates(masterData, options.keep ?? 'first');
+      console.log(chalk.green(`🧹 Collapsed ${previousTabs - masterData.stats.totalTabs} duplicate tabs`));
+    } else {
+      masterData = annotateDuplicates(masterData);
+      console.log(chalk.green('🧹 Annotated duplicate tabs with occurrence counts'));
+    }
   }
 
   // Save master data
   await writeJson(outputPath, masterData);
   console.log(chalk.green(`💾 Saved to: ${outputPath}`));
 
+  // Keep the search index in sync (only changed groups are re-indexed)
+  const indexUpdate = await refreshSearchIndex(outputPath, masterData);
+  console.log(chalk.gray(`🗂️  Search index: ${indexUpdate.indexed} groups indexed, ${indexUpdate.removed} removed`));
+
   // Print summary
   console.log('');
   console.log(chalk.blue('📊 Summary:'));
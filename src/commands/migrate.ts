@@ -0,0 +1,61 @@
+/**
+ * Migrate Command - Upgrade master.json to the current schema version
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import { copyFile } from 'fs/promises';
+import type { MigrateOptions } from '../models/types.js';
+import { DEFAULT_PATHS, SCHEMA_VERSION } from '../models/types.js';
+import { migrateMasterData } from '../parsers/master.js';
+import { readJson, writeJson, exists } from '../utils/files.js';
+
+/**
+ * Execute the migrate command
+ */
+export async function migrateCommand(options: MigrateOptions): Promise<void> {
+  console.log(chalk.blue('🔧 OneTab Schema Migration'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+
+  if (!(await exists(inputPath))) {
+    console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.gray(`📂 Loading from: ${inputPath}`));
+  const raw = await readJson<unknown>(inputPath);
+
+  // Throws for newer versions and for data that fails validation
+  const { data, fromVersion, applied } = migrateMasterData(raw);
+
+  console.log(chalk.gray(`   Stored version:  ${fromVersion}`));
+  console.log(chalk.gray(`   Current version: ${SCHEMA_VERSION}`));
+  console.log('');
+
+  if (applied.length === 0) {
+    console.log(chalk.green('✅ Already up to date'));
+    return;
+  }
+
+  console.log(chalk.blue('📋 Migration steps:'));
+  for (const step of applied) {
+    console.log(chalk.white(`   ${step.from} → ${step.to}`) + chalk.gray(`  ${step.description}`));
+  }
+  console.log('');
+  console.log(chalk.green(`✅ Result validates against schema ${SCHEMA_VERSION}`));
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('⚠️  Dry run: nothing written'));
+    return;
+  }
+
+  // Keep the original file next to the upgraded one
+  const backupPath = `${inputPath}.v${fromVersion}.bak`;
+  await copyFile(inputPath, backupPath);
+  console.log(chalk.gray(`📦 Backup: ${backupPath}`));
+
+  await writeJson(inputPath, data);
+  console.log(chalk.green(`💾 Saved to: ${inputPath}`));
+}
@@ -0,0 +1,180 @@
+/**
+ * Recover History Command - Restore deleted groups from old LevelDB versions
+ *
+ * OneTab rewrites the whole `state` key on every change. Until LevelDB
+ * compacts them away, the previous versions stay in the `.log` and
+ * `.ldb` files, including groups the user has since deleted. This
+ * command reads every version it can find and merges the union of
+ * their groups into the master data.
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { MasterData, OneTabGroup, RecoverHistoryOptions } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { parseOneTabJson, validateOneTabExport, mergeMasterData } from '../parsers/json.js';
+import { loadMasterData } from '../parsers/master.js';
+import { exists, writeJson } from '../utils/files.js';
+import { CHROMIUM_BROWSERS, getDefaultExtensionId } from '../utils/browsers.js';
+import { recoverLevelDb } from '../utils/leveldb-reader.js';
+import type { LevelDbEntry } from '../utils/leveldb-reader.js';
+import { findLatestSnapshot } from '../utils/leveldb-snapshot.js';
+import { refreshSearchIndex } from '../utils/search-index.js';
+
+/**
+ * Storage key holding OneTab's tab list
+ */
+const STATE_KEY = 'state';
+
+/**
+ * A `state` version that passed validation
+ */
+interface StateVersion {
+  entry: LevelDbEntry;
+  groups: OneTabGroup[];
+}
+
+/**
+ * Validate each distinct `state` value, reporting the ones that fail
+ */
+function validateVersions(entries: LevelDbEntry[]): StateVersion[] {
+  const seen = new Set<string>();
+  const versions: StateVersion[] = [];
+
+  for (const entry of entries) {
+    if (entry.value === undefined || seen.has(entry.value)) continue;
+    seen.add(entry.value);
+
+    const label = `seq ${entry.sequence} (${entry.file})`;
+
+    try {
+      let state: unknown;
+      try {
+        state = JSON.parse(entry.value);
+      } catch {
+        state = entry.value;
+      }
+
+      const groups = validateOneTabExport({ [STATE_KEY]: state });
+      const tabs = groups.reduce((sum, g) => sum + g.tabsMeta.length, 0);
+      versions.push({ entry, groups });
+      console.log(chalk.white(`   ${label}`) + chalk.gray(`  ${groups.length} groups, ${tabs} tabs`));
+    } catch (error) {
+      console.log(chalk.yellow(`   ${label}`) + chalk.gray(`  skipped: ${(error as Error).message}`));
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * Execute the recover-history command
+ */
+export async function recoverHistoryCommand(
+  leveldbPath: string,
+  options: RecoverHistoryOptions
+): Promise<void> {
+  console.log(chalk.blue('🕰️  OneTab History Recovery'));
+  console.log('');
+
+  if (options.browser && !CHROMIUM_BROWSERS.includes(options.browser)) {
+    console.error(chalk.red(`❌ Unknown browser: ${options.browser} (expected ${CHROMIUM_BROWSERS.join(', ')})`));
+    process.exit(1);
+  }
+
+  // A folder of snapshots means its newest one
+  const requestedPath = resolve(leveldbPath);
+  const sourcePath = (await findLatestSnapshot(requestedPath)) ?? requestedPath;
+  const outputPath = resolve(options.output ?? DEFAULT_PATHS.masterJson);
+
+  if (!(await exists(sourcePath))) {
+    console.error(chalk.red(`❌ LevelDB directory not found: ${sourcePath}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.gray(`📂 Reading LevelDB files in: ${sourcePath}`));
+  const recovered = await recoverLevelDb(sourcePath);
+
+  if (recovered.errors.length > 0) {
+    console.log(chalk.yellow(`⚠️  ${recovered.errors.length} damaged parts skipped (see: onetab debug recover)`));
+  }
+
+  const entries = recovered.versions.get(STATE_KEY) ?? [];
+  console.log(chalk.gray(`🔍 Found ${entries.length} versions of "${STATE_KEY}" in ${recovered.files.length} files:`));
+
+  const versions = validateVersions(entries);
+
+  if (versions.length === 0) {
+    console.error(chalk.red(`❌ No valid "${STATE_KEY}" version found`));
+    process.exit(1);
+  }
+
+  // Union of groups, oldest version first so newer versions win
+  const groupsById = new Map<string, { group: OneTabGroup; sequence: number }>();
+  for (const { entry, groups } of versions) {
+    for (const group of groups) {
+      groupsById.set(group.id, { group, sequence: entry.sequence });
+    }
+  }
+
+  // Groups missing from the newest version were deleted in OneTab
+  const newest = versions[versions.length - 1];
+  const currentIds = new Set(newest.groups.map((g) => g.id));
+  const sequenceById = new Map(Array.from(groupsById, ([id, { sequence }]) => [id, sequence]));
+
+  const browser = options.browser ?? 'edge';
+  let masterData: MasterData = parseOneTabJson(
+    { [STATE_KEY]: { tabGroups: Array.from(groupsById.values(), ({ group }) => group) } },
+    { browser, extensionId: getDefaultExtensionId(browser), extractionMethod: 'leveldb' }
+  );
+
+  masterData = {
+    ...masterData,
+    groups: masterData.groups.map((group) => currentIds.has(group.id)
+      ? group
+      : { ...group, recoveredFromSequence: sequenceById.get(group.id)! }),
+  };
+
+  const existing = (await exists(outputPath)) ? await loadMasterData(outputPath) : undefined;
+  const existingIds = new Set(existing?.groups.map((g) => g.id) ?? []);
+
+  // A stored group is never replaced by an older recovered version of itself
+  const incomingGroups = masterData.groups.filter(
+    (group) => group.recoveredFromSequence === undefined || !existingIds.has(group.id)
+  );
+  const recoveredGroups = incomingGroups.filter((group) => group.recoveredFromSequence !== undefined);
+
+  console.log('');
+  console.log(chalk.blue('📊 Recovery:'));
+  console.log(chalk.gray(`   Valid versions:   ${versions.length} (newest: seq ${newest.entry.sequence})`));
+  console.log(chalk.gray(`   Current groups:   ${currentIds.size}`));
+  console.log(chalk.green(`   Recovered groups: ${recoveredGroups.length}`) +
+    chalk.gray(` (${recoveredGroups.reduce((sum, g) => sum + g.tabCount, 0)} tabs)`));
+
+  for (const group of recoveredGroups.slice(0, 10)) {
+    const name = group.title || group.tabs[0]?.title || group.id;
+    console.log(chalk.gray(`     ${group.createdAt.substring(0, 10)}  seq ${group.recoveredFromSequence}  ${name}`));
+  }
+  if (recoveredGroups.length > 10) {
+    console.log(chalk.gray(`     ... and ${recoveredGroups.length - 10} more`));
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\n⚠️  Dry run: nothing written'));
+    return;
+  }
+
+  const incoming: MasterData = {
+    ...masterData,
+    // Keep the stored source: the recovered data comes from the same browser
+    source: existing?.source ?? masterData.source,
+    groups: incomingGroups,
+  };
+  const merged = existing ? mergeMasterData(existing, incoming) : incoming;
+
+  await writeJson(outputPath, merged);
+  console.log(chalk.green(`\n💾 Saved to: ${outputPath}`));
+
+  const indexUpdate = await refreshSearchIndex(outputPath, merged);
+  console.log(chalk.gray(`🗂️  Search index: ${indexUpdate.indexed} groups indexed, ${indexUpdate.removed} removed`));
+}
@@ -5,108 +5,266 @@
 import chalk from 'chalk';
 import { resolve } from 'path';
 import type {
+  Exporter,
   SearchOptions,
   MasterData,
   SearchResult,
   SearchResults,
-  Tab,
+  QueryNode,
+  DomainCount,
+  TabGroup,
 } from '../models/types.js';
 import { DEFAULT_PATHS } from '../models/types.js';
-import { readJson, writeJson, writeText, exists } from '../utils/files.js';
+import { loadMasterData } from '../parsers/master.js';
+import { evaluateQuery, formatQuery, getPositiveWords, parseQuery } from '../parsers/query.js';
+import type { QueryContext, QueryMatches } from '../parsers/query.js';
+import { writeText, exists } from '../utils/files.js';
 import { isDateInRange, parseFlexibleDate } from '../utils/dates.js';
+import { formatTags, normalizeTag, parseTag } from '../utils/tags.js';
+import { describeLinkCheck, isDeadLink } from '../utils/link-check.js';
+import { queryIndex, refreshSearchIndex, tokenize } from '../utils/search-index.js';
+import type { IndexHit, SearchIndex } from '../utils/search-index.js';
+import { createContentMatcher, getContentStorePath, loadContentIndex } from '../utils/content-store.js';
+import { getExporter, listExporterNames } from '../exporters/registry.js';
 
 /**
- * Check if a tab matches the search criteria
+ * Build the query AST for the search options
+ *
+ * The `--query` string is parsed with the query language; the legacy
+ * flags are shorthands that are ANDed onto it:
+ * `--title-pattern` = `title:/re/`, `--url-pattern` = `url:/re/`,
+ * `--domain` = `domain:d`, `--tag` = `tag:t`.
+ *
+ * @returns The AST, or undefined when no text criteria are set
+ * @throws Error if the query (or a pattern or tag) cannot be parsed
  */
-function matchesTab(
-  tab: Tab,
-  options: SearchOptions
-): { matches: boolean; inTitle: boolean; inUrl: boolean; inDomain: boolean } {
-  let inTitle = false;
-  let inUrl = false;
-  let inDomain = false;
-
-  // General query search
-  if (options.query) {
-    const query = options.query.toLowerCase();
-    inTitle = tab.title.toLowerCase().includes(query);
-    inUrl = tab.url.toLowerCase().includes(query);
-    inDomain = tab.domain.toLowerCase().includes(query);
-  }
+export function buildSearchQuery(options: SearchOptions): QueryNode | undefined {
+  const children: QueryNode[] = [];
 
-  // Title pattern (regex)
-  if (options.titlePattern) {
-    try {
-      const regex = new RegExp(options.titlePattern, 'i');
-      inTitle = inTitle || regex.test(tab.title);
-    } catch {
-      console.warn(chalk.yellow(`⚠️  Invalid title regex: ${options.titlePattern}`));
-    }
+  if (options.query) children.push(parseQuery(options.query));
+  if (options.titlePattern) children.push(patternNode('title', options.titlePattern));
+  if (options.urlPattern) children.push(patternNode('url', options.urlPattern));
+  if (options.domain) {
+    children.push({ type: 'term', field: 'domain', value: options.domain, match: 'word' });
   }
-
-  // URL pattern (regex)
-  if (options.urlPattern) {
-    try {
-      const regex = new RegExp(options.urlPattern, 'i');
-      inUrl = inUrl || regex.test(tab.url);
-    } catch {
-      console.warn(chalk.yellow(`⚠️  Invalid URL regex: ${options.urlPattern}`));
-    }
+  if (options.tag) {
+    children.push({ type: 'term', field: 'tag', value: parseTag(options.tag), match: 'word' });
   }
 
-  // Domain filter (exact or partial match)
-  if (options.domain) {
-    const domain = options.domain.toLowerCase();
-    inDomain = inDomain || tab.domain.toLowerCase().includes(domain);
+  if (children.length === 0) return undefined;
+  return children.length === 1 ? children[0] : { type: 'and', children };
+}
+
+/**
+ * Build a regex term for a legacy pattern flag
+ */
+function patternNode(field: 'title' | 'url', pattern: string): QueryNode {
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid ${field} regex /${pattern}/: ${(error as Error).message}`);
   }
+  return { type: 'term', field, value: pattern, match: 'regex' };
+}
 
-  const matches = inTitle || inUrl || inDomain;
-  return { matches, inTitle, inUrl, inDomain };
+/**
+ * Narrow a query down to the tabs it can match, from the index hits of
+ * its bare words (keys are "groupId\ttabId")
+ *
+ * @param wordHits - Index hits per bare word
+ * @param withContent - Whether bare words may also match captured page
+ *                      text (outside the index), so hits don't bound them
+ * @returns The candidate keys, or null when any tab may match
+ */
+function findCandidates(
+  node: QueryNode,
+  wordHits: Map<string, Map<string, IndexHit>>,
+  withContent: boolean
+): Set<string> | null {
+  switch (node.type) {
+    case 'term': {
+      const hits = node.field === 'any' && node.match === 'word' && !withContent
+        ? wordHits.get(node.value)
+        : undefined;
+      return hits ? new Set(hits.keys()) : null;
+    }
+    case 'and': {
+      // A tab must be a candidate of every bounded child
+      const bounded = node.children
+        .map((child) => findCandidates(child, wordHits, withContent))
+        .filter((childCandidates) => childCandidates !== null);
+      if (bounded.length === 0) return null;
+      return bounded.reduce((candidates, childCandidates) =>
+        new Set([...candidates].filter((key) => childCandidates.has(key))));
+    }
+    case 'or': {
+      // Any unbounded alternative lets every tab through
+      const candidates = new Set<string>();
+      for (const child of node.children) {
+        const childCandidates = findCandidates(child, wordHits, withContent);
+        if (childCandidates === null) return null;
+        for (const key of childCandidates) candidates.add(key);
+      }
+      return candidates;
+    }
+    default:
+      return null;
+  }
 }
 
 /**
  * Search through all groups and tabs
+ *
+ * With a search index, bare query words are looked up in the index
+ * (prefix matches, see `queryIndex`), every result gets a `score` (the
+ * sum of its bare-word scores) and results come back best first. Only
+ * the tabs the index found for the words every match needs are checked.
+ * Without one, bare words match by the same rule (see `matchTabWord`),
+ * negated words always do, and results keep storage order.
+ *
+ * With `inContent` and a content matcher, bare words and phrases that
+ * match no other field are looked up in the tab's captured page text.
+ * Content hits add nothing to the score.
+ *
+ * @param matchContent - Lookup from `createContentMatcher`
+ * @throws Error if the query cannot be parsed
  */
-function searchData(
+export function searchData(
   masterData: MasterData,
-  options: SearchOptions
+  options: SearchOptions,
+  index?: SearchIndex,
+  matchContent?: (hash: string, text: string) => boolean
 ): SearchResult[] {
   const results: SearchResult[] = [];
+  const query = buildSearchQuery(options);
+
+  // Rank bare words once up front (words without indexable tokens fall back to substrings)
+  const wordHits = new Map<string, Map<string, IndexHit>>();
+  if (index && query) {
+    for (const word of getPositiveWords(query)) {
+      if (wordHits.has(word) || tokenize(word, 1).length === 0) continue;
+      wordHits.set(
+        word,
+        new Map(queryIndex(index, word).map((hit) => [`${hit.groupId}\t${hit.tabId}`, hit]))
+      );
+    }
+  }
+  const ranked = wordHits.size > 0;
+
+  // Only tabs the index found for the required words need evaluating
+  const candidates = query && ranked
+    ? findCandidates(query, wordHits, Boolean(options.inContent && matchContent))
+    : null;
+  const candidateTabs = new Map<string, Set<string>>();
+  for (const key of candidates ?? []) {
+    const separator = key.indexOf('\t');
+    const groupId = key.substring(0, separator);
+    const tabIds = candidateTabs.get(groupId) ?? new Set<string>();
+    tabIds.add(key.substring(separator + 1));
+    candidateTabs.set(groupId, tabIds);
+  }
 
   // Parse date filters
   const fromDate = options.from ? parseFlexibleDate(options.from) : undefined;
   const toDate = options.to ? parseFlexibleDate(options.to, true) : undefined;
 
   for (const group of masterData.groups) {
+    const groupCandidates = candidates ? candidateTabs.get(group.id) : undefined;
+    if (candidates && !groupCandidates) continue;
+
     // Check date range filter
     if (!isDateInRange(group.createdAt, fromDate, toDate)) {
       continue;
     }
 
     for (const tab of group.tabs) {
-      const match = matchesTab(tab, options);
+      if (groupCandidates && !groupCandidates.has(tab.id)) continue;
+      if (options.excludeDead && isDeadLink(tab.linkCheck)) continue;
+
+      const key = `${group.id}\t${tab.id}`;
+      const matches: QueryMatches = {
+        inTitle: false,
+        inUrl: false,
+        inDomain: false,
+        inMetadata: false,
+        inContent: false,
+      };
+      const captureHash = options.inContent ? tab.capture?.hash : undefined;
 
-      if (match.matches) {
-        results.push({
+      // With only date filters given, every tab in range matches
+      if (query) {
+        const context: QueryContext = {
           tab,
-          group: {
-            id: group.id,
-            createdAt: group.createdAt,
-            title: group.title,
+          group,
+          matchWord: (word) => {
+            const hits = wordHits.get(word);
+            if (!hits) return undefined;
+            return hits.get(key) ?? false;
           },
-          matches: {
-            inTitle: match.inTitle,
-            inUrl: match.inUrl,
-            inDomain: match.inDomain,
-          },
-        });
+          ...(matchContent && captureHash !== undefined
+            ? { matchContent: (text: string) => matchContent(captureHash, text) }
+            : {}),
+        };
+        if (!evaluateQuery(query, context, matches)) continue;
+      }
+
+      let score = 0;
+      for (const hits of wordHits.values()) {
+        score += hits.get(key)?.score ?? 0;
       }
+
+      results.push({
+        tab,
+        group: {
+          id: group.id,
+          createdAt: group.createdAt,
+          title: group.title,
+        },
+        matches,
+        ...(ranked ? { score: Math.round(score * 1000) / 1000 } : {}),
+      });
     }
   }
 
+  if (ranked) {
+    results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  }
+
   return results;
 }
 
+/**
+ * Format a single search result as console lines
+ */
+function formatResultLines(result: SearchResult, showDate: boolean): string[] {
+  const matchInfo: string[] = [];
+  if (result.matches.inTitle) matchInfo.push('title');
+  if (result.matches.inUrl) matchInfo.push('url');
+  if (result.matches.inDomain) matchInfo.push('domain');
+  if (result.matches.inMetadata) matchInfo.push('metadata');
+  if (result.matches.inContent) matchInfo.push('page text');
+
+  const tags = result.tab.tags?.length
+    ? chalk.magenta(` ${formatTags(result.tab.tags)}`)
+    : '';
+  const score = result.score !== undefined ? chalk.yellow(`${result.score.toFixed(2).padStart(6)} `) : '';
+  const date = showDate ? chalk.blue(` ${result.group.createdAt.substring(0, 10)}`) : '';
+  const dead = isDeadLink(result.tab.linkCheck)
+    ? chalk.red(` ✗ dead (${describeLinkCheck(result.tab.linkCheck!)})`)
+    : '';
+
+  return [
+    `  ${score}` +
+    chalk.white(`• ${result.tab.title}`) +
+    chalk.gray(` [${result.tab.domain}]`) +
+    date +
+    tags +
+    dead +
+    (matchInfo.length > 0 ? chalk.dim(` (${matchInfo.join(', ')})`) : ''),
+    chalk.gray(`    ${result.score !== undefined ? '       ' : ''}${result.tab.url}`),
+  ];
+}
+
 /**
  * Format search results for console output
  */
@@ -117,6 +275,14 @@ function formatResultsForConsole(results: SearchResult[]): string {
 
   const lines: string[] = [];
 
+  // Ranked results keep their relevance order
+  if (results[0].score !== undefined) {
+    for (const result of results) {
+      lines.push(...formatResultLines(result, true));
+    }
+    return lines.join('\n');
+  }
+
   // Group results by date for display
   const byDate = new Map<string, SearchResult[]>();
 
@@ -134,17 +300,7 @@ function formatResultsForConsole(results: SearchResult[]): string {
     lines.push(chalk.blue(`\n📅 ${date}`));
 
     for (const result of dateResults) {
-      const matchInfo: string[] = [];
-      if (result.matches.inTitle) matchInfo.push('title');
-      if (result.matches.inUrl) matchInfo.push('url');
-      if (result.matches.inDomain) matchInfo.push('domain');
-
-      lines.push(
-        chalk.white(`  • ${result.tab.title}`) +
-        chalk.gray(` [${result.tab.domain}]`) +
-        chalk.dim(` (${matchInfo.join(', ')})`)
-      );
-      lines.push(chalk.gray(`    ${result.tab.url}`));
+      lines.push(...formatResultLines(result, false));
     }
   }
 
@@ -152,50 +308,43 @@ function formatResultsForConsole(results: SearchResult[]): string {
 }
 
 /**
- * Format search results as Markdown
+ * Collect search results into their groups, narrowed to the matching
+ * tabs, in result order
  */
-function formatResultsAsMarkdown(
-  results: SearchResult[],
-  query: string
-): string {
-  const lines: string[] = [];
-
-  lines.push('---');
-  lines.push(`query: "${query}"`);
-  lines.push(`results: ${results.length}`);
-  lines.push(`generated: "${new Date().toISOString()}"`);
-  lines.push('---');
-  lines.push('');
-  lines.push(`# Search Results: "${query}"`);
-  lines.push('');
-  lines.push(`> Found **${results.length}** matching links`);
-  lines.push('');
-
-  // Group by date
-  const byDate = new Map<string, SearchResult[]>();
+function groupResults(masterData: MasterData, results: SearchResult[]): TabGroup[] {
+  const groupsById = new Map(masterData.groups.map((group) => [group.id, group]));
+  const matched = new Map<string, TabGroup>();
 
   for (const result of results) {
-    const date = result.group.createdAt.substring(0, 10);
-    const existing = byDate.get(date) ?? [];
-    existing.push(result);
-    byDate.set(date, existing);
+    const group = matched.get(result.group.id) ?? { ...groupsById.get(result.group.id)!, tabs: [] };
+    group.tabs.push(result.tab);
+    group.tabCount = group.tabs.length;
+    matched.set(result.group.id, group);
   }
 
-  const sortedDates = Array.from(byDate.keys()).sort().reverse();
-
-  for (const date of sortedDates) {
-    const dateResults = byDate.get(date)!;
-    lines.push(`## ${date}`);
-    lines.push('');
-
-    for (const result of dateResults) {
-      lines.push(`- [${result.tab.title}](${result.tab.url})`);
-    }
+  return Array.from(matched.values());
+}
 
-    lines.push('');
+/**
+ * Render search results through an exporter: its own results document,
+ * else the matching groups as `export` would write them in one file
+ */
+function renderSearchOutput(
+  exporter: Exporter,
+  masterData: MasterData,
+  searchResults: SearchResults,
+  options: SearchOptions
+): string {
+  if (exporter.renderSearchResults) {
+    return exporter.renderSearchResults(searchResults, options);
   }
 
-  return lines.join('\n');
+  const groups = groupResults(masterData, searchResults.results);
+  if (exporter.singleFile && exporter.renderFiles) {
+    const [file] = exporter.renderFiles(groups, 'month', options);
+    return file.content;
+  }
+  return (exporter.header?.(options) ?? '') + groups.map((group) => exporter.renderGroup(group, options)).join('');
 }
 
 /**
@@ -214,6 +363,7 @@ export async function searchCommand(options: SearchOptions): Promise<void> {
   if (options.urlPattern) queryParts.push(`URL: /${options.urlPattern}/`);
   if (options.titlePattern) queryParts.push(`title: /${options.titlePattern}/`);
   if (options.domain) queryParts.push(`domain: ${options.domain}`);
+  if (options.tag) queryParts.push(`tag: #${normalizeTag(options.tag)}`);
   if (options.from) queryParts.push(`from: ${options.from}`);
   if (options.to) queryParts.push(`to: ${options.to}`);
 
@@ -221,14 +371,36 @@ export async function searchCommand(options: SearchOptions): Promise<void> {
     console.error(chalk.red('❌ No search criteria specified'));
     console.log(chalk.yellow('\nExamples:'));
     console.log(chalk.gray('  onetab search --query "github"'));
-    console.log(chalk.gray('  onetab search --domain "stackoverflow.com"'));
-    console.log(chalk.gray('  onetab search --url-pattern "youtube\\.com/watch"'));
-    console.log(chalk.gray('  onetab search --query "react" --from 2025-01'));
+    console.log(chalk.gray('  onetab search --query \'title:"react hooks" -domain:gist.github.com\''));
+    console.log(chalk.gray('  onetab search --query "(rust OR go) tag:work after:2023-01"'));
+    console.log(chalk.gray('  onetab search --query "url:/youtube\\.com\\/watch/ is:starred"'));
+    console.log(chalk.gray('  onetab search --domain "stackoverflow.com" --from 2025-01'));
     process.exit(1);
   }
 
   console.log(chalk.gray(`Search: ${queryParts.join(', ')}`));
 
+  // Parse before touching any files, so syntax errors are reported right away
+  let query: QueryNode | undefined;
+  try {
+    query = buildSearchQuery(options);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  if (query && options.query) {
+    console.log(chalk.gray(`Parsed: ${formatQuery(query)}`));
+  }
+
+  // Anything but console output goes through an exporter
+  const exporter = format === 'console' ? undefined : getExporter(format);
+  if (format !== 'console' && !exporter) {
+    console.error(chalk.red(`❌ Unknown format: ${format}`));
+    console.log(chalk.gray(`   Available: ${['console', ...listExporterNames()].join(', ')}`));
+    process.exit(1);
+  }
+
   // Check input exists
   if (!(await exists(inputPath))) {
     console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
@@ -237,41 +409,68 @@ export async function searchCommand(options: SearchOptions): Promise<void> {
     process.exit(1);
   }
 
-  // Load and search
-  const masterData = await readJson<MasterData>(inputPath);
-  const results = searchData(masterData, options);
+  // Load and search (the index is refreshed incrementally if master data changed)
+  const masterData = await loadMasterData(inputPath);
+  let index: SearchIndex | undefined;
+
+  if (query && getPositiveWords(query).length > 0 && options.index !== false) {
+    const update = await refreshSearchIndex(inputPath, masterData);
+    if (update.indexed > 0 || update.removed > 0) {
+      console.log(chalk.gray(`🗂️  Search index updated (${update.indexed} groups indexed, ${update.removed} removed)`));
+    }
+    index = update.index;
+  }
+
+  let matchContent: ((hash: string, text: string) => boolean) | undefined;
+  if (options.inContent) {
+    const contentIndex = await loadContentIndex(getContentStorePath(inputPath));
+    if (contentIndex.documents.length === 0) {
+      console.log(chalk.yellow('⚠️  No captured pages to search: run capture first'));
+    }
+    matchContent = createContentMatcher(contentIndex);
+  }
+
+  const results = searchData(masterData, options, index, matchContent);
 
   console.log(chalk.green(`✅ Found ${results.length} matches`));
   console.log('');
 
   // Output based on format
-  const queryStr = options.query ?? options.domain ?? options.urlPattern ?? 'search';
-
-  switch (format) {
-    case 'console':
-      console.log(formatResultsForConsole(results));
-      break;
-
-    case 'json': {
-      const searchResults: SearchResults = {
-        query: queryStr,
-        totalResults: results.length,
-        results,
-      };
-      const outputPath = `search-results-${Date.now()}.json`;
-      await writeJson(outputPath, searchResults);
-      console.log(chalk.green(`💾 Saved to: ${outputPath}`));
-      break;
-    }
+  const queryStr = options.query ?? options.domain ?? options.urlPattern ??
+    (options.tag ? `#${normalizeTag(options.tag)}` : 'search');
+
+  if (!exporter) {
+    console.log(formatResultsForConsole(results));
+    return;
+  }
 
-    case 'markdown': {
-      const markdown = formatResultsAsMarkdown(results, queryStr);
-      const outputPath = `search-results-${Date.now()}.md`;
-      await writeText(outputPath, markdown);
-      console.log(chalk.green(`💾 Saved to: ${outputPath}`));
-      break;
+  const searchResults: SearchResults = {
+    query: queryStr,
+    totalResults: results.length,
+    results,
+  };
+  const content = renderSearchOutput(exporter, masterData, searchResults, options);
+  const outputPath = `search-results-${Date.now()}${exporter.extension}`;
+  await writeText(outputPath, content);
+  console.log(chalk.green(`💾 Saved to: ${outputPath}`));
+}
+
+/**
+ * Count tabs per domain, most frequent first
+ */
+export function countDomains(masterData: Pick<MasterData, 'groups'>): DomainCount[] {
+  const domainCounts = new Map<string, number>();
+
+  for (const group of masterData.groups) {
+    for (const tab of group.tabs) {
+      const count = domainCounts.get(tab.domain) ?? 0;
+      domainCounts.set(tab.domain, count + 1);
     }
   }
+
+  return Array.from(domainCounts.entries())
+    .map(([domain, count]) => ({ domain, count }))
+    .sort((a, b) => b.count - a.count);
 }
 
 /**
@@ -285,25 +484,13 @@ export async function listDomainsCommand(inputPath?: string): Promise<void> {
     process.exit(1);
   }
 
-  const masterData = await readJson<MasterData>(masterJsonPath);
-
-  const domainCounts = new Map<string, number>();
-
-  for (const group of masterData.groups) {
-    for (const tab of group.tabs) {
-      const count = domainCounts.get(tab.domain) ?? 0;
-      domainCounts.set(tab.domain, count + 1);
-    }
-  }
-
-  // Sort by count
-  const sorted = Array.from(domainCounts.entries())
-    .sort((a, b) => b[1] - a[1]);
+  const masterData = await loadMasterData(masterJsonPath);
+  const sorted = countDomains(masterData);
 
   console.log(chalk.blue('📊 Top Domains'));
   console.log('');
 
-  for (const [domain, count] of sorted.slice(0, 50)) {
+  for (const { domain, count } of sorted.slice(0, 50)) {
     const bar = '█'.repeat(Math.min(count, 30));
     console.log(
       chalk.white(`${count.toString().padStart(4)} `) +
@@ -0,0 +1,394 @@
+/**
+ * Serve Command - Local web UI and JSON API over master.json
+ *
+ * The server binds to 127.0.0.1 only and rejects requests whose Host
+ * header is not a loopback name, so other machines and web pages
+ * using DNS rebinding cannot read the archive.
+ */
+
+import chalk from 'chalk';
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { stat } from 'fs/promises';
+import { resolve } from 'path';
+import type { MasterData, SearchResults, ServeOptions, TabGroup } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { loadMasterData } from '../parsers/master.js';
+import { exists } from '../utils/files.js';
+import { getYearMonth, isDateInRange, parseFlexibleDate } from '../utils/dates.js';
+import { hasTag, normalizeTag } from '../utils/tags.js';
+import { refreshSearchIndex } from '../utils/search-index.js';
+import type { SearchIndex } from '../utils/search-index.js';
+import { renderWebUi } from '../utils/web-ui.js';
+import { buildSearchQuery, countDomains, searchData } from './search.js';
+
+/**
+ * Interface the server binds to (never exposed beyond this machine)
+ */
+const HOST = '127.0.0.1';
+
+/**
+ * Default port when --port is not given
+ */
+const DEFAULT_PORT = 4710;
+
+/**
+ * Host header names accepted (without port)
+ */
+const ALLOWED_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]']);
+
+/**
+ * Default and maximum page sizes for list endpoints
+ */
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+
+/**
+ * Error that maps to an HTTP status
+ */
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Master data cached in memory, reloaded when the file changes on disk
+ */
+interface DataStore {
+  get(): Promise<{ masterData: MasterData; index: SearchIndex }>;
+}
+
+/**
+ * Create a store that reloads master data (and refreshes the search
+ * index) whenever the file's modification time changes
+ */
+function createDataStore(inputPath: string): DataStore {
+  let cached: { mtimeMs: number; masterData: MasterData; index: SearchIndex } | undefined;
+
+  return {
+    async get() {
+      const { mtimeMs } = await stat(inputPath);
+
+      if (!cached || cached.mtimeMs !== mtimeMs) {
+        const masterData = await loadMasterData(inputPath);
+        const { index } = await refreshSearchIndex(inputPath, masterData);
+        cached = { mtimeMs, masterData, index };
+      }
+
+      return cached;
+    },
+  };
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read an integer query parameter within bounds
+ */
+function getInt(params: URLSearchParams, name: string, fallback: number, max: number): number {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, `${name}: expected a non-negative integer`);
+  }
+  return Math.min(value, max);
+}
+
+/**
+ * Read the from/to date range parameters as ISO bounds
+ */
+function getDateRange(params: URLSearchParams): { fromDate?: string; toDate?: string } {
+  try {
+    const from = params.get('from');
+    const to = params.get('to');
+    return {
+      fromDate: from ? parseFlexibleDate(from) : undefined,
+      toDate: to ? parseFlexibleDate(to, true) : undefined,
+    };
+  } catch {
+    throw new HttpError(400, 'from/to: expected a date (YYYY, YYYY-MM, YYYY-MM-DD or ISO 8601)');
+  }
+}
+
+/**
+ * Summarize a group without its tabs
+ */
+function summarizeGroup(group: TabGroup): Omit<TabGroup, 'tabs' | 'removedTabs'> {
+  const { tabs: _tabs, removedTabs: _removedTabs, ...summary } = group;
+  return summary;
+}
+
+/**
+ * GET /api/summary
+ */
+function handleSummary(masterData: MasterData): unknown {
+  return {
+    schemaVersion: masterData.schemaVersion,
+    exportedAt: masterData.exportedAt,
+    source: masterData.source,
+    stats: masterData.stats,
+  };
+}
+
+/**
+ * GET /api/timeline - group and tab counts per month, newest first
+ */
+function handleTimeline(masterData: MasterData): unknown {
+  const months = new Map<string, { groups: number; tabs: number }>();
+
+  for (const group of masterData.groups) {
+    const month = getYearMonth(group.createdAt);
+    const entry = months.get(month) ?? { groups: 0, tabs: 0 };
+    entry.groups++;
+    entry.tabs += group.tabs.length;
+    months.set(month, entry);
+  }
+
+  return {
+    months: Array.from(months.entries())
+      .sort((a, b) => b[0].localeCompare(a[0]))
+      .map(([month, counts]) => ({ month, ...counts })),
+  };
+}
+
+/**
+ * GET /api/groups?from&to&tag&starred&tabs&offset&limit - newest first
+ */
+function handleGroups(masterData: MasterData, params: URLSearchParams): unknown {
+  const { fromDate, toDate } = getDateRange(params);
+  const tag = params.get('tag') ? normalizeTag(params.get('tag')!) : undefined;
+  const starredOnly = params.get('starred') === '1';
+  const withTabs = params.get('tabs') === '1';
+  const offset = getInt(params, 'offset', 0, Number.MAX_SAFE_INTEGER);
+  const limit = getInt(params, 'limit', DEFAULT_LIMIT, MAX_LIMIT);
+
+  const groups = masterData.groups
+    .filter((group) => isDateInRange(group.createdAt, fromDate, toDate))
+    .filter((group) => !starredOnly || group.starred)
+    .filter((group) => !tag || hasTag(group, tag) || group.tabs.some((tab) => hasTag(tab, tag)))
+    .sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+
+  return {
+    total: groups.length,
+    offset,
+    groups: groups
+      .slice(offset, offset + limit)
+      .map((group) => (withTabs ? group : summarizeGroup(group))),
+  };
+}
+
+/**
+ * GET /api/groups/:id
+ */
+function handleGroup(masterData: MasterData, groupId: string): unknown {
+  const group = masterData.groups.find((g) => g.id === groupId);
+  if (!group) {
+    throw new HttpError(404, `Group not found: ${groupId}`);
+  }
+  return group;
+}
+
+/**
+ * GET /api/tabs?from&to&domain&offset&limit - flat tab list, newest group first
+ */
+function handleTabs(masterData: MasterData, params: URLSearchParams): unknown {
+  const { fromDate, toDate } = getDateRange(params);
+  const domain = params.get('domain')?.toLowerCase();
+  const offset = getInt(params, 'offset', 0, Number.MAX_SAFE_INTEGER);
+  const limit = getInt(params, 'limit', DEFAULT_LIMIT, MAX_LIMIT);
+
+  const tabs = [...masterData.groups]
+    .sort((a, b) => b.createdAtEpoch - a.createdAtEpoch)
+    .filter((group) => isDateInRange(group.createdAt, fromDate, toDate))
+    .flatMap((group) =>
+      group.tabs
+        .filter((tab) => !domain || tab.domain.toLowerCase() === domain || tab.domain.toLowerCase().endsWith(`.${domain}`))
+        .map((tab) => ({
+          tab,
+          group: { id: group.id, createdAt: group.createdAt, title: group.title },
+        }))
+    );
+
+  return { total: tabs.length, offset, tabs: tabs.slice(offset, offset + limit) };
+}
+
+/**
+ * GET /api/search?q&from&to&limit - same matching and ranking as `onetab search`
+ */
+function handleSearch(masterData: MasterData, index: SearchIndex, params: URLSearchParams): unknown {
+  const query = params.get('q') ?? '';
+  const options = {
+    query: query || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+  };
+  const limit = getInt(params, 'limit', MAX_LIMIT, MAX_LIMIT);
+
+  if (!options.query && !options.from && !options.to) {
+    throw new HttpError(400, 'q: expected a search query');
+  }
+
+  try {
+    buildSearchQuery(options);
+    getDateRange(params);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+
+  const results = searchData(masterData, options, index);
+  const body: SearchResults = {
+    query,
+    totalResults: results.length,
+    results: results.slice(0, limit),
+  };
+  return body;
+}
+
+/**
+ * GET /api/domains?limit
+ */
+function handleDomains(masterData: MasterData, params: URLSearchParams): unknown {
+  const domains = countDomains(masterData);
+  const limit = getInt(params, 'limit', DEFAULT_LIMIT, Number.MAX_SAFE_INTEGER);
+  return { totalDomains: domains.length, domains: domains.slice(0, limit) };
+}
+
+/**
+ * Route an API request to its handler
+ */
+async function handleApi(store: DataStore, pathname: string, params: URLSearchParams): Promise<unknown> {
+  const { masterData, index } = await store.get();
+
+  if (pathname === '/api/summary') return handleSummary(masterData);
+  if (pathname === '/api/timeline') return handleTimeline(masterData);
+  if (pathname === '/api/groups') return handleGroups(masterData, params);
+  if (pathname.startsWith('/api/groups/')) {
+    let groupId: string;
+    try {
+      groupId = decodeURIComponent(pathname.substring('/api/groups/'.length));
+    } catch {
+      // Malformed escape such as %E0%A4%A
+      throw new HttpError(400, 'Invalid group id');
+    }
+    return handleGroup(masterData, groupId);
+  }
+  if (pathname === '/api/tabs') return handleTabs(masterData, params);
+  if (pathname === '/api/search') return handleSearch(masterData, index, params);
+  if (pathname === '/api/domains') return handleDomains(masterData, params);
+
+  throw new HttpError(404, `Unknown endpoint: ${pathname}`);
+}
+
+/**
+ * Check that the Host header names this machine (blocks DNS rebinding)
+ */
+function isAllowedHost(hostHeader: string | undefined): boolean {
+  if (!hostHeader) return false;
+  const host = hostHeader.replace(/:\d+$/, '').toLowerCase();
+  return ALLOWED_HOSTS.has(host);
+}
+
+/**
+ * Handle a single HTTP request
+ */
+async function handleRequest(
+  store: DataStore,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  if (!isAllowedHost(req.headers.host)) {
+    sendJson(res, 403, { error: 'Forbidden host' });
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', 'GET, HEAD');
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${HOST}`);
+
+  if (url.pathname === '/' || url.pathname === '/index.html') {
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    });
+    res.end(req.method === 'HEAD' ? undefined : renderWebUi());
+    return;
+  }
+
+  if (!url.pathname.startsWith('/api/')) {
+    sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, await handleApi(store, url.pathname, url.searchParams));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    console.error(chalk.red('❌ Request failed:'), error);
+    sendJson(res, 500, { error: (error as Error).message });
+  }
+}
+
+/**
+ * Execute the serve command
+ */
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  console.log(chalk.blue('🌐 OneTab Web UI'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const port = options.port !== undefined ? Number(options.port) : DEFAULT_PORT;
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(chalk.red(`❌ Invalid port: ${options.port}`));
+    process.exit(1);
+  }
+
+  if (!(await exists(inputPath))) {
+    console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
+    console.log(chalk.yellow('\n💡 Run import first:'));
+    console.log(chalk.gray('   onetab import --input your-export.json'));
+    process.exit(1);
+  }
+
+  // Load once up front so problems with the file show before the server starts
+  const store = createDataStore(inputPath);
+  const { masterData } = await store.get();
+  console.log(chalk.gray(`Serving: ${inputPath} (${masterData.stats.totalGroups} groups, ${masterData.stats.totalTabs} tabs)`));
+
+  const server = createServer((req, res) => {
+    void handleRequest(store, req, res);
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(port, HOST, () => resolvePromise());
+  });
+
+  const address = server.address();
+  const actualPort = address && typeof address === 'object' ? address.port : port;
+
+  console.log(chalk.green(`✅ Listening on http://${HOST}:${actualPort}`));
+  console.log(chalk.gray('   Press Ctrl+C to stop'));
+}
@@ -0,0 +1,82 @@
+/**
+ * Snapshot Command - Copy a live LevelDB directory for safe importing
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { SnapshotOptions } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { exists, formatBytes } from '../utils/files.js';
+import { CHROMIUM_BROWSERS } from '../utils/browsers.js';
+import { DEFAULT_SNAPSHOT_ATTEMPTS, snapshotLevelDb } from '../utils/leveldb-snapshot.js';
+import type { LevelDbSnapshot } from '../utils/leveldb-snapshot.js';
+import { selectAutoSource } from './import.js';
+
+/**
+ * Execute the snapshot command
+ */
+export async function snapshotCommand(
+  sourcePath: string | undefined,
+  options: SnapshotOptions
+): Promise<void> {
+  console.log(chalk.blue('📸 OneTab LevelDB Snapshot'));
+  console.log('');
+
+  const outputRoot = resolve(options.output ?? DEFAULT_PATHS.leveldbCopy);
+  const attempts = options.attempts !== undefined ? Number(options.attempts) : DEFAULT_SNAPSHOT_ATTEMPTS;
+
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    console.error(chalk.red(`❌ Invalid --attempts: ${options.attempts}`));
+    process.exit(1);
+  }
+
+  if (options.browser && !CHROMIUM_BROWSERS.includes(options.browser)) {
+    console.error(chalk.red(`❌ Unknown browser: ${options.browser} (expected ${CHROMIUM_BROWSERS.join(', ')})`));
+    process.exit(1);
+  }
+
+  let source: string;
+
+  if (sourcePath) {
+    source = resolve(sourcePath);
+  } else if (options.auto) {
+    source = (await selectAutoSource(options)).oneTab.path;
+  } else {
+    console.error(chalk.red('❌ No LevelDB directory specified'));
+    console.log(chalk.yellow('\nExamples:'));
+    console.log(chalk.gray('  onetab snapshot --auto'));
+    console.log(chalk.gray('  onetab snapshot --auto --browser chrome --browser-profile "Profile 1"'));
+    console.log(chalk.gray('  onetab snapshot "<profile>/Local Extension Settings/<extension-id>"'));
+    process.exit(1);
+  }
+
+  if (!(await exists(source))) {
+    console.error(chalk.red(`❌ LevelDB directory not found: ${source}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.gray(`📂 Source:      ${source}`));
+  console.log(chalk.gray(`📁 Destination: ${outputRoot}`));
+
+  let snapshot: LevelDbSnapshot;
+  try {
+    snapshot = await snapshotLevelDb(source, outputRoot, {
+      attempts,
+      onRetry: (attempt, reason) => {
+        console.log(chalk.yellow(`⚠️  Attempt ${attempt} failed: ${reason}, retrying`));
+      },
+    });
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green(`✅ Snapshot saved to: ${snapshot.path}`));
+  console.log(chalk.gray(`   ${snapshot.files.length} files, ${formatBytes(snapshot.bytes)}, ${snapshot.manifest}`));
+  if (snapshot.attempts > 1) {
+    console.log(chalk.gray(`   Consistent copy after ${snapshot.attempts} attempts`));
+  }
+
+  console.log(chalk.yellow('\n💡 Import it with:'));
+  console.log(chalk.gray(`   onetab import --leveldb "${snapshot.path}"`));
+}
@@ -0,0 +1,412 @@
+/**
+ * Stats Command - Time-series statistics about saved tabs
+ */
+
+import chalk from 'chalk';
+import { resolve, join } from 'path';
+import type {
+  HoardingStreak,
+  PeriodStats,
+  StatsOptions,
+  StatsReport,
+  TabGroup,
+} from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { loadMasterData } from '../parsers/master.js';
+import { writeJson, writeText, exists } from '../utils/files.js';
+import { getDateOnly, nowIso } from '../utils/dates.js';
+import { escapeHtml } from '../utils/html.js';
+import { renderBarChart, renderColumnChart } from '../utils/charts.js';
+import { groupByPeriod } from '../utils/periods.js';
+import { filterGroupsByDate } from './export.js';
+import { countDomains } from './search.js';
+
+/**
+ * Default number of top domains listed per period
+ */
+const DEFAULT_TOP_DOMAINS = 3;
+
+/**
+ * Number of domains, largest groups and streaks in the overall lists
+ */
+const OVERALL_TOP_DOMAINS = 20;
+const LARGEST_GROUPS = 10;
+const LONGEST_STREAKS = 5;
+
+/**
+ * Most recent periods shown in the console table
+ */
+const CONSOLE_MAX_PERIODS = 36;
+
+/**
+ * Group size histogram buckets (inclusive upper bounds)
+ */
+const GROUP_SIZE_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '1', max: 1 },
+  { label: '2-5', max: 5 },
+  { label: '6-10', max: 10 },
+  { label: '11-20', max: 20 },
+  { label: '21-50', max: 50 },
+  { label: '51+', max: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Median of a list of numbers (0 when empty)
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Find runs of consecutive days with at least one saved group
+ *
+ * @returns Streaks in chronological order
+ */
+export function findStreaks(groups: TabGroup[]): HoardingStreak[] {
+  const tabsByDay = new Map<string, number>();
+  for (const group of groups) {
+    const day = getDateOnly(group.createdAt);
+    tabsByDay.set(day, (tabsByDay.get(day) ?? 0) + group.tabs.length);
+  }
+
+  const days = Array.from(tabsByDay.keys()).sort();
+  const streaks: HoardingStreak[] = [];
+  let current: HoardingStreak | undefined;
+
+  for (const day of days) {
+    const previous = current ? new Date(`${current.end}T00:00:00.000Z`).getTime() : NaN;
+    const isNext = new Date(`${day}T00:00:00.000Z`).getTime() - previous === DAY_MS;
+
+    if (current && isNext) {
+      current.end = day;
+      current.days++;
+      current.tabs += tabsByDay.get(day)!;
+    } else {
+      current = { start: day, end: day, days: 1, tabs: tabsByDay.get(day)! };
+      streaks.push(current);
+    }
+  }
+
+  return streaks;
+}
+
+/**
+ * Build period statistics from grouped tab groups
+ */
+function buildPeriods(groups: TabGroup[], period: StatsReport['period'], top: number): PeriodStats[] {
+  return Array.from(groupByPeriod(groups, period).entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([key, periodGroups]) => ({
+      period: key,
+      groups: periodGroups.length,
+      tabs: periodGroups.reduce((sum, g) => sum + g.tabs.length, 0),
+      topDomains: countDomains({ groups: periodGroups }).slice(0, top),
+    }));
+}
+
+/**
+ * Compute the full statistics report for a set of groups
+ */
+export function buildStatsReport(
+  groups: TabGroup[],
+  options: { period?: StatsReport['period']; top?: number; from?: string; to?: string } = {}
+): StatsReport {
+  const period = options.period ?? 'month';
+  const sizes = groups.map((g) => g.tabs.length);
+  const totalTabs = sizes.reduce((sum, n) => sum + n, 0);
+  const domains = countDomains({ groups });
+  const streaks = findStreaks(groups);
+
+  const groupSizes = GROUP_SIZE_BUCKETS.map((bucket, i) => {
+    const min = i === 0 ? 0 : GROUP_SIZE_BUCKETS[i - 1].max + 1;
+    return {
+      label: bucket.label,
+      groups: sizes.filter((n) => n >= min && n <= bucket.max).length,
+    };
+  });
+
+  const largestGroups = [...groups]
+    .sort((a, b) => b.tabs.length - a.tabs.length || b.createdAtEpoch - a.createdAtEpoch)
+    .slice(0, LARGEST_GROUPS)
+    .map((g) => ({ id: g.id, createdAt: g.createdAt, title: g.title, tabCount: g.tabs.length }));
+
+  const longest = [...streaks]
+    .sort((a, b) => b.days - a.days || b.end.localeCompare(a.end))
+    .slice(0, LONGEST_STREAKS);
+
+  return {
+    generatedAt: nowIso(),
+    period,
+    range: { from: options.from, to: options.to },
+    totals: {
+      groups: groups.length,
+      tabs: totalTabs,
+      domains: domains.length,
+      averageGroupSize: groups.length > 0 ? round1(totalTabs / groups.length) : 0,
+      medianGroupSize: median(sizes),
+      activeDays: streaks.reduce((sum, s) => sum + s.days, 0),
+    },
+    periods: buildPeriods(groups, period, options.top ?? DEFAULT_TOP_DOMAINS),
+    topDomains: domains.slice(0, OVERALL_TOP_DOMAINS),
+    groupSizes,
+    largestGroups,
+    streaks: {
+      longest,
+      latest: streaks[streaks.length - 1],
+    },
+  };
+}
+
+/**
+ * Format a streak as "N days (start → end, T tabs)"
+ */
+function formatStreak(streak: HoardingStreak): string {
+  const range = streak.days === 1 ? streak.start : `${streak.start} → ${streak.end}`;
+  return `${streak.days} day(s) (${range}, ${streak.tabs} tabs)`;
+}
+
+/**
+ * Format the report for console output
+ */
+function formatStatsForConsole(report: StatsReport): string {
+  const lines: string[] = [];
+  const { totals } = report;
+
+  lines.push(chalk.blue('Totals'));
+  lines.push(chalk.white(`  Groups:            ${totals.groups}`));
+  lines.push(chalk.white(`  Tabs:              ${totals.tabs}`));
+  lines.push(chalk.white(`  Unique domains:    ${totals.domains}`));
+  lines.push(chalk.white(`  Avg group size:    ${totals.averageGroupSize} (median ${totals.medianGroupSize})`));
+  lines.push(chalk.white(`  Active days:       ${totals.activeDays}`));
+  lines.push('');
+
+  // Per-period table
+  const shown = report.periods.slice(-CONSOLE_MAX_PERIODS);
+  const periodWidth = Math.max(6, ...shown.map((p) => p.period.length));
+  const maxTabs = Math.max(1, ...shown.map((p) => p.tabs));
+
+  lines.push(chalk.blue(`Per ${report.period}`));
+  lines.push(chalk.gray(
+    `  ${'Period'.padEnd(periodWidth)}  ${'Groups'.padStart(6)}  ${'Tabs'.padStart(6)}  ${'Avg'.padStart(5)}  ${'Activity'.padEnd(20)}  Top domains`
+  ));
+
+  if (report.periods.length > shown.length) {
+    lines.push(chalk.gray(`  ... ${report.periods.length - shown.length} earlier period(s) (see --format json or html)`));
+  }
+
+  for (const p of shown) {
+    const bar = '█'.repeat(Math.max(1, Math.round((p.tabs / maxTabs) * 20)));
+    const domains = p.topDomains.map((d) => `${d.domain} (${d.count})`).join(', ');
+    lines.push(
+      chalk.white(`  ${p.period.padEnd(periodWidth)}  ${p.groups.toString().padStart(6)}  ${p.tabs.toString().padStart(6)}  ${round1(p.tabs / p.groups).toString().padStart(5)}  `) +
+      chalk.cyan(bar.padEnd(20)) +
+      chalk.gray(`  ${domains}`)
+    );
+  }
+  lines.push('');
+
+  lines.push(chalk.blue('Top domains'));
+  for (const { domain, count } of report.topDomains.slice(0, 10)) {
+    lines.push(chalk.white(`  ${count.toString().padStart(6)}  `) + chalk.gray(domain));
+  }
+  lines.push('');
+
+  lines.push(chalk.blue('Group sizes'));
+  for (const bucket of report.groupSizes) {
+    lines.push(chalk.white(`  ${bucket.label.padStart(6)} tabs  ${bucket.groups.toString().padStart(6)} group(s)`));
+  }
+  lines.push('');
+
+  lines.push(chalk.blue('Largest groups'));
+  for (const group of report.largestGroups.slice(0, 5)) {
+    const title = group.title ? ` - ${group.title}` : '';
+    lines.push(chalk.white(`  ${group.tabCount.toString().padStart(6)} tabs  `) + chalk.gray(`${getDateOnly(group.createdAt)}${title}`));
+  }
+  lines.push('');
+
+  lines.push(chalk.blue('Hoarding streaks'));
+  for (const streak of report.streaks.longest) {
+    lines.push(chalk.white(`  ${formatStreak(streak)}`));
+  }
+  if (report.streaks.latest) {
+    lines.push(chalk.gray(`  Latest: ${formatStreak(report.streaks.latest)}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a simple HTML table
+ */
+function renderTable(headers: string[], rows: Array<Array<string | number>>): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`)
+    .join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * Render the report as a self-contained HTML page with inline SVG charts
+ */
+export function renderStatsHtml(report: StatsReport): string {
+  const { totals } = report;
+  const range = [report.range.from && `from ${report.range.from}`, report.range.to && `to ${report.range.to}`]
+    .filter(Boolean)
+    .join(' ');
+
+  const cards = [
+    ['Groups', totals.groups],
+    ['Tabs', totals.tabs],
+    ['Unique domains', totals.domains],
+    ['Avg group size', totals.averageGroupSize],
+    ['Median group size', totals.medianGroupSize],
+    ['Active days', totals.activeDays],
+  ]
+    .map(([label, value]) => `<div class="card"><div class="value">${value}</div><div class="label">${escapeHtml(String(label))}</div></div>`)
+    .join('\n');
+
+  const periodRows = [...report.periods].reverse().map((p) => [
+    p.period,
+    p.groups,
+    p.tabs,
+    round1(p.tabs / p.groups),
+    p.topDomains.map((d) => `${d.domain} (${d.count})`).join(', '),
+  ]);
+
+  const groupRows = report.largestGroups.map((g) => [
+    getDateOnly(g.createdAt),
+    g.title ?? '',
+    g.tabCount,
+  ]);
+
+  const streakRows = report.streaks.longest.map((s) => [s.days, s.start, s.end, s.tabs]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>OneTab Statistics</title>
+<style>
+  body { margin: 0 auto; max-width: 1000px; padding: 24px; font: 14px/1.45 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; }
+  h1 { margin-bottom: 4px; }
+  h2 { margin-top: 32px; font-size: 18px; }
+  .meta { color: #57606a; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); gap: 12px; margin-top: 16px; }
+  .card { border: 1px solid #d0d7de; border-radius: 8px; padding: 12px; }
+  .card .value { font-size: 24px; font-weight: 600; }
+  .card .label { color: #57606a; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #d0d7de; }
+  th { color: #57606a; font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>OneTab Statistics</h1>
+<div class="meta">Generated ${escapeHtml(report.generatedAt.substring(0, 16).replace('T', ' '))} · per ${report.period}${range ? ` · ${escapeHtml(range)}` : ''}</div>
+<div class="cards">
+${cards}
+</div>
+
+<h2>Tabs per ${report.period}</h2>
+${renderColumnChart(report.periods.map((p) => ({ label: p.period, value: p.tabs })))}
+
+<h2>Groups per ${report.period}</h2>
+${renderColumnChart(report.periods.map((p) => ({ label: p.period, value: p.groups })), { height: 160 })}
+
+<h2>Top domains</h2>
+${renderBarChart(report.topDomains.map((d) => ({ label: d.domain, value: d.count })))}
+
+<h2>Group sizes</h2>
+${renderBarChart(report.groupSizes.map((b) => ({ label: `${b.label} tabs`, value: b.groups })), { labelWidth: 100 })}
+
+<h2>Largest groups</h2>
+${renderTable(['Date', 'Title', 'Tabs'], groupRows)}
+
+<h2>Hoarding streaks</h2>
+${report.streaks.latest ? `<p class="meta">Latest: ${escapeHtml(formatStreak(report.streaks.latest))}</p>` : ''}
+${renderTable(['Days', 'Start', 'End', 'Tabs'], streakRows)}
+
+<h2>Per ${report.period}</h2>
+${renderTable(['Period', 'Groups', 'Tabs', 'Avg', 'Top domains'], periodRows)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Execute the stats command
+ */
+export async function statsCommand(options: StatsOptions): Promise<void> {
+  console.log(chalk.blue('📈 OneTab Stats'));
+  console.log('');
+
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+  const format = options.format ?? 'console';
+  const period = options.period ?? 'month';
+  const top = options.top !== undefined ? Number(options.top) : DEFAULT_TOP_DOMAINS;
+
+  if (!['day', 'week', 'month'].includes(period)) {
+    console.error(chalk.red(`❌ Invalid period: ${period} (expected day, week or month)`));
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(top) || top < 0) {
+    console.error(chalk.red(`❌ Invalid --top: ${options.top}`));
+    process.exit(1);
+  }
+
+  if (!(await exists(inputPath))) {
+    console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
+    console.log(chalk.yellow('\n💡 Run import first:'));
+    console.log(chalk.gray('   onetab import --input your-export.json'));
+    process.exit(1);
+  }
+
+  const masterData = await loadMasterData(inputPath);
+  const groups = filterGroupsByDate(masterData.groups, options);
+
+  if (groups.length === 0) {
+    console.log(chalk.yellow('⚠️  No groups in range'));
+    return;
+  }
+
+  const report = buildStatsReport(groups, { period, top, from: options.from, to: options.to });
+
+  switch (format) {
+    case 'console':
+      console.log(formatStatsForConsole(report));
+      break;
+
+    case 'json':
+    case 'html': {
+      const output = options.output ?? DEFAULT_PATHS.outputDir;
+      const outputPath = resolve(output.endsWith(`.${format}`) ? output : join(output, `stats.${format}`));
+
+      if (format === 'json') {
+        await writeJson(outputPath, report);
+      } else {
+        await writeText(outputPath, renderStatsHtml(report));
+      }
+      console.log(chalk.green(`💾 Saved to: ${outputPath}`));
+      break;
+    }
+
+    default:
+      console.error(chalk.red(`❌ Unknown format: ${format}`));
+      process.exit(1);
+  }
+}
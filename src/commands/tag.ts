@@ -0,0 +1,231 @@
+/**
+ * Tag Command - Add/remove tags and notes on tabs and groups
+ */
+
+import chalk from 'chalk';
+import { resolve } from 'path';
+import type { MasterData, Tab, TabGroup, TagOptions } from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { loadMasterData } from '../parsers/master.js';
+import { writeJson, exists } from '../utils/files.js';
+import { nowIso } from '../utils/dates.js';
+import { formatTags, parseTagList, updateTags } from '../utils/tags.js';
+import { searchData } from './search.js';
+
+/**
+ * Build a lookup key for a tab within its group (tab IDs are only unique per group)
+ */
+function tabKey(groupId: string, tabId: string): string {
+  return `${groupId}\u0000${tabId}`;
+}
+
+/**
+ * Check if a tab's domain matches a domain selector (includes subdomains)
+ */
+function matchesDomain(tab: Tab, domain: string): boolean {
+  const tabDomain = tab.domain.toLowerCase();
+  return tabDomain === domain || tabDomain.endsWith(`.${domain}`);
+}
+
+/**
+ * Resolve the selectors in the options to the tabs and groups they target
+ */
+function selectTargets(
+  masterData: MasterData,
+  options: TagOptions
+): { tabKeys: Set<string>; groupIds: Set<string> } {
+  const tabKeys = new Set<string>();
+  const groupIds = new Set<string>();
+
+  if (options.group) {
+    for (const group of masterData.groups) {
+      if (group.id === options.group) groupIds.add(group.id);
+    }
+  }
+
+  if (options.tab) {
+    for (const group of masterData.groups) {
+      for (const tab of group.tabs) {
+        if (tab.id === options.tab) tabKeys.add(tabKey(group.id, tab.id));
+      }
+    }
+  }
+
+  if (options.domain) {
+    const domain = options.domain.toLowerCase();
+    for (const group of masterData.groups) {
+      for (const tab of group.tabs) {
+        if (matchesDomain(tab, domain)) tabKeys.add(tabKey(group.id, tab.id));
+      }
+    }
+  }
+
+  if (options.query) {
+    for (const result of searchData(masterData, { query: options.query })) {
+      tabKeys.add(tabKey(result.group.id, result.tab.id));
+    }
+  }
+
+  return { tabKeys, groupIds };
+}
+
+/**
+ * Apply tag and note changes to a tab or group
+ */
+function annotate<T extends Tab | TabGroup>(
+  item: T,
+  add: string[],
+  remove: string[],
+  note: string | undefined
+): T {
+  const { tags: _tags, notes: _notes, ...rest } = item;
+  const tags = updateTags(item.tags, add, remove);
+  const notes = note === undefined ? item.notes : note || undefined;
+
+  return {
+    ...rest,
+    ...(tags ? { tags } : {}),
+    ...(notes ? { notes } : {}),
+  } as T;
+}
+
+/**
+ * Apply tag and note changes to the selected tabs and groups
+ */
+function applyAnnotations(
+  masterData: MasterData,
+  tabKeys: Set<string>,
+  groupIds: Set<string>,
+  changes: { add: string[]; remove: string[]; note?: string }
+): MasterData {
+  const groups = masterData.groups.map((group) => {
+    const updated = groupIds.has(group.id)
+      ? annotate(group, changes.add, changes.remove, changes.note)
+      : group;
+
+    return {
+      ...updated,
+      tabs: group.tabs.map((tab) =>
+        tabKeys.has(tabKey(group.id, tab.id))
+          ? annotate(tab, changes.add, changes.remove, changes.note)
+          : tab
+      ),
+    };
+  });
+
+  return { ...masterData, exportedAt: nowIso(), groups };
+}
+
+/**
+ * Print all tags with usage counts
+ */
+function printTagCounts(masterData: MasterData): void {
+  const counts = new Map<string, { tabs: number; groups: number }>();
+
+  const count = (tags: string[] | undefined, field: 'tabs' | 'groups'): void => {
+    for (const tag of tags ?? []) {
+      const entry = counts.get(tag) ?? { tabs: 0, groups: 0 };
+      entry[field]++;
+      counts.set(tag, entry);
+    }
+  };
+
+  for (const group of masterData.groups) {
+    count(group.tags, 'groups');
+    for (const tab of group.tabs) {
+      count(tab.tags, 'tabs');
+    }
+  }
+
+  console.log(chalk.blue('🏷️  Tags'));
+  console.log('');
+
+  if (counts.size === 0) {
+    console.log(chalk.yellow('No tags yet.'));
+    return;
+  }
+
+  const sorted = Array.from(counts.entries())
+    .sort((a, b) => (b[1].tabs + b[1].groups) - (a[1].tabs + a[1].groups));
+
+  for (const [tag, { tabs, groups }] of sorted) {
+    console.log(
+      chalk.magenta(`  #${tag}`) +
+      chalk.gray(` ${tabs} tab(s), ${groups} group(s)`)
+    );
+  }
+}
+
+/**
+ * Execute the tag command
+ */
+export async function tagCommand(options: TagOptions): Promise<void> {
+  const inputPath = resolve(options.input ?? DEFAULT_PATHS.masterJson);
+
+  if (!(await exists(inputPath))) {
+    console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
+    console.log(chalk.yellow('\n💡 Run import first:'));
+    console.log(chalk.gray('   onetab import --input your-export.json'));
+    process.exit(1);
+  }
+
+  const masterData = await loadMasterData(inputPath);
+
+  let add: string[];
+  let remove: string[];
+  try {
+    add = options.add ? parseTagList(options.add) : [];
+    remove = options.remove ? parseTagList(options.remove) : [];
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  // No changes requested: list existing tags
+  if (add.length === 0 && remove.length === 0 && options.note === undefined) {
+    printTagCounts(masterData);
+    return;
+  }
+
+  console.log(chalk.blue('🏷️  OneTab Tag'));
+  console.log('');
+
+  if (!options.tab && !options.group && !options.domain && !options.query) {
+    console.error(chalk.red('❌ No selection specified'));
+    console.log(chalk.yellow('\nExamples:'));
+    console.log(chalk.gray('  onetab tag --add work --domain github.com'));
+    console.log(chalk.gray('  onetab tag --add rust,reading --query "async"'));
+    console.log(chalk.gray('  onetab tag --remove work --group <group-id>'));
+    console.log(chalk.gray('  onetab tag --note "Compare later" --tab <tab-id>'));
+    process.exit(1);
+  }
+
+  const { tabKeys, groupIds } = selectTargets(masterData, options);
+
+  if (tabKeys.size === 0 && groupIds.size === 0) {
+    console.log(chalk.yellow('⚠️  Selection matched no tabs or groups'));
+    return;
+  }
+
+  const changes: string[] = [];
+  if (add.length > 0) changes.push(`add ${formatTags(add)}`);
+  if (remove.length > 0) changes.push(`remove ${formatTags(remove)}`);
+  if (options.note !== undefined) changes.push(options.note ? 'set note' : 'clear note');
+
+  console.log(chalk.gray(`Changes: ${changes.join(', ')}`));
+  console.log(chalk.gray(`Targets: ${tabKeys.size} tab(s), ${groupIds.size} group(s)`));
+
+  const updated = applyAnnotations(masterData, tabKeys, groupIds, {
+    add,
+    remove,
+    note: options.note,
+  });
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('⚠️  Dry run: changes not written'));
+    return;
+  }
+
+  await writeJson(inputPath, updated);
+  console.log(chalk.green(`💾 Saved to: ${inputPath}`));
+}
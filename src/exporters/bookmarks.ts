@@ -0,0 +1,105 @@
+/**
+ * Bookmarks Exporter - A Netscape bookmarks.html file that browsers can
+ * import: one folder per period, one subfolder per group, inside a
+ * top-level "OneTab" folder
+ */
+
+import type { Exporter, ExportPeriod, TabGroup } from '../models/types.js';
+import { formatDateForHeader } from '../utils/dates.js';
+import { escapeHtml } from '../utils/html.js';
+import { groupByPeriod } from '../utils/periods.js';
+
+/**
+ * Convert epoch milliseconds to the seconds used by ADD_DATE
+ */
+function toBookmarkDate(epochMs: number): number {
+  return Math.floor(epochMs / 1000);
+}
+
+/**
+ * Generate a bookmarks folder for a single group
+ */
+function generateGroupBookmarks(group: TabGroup, indent: string): string[] {
+  const lines: string[] = [];
+  const addDate = toBookmarkDate(group.createdAtEpoch);
+  const title = group.title
+    ? `${formatDateForHeader(group.createdAt)} - ${group.title}`
+    : formatDateForHeader(group.createdAt);
+
+  lines.push(`${indent}<DT><H3 ADD_DATE="${addDate}">${escapeHtml(title)}</H3>`);
+  if (group.notes) {
+    lines.push(`${indent}<DD>${escapeHtml(group.notes)}`);
+  }
+  lines.push(`${indent}<DL><p>`);
+
+  for (const tab of group.tabs) {
+    const tags = tab.tags?.length ? ` TAGS="${escapeHtml(tab.tags.join(','))}"` : '';
+    lines.push(
+      `${indent}    <DT><A HREF="${escapeHtml(tab.url)}" ADD_DATE="${addDate}"${tags}>` +
+      `${escapeHtml(tab.title || tab.domain)}</A>`
+    );
+    if (tab.notes) {
+      lines.push(`${indent}    <DD>${escapeHtml(tab.notes)}`);
+    }
+  }
+
+  lines.push(`${indent}</DL><p>`);
+
+  return lines;
+}
+
+/**
+ * Generate a Netscape bookmarks.html document
+ */
+function generateBookmarksHtml(
+  groups: TabGroup[],
+  groupBy: ExportPeriod
+): string {
+  const lines: string[] = [];
+  const periodMap = groupByPeriod(groups, groupBy);
+  const sortedPeriods = Array.from(periodMap.keys()).sort().reverse();
+  const now = toBookmarkDate(Date.now());
+
+  lines.push('<!DOCTYPE NETSCAPE-Bookmark-file-1>');
+  lines.push('<!-- This is an automatically generated file.');
+  lines.push('     It will be read and overwritten.');
+  lines.push('     DO NOT EDIT! -->');
+  lines.push('<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">');
+  lines.push('<TITLE>Bookmarks</TITLE>');
+  lines.push('<H1>Bookmarks</H1>');
+  lines.push('<DL><p>');
+  lines.push(`    <DT><H3 ADD_DATE="${now}" LAST_MODIFIED="${now}">OneTab</H3>`);
+  lines.push('    <DL><p>');
+
+  for (const periodKey of sortedPeriods) {
+    const periodGroups = [...periodMap.get(periodKey)!].sort(
+      (a, b) => b.createdAtEpoch - a.createdAtEpoch
+    );
+    const earliest = Math.min(...periodGroups.map((g) => g.createdAtEpoch));
+
+    lines.push(`        <DT><H3 ADD_DATE="${toBookmarkDate(earliest)}">${escapeHtml(periodKey)}</H3>`);
+    lines.push('        <DL><p>');
+
+    for (const group of periodGroups) {
+      lines.push(...generateGroupBookmarks(group, '            '));
+    }
+
+    lines.push('        </DL><p>');
+  }
+
+  lines.push('    </DL><p>');
+  lines.push('</DL><p>');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+export const bookmarksExporter: Exporter = {
+  name: 'bookmarks',
+  label: 'Bookmarks HTML',
+  extension: '.html',
+  singleFile: true,
+  renderGroup: (group) => `${generateGroupBookmarks(group, '').join('\n')}\n`,
+  renderPeriod: (_periodKey, groups, groupBy) => generateBookmarksHtml(groups, groupBy),
+  renderFiles: (groups, groupBy) => [{ path: 'bookmarks.html', content: generateBookmarksHtml(groups, groupBy) }],
+};
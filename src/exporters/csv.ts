@@ -0,0 +1,76 @@
+/**
+ * CSV Exporter - One row per tab, quoted as in RFC 4180
+ */
+
+import type { Exporter, RenderOptions, TabGroup, TabRow } from '../models/types.js';
+import { TAB_ROW_COLUMNS, toTabRows } from './flat.js';
+
+/**
+ * RFC 4180 record separator
+ */
+const CRLF = '\r\n';
+
+/**
+ * Resolve the --delimiter option ("\t" and "tab" mean a tab)
+ *
+ * @throws Error if the delimiter is not a single character that can be quoted
+ */
+export function resolveDelimiter(delimiter = ','): string {
+  const resolved = delimiter === '\\t' || delimiter === 'tab' ? '\t' : delimiter;
+
+  if (resolved.length !== 1 || resolved === '"' || resolved === '\r' || resolved === '\n') {
+    throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)} (expected a single character other than a quote or newline)`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Quote a field if it contains the delimiter, a quote or a line break
+ */
+function quoteField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format one row as a CSV record (tags are comma-separated, as in `tag --add`)
+ */
+function formatRecord(row: TabRow, delimiter: string): string {
+  return TAB_ROW_COLUMNS
+    .map((column) => {
+      const value = row[column];
+      if (value === undefined) return '';
+      return quoteField(Array.isArray(value) ? value.join(',') : String(value), delimiter);
+    })
+    .join(delimiter) + CRLF;
+}
+
+/**
+ * Header record with the column names
+ */
+function generateHeader(options: RenderOptions): string {
+  const delimiter = resolveDelimiter(options.delimiter);
+  return TAB_ROW_COLUMNS.map((column) => quoteField(column, delimiter)).join(delimiter) + CRLF;
+}
+
+/**
+ * Records for every tab of a group
+ */
+function generateGroupCsv(group: TabGroup, options: RenderOptions): string {
+  const delimiter = resolveDelimiter(options.delimiter);
+  return toTabRows(group).map((row) => formatRecord(row, delimiter)).join('');
+}
+
+export const csvExporter: Exporter = {
+  name: 'csv',
+  label: 'CSV',
+  extension: '.csv',
+  singleFile: true,
+  header: generateHeader,
+  renderGroup: generateGroupCsv,
+  renderPeriod: (_periodKey, groups, _groupBy, options) =>
+    generateHeader(options) + groups.map((group) => generateGroupCsv(group, options)).join(''),
+};
@@ -0,0 +1,43 @@
+/**
+ * Flat rows for the tabular formats: one row per tab with its group's fields
+ */
+
+import type { TabGroup, TabRow } from '../models/types.js';
+import { describeLinkCheck, isDeadLink } from '../utils/link-check.js';
+
+/**
+ * Column order of the flat formats
+ */
+export const TAB_ROW_COLUMNS: Array<keyof TabRow> = [
+  'groupId',
+  'groupCreatedAt',
+  'groupTitle',
+  'starred',
+  'tabId',
+  'title',
+  'url',
+  'domain',
+  'tags',
+  'linkStatus',
+  'dead',
+];
+
+/**
+ * Flatten a group into one row per tab
+ */
+export function toTabRows(group: TabGroup): TabRow[] {
+  return group.tabs.map((tab) => ({
+    groupId: group.id,
+    groupCreatedAt: group.createdAt,
+    groupTitle: group.title ?? '',
+    starred: group.starred,
+    tabId: tab.id,
+    title: tab.title,
+    url: tab.url,
+    domain: tab.domain,
+    ...(tab.tags?.length ? { tags: tab.tags } : {}),
+    ...(tab.linkCheck
+      ? { linkStatus: describeLinkCheck(tab.linkCheck), dead: isDeadLink(tab.linkCheck) }
+      : {}),
+  }));
+}
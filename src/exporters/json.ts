@@ -0,0 +1,34 @@
+/**
+ * JSON Exporter - Groups as stored in master.json, one document per period
+ */
+
+import type { Exporter, ExportPeriod, SearchResults, TabGroup } from '../models/types.js';
+
+/**
+ * Generate a JSON document for a period
+ */
+function generatePeriodJson(
+  periodKey: string,
+  groups: TabGroup[],
+  groupBy: ExportPeriod
+): string {
+  const sortedGroups = [...groups].sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+
+  return JSON.stringify({
+    period: periodKey,
+    groupBy,
+    totalGroups: groups.length,
+    totalTabs: groups.reduce((sum, g) => sum + g.tabCount, 0),
+    generated: new Date().toISOString(),
+    groups: sortedGroups,
+  }, null, 2);
+}
+
+export const jsonExporter: Exporter = {
+  name: 'json',
+  label: 'JSON',
+  extension: '.json',
+  renderGroup: (group) => JSON.stringify(group, null, 2),
+  renderPeriod: generatePeriodJson,
+  renderSearchResults: (searchResults: SearchResults) => JSON.stringify(searchResults, null, 2),
+};
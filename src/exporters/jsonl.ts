@@ -0,0 +1,22 @@
+/**
+ * JSON Lines Exporter - One JSON object per tab and line
+ */
+
+import type { Exporter, TabGroup } from '../models/types.js';
+import { toTabRows } from './flat.js';
+
+/**
+ * Lines for every tab of a group
+ */
+function generateGroupJsonl(group: TabGroup): string {
+  return toTabRows(group).map((row) => `${JSON.stringify(row)}\n`).join('');
+}
+
+export const jsonlExporter: Exporter = {
+  name: 'jsonl',
+  label: 'JSON Lines',
+  extension: '.jsonl',
+  singleFile: true,
+  renderGroup: generateGroupJsonl,
+  renderPeriod: (_periodKey, groups) => groups.map(generateGroupJsonl).join(''),
+};
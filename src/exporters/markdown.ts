@@ -0,0 +1,159 @@
+/**
+ * Markdown Exporter - Period files with YAML frontmatter and link lists
+ */
+
+import type {
+  Exporter,
+  ExportPeriod,
+  RenderOptions,
+  SearchResult,
+  SearchResults,
+  Tab,
+  TabGroup,
+} from '../models/types.js';
+import { formatDateForHeader } from '../utils/dates.js';
+import { formatTags } from '../utils/tags.js';
+import { describeLinkCheck, isDeadLink } from '../utils/link-check.js';
+
+/**
+ * Markdown link for a tab, struck through and flagged when check-links found it dead
+ */
+export function formatTabLink(title: string, tab: Tab): string {
+  const link = `[${title}](${tab.url})`;
+  return isDeadLink(tab.linkCheck) ? `~~${link}~~ ⚠️ dead (${describeLinkCheck(tab.linkCheck!)})` : link;
+}
+
+/**
+ * Generate Markdown content for a group of tabs
+ */
+export function generateGroupMarkdown(group: TabGroup, options: RenderOptions = {}): string {
+  const lines: string[] = [];
+
+  // Group header with timestamp
+  const dateStr = formatDateForHeader(group.createdAt);
+  const title = group.title ? ` - ${group.title}` : '';
+  const starred = group.starred ? ' ⭐' : '';
+
+  lines.push(`### ${dateStr}${title}${starred}`);
+  lines.push('');
+
+  // User annotations on the group
+  if (group.tags?.length) {
+    lines.push(`Tags: ${formatTags(group.tags)}`);
+    lines.push('');
+  }
+
+  if (group.notes) {
+    lines.push(`> ${group.notes.replace(/\n/g, '\n> ')}`);
+    lines.push('');
+  }
+
+  // Tabs as bullet list with links
+  for (const tab of group.tabs) {
+    const title = tab.title || tab.domain;
+    const tags = tab.tags?.length ? ` ${formatTags(tab.tags)}` : '';
+    const notes = tab.notes ? ` — ${tab.notes.replace(/\n/g, ' ')}` : '';
+    const archiveUrl = options.archiveLink?.(tab, group);
+    const archived = archiveUrl ? ` ([archived](${archiveUrl}))` : '';
+    lines.push(`- ${formatTabLink(title, tab)}${archived}${tags}${notes}`);
+  }
+
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate Markdown file for a period
+ */
+function generatePeriodMarkdown(
+  periodKey: string,
+  groups: TabGroup[],
+  groupBy: ExportPeriod,
+  options: RenderOptions = {}
+): string {
+  const lines: string[] = [];
+
+  // YAML frontmatter
+  lines.push('---');
+  lines.push(`period: "${periodKey}"`);
+  lines.push(`groupBy: "${groupBy}"`);
+  lines.push(`totalGroups: ${groups.length}`);
+  lines.push(`totalTabs: ${groups.reduce((sum, g) => sum + g.tabCount, 0)}`);
+  lines.push(`generated: "${new Date().toISOString()}"`);
+  lines.push('---');
+  lines.push('');
+
+  // Title
+  lines.push(`# OneTab Links: ${periodKey}`);
+  lines.push('');
+
+  // Summary
+  lines.push(`> **${groups.length}** tab groups, **${groups.reduce((sum, g) => sum + g.tabCount, 0)}** total links`);
+  lines.push('');
+
+  // Sort groups by date (newest first)
+  const sortedGroups = [...groups].sort(
+    (a, b) => b.createdAtEpoch - a.createdAtEpoch
+  );
+
+  // Generate content for each group
+  for (const group of sortedGroups) {
+    lines.push(generateGroupMarkdown(group, options));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format search results as Markdown
+ */
+function formatResultsAsMarkdown({ query, results }: SearchResults): string {
+  const lines: string[] = [];
+
+  lines.push('---');
+  lines.push(`query: ${JSON.stringify(query)}`);
+  lines.push(`results: ${results.length}`);
+  lines.push(`generated: "${new Date().toISOString()}"`);
+  lines.push('---');
+  lines.push('');
+  lines.push(`# Search Results: "${query}"`);
+  lines.push('');
+  lines.push(`> Found **${results.length}** matching links`);
+  lines.push('');
+
+  // Group by date
+  const byDate = new Map<string, SearchResult[]>();
+
+  for (const result of results) {
+    const date = result.group.createdAt.substring(0, 10);
+    const existing = byDate.get(date) ?? [];
+    existing.push(result);
+    byDate.set(date, existing);
+  }
+
+  const sortedDates = Array.from(byDate.keys()).sort().reverse();
+
+  for (const date of sortedDates) {
+    const dateResults = byDate.get(date)!;
+    lines.push(`## ${date}`);
+    lines.push('');
+
+    for (const result of dateResults) {
+      lines.push(`- ${formatTabLink(result.tab.title, result.tab)}`);
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export const markdownExporter: Exporter = {
+  name: 'markdown',
+  label: 'Markdown',
+  extension: '.md',
+  renderGroup: generateGroupMarkdown,
+  renderPeriod: generatePeriodMarkdown,
+  renderSearchResults: formatResultsAsMarkdown,
+};
@@ -0,0 +1,345 @@
+/**
+ * Obsidian Exporter - A notes vault with frontmatter and wiki-links
+ *
+ * Layout (relative to the output directory, Logseq reads it as well):
+ *
+ *   <year>/<period>.md       Period note linking its group notes
+ *   groups/group-<id>.md     One note per group, named after the group ID
+ *   domains/<domain>.md      With --domain-notes: links every group with a tab on the domain
+ *
+ * Generated content sits between GENERATED_START and GENERATED_END.
+ * Re-exporting replaces only that block and the frontmatter keys this
+ * exporter writes, so text outside the block and extra frontmatter keys
+ * added by the user are kept. Notes carry no timestamps, so exporting
+ * unchanged data leaves every file as it was.
+ */
+
+import { sep } from 'path';
+import type {
+  ExportFile,
+  Exporter,
+  ExportPeriod,
+  RenderOptions,
+  SearchResults,
+  TabGroup,
+} from '../models/types.js';
+import { formatDateForHeader, getDateOnly } from '../utils/dates.js';
+import { getOutputPath, getPeriodKey, groupByPeriod } from '../utils/periods.js';
+import { formatTags } from '../utils/tags.js';
+import { formatTabLink } from './markdown.js';
+
+const GENERATED_START = '<!-- onetab:generated:start (edits inside this block are replaced on export) -->';
+const GENERATED_END = '<!-- onetab:generated:end -->';
+
+/**
+ * A frontmatter value: scalars are written as JSON (valid YAML), lists as YAML sequences
+ */
+type FrontmatterValue = string | number | boolean | string[];
+
+/**
+ * A frontmatter entry: the key and the lines it spans
+ */
+interface FrontmatterEntry {
+  key: string;
+  lines: string[];
+}
+
+/**
+ * Note name of a group (stable: derived from the group ID only)
+ */
+function groupNoteName(group: Pick<TabGroup, 'id'>): string {
+  return `group-${group.id.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+}
+
+/**
+ * Note name of a domain
+ */
+function domainNoteName(domain: string): string {
+  return domain.replace(/[^A-Za-z0-9.-]/g, '_').replace(/^\.+/, '') || '_';
+}
+
+/**
+ * Note path of a period (the Markdown export layout, with "/")
+ */
+function periodNotePath(periodKey: string, groupBy: ExportPeriod): string {
+  return getOutputPath('', periodKey, groupBy, '.md').split(sep).join('/');
+}
+
+/**
+ * Build a wiki-link, with the characters links cannot contain removed from the alias
+ */
+function wikiLink(target: string, alias?: string): string {
+  const text = alias?.replace(/[[\]|#^]/g, ' ').replace(/\s+/g, ' ').trim();
+  return text && text !== target ? `[[${target}|${text}]]` : `[[${target}]]`;
+}
+
+/**
+ * Display name of a group: date and title
+ */
+function groupLabel(group: TabGroup): string {
+  const title = group.title ? ` - ${group.title}` : '';
+  return `${formatDateForHeader(group.createdAt)}${title}`;
+}
+
+/**
+ * List item linking a group note
+ */
+function groupListItem(group: TabGroup): string {
+  const starred = group.starred ? ' ⭐' : '';
+  return `- ${wikiLink(groupNoteName(group), groupLabel(group))} · ${group.tabs.length} tab(s)${starred}`;
+}
+
+/**
+ * Unique domains of some groups, most tabs first
+ */
+function collectDomains(groups: TabGroup[]): string[] {
+  const counts = new Map<string, number>();
+  for (const group of groups) {
+    for (const tab of group.tabs) {
+      counts.set(tab.domain, (counts.get(tab.domain) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([domain]) => domain);
+}
+
+/**
+ * Unique group and tab tags of some groups, sorted
+ */
+function collectTags(groups: TabGroup[]): string[] {
+  const tags = new Set<string>();
+  for (const group of groups) {
+    for (const tag of group.tags ?? []) tags.add(tag);
+    for (const tab of group.tabs) {
+      for (const tag of tab.tags ?? []) tags.add(tag);
+    }
+  }
+  return Array.from(tags).sort();
+}
+
+/**
+ * Render frontmatter entries
+ */
+function formatFrontmatter(values: Record<string, FrontmatterValue>): FrontmatterEntry[] {
+  return Object.entries(values).map(([key, value]) => {
+    if (!Array.isArray(value)) {
+      return { key, lines: [`${key}: ${JSON.stringify(value)}`] };
+    }
+    if (value.length === 0) {
+      return { key, lines: [`${key}: []`] };
+    }
+    return { key, lines: [`${key}:`, ...value.map((item) => `  - ${JSON.stringify(item)}`)] };
+  });
+}
+
+/**
+ * Assemble a note from its frontmatter and generated block
+ */
+function renderNote(values: Record<string, FrontmatterValue>, block: string[]): string {
+  const frontmatter = formatFrontmatter(values).flatMap((entry) => entry.lines);
+  return ['---', ...frontmatter, '---', '', GENERATED_START, ...block, GENERATED_END, ''].join('\n');
+}
+
+/**
+ * Render a group note
+ */
+function generateGroupNote(group: TabGroup, options: RenderOptions): string {
+  const groupBy = options.groupBy ?? 'month';
+  const periodKey = getPeriodKey(group.createdAt, groupBy);
+  const block: string[] = [];
+
+  block.push(`# ${groupLabel(group)}${group.starred ? ' ⭐' : ''}`);
+  block.push('');
+  block.push(`Period: ${wikiLink(periodKey)}`);
+  if (group.tags?.length) {
+    block.push(`Tags: ${formatTags(group.tags)}`);
+  }
+  block.push('');
+
+  if (group.notes) {
+    block.push(`> ${group.notes.replace(/\n/g, '\n> ')}`);
+    block.push('');
+  }
+
+  for (const tab of group.tabs) {
+    const title = (tab.title || tab.domain).replace(/[[\]]/g, '');
+    const domain = options.domainNotes ? ` · ${wikiLink(domainNoteName(tab.domain), tab.domain)}` : '';
+    const tags = tab.tags?.length ? ` ${formatTags(tab.tags)}` : '';
+    const notes = tab.notes ? ` — ${tab.notes.replace(/\n/g, ' ')}` : '';
+    block.push(`- ${formatTabLink(title, tab)}${domain}${tags}${notes}`);
+  }
+
+  return renderNote({
+    groupId: group.id,
+    period: periodKey,
+    created: group.createdAt,
+    title: group.title ?? '',
+    starred: group.starred,
+    tabCount: group.tabs.length,
+    domains: collectDomains([group]),
+    tags: collectTags([group]),
+  }, block);
+}
+
+/**
+ * Render a period note
+ */
+function generatePeriodNote(periodKey: string, groups: TabGroup[], groupBy: ExportPeriod): string {
+  const sortedGroups = [...groups].sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+  const dates = groups.map((g) => getDateOnly(g.createdAt)).sort();
+  const tabCount = groups.reduce((sum, g) => sum + g.tabs.length, 0);
+
+  const block = [
+    `# OneTab Links: ${periodKey}`,
+    '',
+    `> **${groups.length}** tab groups, **${tabCount}** total links`,
+    '',
+    ...sortedGroups.map(groupListItem),
+  ];
+
+  return renderNote({
+    period: periodKey,
+    groupBy,
+    dateFrom: dates[0] ?? '',
+    dateTo: dates[dates.length - 1] ?? '',
+    groupCount: groups.length,
+    tabCount,
+    domains: collectDomains(groups),
+    tags: collectTags(groups),
+  }, block);
+}
+
+/**
+ * Render a domain note: every group with a tab on the domain
+ */
+function generateDomainNote(domain: string, groups: TabGroup[]): string {
+  const sortedGroups = [...groups].sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+  const tabCount = groups.reduce((sum, g) => sum + g.tabs.filter((tab) => tab.domain === domain).length, 0);
+
+  const block = [
+    `# ${domain || '(no domain)'}`,
+    '',
+    `> **${tabCount}** links in **${groups.length}** tab groups`,
+    '',
+    ...sortedGroups.map(groupListItem),
+  ];
+
+  return renderNote({
+    domain,
+    groupCount: groups.length,
+    tabCount,
+    tags: collectTags(groups),
+  }, block);
+}
+
+/**
+ * Render every note of the vault
+ */
+function* generateVault(groups: TabGroup[], groupBy: ExportPeriod, options: RenderOptions): Generator<ExportFile> {
+  const noteOptions = { ...options, groupBy };
+  const periods = Array.from(groupByPeriod(groups, groupBy)).sort((a, b) => b[0].localeCompare(a[0]));
+
+  for (const [periodKey, periodGroups] of periods) {
+    yield { path: periodNotePath(periodKey, groupBy), content: generatePeriodNote(periodKey, periodGroups, groupBy) };
+
+    for (const group of periodGroups) {
+      yield { path: `groups/${groupNoteName(group)}.md`, content: generateGroupNote(group, noteOptions) };
+    }
+  }
+
+  if (!options.domainNotes) return;
+
+  const groupsByDomain = new Map<string, TabGroup[]>();
+  for (const group of groups) {
+    for (const domain of new Set(group.tabs.map((tab) => tab.domain))) {
+      const domainGroups = groupsByDomain.get(domain) ?? [];
+      domainGroups.push(group);
+      groupsByDomain.set(domain, domainGroups);
+    }
+  }
+
+  for (const [domain, domainGroups] of groupsByDomain) {
+    yield { path: `domains/${domainNoteName(domain)}.md`, content: generateDomainNote(domain, domainGroups) };
+  }
+}
+
+/**
+ * Render search results as a note linking the matching groups
+ */
+function generateSearchNote({ query, results }: SearchResults): string {
+  const block = [`# Search Results: "${query}"`, '', `> Found **${results.length}** matching links`, ''];
+
+  for (const result of results) {
+    const title = (result.tab.title || result.tab.domain).replace(/[[\]]/g, '');
+    const group = wikiLink(groupNoteName(result.group), result.group.createdAt.substring(0, 10));
+    block.push(`- ${formatTabLink(title, result.tab)} · ${group}`);
+  }
+
+  return renderNote({ query, results: results.length }, block);
+}
+
+/**
+ * Split a note into frontmatter entries and body
+ */
+function parseNote(text: string): { entries?: FrontmatterEntry[]; body: string } {
+  const lines = text.split('\n');
+  const end = lines[0] === '---' ? lines.indexOf('---', 1) : -1;
+
+  if (end === -1) {
+    return { body: text };
+  }
+
+  // A top-level "key:" line starts an entry; indented and list lines continue it
+  const entries: FrontmatterEntry[] = [];
+  for (const line of lines.slice(1, end)) {
+    const key = /^([^\s#-][^:]*):/.exec(line)?.[1].trim().replace(/^["']|["']$/g, '');
+    if (key !== undefined || entries.length === 0) {
+      entries.push({ key: key ?? '', lines: [line] });
+    } else {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+
+  return { entries, body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Merge a generated note into the existing one: generated frontmatter
+ * keys and the generated block are replaced, everything else is kept
+ */
+export function mergeNote(existing: string, generated: string): string {
+  const eol = existing.includes('\r\n') ? '\r\n' : '\n';
+  const current = parseNote(existing.replace(/\r\n/g, '\n'));
+  const fresh = parseNote(generated);
+
+  // Frontmatter: existing order, generated values, new keys at the end
+  const freshByKey = new Map((fresh.entries ?? []).map((entry) => [entry.key, entry]));
+  const entries = (current.entries ?? []).map((entry) => freshByKey.get(entry.key) ?? entry);
+  const existingKeys = new Set((current.entries ?? []).map((entry) => entry.key));
+  entries.push(...(fresh.entries ?? []).filter((entry) => !existingKeys.has(entry.key)));
+
+  // Body: swap the generated block, or append it if the markers were removed
+  const freshStart = fresh.body.indexOf(GENERATED_START);
+  const freshBlock = fresh.body.substring(freshStart, fresh.body.indexOf(GENERATED_END) + GENERATED_END.length);
+  const start = current.body.indexOf(GENERATED_START);
+  const end = start === -1 ? -1 : current.body.indexOf(GENERATED_END, start);
+
+  const body = current.body.trim() === ''
+    ? fresh.body
+    : end === -1
+      ? `${current.body.replace(/\n*$/, '')}\n\n${freshBlock}\n`
+    : current.body.substring(0, start) + freshBlock + current.body.substring(end + GENERATED_END.length);
+
+  const frontmatter = ['---', ...entries.flatMap((entry) => entry.lines), '---'].join('\n');
+  return `${frontmatter}\n${body}`.replace(/\n/g, eol);
+}
+
+export const obsidianExporter: Exporter = {
+  name: 'obsidian',
+  label: 'Obsidian',
+  extension: '.md',
+  renderGroup: generateGroupNote,
+  renderPeriod: generatePeriodNote,
+  renderSearchResults: generateSearchNote,
+  renderFiles: generateVault,
+  mergeFile: mergeNote,
+};
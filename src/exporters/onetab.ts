@@ -0,0 +1,40 @@
+/**
+ * OneTab Exporters - Groups written back in formats OneTab itself can
+ * import: the "Import URLs" text and a `{ state: { tabGroups } }` JSON
+ * document
+ */
+
+import type { Exporter, TabGroup } from '../models/types.js';
+import { toOneTabGroups, validateOneTabExport } from '../parsers/json.js';
+import { formatOneTabText } from '../parsers/text.js';
+
+/**
+ * Generate a OneTab state JSON document
+ */
+function generateOneTabState(groups: TabGroup[]): string {
+  const state = { state: { tabGroups: toOneTabGroups(groups) } };
+
+  // Guarantee the file round-trips through our own importer
+  validateOneTabExport(state);
+  return JSON.stringify(state, null, 2);
+}
+
+export const oneTabTextExporter: Exporter = {
+  name: 'onetab',
+  label: 'OneTab Import URLs text',
+  extension: '.txt',
+  singleFile: true,
+  renderGroup: (group) => `${formatOneTabText([group])}\n`,
+  renderPeriod: (_periodKey, groups) => formatOneTabText(groups),
+  renderFiles: (groups) => [{ path: 'onetab-import.txt', content: formatOneTabText(groups) }],
+};
+
+export const oneTabJsonExporter: Exporter = {
+  name: 'onetab-json',
+  label: 'OneTab state JSON',
+  extension: '.json',
+  singleFile: true,
+  renderGroup: (group) => JSON.stringify(toOneTabGroups([group])[0], null, 2),
+  renderPeriod: (_periodKey, groups) => generateOneTabState(groups),
+  renderFiles: (groups) => [{ path: 'onetab-state.json', content: generateOneTabState(groups) }],
+};
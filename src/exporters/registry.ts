@@ -0,0 +1,56 @@
+/**
+ * Exporter Registry - Output formats shared by `export` and `search --format`
+ *
+ * A new format is a module exporting an `Exporter` plus one line in
+ * BUILTIN_EXPORTERS; the commands look formats up by name.
+ */
+
+import type { Exporter } from '../models/types.js';
+import { bookmarksExporter } from './bookmarks.js';
+import { csvExporter } from './csv.js';
+import { jsonExporter } from './json.js';
+import { jsonlExporter } from './jsonl.js';
+import { markdownExporter } from './markdown.js';
+import { obsidianExporter } from './obsidian.js';
+import { oneTabJsonExporter, oneTabTextExporter } from './onetab.js';
+import { siteExporter } from './site.js';
+
+/**
+ * Formats available without registration
+ */
+const BUILTIN_EXPORTERS: Exporter[] = [
+  markdownExporter,
+  jsonExporter,
+  csvExporter,
+  jsonlExporter,
+  siteExporter,
+  obsidianExporter,
+  bookmarksExporter,
+  oneTabTextExporter,
+  oneTabJsonExporter,
+];
+
+const exporters = new Map<string, Exporter>(
+  BUILTIN_EXPORTERS.map((exporter) => [exporter.name, exporter])
+);
+
+/**
+ * Register an exporter (replaces one with the same name)
+ */
+export function registerExporter(exporter: Exporter): void {
+  exporters.set(exporter.name, exporter);
+}
+
+/**
+ * Look up an exporter by format name
+ */
+export function getExporter(name: string): Exporter | undefined {
+  return exporters.get(name);
+}
+
+/**
+ * Names of all registered formats, in registration order
+ */
+export function listExporterNames(): string[] {
+  return Array.from(exporters.keys());
+}
@@ -0,0 +1,471 @@
+/**
+ * Static Site Exporter - A folder of HTML pages that works from file://
+ *
+ * Layout (relative to the output directory):
+ *
+ *   index.html               Timeline of periods and top domains
+ *   <year>/<period>.html     One page per period (same layout as Markdown)
+ *   domains/index.html       All domains
+ *   domains/<domain>.html    Tabs saved from one domain
+ *   search-index.js          Prebuilt search index
+ *   search.js                Search box
+ *
+ * Browsers refuse fetch() on file:// URLs, so the search index is JSON
+ * assigned to a global in a script file rather than a `.json` file.
+ * Pages link to each other with relative URLs and only http(s)/ftp/file
+ * URLs become clickable links.
+ */
+
+import { sep } from 'path';
+import type {
+  ExportFile,
+  Exporter,
+  ExportPeriod,
+  SearchResults,
+  Tab,
+  TabGroup,
+} from '../models/types.js';
+import { formatDateForHeader, getDateOnly } from '../utils/dates.js';
+import { escapeHtml, isSafeLinkUrl } from '../utils/html.js';
+import { describeLinkCheck, isDeadLink } from '../utils/link-check.js';
+import { getOutputPath, groupByPeriod } from '../utils/periods.js';
+
+/**
+ * Number of domains listed on the index page
+ */
+const TOP_DOMAINS = 30;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.45 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; background: #f6f8fa; }
+  header { display: flex; gap: 12px; align-items: center; padding: 10px 16px; background: #24292f; color: #fff; position: sticky; top: 0; }
+  header a { color: #fff; font-weight: 600; text-decoration: none; white-space: nowrap; }
+  header input { flex: 1; padding: 6px 10px; border-radius: 6px; border: 1px solid #57606a; font: inherit; }
+  main, #search-results { max-width: 960px; margin: 0 auto; padding: 16px; }
+  h1 { font-size: 22px; margin: 0 0 8px; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .04em; color: #57606a; margin: 20px 0 8px; }
+  a { color: #0969da; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  .meta, .group-title { color: #57606a; }
+  .group { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 10px 14px; margin-bottom: 12px; }
+  .group-header { display: flex; gap: 8px; align-items: baseline; flex-wrap: wrap; margin-bottom: 6px; }
+  .group-date { font-weight: 600; }
+  .notes { color: #57606a; border-left: 3px solid #d0d7de; margin: 0 0 6px; padding-left: 8px; white-space: pre-wrap; }
+  .tag { color: #8250df; font-size: 12px; margin-left: 4px; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { padding: 2px 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .domain, .date { color: #57606a; font-size: 12px; margin-left: 6px; }
+  a.dead { color: #57606a; text-decoration: line-through; }
+  .dead-flag { color: #cf222e; font-size: 12px; margin-left: 6px; }
+  .date { margin: 0 6px 0 0; font-variant-numeric: tabular-nums; }
+  .timeline li { display: grid; grid-template-columns: 110px 90px 1fr; gap: 8px; align-items: center; }
+  .count { color: #57606a; font-variant-numeric: tabular-nums; text-align: right; }
+  .bar { height: 6px; background: #54aeff; border-radius: 3px; }
+  .columns { columns: 2 260px; }
+  .columns li { break-inside: avoid; }
+`;
+
+const SEARCH_SCRIPT = `(function () {
+  'use strict';
+
+  var MAX_RESULTS = 200;
+  var input = document.getElementById('search');
+  var content = document.getElementById('content');
+  var results = document.getElementById('search-results');
+  var root = document.body.getAttribute('data-root') || '';
+  var tabs = (window.ONETAB_SEARCH_INDEX || { tabs: [] }).tabs;
+
+  // Entries: [title, url, domain, tags, date, page, groupId]
+  var haystacks = tabs.map(function (tab) {
+    return (tab[0] + ' ' + tab[1] + ' ' + tab[3]).toLowerCase();
+  });
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function isSafeUrl(url) {
+    return /^(https?|ftp|file):/i.test(url);
+  }
+
+  function renderResult(tab) {
+    var li = el('li');
+    li.appendChild(el('span', 'date', tab[4]));
+    var link = el(isSafeUrl(tab[1]) ? 'a' : 'span', '', tab[0] || tab[1]);
+    if (link.tagName === 'A') {
+      link.href = tab[1];
+      link.rel = 'noopener noreferrer';
+      link.title = tab[1];
+    }
+    li.appendChild(link);
+    li.appendChild(el('span', 'domain', tab[2]));
+    if (tab[3]) li.appendChild(el('span', 'tag', tab[3]));
+    var group = el('a', 'domain', '\\u2192 group');
+    group.href = root + tab[5] + '#group-' + encodeURIComponent(tab[6]);
+    li.appendChild(group);
+    return li;
+  }
+
+  function search(query) {
+    var words = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    results.textContent = '';
+    results.hidden = words.length === 0;
+    content.hidden = words.length > 0;
+    if (words.length === 0) return;
+
+    var matches = [];
+    for (var i = 0; i < tabs.length && matches.length <= MAX_RESULTS; i++) {
+      var haystack = haystacks[i];
+      if (words.every(function (word) { return haystack.indexOf(word) !== -1; })) matches.push(tabs[i]);
+    }
+
+    results.appendChild(el('p', 'meta', matches.length > MAX_RESULTS
+      ? 'First ' + MAX_RESULTS + ' matches'
+      : matches.length + ' match(es)'));
+    var list = el('ul');
+    matches.slice(0, MAX_RESULTS).forEach(function (tab) { list.appendChild(renderResult(tab)); });
+    results.appendChild(list);
+  }
+
+  input.addEventListener('input', function () { search(input.value.trim()); });
+
+  // index.html?q=... opens with a search
+  var initial = new URLSearchParams(location.search).get('q');
+  if (initial) {
+    input.value = initial;
+    search(initial.trim());
+  }
+})();
+`;
+
+/**
+ * Relative prefix from a page back to the site root
+ */
+function rootOf(pagePath: string): string {
+  return '../'.repeat(pagePath.split('/').length - 1);
+}
+
+/**
+ * Site path of a period page (the Markdown export layout, with "/")
+ */
+function periodPagePath(periodKey: string, groupBy: ExportPeriod): string {
+  return getOutputPath('', periodKey, groupBy, '.html').split(sep).join('/');
+}
+
+/**
+ * File names for domain pages (hostnames are already safe; anything
+ * else, e.g. the empty domain of file:// URLs, gets a unique name).
+ * `index` is taken by the list of all domains.
+ */
+function assignDomainPages(domains: string[]): Map<string, string> {
+  const pages = new Map<string, string>();
+  const used = new Set<string>(['index']);
+
+  for (const domain of domains) {
+    const base = domain.toLowerCase().replace(/[^a-z0-9.-]/g, '_').replace(/^\.+/, '') || '_';
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}-${i}`;
+    used.add(name);
+    pages.set(domain, `domains/${name}.html`);
+  }
+
+  return pages;
+}
+
+/**
+ * Count tabs per domain, most frequent first
+ */
+function countTabsByDomain(groups: TabGroup[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const group of groups) {
+    for (const tab of group.tabs) {
+      counts.set(tab.domain, (counts.get(tab.domain) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Render tags as #tag spans
+ */
+function renderTags(tags: string[] | undefined): string {
+  return (tags ?? []).map((tag) => `<span class="tag">#${escapeHtml(tag)}</span>`).join('');
+}
+
+/**
+ * Render a link to a saved tab (plain text for unsafe URLs), flagged
+ * when check-links found it dead
+ */
+function renderTabLink(tab: Tab): string {
+  const title = escapeHtml(tab.title || tab.url);
+  const dead = isDeadLink(tab.linkCheck);
+  const link = isSafeLinkUrl(tab.url)
+    ? `<a href="${escapeHtml(tab.url)}" title="${escapeHtml(tab.url)}" rel="noopener noreferrer"${dead ? ' class="dead"' : ''}>${title}</a>`
+    : `<span>${title}</span>`;
+  return dead
+    ? `${link}<span class="dead-flag">dead (${escapeHtml(describeLinkCheck(tab.linkCheck!))})</span>`
+    : link;
+}
+
+/**
+ * Render a page around its main content
+ */
+function renderPage(title: string, root: string, body: string, withSearch = true): string {
+  const search = withSearch
+    ? '<input id="search" type="search" placeholder="Search titles, URLs and tags" autocomplete="off">'
+    : '';
+  const scripts = withSearch
+    ? `<script src="${root}search-index.js"></script>\n<script src="${root}search.js"></script>\n`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body data-root="${root}">
+<header>
+  <a href="${root}index.html">OneTab Archive</a>
+  ${search}
+</header>
+<main id="content">
+${body}
+</main>
+<section id="search-results" hidden></section>
+${scripts}</body>
+</html>
+`;
+}
+
+/**
+ * Render a group as an HTML card
+ */
+function generateGroupHtml(group: TabGroup): string {
+  const lines: string[] = [];
+
+  lines.push(`<article class="group" id="group-${escapeHtml(encodeURIComponent(group.id))}">`);
+  lines.push(
+    '<div class="group-header">' +
+    `<span class="group-date">${escapeHtml(formatDateForHeader(group.createdAt))}</span>` +
+    (group.title ? `<span class="group-title">${escapeHtml(group.title)}</span>` : '') +
+    (group.starred ? '<span>⭐</span>' : '') +
+    renderTags(group.tags) +
+    `<span class="meta">${group.tabs.length} tab(s)</span>` +
+    '</div>'
+  );
+
+  if (group.notes) {
+    lines.push(`<p class="notes">${escapeHtml(group.notes)}</p>`);
+  }
+
+  lines.push('<ul>');
+  for (const tab of group.tabs) {
+    const notes = tab.notes ? ` <span class="meta">— ${escapeHtml(tab.notes)}</span>` : '';
+    lines.push(`<li>${renderTabLink(tab)}<span class="domain">${escapeHtml(tab.domain)}</span>${renderTags(tab.tags)}${notes}</li>`);
+  }
+  lines.push('</ul>');
+  lines.push('</article>');
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the page of one period
+ */
+function generatePeriodPage(periodKey: string, groups: TabGroup[], groupBy: ExportPeriod): string {
+  const sortedGroups = [...groups].sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+  const tabCount = groups.reduce((sum, g) => sum + g.tabCount, 0);
+
+  const body = [
+    `<h1>OneTab Links: ${escapeHtml(periodKey)}</h1>`,
+    `<p class="meta">${groups.length} tab groups, ${tabCount} total links</p>`,
+    ...sortedGroups.map(generateGroupHtml),
+  ].join('\n');
+
+  return renderPage(`OneTab Links: ${periodKey}`, rootOf(periodPagePath(periodKey, groupBy)), body);
+}
+
+/**
+ * Render the index page: totals, timeline and top domains
+ */
+function generateIndexPage(
+  groups: TabGroup[],
+  periods: Array<[string, TabGroup[]]>,
+  groupBy: ExportPeriod,
+  domains: Array<[string, number]>,
+  domainPages: Map<string, string>
+): string {
+  const tabCount = groups.reduce((sum, g) => sum + g.tabCount, 0);
+  const dates = groups.map((g) => getDateOnly(g.createdAt)).sort();
+  const periodTabs = periods.map(([, periodGroups]) => periodGroups.reduce((sum, g) => sum + g.tabCount, 0));
+  const maxTabs = Math.max(1, ...periodTabs);
+
+  const lines: string[] = [];
+  lines.push('<h1>OneTab Archive</h1>');
+  lines.push(`<p class="meta">${groups.length} groups, ${tabCount} tabs, ${escapeHtml(dates[0])} to ${escapeHtml(dates[dates.length - 1])}</p>`);
+
+  lines.push(`<h2>Timeline (per ${groupBy})</h2>`);
+  lines.push('<ul class="timeline">');
+  periods.forEach(([periodKey], i) => {
+    const width = Math.max(1, Math.round((periodTabs[i] / maxTabs) * 100));
+    lines.push(
+      `<li><a href="${periodPagePath(periodKey, groupBy)}">${escapeHtml(periodKey)}</a>` +
+      `<span class="count">${periodTabs[i]} tabs</span>` +
+      `<span class="bar" style="width: ${width}%"></span></li>`
+    );
+  });
+  lines.push('</ul>');
+
+  lines.push('<h2>Top Domains</h2>');
+  lines.push('<ul class="columns">');
+  for (const [domain, count] of domains.slice(0, TOP_DOMAINS)) {
+    lines.push(`<li><a href="${domainPages.get(domain)}">${escapeHtml(domain || '(none)')}</a> <span class="count">${count}</span></li>`);
+  }
+  lines.push('</ul>');
+  lines.push(`<p><a href="domains/index.html">All ${domains.length} domains</a></p>`);
+
+  return renderPage('OneTab Archive', '', lines.join('\n'));
+}
+
+/**
+ * Render the list of all domains
+ */
+function generateDomainsIndexPage(domains: Array<[string, number]>, domainPages: Map<string, string>): string {
+  const items = domains.map(([domain, count]) =>
+    `<li><a href="../${domainPages.get(domain)}">${escapeHtml(domain || '(none)')}</a> <span class="count">${count}</span></li>`
+  );
+
+  const body = [
+    `<h1>Domains</h1>`,
+    `<p class="meta">${domains.length} domains</p>`,
+    '<ul class="columns">',
+    ...items,
+    '</ul>',
+  ].join('\n');
+
+  return renderPage('Domains', '../', body);
+}
+
+/**
+ * Render the page of one domain: its tabs, newest first, with links to their groups
+ */
+function generateDomainPage(
+  domain: string,
+  entries: Array<{ tab: Tab; group: TabGroup }>,
+  groupBy: ExportPeriod,
+  periodOf: Map<string, string>
+): string {
+  const items = entries.map(({ tab, group }) => {
+    const page = periodPagePath(periodOf.get(group.id)!, groupBy);
+    return `<li><span class="date">${escapeHtml(getDateOnly(group.createdAt))}</span>${renderTabLink(tab)}${renderTags(tab.tags)}` +
+      ` <a class="domain" href="../${page}#group-${escapeHtml(encodeURIComponent(group.id))}">→ group</a></li>`;
+  });
+
+  const body = [
+    `<h1>${escapeHtml(domain || '(none)')}</h1>`,
+    `<p class="meta">${entries.length} tab(s)</p>`,
+    '<ul>',
+    ...items,
+    '</ul>',
+  ].join('\n');
+
+  return renderPage(domain || '(none)', '../', body);
+}
+
+/**
+ * Build the search index script: one compact entry per tab, newest first
+ */
+function generateSearchIndex(
+  sortedGroups: TabGroup[],
+  groupBy: ExportPeriod,
+  periodOf: Map<string, string>
+): string {
+  const tabs: Array<[string, string, string, string, string, string, string]> = [];
+
+  for (const group of sortedGroups) {
+    const page = periodPagePath(periodOf.get(group.id)!, groupBy);
+    const date = getDateOnly(group.createdAt);
+
+    for (const tab of group.tabs) {
+      const tags = [...(tab.tags ?? []), ...(group.tags ?? [])].map((tag) => `#${tag}`).join(' ');
+      tabs.push([tab.title, tab.url, tab.domain, tags, date, page, group.id]);
+    }
+  }
+
+  return `window.ONETAB_SEARCH_INDEX = ${JSON.stringify({ generated: new Date().toISOString(), tabs })};\n`;
+}
+
+/**
+ * Render every file of the site
+ */
+function* generateSite(groups: TabGroup[], groupBy: ExportPeriod): Generator<ExportFile> {
+  const sortedGroups = [...groups].sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
+  const periods = Array.from(groupByPeriod(sortedGroups, groupBy)).sort((a, b) => b[0].localeCompare(a[0]));
+  const domains = countTabsByDomain(groups);
+  const domainPages = assignDomainPages(domains.map(([domain]) => domain));
+
+  const periodOf = new Map<string, string>();
+  for (const [periodKey, periodGroups] of periods) {
+    for (const group of periodGroups) periodOf.set(group.id, periodKey);
+  }
+
+  yield { path: 'index.html', content: generateIndexPage(groups, periods, groupBy, domains, domainPages) };
+
+  for (const [periodKey, periodGroups] of periods) {
+    yield { path: periodPagePath(periodKey, groupBy), content: generatePeriodPage(periodKey, periodGroups, groupBy) };
+  }
+
+  const tabsByDomain = new Map<string, Array<{ tab: Tab; group: TabGroup }>>();
+  for (const group of sortedGroups) {
+    for (const tab of group.tabs) {
+      const entries = tabsByDomain.get(tab.domain) ?? [];
+      entries.push({ tab, group });
+      tabsByDomain.set(tab.domain, entries);
+    }
+  }
+
+  yield { path: 'domains/index.html', content: generateDomainsIndexPage(domains, domainPages) };
+
+  for (const [domain, entries] of tabsByDomain) {
+    yield { path: domainPages.get(domain)!, content: generateDomainPage(domain, entries, groupBy, periodOf) };
+  }
+
+  yield { path: 'search-index.js', content: generateSearchIndex(sortedGroups, groupBy, periodOf) };
+  yield { path: 'search.js', content: SEARCH_SCRIPT };
+}
+
+/**
+ * Render search results as a standalone page
+ */
+function generateSearchResultsPage({ query, results }: SearchResults): string {
+  const items = results.map((result) =>
+    `<li><span class="date">${escapeHtml(result.group.createdAt.substring(0, 10))}</span>` +
+    `${renderTabLink(result.tab)}<span class="domain">${escapeHtml(result.tab.domain)}</span>${renderTags(result.tab.tags)}</li>`
+  );
+
+  const body = [
+    `<h1>Search Results: ${escapeHtml(query)}</h1>`,
+    `<p class="meta">Found ${results.length} matching links</p>`,
+    '<ul>',
+    ...items,
+    '</ul>',
+  ].join('\n');
+
+  return renderPage(`Search Results: ${query}`, '', body, false);
+}
+
+export const siteExporter: Exporter = {
+  name: 'site',
+  label: 'HTML site',
+  extension: '.html',
+  renderGroup: generateGroupHtml,
+  renderPeriod: generatePeriodPage,
+  renderSearchResults: generateSearchResultsPage,
+  renderFiles: generateSite,
+};
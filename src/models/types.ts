@@ -51,6 +51,66 @@ export interface OneTabRawExport {
   tabGroups?: OneTabGroup[];
 }
 
+// ============================================================================
+// Browser Profiles
+// ============================================================================
+
+/**
+ * Chromium-based browsers whose OneTab LevelDB storage can be imported
+ */
+export type ChromiumBrowser = 'chrome' | 'edge' | 'chromium' | 'brave' | 'vivaldi';
+
+/**
+ * OneTab extension storage found in a browser profile
+ */
+export interface OneTabLocation {
+  extensionId: string;
+  /** `Local Extension Settings/<extensionId>` LevelDB directory */
+  path: string;
+  /** Newest modification time of the files in the directory */
+  lastModified: string;
+}
+
+/**
+ * A browser profile found on disk
+ */
+export interface BrowserProfile {
+  browser: ChromiumBrowser;
+  /** Browser user data directory (contains `Local State`) */
+  userDataDir: string;
+  /** Profile directory name, e.g. "Default" or "Profile 1" */
+  profile: string;
+  /** Full path of the profile directory */
+  profilePath: string;
+  /** Name shown in the browser's profile picker */
+  displayName?: string;
+  /** OneTab storage in this profile, if installed */
+  oneTab?: OneTabLocation;
+}
+
+/**
+ * A Firefox profile listed in `profiles.ini`
+ */
+export interface FirefoxProfile {
+  /** Profile name, e.g. "default-release" */
+  name: string;
+  /** Full path of the profile directory */
+  path: string;
+}
+
+/**
+ * OneTab's IndexedDB storage found in a Firefox profile
+ */
+export interface FirefoxOneTabLocation {
+  profile: FirefoxProfile;
+  /** Internal UUID Firefox assigned to the extension in this profile */
+  uuid: string;
+  /** `storage/default/moz-extension+++<uuid>.../idb/*.sqlite` database */
+  databasePath: string;
+  /** Modification time of the database (or its write-ahead log) */
+  lastModified: string;
+}
+
 // ============================================================================
 // Master Data Format (normalized for our application)
 // ============================================================================
@@ -67,6 +127,74 @@ export interface Tab {
   title: string;
   /** Domain extracted from URL */
   domain: string;
+  /** Optional: times this URL appears across all groups (set by `dedupe --mode annotate`) */
+  occurrences?: number;
+  /** Optional: ISO date of the earliest group containing this URL */
+  firstSeen?: string;
+  /** Optional: ISO date of the latest group containing this URL */
+  lastSeen?: string;
+  /** Optional: user-owned tags (lowercase, without `#`) */
+  tags?: string[];
+  /** Optional: user-owned free-form notes */
+  notes?: string;
+  /** Optional: result of the last `check-links` run for this URL */
+  linkCheck?: LinkCheck;
+  /** Optional: page metadata fetched by `enrich` */
+  enrichment?: TabEnrichment;
+  /** Optional: stored copy of the page saved by `capture` */
+  capture?: PageCapture;
+}
+
+/**
+ * Result of checking whether a tab's URL still works
+ */
+export interface LinkCheck {
+  /** HTTP status of the final response (absent when no response came back) */
+  status?: number;
+  /** URL after redirects (only when it differs from the tab URL) */
+  finalUrl?: string;
+  /** Why no response came back, e.g. "ENOTFOUND" or "timeout" */
+  error?: string;
+  /** When the check ran (ISO 8601) */
+  checkedAt: string;
+}
+
+/**
+ * Page metadata fetched from a tab's URL
+ */
+export interface TabEnrichment {
+  /** og:title, else the <title> element */
+  title?: string;
+  /** og:description, else the description meta tag */
+  description?: string;
+  /** rel=canonical link, else og:url */
+  canonicalUrl?: string;
+  /** og:site_name */
+  siteName?: string;
+  /** Page language, e.g. "en" or "de-CH" */
+  language?: string;
+  /** Favicon URL (the site's /favicon.ico when the page declares none) */
+  faviconUrl?: string;
+  /** Why nothing could be extracted (fields above are absent then) */
+  error?: string;
+  /** When the page was fetched (ISO 8601) */
+  fetchedAt: string;
+}
+
+/**
+ * A tab's page as saved in the content store
+ */
+export interface PageCapture {
+  /** SHA-256 of the stored HTML, naming its objects in the content store */
+  hash?: string;
+  /** Size of the stored HTML in bytes */
+  bytes?: number;
+  /** Download stopped at the size cap, so the end of the page is missing */
+  truncated?: boolean;
+  /** Why the page could not be captured (fields above are absent then) */
+  error?: string;
+  /** When the page was downloaded (ISO 8601) */
+  capturedAt: string;
 }
 
 /**
@@ -87,6 +215,22 @@ export interface TabGroup {
   starred: boolean;
   /** Optional: custom title for the group */
   title?: string;
+  /** Optional: user-owned tags (lowercase, without `#`) */
+  tags?: string[];
+  /** Optional: user-owned free-form notes */
+  notes?: string;
+  /** Optional: tabs restored out of this group in OneTab, detected on re-import */
+  removedTabs?: RemovedTab[];
+  /** Optional: LevelDB sequence number of the old `state` version this deleted group was recovered from */
+  recoveredFromSequence?: number;
+}
+
+/**
+ * A tab that disappeared from its group between imports
+ */
+export interface RemovedTab extends Tab {
+  /** When the removal was detected (ISO 8601) */
+  removedAt: string;
 }
 
 /**
@@ -99,9 +243,9 @@ export interface MasterData {
   exportedAt: string;
   /** Source browser and extension info */
   source: {
-    browser: 'edge' | 'chrome' | 'firefox' | 'unknown';
+    browser: ChromiumBrowser | 'firefox' | 'unknown';
     extensionId: string;
-    extractionMethod: 'devtools' | 'leveldb' | 'import';
+    extractionMethod: 'devtools' | 'leveldb' | 'indexeddb' | 'text' | 'import';
   };
   /** Statistics */
   stats: {
@@ -125,29 +269,59 @@ export interface ImportOptions {
   input?: string;
   /** LevelDB directory path */
   leveldb?: string;
+  /** Text file from OneTab's "Export URLs" page */
+  text?: string;
+  /** Firefox profile, storage directory or IndexedDB file (true: discover) */
+  firefox?: string | boolean;
+  /** Base date for text imports (defaults to the file's modification time) */
+  date?: string;
   /** Browser extension ID override */
   extensionId?: string;
   /** Browser type */
-  browser?: 'edge' | 'chrome';
+  browser?: ChromiumBrowser;
+  /** Discover the browser's OneTab LevelDB folder automatically */
+  auto?: boolean;
+  /** Browser profile for --auto (directory or display name) */
+  browserProfile?: string;
   /** Output master JSON path */
   output?: string;
+  /** Deduplicate URLs after merging */
+  dedupe?: 'collapse' | 'annotate';
+  /** Which occurrence to keep when collapsing duplicates */
+  keep?: 'first' | 'last';
 }
 
 export interface ExportOptions {
   /** Master JSON input path */
   input?: string;
-  /** Output directory for Markdown files */
+  /** Output directory */
   output?: string;
   /** Group by: 'month' | 'week' | 'day' */
-  groupBy?: 'month' | 'week' | 'day';
+  groupBy?: ExportPeriod;
   /** Date range filter: start */
   from?: string;
   /** Date range filter: end */
   to?: string;
+  /** Output format: a registered exporter */
+  format?: string;
+  /** Write one consolidated Markdown file (markdown format only) */
+  single?: boolean;
+  /** Field delimiter for CSV output */
+  delimiter?: string;
+  /** Write a note per domain (obsidian format) */
+  domainNotes?: boolean;
+  /** Leave out tabs whose last link check found them dead */
+  excludeDead?: boolean;
+  /** Add "(archived)" links from the archive-lookup cache (markdown format) */
+  archiveLinks?: boolean;
+  /** Search query to select tabs */
+  query?: string;
+  /** Comma-separated group IDs to select */
+  groups?: string;
 }
 
 export interface SearchOptions {
-  /** Search query (matches title and URL) */
+  /** Search query in the query language (see src/parsers/query.ts) */
   query?: string;
   /** URL pattern (regex) */
   urlPattern?: string;
@@ -155,14 +329,200 @@ export interface SearchOptions {
   titlePattern?: string;
   /** Domain filter */
   domain?: string;
+  /** Tag filter (matches tab or group tags) */
+  tag?: string;
   /** Date range filter: start */
   from?: string;
   /** Date range filter: end */
   to?: string;
+  /** Output format: 'console' or a registered exporter */
+  format?: string;
+  /** Field delimiter for CSV output */
+  delimiter?: string;
+  /** Master JSON input path */
+  input?: string;
+  /** Use the persistent search index for --query (false = plain substring scan) */
+  index?: boolean;
+  /** Leave out tabs whose last link check found them dead */
+  excludeDead?: boolean;
+  /** Bare words also match the text of pages saved by `capture` */
+  inContent?: boolean;
+}
+
+export interface DedupeOptions {
+  /** Master JSON input path */
+  input?: string;
+  /** What to do with duplicates: only report, collapse, or annotate */
+  mode?: 'report' | 'collapse' | 'annotate';
+  /** Which occurrence to keep when collapsing duplicates */
+  keep?: 'first' | 'last';
+  /** Show what would change without writing */
+  dryRun?: boolean;
+}
+
+export interface TagOptions {
+  /** Master JSON input path */
+  input?: string;
+  /** Comma-separated tags to add */
+  add?: string;
+  /** Comma-separated tags to remove */
+  remove?: string;
+  /** Notes to set on the selected tabs/groups (empty string clears) */
+  note?: string;
+  /** Select a tab by ID */
+  tab?: string;
+  /** Select a group by ID */
+  group?: string;
+  /** Select tabs by domain (includes subdomains) */
+  domain?: string;
+  /** Select tabs by search query (matches title and URL) */
+  query?: string;
+  /** Show what would change without writing */
+  dryRun?: boolean;
+}
+
+export interface MigrateOptions {
+  /** Master JSON input path */
+  input?: string;
+  /** Show the migration plan without writing */
+  dryRun?: boolean;
+}
+
+export interface DiffOptions {
   /** Output format */
-  format?: 'console' | 'json' | 'markdown';
+  format?: 'console' | 'json';
+}
+
+export interface SnapshotOptions {
+  /** Snapshot the OneTab LevelDB found by browser profile discovery */
+  auto?: boolean;
+  /** Browser for --auto */
+  browser?: ChromiumBrowser;
+  /** Browser profile for --auto (directory or display name) */
+  browserProfile?: string;
+  /** Extra extension ID to look for with --auto */
+  extensionId?: string;
+  /** Directory that receives the timestamped snapshot folder */
+  output?: string;
+  /** Copy attempts before giving up */
+  attempts?: string;
+}
+
+export interface RecoverHistoryOptions {
+  /** Master JSON path to merge into */
+  output?: string;
+  /** Browser the LevelDB belongs to */
+  browser?: ChromiumBrowser;
+  /** Show what would be recovered without writing */
+  dryRun?: boolean;
+}
+
+export interface CheckLinksOptions {
+  /** Master JSON input path (updated in place) */
+  input?: string;
+  /** Requests in flight at once */
+  concurrency?: string;
+  /** Minimum milliseconds between requests to the same domain */
+  delay?: string;
+  /** Request timeout in milliseconds */
+  timeout?: string;
+  /** Check again URLs that already have a result */
+  recheck?: boolean;
+  /** Check again results older than this many days */
+  olderThan?: string;
+  /** Check at most this many URLs */
+  limit?: string;
+  /** Show what would be checked without sending requests */
+  dryRun?: boolean;
+}
+
+export interface EnrichOptions {
+  /** Master JSON input path (updated in place) */
+  input?: string;
+  /** Pages fetched at once (one per domain) */
+  concurrency?: string;
+  /** Minimum milliseconds between requests to the same domain */
+  delay?: string;
+  /** Request timeout in milliseconds */
+  timeout?: string;
+  /** Only tabs matching a search query */
+  query?: string;
+  /** Fetch again pages that were already enriched */
+  refresh?: boolean;
+  /** Fetch again pages that failed last time */
+  retryFailed?: boolean;
+  /** Fetch at most this many URLs */
+  limit?: string;
+  /** Show what would be fetched without sending requests */
+  dryRun?: boolean;
+}
+
+export interface CaptureOptions {
+  /** Master JSON input path (updated in place; the store is created next to it) */
+  input?: string;
+  /** Pages downloaded at once (one per domain) */
+  concurrency?: string;
+  /** Minimum milliseconds between requests to the same domain */
+  delay?: string;
+  /** Request timeout in milliseconds */
+  timeout?: string;
+  /** Largest page kept, in KB (longer pages are cut) */
+  maxSize?: string;
+  /** Only tabs matching a search query */
+  query?: string;
+  /** Download again pages that were already captured */
+  refresh?: boolean;
+  /** Download again pages that failed last time */
+  retryFailed?: boolean;
+  /** Download at most this many URLs */
+  limit?: string;
+  /** Show what would be downloaded without sending requests */
+  dryRun?: boolean;
+}
+
+export interface ArchiveLookupOptions {
+  /** Master JSON input path (the cache is written next to it) */
+  input?: string;
+  /** Wayback-style availability API endpoint */
+  api?: string;
+  /** Only tabs that check-links found dead */
+  deadOnly?: boolean;
+  /** Only tabs matching a search query */
+  query?: string;
+  /** Milliseconds between API requests */
+  delay?: string;
+  /** Request timeout in milliseconds */
+  timeout?: string;
+  /** Look up at most this many URLs */
+  limit?: string;
+  /** Ask again for URLs the archive had no snapshot of */
+  retryMissing?: boolean;
+  /** Show what would be looked up without sending requests */
+  dryRun?: boolean;
+}
+
+export interface StatsOptions {
+  /** Master JSON input path */
+  input?: string;
+  /** Time bucket for the breakdown */
+  period?: 'day' | 'week' | 'month';
+  /** Output format */
+  format?: 'console' | 'json' | 'html';
+  /** Output file path (json/html) */
+  output?: string;
+  /** Filter from date */
+  from?: string;
+  /** Filter to date */
+  to?: string;
+  /** Number of top domains per period */
+  top?: string;
+}
+
+export interface ServeOptions {
   /** Master JSON input path */
   input?: string;
+  /** Port to listen on (the server only binds to localhost) */
+  port?: string;
 }
 
 // ============================================================================
@@ -183,7 +543,19 @@ export interface SearchResult {
     inTitle: boolean;
     inUrl: boolean;
     inDomain: boolean;
+    /** Hit in the page metadata from `enrich` */
+    inMetadata: boolean;
+    /** Hit in the page text saved by `capture` (`--in-content` only) */
+    inContent: boolean;
   };
+  /** Relevance score (ranked index searches only; higher is better) */
+  score?: number;
+}
+
+export interface DomainCount {
+  domain: string;
+  /** Number of tabs on this domain */
+  count: number;
 }
 
 export interface SearchResults {
@@ -192,17 +564,357 @@ export interface SearchResults {
   results: SearchResult[];
 }
 
+// ============================================================================
+// Exporters
+// ============================================================================
+
+export type ExportPeriod = 'month' | 'week' | 'day';
+
+/**
+ * Format settings passed through to exporters
+ */
+export interface RenderOptions {
+  /** Field delimiter for delimited formats (default ",") */
+  delimiter?: string;
+  /** Period the export is grouped by (default month) */
+  groupBy?: ExportPeriod;
+  /** Also write a note per domain (note vault formats) */
+  domainNotes?: boolean;
+  /** Archived copy of a tab, linked as "(archived)" in Markdown (see archive-lookup) */
+  archiveLink?: (tab: Tab, group: TabGroup) => string | undefined;
+}
+
+/**
+ * An output format for `export` and `search --format` (see src/exporters)
+ */
+export interface Exporter {
+  /** Format name used on the command line */
+  name: string;
+  /** Human-readable format name for messages */
+  label: string;
+  /** File extension including the dot, e.g. ".md" */
+  extension: string;
+  /**
+   * `export` writes one file instead of one file per period: the single
+   * document from renderFiles when the exporter has it, else a stream of
+   * renderGroup chunks
+   */
+  singleFile?: boolean;
+  /** Text written before the groups of a streamed file or search output (e.g. a CSV header) */
+  header?(options: RenderOptions): string;
+  /** Render a single group */
+  renderGroup(group: TabGroup, options: RenderOptions): string;
+  /** Render the document for one period of `export` */
+  renderPeriod(periodKey: string, groups: TabGroup[], groupBy: ExportPeriod, options: RenderOptions): string;
+  /**
+   * Render a `search` results document (optional: without it, search
+   * output is the header followed by the matching groups through renderGroup)
+   */
+  renderSearchResults?(searchResults: SearchResults, options: RenderOptions): string;
+  /**
+   * Render a multi-file `export` (e.g. a static site) instead of one file
+   * per period; paths are relative to the output directory, with "/".
+   * With singleFile, yields one whole document (e.g. bookmarks HTML),
+   * whose path is the default file name
+   */
+  renderFiles?(groups: TabGroup[], groupBy: ExportPeriod, options: RenderOptions): Iterable<ExportFile>;
+  /**
+   * Combine a rendered file with the one already on disk (e.g. to keep
+   * user edits); files whose combined content is unchanged are not rewritten
+   */
+  mergeFile?(existing: string, generated: string): string;
+}
+
+/**
+ * A file of a multi-file export
+ */
+export interface ExportFile {
+  /** Path relative to the output directory */
+  path: string;
+  content: string;
+}
+
+/**
+ * One tab with its group's fields, as written by the flat formats
+ */
+export interface TabRow {
+  groupId: string;
+  /** Group creation time (ISO 8601) */
+  groupCreatedAt: string;
+  /** Group title ('' when untitled) */
+  groupTitle: string;
+  starred: boolean;
+  tabId: string;
+  title: string;
+  url: string;
+  domain: string;
+  /** Tab tags (omitted when the tab has none) */
+  tags?: string[];
+  /** HTTP status or error of the last link check (omitted when unchecked) */
+  linkStatus?: string;
+  /** Whether the last link check found the link dead (omitted when unchecked) */
+  dead?: boolean;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+export interface PeriodStats {
+  /** Period key (YYYY-MM-DD, YYYY-Www or YYYY-MM) */
+  period: string;
+  groups: number;
+  tabs: number;
+  /** Most saved domains in this period */
+  topDomains: DomainCount[];
+}
+
+export interface GroupSizeBucket {
+  /** Bucket label, e.g. "2-5" */
+  label: string;
+  /** Number of groups whose tab count falls in the bucket */
+  groups: number;
+}
+
+export interface HoardingStreak {
+  /** First day (YYYY-MM-DD) */
+  start: string;
+  /** Last day (YYYY-MM-DD) */
+  end: string;
+  /** Consecutive days with at least one saved group */
+  days: number;
+  /** Tabs saved during the streak */
+  tabs: number;
+}
+
+export interface StatsReport {
+  generatedAt: string;
+  period: 'day' | 'week' | 'month';
+  /** Applied date filter, if any */
+  range: { from?: string; to?: string };
+  totals: {
+    groups: number;
+    tabs: number;
+    domains: number;
+    averageGroupSize: number;
+    medianGroupSize: number;
+    /** Days with at least one saved group */
+    activeDays: number;
+  };
+  /** Breakdown per period, oldest first (periods with no groups are omitted) */
+  periods: PeriodStats[];
+  topDomains: DomainCount[];
+  groupSizes: GroupSizeBucket[];
+  largestGroups: Array<{ id: string; createdAt: string; title?: string; tabCount: number }>;
+  streaks: {
+    /** Longest streaks, longest first */
+    longest: HoardingStreak[];
+    /** Most recent streak */
+    latest?: HoardingStreak;
+  };
+}
+
+// ============================================================================
+// Query Language
+// ============================================================================
+
+/**
+ * Fields a query term can target (`any` = bare word: title, URL or domain)
+ */
+export type QueryField = 'any' | 'title' | 'url' | 'domain' | 'meta' | 'tag' | 'is';
+
+/**
+ * Date operators: `after:` (on/after start), `before:` (strictly before start), `on:` (within period)
+ */
+export type QueryDateOperator = 'after' | 'before' | 'on';
+
+export interface QueryTermNode {
+  type: 'term';
+  field: QueryField;
+  value: string;
+  /** word: substring (token prefix match for bare words), phrase: quoted substring, regex: /.../ */
+  match: 'word' | 'phrase' | 'regex';
+}
+
+export interface QueryDateNode {
+  type: 'date';
+  operator: QueryDateOperator;
+  /** Date as written (YYYY, YYYY-MM, YYYY-MM-DD) */
+  value: string;
+}
+
+export interface QueryNotNode {
+  type: 'not';
+  child: QueryNode;
+}
+
+export interface QueryAndNode {
+  type: 'and';
+  children: QueryNode[];
+}
+
+export interface QueryOrNode {
+  type: 'or';
+  children: QueryNode[];
+}
+
+export type QueryNode =
+  | QueryTermNode
+  | QueryDateNode
+  | QueryNotNode
+  | QueryAndNode
+  | QueryOrNode;
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+export interface DuplicateOccurrence {
+  /** The duplicated tab */
+  tab: Tab;
+  /** The group containing the tab */
+  group: {
+    id: string;
+    createdAt: string;
+    createdAtEpoch: number;
+  };
+}
+
+export interface DuplicateSet {
+  /** Normalized URL shared by all occurrences */
+  normalizedUrl: string;
+  /** Occurrences, oldest group first */
+  occurrences: DuplicateOccurrence[];
+}
+
+// ============================================================================
+// Snapshot Diffing
+// ============================================================================
+
+export interface TabChange {
+  /** Tab as stored before */
+  before: Tab;
+  /** Tab as found now */
+  after: Tab;
+}
+
+export interface GroupDiff {
+  /** The group as found now */
+  group: TabGroup;
+  /** Tabs present now but not before */
+  addedTabs: Tab[];
+  /** Tabs present before but not now */
+  removedTabs: Tab[];
+  /** Tabs whose URL or title changed */
+  changedTabs: TabChange[];
+  /** Group-level fields that changed (e.g. title, starred) */
+  changedFields: string[];
+}
+
+export interface MasterDiff {
+  /** Groups only in the newer snapshot */
+  addedGroups: TabGroup[];
+  /** Groups only in the older snapshot */
+  removedGroups: TabGroup[];
+  /** Groups in both snapshots with differences */
+  changedGroups: GroupDiff[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Defaults for `onetab export` (option names as on the command line)
+ */
+export interface ExportDefaults {
+  /** Output directory */
+  output?: string;
+  /** Output format */
+  format?: string;
+  /** Group by period */
+  groupBy?: ExportPeriod;
+  /** CSV field delimiter */
+  delimiter?: string;
+  /** Leave out dead links */
+  excludeDead?: boolean;
+  /** Add archive links (markdown format) */
+  archiveLinks?: boolean;
+}
+
+/**
+ * Settings an onetabrc file sets at the top level or per profile
+ */
+export interface ConfigSettings {
+  /** Master JSON path (`--input` of most commands, `--output` of import and recover-history) */
+  master?: string;
+  /** Browser for import, snapshot and recover-history */
+  browser?: ChromiumBrowser;
+  /** Extension ID for import and snapshot */
+  extensionId?: string;
+  /** Browser profile for `import --auto` and `snapshot --auto` */
+  browserProfile?: string;
+  /** Defaults for export */
+  export?: ExportDefaults;
+}
+
+/**
+ * Contents of an onetabrc file
+ */
+export interface ConfigFile extends ConfigSettings {
+  /** Profile used when no --profile is given */
+  defaultProfile?: string;
+  /** Named profiles; their settings override the top-level ones */
+  profiles?: Record<string, ConfigSettings>;
+}
+
+/**
+ * A setting's effective value and where it came from
+ */
+export interface ConfigValue {
+  value: string | boolean;
+  /** Config file (and profile) that set it, or "default" */
+  source: string;
+}
+
+/**
+ * Effective configuration after merging config files and the profile
+ */
+export interface ResolvedConfig {
+  /** Config files read, lowest priority first */
+  files: string[];
+  /** Active profile, if any */
+  profile?: string;
+  /** Where the active profile was chosen (--profile or a file's defaultProfile) */
+  profileSource?: string;
+  /** Profiles defined across all files */
+  profiles: string[];
+  /** Effective values by setting path, e.g. "master" or "export.format" */
+  values: Record<string, ConfigValue>;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
 
-export const SCHEMA_VERSION = '1.0.0';
+export const SCHEMA_VERSION = '1.6.0';
 
 export const DEFAULT_EXTENSION_IDS = {
   edge: 'hoimpamkkoehapgenciaoajfkfkpgfop',
   chrome: 'chphlpgkkbolifaimnlloiipkdnihall',
 } as const;
 
+/**
+ * OneTab's add-on ID on addons.mozilla.org
+ */
+export const FIREFOX_EXTENSION_ID = 'extension@one-tab.com';
+
+/**
+ * Prefix of group IDs made up for "Export URLs" text imports, so they
+ * never collide with OneTab's own IDs
+ */
+export const TEXT_GROUP_ID_PREFIX = 'text-';
+
 export const DEFAULT_PATHS = {
   masterJson: './data/master.json',
   outputDir: './output',
@@ -0,0 +1,293 @@
+/**
+ * Firefox Parser for OneTab data
+ *
+ * Firefox keeps WebExtension `storage.local` data in an IndexedDB
+ * database inside the profile:
+ *
+ *   storage/default/moz-extension+++<uuid>^userContextId=.../idb/*.sqlite
+ *
+ * The UUID is assigned per profile and recorded in prefs.js. Each key is
+ * a row of the `object_data` table; its value is a Snappy-compressed
+ * structured clone (stored in the `.files` directory next to the
+ * database when it is large).
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import type { FirefoxOneTabLocation, FirefoxProfile, MasterData } from '../models/types.js';
+import { FIREFOX_EXTENSION_ID } from '../models/types.js';
+import { parseOneTabJson } from './json.js';
+import { ONETAB_KEYS } from './leveldb.js';
+import { exists, listFiles, readText } from '../utils/files.js';
+import { discoverFirefoxProfiles, getCurrentEnvironment } from '../utils/browsers.js';
+import type { DiscoveryEnvironment } from '../utils/browsers.js';
+import { openSqliteDatabase, readSqliteTable } from '../utils/sqlite.js';
+import type { SqliteRow } from '../utils/sqlite.js';
+import { decompressSnappy, decompressSnappyFramed, isFramedSnappy } from '../utils/snappy.js';
+import { readStructuredClone } from '../utils/structured-clone.js';
+
+/**
+ * Object store holding `storage.local` in an extension's database
+ */
+const STORAGE_LOCAL_STORE = 'storage-local';
+
+/**
+ * Type byte of a string key in IndexedDB's key encoding
+ */
+const KEY_TYPE_STRING = 0x30;
+
+/**
+ * Read the extension ID → UUID map from a profile's prefs.js
+ */
+async function readExtensionUuids(profilePath: string): Promise<Record<string, string>> {
+  const prefsPath = join(profilePath, 'prefs.js');
+  if (!(await exists(prefsPath))) return {};
+
+  const match = /user_pref\("extensions\.webextensions\.uuids",\s*"((?:[^"\\]|\\.)*)"\);/
+    .exec(await readText(prefsPath));
+  if (!match) return {};
+
+  try {
+    // The pref value is a JSON object inside a JavaScript string literal
+    return JSON.parse(JSON.parse(`"${match[1]}"`)) as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * List the IndexedDB databases of an extension storage directory
+ */
+async function listIdbDatabases(storageDir: string): Promise<string[]> {
+  const idbDir = join(storageDir, 'idb');
+  if (!(await exists(idbDir))) return [];
+  return (await listFiles(idbDir)).filter((file) => extname(file) === '.sqlite').sort();
+}
+
+/**
+ * Find the storage directories of an extension UUID in a profile
+ */
+async function findStorageDirs(profilePath: string, uuid: string): Promise<string[]> {
+  const storageRoot = join(profilePath, 'storage', 'default');
+  if (!(await exists(storageRoot))) return [];
+
+  // Directory names carry origin attributes, e.g. "^userContextId=4294967295"
+  const prefix = `moz-extension+++${uuid}`;
+  return (await readdir(storageRoot))
+    .filter((name) => name === prefix || name.startsWith(`${prefix}^`))
+    .map((name) => join(storageRoot, name));
+}
+
+/**
+ * Newest modification time of a database and its write-ahead log
+ */
+async function getDatabaseModified(databasePath: string): Promise<string> {
+  let newest = (await stat(databasePath)).mtimeMs;
+  if (await exists(`${databasePath}-wal`)) {
+    newest = Math.max(newest, (await stat(`${databasePath}-wal`)).mtimeMs);
+  }
+  return new Date(newest).toISOString();
+}
+
+/**
+ * Find OneTab's IndexedDB databases in a Firefox profile
+ */
+async function findInProfile(
+  profile: FirefoxProfile,
+  extensionId: string
+): Promise<FirefoxOneTabLocation[]> {
+  const uuid = (await readExtensionUuids(profile.path))[extensionId];
+  if (!uuid) return [];
+
+  const locations: FirefoxOneTabLocation[] = [];
+  for (const storageDir of await findStorageDirs(profile.path, uuid)) {
+    for (const databasePath of await listIdbDatabases(storageDir)) {
+      locations.push({ profile, uuid, databasePath, lastModified: await getDatabaseModified(databasePath) });
+    }
+  }
+  return locations;
+}
+
+/**
+ * Discover OneTab installations in all Firefox profiles, most recently used first
+ */
+export async function findFirefoxOneTab(
+  environment: DiscoveryEnvironment = getCurrentEnvironment(),
+  extensionId: string = FIREFOX_EXTENSION_ID
+): Promise<FirefoxOneTabLocation[]> {
+  const locations: FirefoxOneTabLocation[] = [];
+
+  for (const profile of await discoverFirefoxProfiles(environment)) {
+    locations.push(...await findInProfile(profile, extensionId));
+  }
+
+  return locations.sort((a, b) => b.lastModified.localeCompare(a.lastModified));
+}
+
+/**
+ * Resolve a user-supplied path to OneTab's IndexedDB database files
+ *
+ * Accepts a `.sqlite` file, an `idb` directory, an extension storage
+ * directory (`moz-extension+++...`) or a whole profile directory.
+ */
+export async function resolveFirefoxDatabases(
+  path: string,
+  extensionId: string = FIREFOX_EXTENSION_ID
+): Promise<string[]> {
+  if ((await stat(path)).isFile()) {
+    return [path];
+  }
+
+  if (await exists(join(path, 'prefs.js'))) {
+    const locations = await findInProfile({ name: basename(path), path }, extensionId);
+    return locations.map((location) => location.databasePath);
+  }
+
+  if (basename(path) === 'idb') {
+    return listIdbDatabases(dirname(path));
+  }
+
+  return listIdbDatabases(path);
+}
+
+/**
+ * Decode an IndexedDB string key (other key types are not used by storage.local)
+ */
+export function decodeIdbKey(key: Buffer): string | undefined {
+  if (key[0] !== KEY_TYPE_STRING) return undefined;
+
+  let result = '';
+  let pos = 1;
+
+  // Each code unit takes 1-3 bytes; a zero byte terminates the string
+  while (pos < key.length && key[pos] !== 0) {
+    let code: number;
+
+    if ((key[pos] & 0x80) === 0) {
+      code = key[pos++] - 1;
+    } else if ((key[pos] & 0x40) === 0) {
+      code = (key[pos++] << 8) | (key[pos++] ?? 0);
+      code -= 0x8000 - 0x7f;
+    } else {
+      code = (key[pos++] << 10) | ((key[pos++] ?? 0) << 2) | ((key[pos++] ?? 0) >> 6);
+      code &= 0xffff;
+    }
+
+    result += String.fromCharCode(code);
+  }
+
+  return result;
+}
+
+/**
+ * Get the uncompressed structured clone bytes of an `object_data` row
+ */
+async function readRowData(row: SqliteRow, databasePath: string): Promise<Buffer> {
+  // Large values live in "<database>.files/<id>"; file_ids marks it with a "."
+  const fileIds = typeof row.file_ids === 'string' ? row.file_ids.split(' ') : [];
+  const cloneFile = fileIds.find((id) => id.startsWith('.'));
+
+  if (cloneFile) {
+    const filesDir = join(dirname(databasePath), `${basename(databasePath, '.sqlite')}.files`);
+    const content = await readFile(join(filesDir, cloneFile.substring(1)));
+    return isFramedSnappy(content) ? decompressSnappyFramed(content) : content;
+  }
+
+  if (!Buffer.isBuffer(row.data)) {
+    throw new Error('value is neither inline nor stored in a file');
+  }
+
+  return decompressSnappy(row.data);
+}
+
+/**
+ * Read all `storage.local` keys and values from an extension's IndexedDB database
+ */
+export async function readFirefoxStorage(databasePath: string): Promise<Record<string, unknown>> {
+  const db = await openSqliteDatabase(databasePath);
+
+  const storeIds = readSqliteTable(db, 'object_store')
+    .filter((store) => store.name === STORAGE_LOCAL_STORE)
+    .map((store) => store.id);
+
+  const values: Record<string, unknown> = {};
+
+  for (const row of readSqliteTable(db, 'object_data')) {
+    if (storeIds.length > 0 && !storeIds.includes(row.object_store_id)) continue;
+    if (!Buffer.isBuffer(row.key)) continue;
+
+    const key = decodeIdbKey(row.key);
+    if (key === undefined) continue;
+
+    try {
+      values[key] = readStructuredClone(await readRowData(row, databasePath));
+    } catch (error) {
+      console.warn(`Warning: Error reading key "${key}":`, (error as Error).message);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Pick the OneTab data out of the storage values
+ */
+function findOneTabData(values: Record<string, unknown>): unknown | null {
+  for (const key of ONETAB_KEYS) {
+    const value = values[key];
+    if (value === undefined || value === null) continue;
+
+    console.log(`Found OneTab data in key: "${key}"`);
+
+    // Values are usually JSON strings, as in Chromium's storage
+    if (typeof value === 'string') {
+      try {
+        return { [key]: JSON.parse(value) };
+      } catch {
+        return { [key]: value };
+      }
+    }
+    return { [key]: value };
+  }
+
+  return null;
+}
+
+/**
+ * Parse OneTab data from Firefox's IndexedDB storage
+ *
+ * @param path - Profile directory, extension storage directory, `idb` directory or `.sqlite` file
+ */
+export async function parseFirefoxStorage(
+  path: string,
+  source: MasterData['source']
+): Promise<MasterData> {
+  if (!(await exists(path))) {
+    throw new Error(`Firefox storage path does not exist: ${path}`);
+  }
+
+  const databases = await resolveFirefoxDatabases(path, source.extensionId);
+  if (databases.length === 0) {
+    throw new Error(`No OneTab IndexedDB database found in: ${path}`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const databasePath of databases) {
+    console.log(`Opening IndexedDB at: ${databasePath}`);
+    Object.assign(values, await readFirefoxStorage(databasePath));
+  }
+
+  const rawData = findOneTabData(values);
+
+  if (!rawData) {
+    throw new Error(
+      'Could not find OneTab data in Firefox storage. ' +
+      `Keys found: ${Object.keys(values).join(', ') || 'none'}`
+    );
+  }
+
+  return parseOneTabJson(rawData, {
+    ...source,
+    extractionMethod: 'indexeddb',
+  });
+}
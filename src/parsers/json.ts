@@ -7,12 +7,15 @@
 import type {
   OneTabGroup,
   MasterData,
+  RemovedTab,
   TabGroup,
   Tab,
 } from '../models/types.js';
-import { SCHEMA_VERSION } from '../models/types.js';
+import { SCHEMA_VERSION, TEXT_GROUP_ID_PREFIX } from '../models/types.js';
 import { epochToIso, nowIso } from '../utils/dates.js';
 import { extractDomain } from '../utils/files.js';
+import { diffGroup, hasChanges } from '../utils/diff.js';
+import { isUntitled } from '../utils/enrich.js';
 
 /**
  * Validate that an object is a valid OneTab tab
@@ -137,6 +140,41 @@ function transformGroup(group: OneTabGroup): TabGroup {
   };
 }
 
+/**
+ * Convert normalized groups back to OneTab's native format
+ * (the inverse of `transformGroup`; annotations are dropped)
+ */
+export function toOneTabGroups(groups: TabGroup[]): OneTabGroup[] {
+  return groups.map((group) => ({
+    id: group.id,
+    tabsMeta: group.tabs.map((tab) => ({
+      id: tab.id,
+      url: tab.url,
+      title: tab.title,
+    })),
+    createDate: group.createdAtEpoch,
+    ...(group.starred ? { starred: true } : {}),
+    ...(group.title ? { title: group.title } : {}),
+  }));
+}
+
+/**
+ * Calculate summary statistics for a list of groups
+ */
+export function calculateStats(groups: TabGroup[]): MasterData['stats'] {
+  const totalTabs = groups.reduce((sum, g) => sum + g.tabCount, 0);
+  const dates = groups.map((g) => g.createdAt).sort();
+
+  return {
+    totalGroups: groups.length,
+    totalTabs,
+    dateRange: {
+      earliest: dates[0] ?? nowIso(),
+      latest: dates[dates.length - 1] ?? nowIso(),
+    },
+  };
+}
+
 /**
  * Parse OneTab JSON export and convert to MasterData format
  */
@@ -152,30 +190,123 @@ export function parseOneTabJson(
   // Sort by date (newest first)
   groups.sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
 
-  // Calculate stats
-  const totalTabs = groups.reduce((sum, g) => sum + g.tabCount, 0);
-  const dates = groups.map((g) => g.createdAt).sort();
-
   const masterData: MasterData = {
     schemaVersion: SCHEMA_VERSION,
     exportedAt: nowIso(),
     source,
-    stats: {
-      totalGroups: groups.length,
-      totalTabs,
-      dateRange: {
-        earliest: dates[0] ?? nowIso(),
-        latest: dates[dates.length - 1] ?? nowIso(),
-      },
-    },
+    stats: calculateStats(groups),
     groups,
   };
 
   return masterData;
 }
 
+/**
+ * Keep a title filled in by `enrich` while OneTab still has the tab untitled
+ */
+function keepEnrichedTitle(tab: Tab, stored: Tab | undefined): Tab {
+  return stored?.enrichment?.title && stored.url === tab.url && isUntitled(tab) && !isUntitled(stored)
+    ? { ...tab, title: stored.title }
+    : tab;
+}
+
+/**
+ * Bring a stored group up to date with its newly imported version
+ *
+ * Incoming tabs replace the stored ones, but fields the import doesn't
+ * produce (tags, notes, other annotations) are carried over by tab ID.
+ * Tabs that disappeared are moved to `removedTabs` with a `removedAt`
+ * time; tabs that reappear are dropped from that history again.
+ */
+function updateGroup(
+  existing: TabGroup,
+  imported: TabGroup,
+  removedAt: string
+): TabGroup {
+  const existingTabs = new Map(existing.tabs.map((tab) => [tab.id, tab]));
+  const incoming = {
+    ...imported,
+    tabs: imported.tabs.map((tab) => keepEnrichedTitle(tab, existingTabs.get(tab.id))),
+  };
+
+  const diff = diffGroup(existing, incoming);
+  if (!hasChanges(diff)) {
+    return existing;
+  }
+
+  const incomingIds = new Set(incoming.tabs.map((tab) => tab.id));
+
+  const tabs = incoming.tabs.map((tab) => ({ ...existingTabs.get(tab.id), ...tab }));
+
+  const removedTabs: RemovedTab[] = [
+    ...(existing.removedTabs ?? []).filter((tab) => !incomingIds.has(tab.id)),
+    ...diff.removedTabs.map((tab) => ({ ...tab, removedAt })),
+  ];
+
+  const { removedTabs: _removedTabs, ...rest } = existing;
+
+  return {
+    ...rest,
+    tabs,
+    tabCount: tabs.length,
+    starred: incoming.starred,
+    title: incoming.title,
+    ...(removedTabs.length > 0 ? { removedTabs } : {}),
+  };
+}
+
+/**
+ * Find the stored text-import group an incoming one continues
+ *
+ * Text groups are identified by their URLs, so restoring a tab from a
+ * group changes its ID. The stored group holding at least half of the
+ * incoming URLs (the most of them, if several do) is taken to be the
+ * same group.
+ */
+function findContinuedTextGroup(incoming: TabGroup, candidates: TabGroup[]): TabGroup | undefined {
+  const incomingUrls = new Set(incoming.tabs.map((tab) => tab.url));
+  let best: TabGroup | undefined;
+  let bestOverlap = 0;
+
+  for (const candidate of candidates) {
+    const overlap = new Set(candidate.tabs.map((tab) => tab.url).filter((url) => incomingUrls.has(url))).size;
+    if (overlap * 2 >= incomingUrls.size && overlap > bestOverlap) {
+      best = candidate;
+      bestOverlap = overlap;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Give an incoming text group the IDs of the stored group it continues
+ *
+ * Text tab IDs are positions, so tabs take the stored ID of their URL
+ * instead; tabs new to the group keep theirs.
+ */
+function adoptTextGroupIds(incoming: TabGroup, stored: TabGroup): TabGroup {
+  const storedIdsByUrl = new Map<string, string[]>();
+  for (const tab of stored.tabs) {
+    storedIdsByUrl.set(tab.url, [...(storedIdsByUrl.get(tab.url) ?? []), tab.id]);
+  }
+
+  return {
+    ...incoming,
+    id: stored.id,
+    tabs: incoming.tabs.map((tab) => {
+      const id = storedIdsByUrl.get(tab.url)?.shift();
+      return id ? { ...tab, id } : tab;
+    }),
+  };
+}
+
 /**
  * Merge new groups into existing master data (deduplicates by group ID)
+ *
+ * Groups already stored are diffed against their incoming version and
+ * updated in place (see `updateGroup`), so user annotations (tags, notes)
+ * survive re-imports. Stored groups missing from the new data are kept.
  */
 export function mergeMasterData(
   existing: MasterData,
@@ -183,29 +314,40 @@ export function mergeMasterData(
 ): MasterData {
   const existingIds = new Set(existing.groups.map((g) => g.id));
 
+  // Text groups whose URLs changed arrive under a new ID: match them by URL
+  const importedIds = new Set(newData.groups.map((g) => g.id));
+  const unmatchedTextGroups = existing.groups.filter(
+    (g) => g.id.startsWith(TEXT_GROUP_ID_PREFIX) && !importedIds.has(g.id)
+  );
+  const incomingGroups = newData.groups.map((group) => {
+    if (existingIds.has(group.id) || !group.id.startsWith(TEXT_GROUP_ID_PREFIX)) return group;
+
+    const stored = findContinuedTextGroup(group, unmatchedTextGroups);
+    if (!stored) return group;
+    unmatchedTextGroups.splice(unmatchedTextGroups.indexOf(stored), 1);
+    return adoptTextGroupIds(group, stored);
+  });
+
+  const incomingById = new Map(incomingGroups.map((g) => [g.id, g]));
+
+  // Update groups we already have
+  const updatedGroups = existing.groups.map((group) => {
+    const incoming = incomingById.get(group.id);
+    return incoming ? updateGroup(group, incoming, newData.exportedAt) : group;
+  });
+
   // Add new groups that don't exist
-  const newGroups = newData.groups.filter((g) => !existingIds.has(g.id));
-  const allGroups = [...existing.groups, ...newGroups];
+  const newGroups = incomingGroups.filter((g) => !existingIds.has(g.id));
+  const allGroups = [...updatedGroups, ...newGroups];
 
   // Sort by date (newest first)
   allGroups.sort((a, b) => b.createdAtEpoch - a.createdAtEpoch);
 
-  // Recalculate stats
-  const totalTabs = allGroups.reduce((sum, g) => sum + g.tabCount, 0);
-  const dates = allGroups.map((g) => g.createdAt).sort();
-
   return {
     schemaVersion: SCHEMA_VERSION,
     exportedAt: nowIso(),
     source: newData.source, // Use newer source info
-    stats: {
-      totalGroups: allGroups.length,
-      totalTabs,
-      dateRange: {
-        earliest: dates[0] ?? nowIso(),
-        latest: dates[dates.length - 1] ?? nowIso(),
-      },
-    },
+    stats: calculateStats(allGroups),
     groups: allGroups,
   };
 }
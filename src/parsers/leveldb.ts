@@ -1,7 +1,9 @@
 /**
  * LevelDB Parser for OneTab data
  * 
- * Extracts OneTab data directly from browser's LevelDB storage
+ * Extracts OneTab data directly from browser's LevelDB storage. When the
+ * database cannot be opened (LOCK held, damaged CURRENT or MANIFEST),
+ * its files are read directly with the raw LevelDB reader instead.
  */
 
 import { ClassicLevel } from 'classic-level';
@@ -9,11 +11,12 @@ import { join } from 'path';
 import type { MasterData } from '../models/types.js';
 import { parseOneTabJson } from './json.js';
 import { exists } from '../utils/files.js';
+import { listLevelDbFiles, recoverLevelDb } from '../utils/leveldb-reader.js';
 
 /**
- * Keys used by OneTab in LevelDB storage
+ * Keys used by OneTab in extension storage
  */
-const ONETAB_KEYS = [
+export const ONETAB_KEYS = [
   'state',
   '_state',
   'tabGroups',
@@ -101,6 +104,48 @@ async function scanForOneTabData(
   return null;
 }
 
+/**
+ * Parse OneTab data by reading the LevelDB files directly
+ * (latest version of each key; deleted keys are ignored)
+ */
+async function parseRawLevelDb(
+  levelDbPath: string,
+  source: MasterData['source']
+): Promise<MasterData> {
+  const recovered = await recoverLevelDb(levelDbPath);
+
+  for (const error of recovered.errors) {
+    console.warn(`Warning: ${error}`);
+  }
+
+  let rawData: Record<string, unknown> | null = null;
+
+  for (const key of ONETAB_KEYS) {
+    const entry = recovered.latest.get(key);
+    if (entry?.value) {
+      console.log(`Found OneTab data in key: "${key}" (${entry.file})`);
+      try {
+        rawData = { [key]: JSON.parse(entry.value) };
+      } catch {
+        rawData = { [key]: entry.value };
+      }
+      break;
+    }
+  }
+
+  if (!rawData) {
+    throw new Error(
+      'Could not find OneTab data in the LevelDB files. ' +
+      `Keys found: ${Array.from(recovered.latest.keys()).join(', ') || 'none'}`
+    );
+  }
+
+  return parseOneTabJson(rawData, {
+    ...source,
+    extractionMethod: 'leveldb',
+  });
+}
+
 /**
  * Parse OneTab data from a LevelDB directory
  */
@@ -116,6 +161,10 @@ export async function parseLevelDb(
   // Check for common LevelDB files
   const currentFile = join(levelDbPath, 'CURRENT');
   if (!(await exists(currentFile))) {
+    if ((await listLevelDbFiles(levelDbPath)).length > 0) {
+      console.warn('Warning: CURRENT file not found, reading LevelDB files directly');
+      return parseRawLevelDb(levelDbPath, source);
+    }
     throw new Error(
       `Invalid LevelDB directory (CURRENT file not found): ${levelDbPath}`
     );
@@ -133,7 +182,14 @@ export async function parseLevelDb(
 
   try {
     await db.open();
+  } catch (error) {
+    // classic-level puts the reason (e.g. the held LOCK) in `cause`
+    const reason = ((error as Error).cause as Error | undefined)?.message ?? (error as Error).message;
+    console.warn(`Warning: Could not open LevelDB (${reason}), reading its files directly`);
+    return parseRawLevelDb(levelDbPath, source);
+  }
 
+  try {
     let rawData: unknown = null;
 
     // Try known keys first
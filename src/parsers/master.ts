@@ -0,0 +1,341 @@
+/**
+ * Master Data Parser
+ *
+ * Loads master.json files: detects the stored schema version, applies
+ * the registered upgrade steps in order and validates the result.
+ */
+
+import type { MasterData } from '../models/types.js';
+import { SCHEMA_VERSION } from '../models/types.js';
+import { readJson } from '../utils/files.js';
+import { calculateStats } from './json.js';
+
+/**
+ * Maximum number of validation errors listed in an error message
+ */
+const MAX_ERRORS_TO_REPORT = 5;
+
+/**
+ * A single upgrade step between two schema versions
+ */
+export interface Migration {
+  /** Version this step upgrades from */
+  from: string;
+  /** Version this step upgrades to */
+  to: string;
+  /** Short human-readable description of the change */
+  description: string;
+  /** Transform the raw data (must not mutate the input) */
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Result of migrating raw master data
+ */
+export interface MigrationResult {
+  /** Migrated and validated data */
+  data: MasterData;
+  /** Version found in the input */
+  fromVersion: string;
+  /** Steps that were applied, in order */
+  applied: Migration[];
+}
+
+/**
+ * Registered migrations, ordered from oldest to newest.
+ * Each step's `to` must equal the next step's `from`, and the last
+ * step's `to` must equal SCHEMA_VERSION.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Optional tab/group annotations (tags, notes, duplicate info); recompute tab counts and stats',
+    migrate: (data) => {
+      // Migrations run before validation: malformed groups are left for it to report
+      if (!Array.isArray(data.groups)) return { ...data };
+      const isGroup = (group: unknown): group is MasterData['groups'][number] =>
+        typeof group === 'object' && group !== null;
+      const groups = (data.groups as unknown[]).map((group) => (
+        isGroup(group)
+          ? { ...group, tabCount: Array.isArray(group.tabs) ? group.tabs.length : 0 }
+          : group
+      ));
+      return { ...data, groups, stats: calculateStats(groups.filter(isGroup)) };
+    },
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Optional per-group removedTabs history (no data changes)',
+    migrate: (data) => ({ ...data }),
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Optional per-group recoveredFromSequence marker (no data changes)',
+    migrate: (data) => ({ ...data }),
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Optional per-tab linkCheck results (no data changes)',
+    migrate: (data) => ({ ...data }),
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Optional per-tab enrichment metadata (no data changes)',
+    migrate: (data) => ({ ...data }),
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    description: 'Optional per-tab page capture references (no data changes)',
+    migrate: (data) => ({ ...data }),
+  },
+];
+
+/**
+ * Compare two `major.minor.patch` versions (negative if a < b)
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+/**
+ * Detect the schema version stored in raw master data
+ *
+ * Every version of the tool has written `schemaVersion`, so a missing or
+ * malformed one means the file is not master data (or was damaged).
+ *
+ * @throws Error if the version is missing or not `major.minor.patch`
+ */
+export function detectSchemaVersion(data: Record<string, unknown>): string {
+  const version = data.schemaVersion;
+
+  if (version === undefined) {
+    throw new Error('Invalid master data: schemaVersion is missing');
+  }
+  if (typeof version !== 'string' || !/^\d+\.\d+\.\d+$/.test(version)) {
+    throw new Error(
+      `Invalid master data: schemaVersion ${JSON.stringify(version)} is not a major.minor.patch version`
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Get the ordered upgrade steps from a version to SCHEMA_VERSION
+ */
+export function getMigrationPath(fromVersion: string): Migration[] {
+  if (compareVersions(fromVersion, SCHEMA_VERSION) > 0) {
+    throw new Error(
+      `Master data schema version ${fromVersion} is newer than supported version ${SCHEMA_VERSION}. ` +
+      'Upgrade onetab to read this file.'
+    );
+  }
+
+  const path: Migration[] = [];
+  let version = fromVersion;
+
+  while (version !== SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((m) => m.from === version);
+    if (!step) {
+      throw new Error(
+        `No migration registered from schema version ${version} (target ${SCHEMA_VERSION})`
+      );
+    }
+    path.push(step);
+    version = step.to;
+  }
+
+  return path;
+}
+
+/**
+ * Collect shape errors for a tab
+ */
+function validateTab(obj: unknown, path: string, errors: string[]): void {
+  if (!obj || typeof obj !== 'object') {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  const tab = obj as Record<string, unknown>;
+
+  for (const field of ['id', 'url', 'title', 'domain']) {
+    if (typeof tab[field] !== 'string') errors.push(`${path}.${field}: expected a string`);
+  }
+  if (tab.tags !== undefined && !(Array.isArray(tab.tags) && tab.tags.every((t) => typeof t === 'string'))) {
+    errors.push(`${path}.tags: expected an array of strings`);
+  }
+  if (tab.notes !== undefined && typeof tab.notes !== 'string') {
+    errors.push(`${path}.notes: expected a string`);
+  }
+  if (tab.linkCheck !== undefined) {
+    const check = tab.linkCheck as Record<string, unknown> | null;
+    if (!check || typeof check !== 'object' || typeof check.checkedAt !== 'string') {
+      errors.push(`${path}.linkCheck: expected an object with a checkedAt string`);
+    } else if (check.status !== undefined && typeof check.status !== 'number') {
+      errors.push(`${path}.linkCheck.status: expected a number`);
+    }
+  }
+  if (tab.enrichment !== undefined) {
+    const enrichment = tab.enrichment as Record<string, unknown> | null;
+    if (!enrichment || typeof enrichment !== 'object' || typeof enrichment.fetchedAt !== 'string') {
+      errors.push(`${path}.enrichment: expected an object with a fetchedAt string`);
+    }
+  }
+  if (tab.capture !== undefined) {
+    const capture = tab.capture as Record<string, unknown> | null;
+    if (!capture || typeof capture !== 'object' || typeof capture.capturedAt !== 'string') {
+      errors.push(`${path}.capture: expected an object with a capturedAt string`);
+    } else if (capture.hash !== undefined && !/^[0-9a-f]{64}$/.test(String(capture.hash))) {
+      errors.push(`${path}.capture.hash: expected a SHA-256 hex digest`);
+    }
+  }
+}
+
+/**
+ * Collect shape errors for a group
+ */
+function validateGroup(obj: unknown, path: string, errors: string[]): void {
+  if (!obj || typeof obj !== 'object') {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  const group = obj as Record<string, unknown>;
+
+  if (typeof group.id !== 'string') errors.push(`${path}.id: expected a string`);
+  if (typeof group.createdAt !== 'string') errors.push(`${path}.createdAt: expected a string`);
+  if (typeof group.createdAtEpoch !== 'number') errors.push(`${path}.createdAtEpoch: expected a number`);
+  if (typeof group.tabCount !== 'number') errors.push(`${path}.tabCount: expected a number`);
+  if (typeof group.starred !== 'boolean') errors.push(`${path}.starred: expected a boolean`);
+  if (group.title !== undefined && typeof group.title !== 'string') {
+    errors.push(`${path}.title: expected a string`);
+  }
+  if (group.tags !== undefined && !(Array.isArray(group.tags) && group.tags.every((t) => typeof t === 'string'))) {
+    errors.push(`${path}.tags: expected an array of strings`);
+  }
+  if (group.notes !== undefined && typeof group.notes !== 'string') {
+    errors.push(`${path}.notes: expected a string`);
+  }
+  if (group.recoveredFromSequence !== undefined && typeof group.recoveredFromSequence !== 'number') {
+    errors.push(`${path}.recoveredFromSequence: expected a number`);
+  }
+
+  if (group.removedTabs !== undefined) {
+    if (!Array.isArray(group.removedTabs)) {
+      errors.push(`${path}.removedTabs: expected an array`);
+    } else {
+      group.removedTabs.forEach((tab, i) => {
+        validateTab(tab, `${path}.removedTabs[${i}]`, errors);
+        if (typeof (tab as Record<string, unknown>)?.removedAt !== 'string') {
+          errors.push(`${path}.removedTabs[${i}].removedAt: expected a string`);
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(group.tabs)) {
+    errors.push(`${path}.tabs: expected an array`);
+    return;
+  }
+  group.tabs.forEach((tab, i) => validateTab(tab, `${path}.tabs[${i}]`, errors));
+}
+
+/**
+ * Validate that data matches the current MasterData shape
+ *
+ * @returns List of problems (empty when valid)
+ */
+export function validateMasterData(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['expected an object'];
+  }
+  const obj = data as Record<string, unknown>;
+
+  if (obj.schemaVersion !== SCHEMA_VERSION) {
+    errors.push(`schemaVersion: expected "${SCHEMA_VERSION}"`);
+  }
+  if (typeof obj.exportedAt !== 'string') errors.push('exportedAt: expected a string');
+
+  const source = obj.source as Record<string, unknown> | undefined;
+  if (!source || typeof source !== 'object') {
+    errors.push('source: expected an object');
+  } else {
+    for (const field of ['browser', 'extensionId', 'extractionMethod']) {
+      if (typeof source[field] !== 'string') errors.push(`source.${field}: expected a string`);
+    }
+  }
+
+  const stats = obj.stats as Record<string, unknown> | undefined;
+  if (!stats || typeof stats !== 'object') {
+    errors.push('stats: expected an object');
+  } else if (typeof stats.totalGroups !== 'number' || typeof stats.totalTabs !== 'number') {
+    errors.push('stats: expected totalGroups and totalTabs numbers');
+  }
+
+  if (!Array.isArray(obj.groups)) {
+    errors.push('groups: expected an array');
+  } else {
+    obj.groups.forEach((group, i) => validateGroup(group, `groups[${i}]`, errors));
+  }
+
+  return errors;
+}
+
+/**
+ * Upgrade raw master data to the current schema and validate it
+ *
+ * @throws Error if the data has no valid schema version, is from a newer
+ *         version or fails validation
+ */
+export function migrateMasterData(raw: unknown): MigrationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Invalid master data: expected an object');
+  }
+
+  const fromVersion = detectSchemaVersion(raw as Record<string, unknown>);
+  const applied = getMigrationPath(fromVersion);
+
+  let data = raw as Record<string, unknown>;
+
+  if (!Array.isArray(data.groups)) {
+    throw new Error('Invalid master data: groups is not an array');
+  }
+
+  for (const step of applied) {
+    data = { ...step.migrate(data), schemaVersion: step.to };
+  }
+
+  const errors = validateMasterData(data);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_ERRORS_TO_REPORT).join('; ');
+    const more = errors.length > MAX_ERRORS_TO_REPORT
+      ? ` (and ${errors.length - MAX_ERRORS_TO_REPORT} more)`
+      : '';
+    throw new Error(`Invalid master data: ${shown}${more}`);
+  }
+
+  return { data: data as unknown as MasterData, fromVersion, applied };
+}
+
+/**
+ * Read a master.json file, upgrading it to the current schema in memory
+ */
+export async function loadMasterData(filePath: string): Promise<MasterData> {
+  const raw = await readJson<unknown>(filePath);
+  return migrateMasterData(raw).data;
+}
@@ -0,0 +1,606 @@
+/**
+ * Query Parser for `onetab search`
+ *
+ * Parses queries such as
+ *
+ *   title:"react hooks" domain:github.com -domain:gist.github.com after:2023-01 tag:work (rust OR go)
+ *
+ * into an AST and evaluates it against tabs and their groups.
+ *
+ * Grammar (NOT binds tighter than AND, AND tighter than OR):
+ *
+ *   query   := or
+ *   or      := and ("OR" and)*
+ *   and     := unary (["AND"] unary)*
+ *   unary   := ("NOT" | "-") unary | primary
+ *   primary := "(" or ")" | term
+ *   term    := [field ":"] (word | "quoted phrase" | /regex/)
+ */
+
+import type {
+  QueryDateOperator,
+  QueryField,
+  QueryNode,
+  QueryTermNode,
+  Tab,
+  TabGroup,
+} from '../models/types.js';
+import { parseFlexibleDate } from '../utils/dates.js';
+import { hasTag, isValidTag, normalizeTag } from '../utils/tags.js';
+import { isDeadLink } from '../utils/link-check.js';
+import { getMetadataText } from '../utils/enrich.js';
+import { matchTabWord } from '../utils/search-index.js';
+
+/**
+ * Fields that take text values
+ */
+const TEXT_FIELDS: Record<string, QueryField> = {
+  title: 'title',
+  url: 'url',
+  domain: 'domain',
+  meta: 'meta',
+  tag: 'tag',
+  is: 'is',
+};
+
+/**
+ * Fields that take date values
+ */
+const DATE_FIELDS: Record<string, QueryDateOperator> = {
+  after: 'after',
+  before: 'before',
+  on: 'on',
+};
+
+/**
+ * Values accepted by `is:`
+ */
+const IS_VALUES = ['starred', 'dead', 'checked'];
+
+/**
+ * Dates accepted by date fields
+ */
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+interface Token {
+  kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'term';
+  /** Offset of the token in the query string */
+  position: number;
+  node?: QueryNode;
+}
+
+/**
+ * Build a parse error pointing at a position in the query
+ */
+function parseError(query: string, position: number, message: string): Error {
+  return new Error(
+    `Query parse error at position ${position + 1}: ${message}\n` +
+    `  ${query}\n` +
+    `  ${' '.repeat(position)}^`
+  );
+}
+
+/**
+ * Read a "quoted" or /regex/ value starting at `start` (on the delimiter)
+ *
+ * @returns The unescaped value and the offset after the closing delimiter
+ */
+function readDelimited(
+  query: string,
+  start: number,
+  delimiter: '"' | '/'
+): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < query.length && query[i] !== delimiter) {
+    if (query[i] === '\\' && query[i + 1] === delimiter) {
+      // Keep the backslash in regexes (\/ is valid there), drop it in phrases
+      value += delimiter === '/' ? `\\${delimiter}` : delimiter;
+      i += 2;
+      continue;
+    }
+    value += query[i];
+    i++;
+  }
+
+  if (i >= query.length) {
+    const what = delimiter === '"' ? 'quote' : 'regex';
+    throw parseError(query, start, `unterminated ${what}`);
+  }
+
+  return { value, end: i + 1 };
+}
+
+/**
+ * Read a bare value up to whitespace or a parenthesis
+ */
+function readBare(query: string, start: number): { value: string; end: number } {
+  let i = start;
+  while (i < query.length && !/[\s()]/.test(query[i])) {
+    i++;
+  }
+  return { value: query.substring(start, i), end: i };
+}
+
+/**
+ * Build a term node for `field:value`, validating the value
+ */
+function buildFieldNode(
+  query: string,
+  position: number,
+  fieldName: string,
+  value: string,
+  match: QueryTermNode['match']
+): QueryNode {
+  const lower = fieldName.toLowerCase();
+
+  if (lower in DATE_FIELDS) {
+    if (
+      match !== 'word' ||
+      !DATE_PATTERN.test(value) ||
+      Number.isNaN(new Date(parseFlexibleDate(value)).getTime())
+    ) {
+      throw parseError(query, position, `${lower}: expects a date (YYYY, YYYY-MM or YYYY-MM-DD), got "${value}"`);
+    }
+    return { type: 'date', operator: DATE_FIELDS[lower], value };
+  }
+
+  const field = TEXT_FIELDS[lower];
+
+  if (field === 'is' && !IS_VALUES.includes(value.toLowerCase())) {
+    throw parseError(query, position, `is: expects one of ${IS_VALUES.join(', ')}, got "${value}"`);
+  }
+
+  if (field === 'tag') {
+    if (match === 'regex') {
+      throw parseError(query, position, 'tag: does not accept a regex');
+    }
+    const tag = normalizeTag(value);
+    if (!isValidTag(tag)) {
+      throw parseError(query, position, `tag: expects letters, digits, _, / and -, got "${value}"`);
+    }
+    return { type: 'term', field, value: tag, match: 'word' };
+  }
+
+  if (match === 'regex') {
+    try {
+      new RegExp(value, 'i');
+    } catch (error) {
+      throw parseError(query, position, `invalid regex /${value}/: ${(error as Error).message}`);
+    }
+  }
+
+  return { type: 'term', field, value, match };
+}
+
+/**
+ * Split a query string into tokens
+ */
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ kind: 'lparen', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ kind: 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    // "-" directly before a term or group negates it
+    if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', position: i });
+      i++;
+      continue;
+    }
+
+    const position = i;
+
+    // Bare quoted phrase or regex
+    if (char === '"' || char === '/') {
+      const { value, end } = readDelimited(query, i, char);
+      if (value === '') throw parseError(query, position, 'empty value');
+      tokens.push({
+        kind: 'term',
+        position,
+        node: { type: 'term', field: 'any', value, match: char === '"' ? 'phrase' : 'regex' },
+      });
+      i = end;
+      continue;
+    }
+
+    // field:value
+    const fieldMatch = /^([a-zA-Z]+):/.exec(query.substring(i));
+    if (fieldMatch && !query.startsWith('//', i + fieldMatch[0].length)) {
+      const fieldName = fieldMatch[1];
+      const lower = fieldName.toLowerCase();
+
+      if (!(lower in TEXT_FIELDS) && !(lower in DATE_FIELDS)) {
+        const known = [...Object.keys(TEXT_FIELDS), ...Object.keys(DATE_FIELDS)].join(', ');
+        throw parseError(query, position, `unknown field "${fieldName}" (known: ${known})`);
+      }
+
+      const valueStart = i + fieldMatch[0].length;
+      const next = query[valueStart];
+      let read: { value: string; end: number };
+      let match: QueryTermNode['match'] = 'word';
+
+      if (next === '"' || next === '/') {
+        read = readDelimited(query, valueStart, next);
+        match = next === '"' ? 'phrase' : 'regex';
+      } else {
+        read = readBare(query, valueStart);
+      }
+
+      if (read.value === '') {
+        throw parseError(query, valueStart, `${lower}: expects a value`);
+      }
+
+      tokens.push({
+        kind: 'term',
+        position,
+        node: buildFieldNode(query, valueStart, fieldName, read.value, match),
+      });
+      i = read.end;
+      continue;
+    }
+
+    // Bare word or operator keyword
+    const { value, end } = readBare(query, i);
+
+    if (value === 'OR') {
+      tokens.push({ kind: 'or', position });
+    } else if (value === 'AND') {
+      tokens.push({ kind: 'and', position });
+    } else if (value === 'NOT') {
+      tokens.push({ kind: 'not', position });
+    } else {
+      tokens.push({
+        kind: 'term',
+        position,
+        node: { type: 'term', field: 'any', value, match: 'word' },
+      });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query string into an AST
+ *
+ * @throws Error with the position of the problem if the query is invalid
+ */
+export function parseQuery(query: string): QueryNode {
+  const tokens = tokenizeQuery(query);
+  let pos = 0;
+
+  if (tokens.length === 0) {
+    throw parseError(query, 0, 'empty query');
+  }
+
+  const peek = (): Token | undefined => tokens[pos];
+  const endPosition = (): number => peek()?.position ?? query.length;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') break;
+      if (next.kind === 'and') pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      pos++;
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+
+    if (!token) {
+      throw parseError(query, query.length, 'unexpected end of query');
+    }
+
+    if (token.kind === 'lparen') {
+      pos++;
+      const node = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw parseError(query, endPosition(), `missing ")" for "(" at position ${token.position + 1}`);
+      }
+      pos++;
+      return node;
+    }
+
+    if (token.kind === 'term') {
+      pos++;
+      return token.node!;
+    }
+
+    const names = { rparen: '")"', or: 'OR', and: 'AND', not: 'NOT', lparen: '"("' };
+    throw parseError(query, token.position, `unexpected ${names[token.kind]}`);
+  };
+
+  const ast = parseOr();
+
+  if (pos < tokens.length) {
+    throw parseError(query, tokens[pos].position, 'unexpected ")"');
+  }
+
+  return ast;
+}
+
+/**
+ * Format an AST back into a normalized, fully parenthesized query
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'and':
+      return `(${node.children.map(formatQuery).join(' AND ')})`;
+    case 'or':
+      return `(${node.children.map(formatQuery).join(' OR ')})`;
+    case 'not':
+      return `NOT ${formatQuery(node.child)}`;
+    case 'date':
+      return `${node.operator}:${node.value}`;
+    case 'term': {
+      const value = node.match === 'phrase'
+        ? `"${node.value}"`
+        : node.match === 'regex' ? `/${node.value}/` : node.value;
+      return node.field === 'any' ? value : `${node.field}:${value}`;
+    }
+  }
+}
+
+/**
+ * Collect bare words that must match (not under a NOT), for ranking
+ */
+export function getPositiveWords(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(getPositiveWords);
+    case 'term':
+      return node.field === 'any' && node.match === 'word' ? [node.value] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluation context for a single tab
+ */
+export interface QueryContext {
+  tab: Tab;
+  group: TabGroup;
+  /**
+   * Optional index lookup for bare words: where the word hit this tab,
+   * `false` for no hit, or `undefined` to match the tab directly with
+   * `matchTabWord` (also the behavior without a lookup)
+   */
+  matchWord?: (word: string) => { inTitle: boolean; inUrl: boolean; inMetadata: boolean } | false | undefined;
+  /**
+   * Optional page text lookup: whether a bare word or phrase occurs in the
+   * tab's captured page (consulted when no other field matched)
+   */
+  matchContent?: (text: string) => boolean;
+}
+
+/**
+ * Which tab fields matched while evaluating
+ */
+export interface QueryMatches {
+  inTitle: boolean;
+  inUrl: boolean;
+  inDomain: boolean;
+  inMetadata: boolean;
+  inContent: boolean;
+}
+
+/**
+ * Compiled regexes by source, so each term is compiled once per search
+ */
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Get the case-insensitive regex for a term value
+ */
+function getRegex(source: string): RegExp {
+  let regex = regexCache.get(source);
+  if (!regex) {
+    regex = new RegExp(source, 'i');
+    regexCache.set(source, regex);
+  }
+  return regex;
+}
+
+/**
+ * Test a text value against a term (case-insensitive)
+ */
+function testText(text: string, node: QueryTermNode): boolean {
+  if (node.match === 'regex') {
+    return getRegex(node.value).test(text);
+  }
+  return text.toLowerCase().includes(node.value.toLowerCase());
+}
+
+/**
+ * Test a domain against a term: exact domain or any subdomain of it
+ */
+function testDomain(domain: string, node: QueryTermNode): boolean {
+  if (node.match === 'regex') {
+    return getRegex(node.value).test(domain);
+  }
+  const lowerDomain = domain.toLowerCase();
+  const value = node.value.toLowerCase();
+  return lowerDomain === value || lowerDomain.endsWith(`.${value}`);
+}
+
+/**
+ * Evaluate a term node, recording matched fields when `record` is set
+ */
+function evaluateTerm(
+  node: QueryTermNode,
+  context: QueryContext,
+  record: QueryMatches | null
+): boolean {
+  const { tab, group } = context;
+
+  switch (node.field) {
+    case 'any': {
+      let matched: boolean;
+      // Bare words match token prefixes, looked up in the index or not;
+      // words without searchable tokens fall back to substrings
+      const hit = node.match === 'word'
+        ? context.matchWord?.(node.value) ?? matchTabWord(tab, node.value)
+        : undefined;
+      if (hit !== undefined) {
+        if (hit && record) {
+          record.inTitle ||= hit.inTitle;
+          record.inUrl ||= hit.inUrl;
+          record.inMetadata ||= hit.inMetadata;
+        }
+        matched = hit !== false;
+      } else {
+        const inTitle = testText(tab.title, node);
+        const inUrl = testText(tab.url, node);
+        const inDomain = testText(tab.domain, node);
+        const inMetadata = testText(getMetadataText(tab), node);
+        if (record) {
+          record.inTitle ||= inTitle;
+          record.inUrl ||= inUrl;
+          record.inDomain ||= inDomain;
+          record.inMetadata ||= inMetadata;
+        }
+        matched = inTitle || inUrl || inDomain || inMetadata;
+      }
+
+      // Page text is only indexed by token, so regexes never match it
+      if (!matched && node.match !== 'regex' && context.matchContent?.(node.value)) {
+        if (record) record.inContent = true;
+        return true;
+      }
+      return matched;
+    }
+
+    case 'title': {
+      const result = testText(tab.title, node);
+      if (record) record.inTitle ||= result;
+      return result;
+    }
+
+    case 'url': {
+      const result = testText(tab.url, node);
+      if (record) record.inUrl ||= result;
+      return result;
+    }
+
+    case 'domain': {
+      const result = testDomain(tab.domain, node);
+      if (record) record.inDomain ||= result;
+      return result;
+    }
+
+    case 'meta': {
+      const result = testText(getMetadataText(tab), node);
+      if (record) record.inMetadata ||= result;
+      return result;
+    }
+
+    case 'tag':
+      // Tabs inherit their group's tags
+      return hasTag(tab, node.value) || hasTag(group, node.value);
+
+    case 'is':
+      switch (node.value.toLowerCase()) {
+        case 'dead':
+          return isDeadLink(tab.linkCheck);
+        case 'checked':
+          return tab.linkCheck !== undefined;
+        default:
+          return group.starred;
+      }
+  }
+}
+
+/**
+ * Evaluate a date node against the group's creation date
+ */
+function evaluateDate(operator: QueryDateOperator, value: string, createdAt: string): boolean {
+  const date = new Date(createdAt).getTime();
+  const start = new Date(parseFlexibleDate(value)).getTime();
+  const end = new Date(parseFlexibleDate(value, true)).getTime();
+
+  switch (operator) {
+    case 'after':
+      return date >= start;
+    case 'before':
+      return date < start;
+    case 'on':
+      return date >= start && date <= end;
+  }
+}
+
+/**
+ * Evaluate a query AST against a tab in its group
+ *
+ * @param matches - Optional accumulator for which fields matched
+ *                  (only terms outside NOT are recorded)
+ */
+export function evaluateQuery(
+  node: QueryNode,
+  context: QueryContext,
+  matches?: QueryMatches
+): boolean {
+  const evaluate = (current: QueryNode, record: QueryMatches | null): boolean => {
+    switch (current.type) {
+      case 'and':
+        // Evaluate all children when recording, so every matched field is reported
+        return record
+          ? current.children.map((child) => evaluate(child, record)).every(Boolean)
+          : current.children.every((child) => evaluate(child, null));
+      case 'or':
+        return record
+          ? current.children.map((child) => evaluate(child, record)).some(Boolean)
+          : current.children.some((child) => evaluate(child, null));
+      case 'not':
+        return !evaluate(current.child, null);
+      case 'date':
+        return evaluateDate(current.operator, current.value, context.group.createdAt);
+      case 'term':
+        return evaluateTerm(current, context, record);
+    }
+  };
+
+  return evaluate(node, matches ?? null);
+}
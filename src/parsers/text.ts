@@ -0,0 +1,151 @@
+/**
+ * Text Parser for OneTab data
+ *
+ * Handles OneTab's built-in "Export URLs" plain-text format:
+ * one `url | title` line per tab, groups separated by blank lines.
+ * The same format is accepted by OneTab's "Import URLs" page.
+ */
+
+import { createHash } from 'crypto';
+import type { OneTabGroup, MasterData, TabGroup } from '../models/types.js';
+import { TEXT_GROUP_ID_PREFIX } from '../models/types.js';
+import { parseOneTabJson } from './json.js';
+
+/**
+ * Separator OneTab places between the URL and the title on each line
+ */
+const URL_TITLE_SEPARATOR = ' | ';
+
+/**
+ * Spacing between synthetic group timestamps (1 minute)
+ */
+const SYNTHETIC_GROUP_SPACING_MS = 60 * 1000;
+
+export interface TextParseOptions {
+  /**
+   * Timestamp (epoch ms) assigned to the first (newest) group.
+   * Each following group is placed one minute earlier so the
+   * original order survives sorting by date.
+   */
+  baseEpoch: number;
+}
+
+/**
+ * Parse a single `url | title` line into a URL and title
+ */
+function parseLine(line: string): { url: string; title: string } {
+  const separatorIndex = line.indexOf(URL_TITLE_SEPARATOR);
+
+  if (separatorIndex === -1) {
+    return { url: line.trim(), title: '' };
+  }
+
+  return {
+    url: line.substring(0, separatorIndex).trim(),
+    title: line.substring(separatorIndex + URL_TITLE_SEPARATOR.length).trim(),
+  };
+}
+
+/**
+ * Split the text dump into blocks of non-empty lines (one block per group)
+ */
+function splitIntoBlocks(content: string): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      if (current.length > 0) {
+        blocks.push(current);
+        current = [];
+      }
+      continue;
+    }
+
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+/**
+ * Build a stable group ID from the group's URLs.
+ *
+ * The text format carries no IDs, so we derive one from the content:
+ * re-importing the same dump yields the same IDs and `mergeMasterData`
+ * skips groups it already has. A group that lost tabs gets a new ID;
+ * `mergeMasterData` matches it to the stored group by its URLs.
+ */
+function createSyntheticGroupId(urls: string[]): string {
+  const hash = createHash('sha1').update(urls.join('\n')).digest('hex');
+  return `${TEXT_GROUP_ID_PREFIX}${hash.substring(0, 16)}`;
+}
+
+/**
+ * Convert OneTab "Export URLs" text into OneTab groups
+ */
+export function parseOneTabTextGroups(
+  content: string,
+  options: TextParseOptions
+): OneTabGroup[] {
+  const blocks = splitIntoBlocks(content);
+  const seenIds = new Map<string, number>();
+
+  return blocks.map((lines, index) => {
+    const entries = lines.map(parseLine).filter((entry) => entry.url !== '');
+
+    // Identical groups in one dump still need distinct IDs
+    let groupId = createSyntheticGroupId(entries.map((entry) => entry.url));
+    const occurrences = seenIds.get(groupId) ?? 0;
+    seenIds.set(groupId, occurrences + 1);
+    if (occurrences > 0) {
+      groupId = `${groupId}-${occurrences}`;
+    }
+
+    return {
+      id: groupId,
+      tabsMeta: entries.map((entry, tabIndex) => ({
+        id: `${groupId}-${tabIndex}`,
+        url: entry.url,
+        title: entry.title,
+      })),
+      createDate: options.baseEpoch - index * SYNTHETIC_GROUP_SPACING_MS,
+    };
+  });
+}
+
+/**
+ * Parse OneTab "Export URLs" text and convert to MasterData format
+ */
+export function parseOneTabText(
+  content: string,
+  source: MasterData['source'],
+  options: TextParseOptions
+): MasterData {
+  const tabGroups = parseOneTabTextGroups(content, options);
+
+  if (tabGroups.length === 0) {
+    throw new Error('Invalid OneTab text export: no `url | title` lines found');
+  }
+
+  return parseOneTabJson({ tabGroups }, source);
+}
+
+/**
+ * Format groups as OneTab "Import URLs" text (the inverse of `parseOneTabTextGroups`)
+ */
+export function formatOneTabText(groups: TabGroup[]): string {
+  return groups
+    .map((group) =>
+      group.tabs
+        .map((tab) => (tab.title ? `${tab.url}${URL_TITLE_SEPARATOR}${tab.title}` : tab.url))
+        .join('\n')
+    )
+    .join('\n\n') + '\n';
+}
@@ -0,0 +1,168 @@
+/**
+ * YAML Parser for config files
+ *
+ * Handles the subset of YAML a config file needs: nested mappings by
+ * indentation, plain, single- and double-quoted scalars, booleans,
+ * numbers, null and `#` comments. Sequences, anchors, multi-line
+ * strings and flow collections are rejected with the line they are on.
+ */
+
+/**
+ * A parsed YAML value
+ */
+export type YamlValue = string | number | boolean | null | YamlMapping;
+
+export interface YamlMapping {
+  [key: string]: YamlValue;
+}
+
+/**
+ * A non-blank, non-comment line
+ */
+interface YamlLine {
+  /** 1-based line number, for error messages */
+  number: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * Build a parse error pointing at a line
+ */
+function parseError(line: number, message: string): Error {
+  return new Error(`YAML line ${line}: ${message}`);
+}
+
+/**
+ * Remove a trailing `# comment` (a `#` outside quotes, after whitespace)
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.substring(0, i);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Split the source into meaningful lines
+ */
+function readLines(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+
+  source.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, i) => {
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '' || (lines.length === 0 && text === '---')) return;
+
+    const indent = /^ */.exec(text)![0].length;
+    if (text[indent] === '\t') {
+      throw parseError(i + 1, 'tabs are not allowed for indentation');
+    }
+    lines.push({ number: i + 1, indent, text: text.substring(indent) });
+  });
+
+  return lines;
+}
+
+/**
+ * Parse a scalar value
+ */
+function parseScalar(value: string, line: number): YamlValue {
+  if (value.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(value)) throw parseError(line, 'unterminated double-quoted string');
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      throw parseError(line, `invalid escape in ${value}`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(value)) throw parseError(line, 'unterminated single-quoted string');
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^[[{&*!|>%@`]/.test(value) || value === '-' || value.startsWith('- ')) {
+    throw parseError(line, `unsupported YAML syntax: ${value}`);
+  }
+
+  if (/^(true|yes|on)$/i.test(value)) return true;
+  if (/^(false|no|off)$/i.test(value)) return false;
+  if (/^(null|~)$/i.test(value)) return null;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Parse a mapping key (plain or quoted)
+ */
+function parseKey(key: string, line: number): string {
+  const parsed = key.startsWith('"') || key.startsWith("'") ? parseScalar(key, line) : key;
+  if (typeof parsed !== 'string' || parsed === '') {
+    throw parseError(line, `invalid key: ${key}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a YAML document whose root is a mapping
+ *
+ * @throws Error naming the line of the first unsupported or invalid construct
+ */
+export function parseYaml(source: string): YamlMapping {
+  const lines = readLines(source);
+  let position = 0;
+
+  const parseMapping = (indent: number): YamlMapping => {
+    // No prototype, so keys like "__proto__" are plain keys
+    const mapping: YamlMapping = Object.create(null);
+
+    while (position < lines.length && lines[position].indent >= indent) {
+      const line = lines[position];
+      if (line.indent > indent) {
+        throw parseError(line.number, 'unexpected indentation');
+      }
+      if (line.text === '-' || line.text.startsWith('- ')) {
+        throw parseError(line.number, 'sequences are not supported');
+      }
+
+      const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"][^:]*?)\s*:(?:\s+(.*))?$/.exec(line.text);
+      if (!match) {
+        throw parseError(line.number, `expected "key: value", got: ${line.text}`);
+      }
+
+      const key = parseKey(match[1], line.number);
+      if (Object.hasOwn(mapping, key)) {
+        throw parseError(line.number, `duplicate key "${key}"`);
+      }
+      position++;
+
+      const value = match[2]?.trim();
+      if (value) {
+        mapping[key] = parseScalar(value, line.number);
+      } else if (position < lines.length && lines[position].indent > indent) {
+        mapping[key] = parseMapping(lines[position].indent);
+      } else {
+        mapping[key] = null;
+      }
+    }
+
+    return mapping;
+  };
+
+  if (lines.length === 0) {
+    return {};
+  }
+  if (lines[0].indent > 0) {
+    throw parseError(lines[0].number, 'unexpected indentation');
+  }
+  return parseMapping(0);
+}
@@ -0,0 +1,399 @@
+/**
+ * Browser profile discovery for OneTab Importer
+ *
+ * Finds the user data directories of Chromium-based browsers on Linux,
+ * macOS and Windows, lists every profile in them and locates OneTab's
+ * `Local Extension Settings` LevelDB folder in each profile. Firefox
+ * profiles are listed from `profiles.ini` (OneTab's storage in them is
+ * located by the Firefox parser).
+ *
+ * Platform, home directory and environment are injectable, so discovery
+ * can run against a fake home directory tree.
+ */
+
+import { homedir } from 'os';
+import { posix, sep, win32 } from 'path';
+import { readdir, stat } from 'fs/promises';
+import type { BrowserProfile, ChromiumBrowser, FirefoxProfile, OneTabLocation } from '../models/types.js';
+import { DEFAULT_EXTENSION_IDS } from '../models/types.js';
+import { exists, readJson, readText } from './files.js';
+
+/**
+ * Where to look for browser data
+ */
+export interface DiscoveryEnvironment {
+  platform: NodeJS.Platform;
+  homeDir: string;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * All supported browsers, in the order they are reported
+ */
+export const CHROMIUM_BROWSERS: ChromiumBrowser[] = ['edge', 'chrome', 'chromium', 'brave', 'vivaldi'];
+
+/**
+ * Check if a string names a supported Chromium browser
+ */
+export function isChromiumBrowser(value: string): value is ChromiumBrowser {
+  return (CHROMIUM_BROWSERS as readonly string[]).includes(value);
+}
+
+/**
+ * Display names for console output
+ */
+export const BROWSER_NAMES: Record<ChromiumBrowser, string> = {
+  edge: 'Edge',
+  chrome: 'Chrome',
+  chromium: 'Chromium',
+  brave: 'Brave',
+  vivaldi: 'Vivaldi',
+};
+
+/**
+ * User data directories relative to the platform base directory
+ * (%LOCALAPPDATA% on Windows, ~/Library/Application Support on macOS,
+ * $XDG_CONFIG_HOME or ~/.config on Linux)
+ */
+const USER_DATA_DIRS: Record<'win32' | 'darwin' | 'linux', Record<ChromiumBrowser, string[][]>> = {
+  win32: {
+    edge: [['Microsoft', 'Edge', 'User Data']],
+    chrome: [['Google', 'Chrome', 'User Data']],
+    chromium: [['Chromium', 'User Data']],
+    brave: [['BraveSoftware', 'Brave-Browser', 'User Data']],
+    vivaldi: [['Vivaldi', 'User Data']],
+  },
+  darwin: {
+    edge: [['Microsoft Edge']],
+    chrome: [['Google', 'Chrome']],
+    chromium: [['Chromium']],
+    brave: [['BraveSoftware', 'Brave-Browser']],
+    vivaldi: [['Vivaldi']],
+  },
+  linux: {
+    edge: [['microsoft-edge']],
+    chrome: [['google-chrome']],
+    chromium: [['chromium']],
+    brave: [['BraveSoftware', 'Brave-Browser']],
+    vivaldi: [['vivaldi']],
+  },
+};
+
+/**
+ * Linux user data directories of Snap and Flatpak installs (relative to home)
+ */
+const LINUX_SANDBOXED_DIRS: Partial<Record<ChromiumBrowser, string[][]>> = {
+  chrome: [['.var', 'app', 'com.google.Chrome', 'config', 'google-chrome']],
+  edge: [['.var', 'app', 'com.microsoft.Edge', 'config', 'microsoft-edge']],
+  chromium: [
+    ['snap', 'chromium', 'common', 'chromium'],
+    ['.var', 'app', 'org.chromium.Chromium', 'config', 'chromium'],
+  ],
+  brave: [
+    ['snap', 'brave', 'current', '.config', 'BraveSoftware', 'Brave-Browser'],
+    ['.var', 'app', 'com.brave.Browser', 'config', 'BraveSoftware', 'Brave-Browser'],
+  ],
+};
+
+/**
+ * Profile directories that never hold user extensions
+ */
+const IGNORED_PROFILE_DIRS = new Set(['System Profile', 'Guest Profile']);
+
+/**
+ * Get the environment of the running process
+ */
+export function getCurrentEnvironment(): DiscoveryEnvironment {
+  return { platform: process.platform, homeDir: homedir(), env: process.env };
+}
+
+/**
+ * Path functions for the target platform (not the host running the code)
+ */
+function pathFor(platform: NodeJS.Platform): typeof posix {
+  return platform === 'win32' ? win32 : posix;
+}
+
+/**
+ * Form of a target-platform path the host's filesystem accepts: Windows
+ * paths are opened with forward slashes when discovery runs elsewhere
+ * (returned profile paths keep the target's separators)
+ */
+function hostPath(target: string, path: typeof posix): string {
+  return path === win32 && sep !== '\\' ? target.replace(/\\/g, '/') : target;
+}
+
+/**
+ * Get OneTab's extension ID for the browser's default store
+ * (Edge Add-ons for Edge, the Chrome Web Store for all others)
+ */
+export function getDefaultExtensionId(browser: ChromiumBrowser): string {
+  return browser === 'edge' ? DEFAULT_EXTENSION_IDS.edge : DEFAULT_EXTENSION_IDS.chrome;
+}
+
+/**
+ * List candidate user data directories of a browser (existing or not)
+ */
+export function getUserDataDirs(
+  browser: ChromiumBrowser,
+  environment: DiscoveryEnvironment = getCurrentEnvironment()
+): string[] {
+  const { platform, homeDir, env } = environment;
+  const path = pathFor(platform);
+
+  if (platform === 'win32') {
+    const base = env.LOCALAPPDATA ?? path.join(homeDir, 'AppData', 'Local');
+    return USER_DATA_DIRS.win32[browser].map((parts) => path.join(base, ...parts));
+  }
+
+  if (platform === 'darwin') {
+    const base = path.join(homeDir, 'Library', 'Application Support');
+    return USER_DATA_DIRS.darwin[browser].map((parts) => path.join(base, ...parts));
+  }
+
+  // Linux and other Unix-likes follow the XDG layout
+  const base = env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
+  return [
+    ...USER_DATA_DIRS.linux[browser].map((parts) => path.join(base, ...parts)),
+    ...(LINUX_SANDBOXED_DIRS[browser] ?? []).map((parts) => path.join(homeDir, ...parts)),
+  ];
+}
+
+/**
+ * Get the LevelDB path of an extension in a browser profile
+ * (the first candidate user data directory is assumed)
+ */
+export function getDefaultLevelDbPath(
+  browser: ChromiumBrowser,
+  extensionId: string,
+  profile = 'Default',
+  environment: DiscoveryEnvironment = getCurrentEnvironment()
+): string {
+  const path = pathFor(environment.platform);
+  return path.join(getUserDataDirs(browser, environment)[0], profile, 'Local Extension Settings', extensionId);
+}
+
+/**
+ * Read profile display names from the browser's `Local State` file
+ */
+async function readProfileNames(userDataDir: string, path: typeof posix): Promise<Record<string, string>> {
+  const localStatePath = path.join(userDataDir, 'Local State');
+  if (!(await exists(hostPath(localStatePath, path)))) return {};
+
+  try {
+    const localState = await readJson<{ profile?: { info_cache?: Record<string, { name?: string }> } }>(hostPath(localStatePath, path));
+    const names: Record<string, string> = {};
+    for (const [dir, info] of Object.entries(localState.profile?.info_cache ?? {})) {
+      if (typeof info?.name === 'string') names[dir] = info.name;
+    }
+    return names;
+  } catch {
+    // Unreadable Local State: fall back to directory names
+    return {};
+  }
+}
+
+/**
+ * Newest modification time of the files directly inside a directory
+ */
+async function getLastModified(dirPath: string, path: typeof posix): Promise<string> {
+  let newest = (await stat(hostPath(dirPath, path))).mtimeMs;
+
+  for (const entry of await readdir(hostPath(dirPath, path))) {
+    try {
+      newest = Math.max(newest, (await stat(hostPath(path.join(dirPath, entry), path))).mtimeMs);
+    } catch {
+      // File vanished while listing (the browser may be running)
+    }
+  }
+
+  return new Date(newest).toISOString();
+}
+
+/**
+ * Find OneTab's LevelDB folder in a profile (most recently used if several IDs match)
+ */
+async function findOneTab(
+  profilePath: string,
+  extensionIds: string[],
+  path: typeof posix
+): Promise<OneTabLocation | undefined> {
+  const locations: OneTabLocation[] = [];
+
+  for (const extensionId of extensionIds) {
+    const dir = path.join(profilePath, 'Local Extension Settings', extensionId);
+    if (await exists(hostPath(dir, path))) {
+      locations.push({ extensionId, path: dir, lastModified: await getLastModified(dir, path) });
+    }
+  }
+
+  return locations.sort((a, b) => b.lastModified.localeCompare(a.lastModified))[0];
+}
+
+/**
+ * List every profile in a browser user data directory
+ */
+async function listProfiles(
+  browser: ChromiumBrowser,
+  userDataDir: string,
+  extensionIds: string[],
+  path: typeof posix
+): Promise<BrowserProfile[]> {
+  const names = await readProfileNames(userDataDir, path);
+  const entries = await readdir(hostPath(userDataDir, path), { withFileTypes: true });
+  const profiles: BrowserProfile[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || IGNORED_PROFILE_DIRS.has(entry.name)) continue;
+
+    const profilePath = path.join(userDataDir, entry.name);
+    const isProfile = Object.hasOwn(names, entry.name) ||
+      (await exists(hostPath(path.join(profilePath, 'Preferences'), path))) ||
+      (await exists(hostPath(path.join(profilePath, 'Local Extension Settings'), path)));
+    if (!isProfile) continue;
+
+    const oneTab = await findOneTab(profilePath, extensionIds, path);
+
+    profiles.push({
+      browser,
+      userDataDir,
+      profile: entry.name,
+      profilePath,
+      ...(Object.hasOwn(names, entry.name) ? { displayName: names[entry.name] } : {}),
+      ...(oneTab ? { oneTab } : {}),
+    });
+  }
+
+  // "Default" first, then "Profile 1", "Profile 2", ... in numeric order
+  return profiles.sort((a, b) =>
+    a.profile === 'Default' ? -1 : b.profile === 'Default' ? 1 :
+      a.profile.localeCompare(b.profile, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Discover all browser profiles and their OneTab storage
+ *
+ * @param options.browsers - Browsers to look for (default: all)
+ * @param options.extensionIds - Extra extension IDs to look for besides OneTab's store IDs
+ */
+export async function discoverProfiles(
+  environment: DiscoveryEnvironment = getCurrentEnvironment(),
+  options: { browsers?: ChromiumBrowser[]; extensionIds?: string[] } = {}
+): Promise<BrowserProfile[]> {
+  const path = pathFor(environment.platform);
+  const extensionIds = Array.from(new Set([
+    ...(options.extensionIds ?? []),
+    ...Object.values(DEFAULT_EXTENSION_IDS),
+  ]));
+  const profiles: BrowserProfile[] = [];
+
+  for (const browser of options.browsers ?? CHROMIUM_BROWSERS) {
+    for (const userDataDir of getUserDataDirs(browser, environment)) {
+      if (await exists(hostPath(userDataDir, path))) {
+        profiles.push(...await listProfiles(browser, userDataDir, extensionIds, path));
+      }
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Check whether a profile matches a --browser-profile selector
+ * (directory name or display name, case-insensitive)
+ */
+export function matchesProfile(profile: BrowserProfile, selector: string): boolean {
+  const wanted = selector.toLowerCase();
+  return profile.profile.toLowerCase() === wanted || profile.displayName?.toLowerCase() === wanted;
+}
+
+/**
+ * Format a profile as "Browser / Name (dir)" for console output
+ */
+export function formatProfile(profile: BrowserProfile): string {
+  const name = profile.displayName && profile.displayName !== profile.profile
+    ? `${profile.displayName} (${profile.profile})`
+    : profile.profile;
+  return `${BROWSER_NAMES[profile.browser]} / ${name}`;
+}
+
+/**
+ * List candidate Firefox profile roots, i.e. directories holding
+ * `profiles.ini` (existing or not)
+ */
+export function getFirefoxDataDirs(environment: DiscoveryEnvironment = getCurrentEnvironment()): string[] {
+  const { platform, homeDir, env } = environment;
+  const path = pathFor(platform);
+
+  if (platform === 'win32') {
+    const base = env.APPDATA ?? path.join(homeDir, 'AppData', 'Roaming');
+    return [path.join(base, 'Mozilla', 'Firefox')];
+  }
+
+  if (platform === 'darwin') {
+    return [path.join(homeDir, 'Library', 'Application Support', 'Firefox')];
+  }
+
+  return [
+    path.join(homeDir, '.mozilla', 'firefox'),
+    path.join(env.XDG_CONFIG_HOME || path.join(homeDir, '.config'), 'mozilla', 'firefox'),
+    path.join(homeDir, 'snap', 'firefox', 'common', '.mozilla', 'firefox'),
+    path.join(homeDir, '.var', 'app', 'org.mozilla.firefox', '.mozilla', 'firefox'),
+  ];
+}
+
+/**
+ * Read the [ProfileN] sections of a profiles.ini file
+ */
+function parseProfilesIni(content: string, rootDir: string, path: typeof posix): FirefoxProfile[] {
+  const profiles: FirefoxProfile[] = [];
+  let section: Record<string, string> | undefined;
+
+  const flush = () => {
+    if (section?.Path) {
+      profiles.push({
+        name: section.Name ?? section.Path,
+        // Relative paths always use forward slashes, even on Windows
+        path: section.IsRelative === '1' ? path.join(rootDir, ...section.Path.split('/')) : section.Path,
+      });
+    }
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const header = /^\[(.+)\]$/.exec(line);
+
+    if (header) {
+      flush();
+      section = /^Profile\d+$/.test(header[1]) ? {} : undefined;
+    } else if (section && line.includes('=')) {
+      const separator = line.indexOf('=');
+      section[line.substring(0, separator)] = line.substring(separator + 1);
+    }
+  }
+  flush();
+
+  return profiles;
+}
+
+/**
+ * Discover all Firefox profiles listed in profiles.ini
+ */
+export async function discoverFirefoxProfiles(
+  environment: DiscoveryEnvironment = getCurrentEnvironment()
+): Promise<FirefoxProfile[]> {
+  const path = pathFor(environment.platform);
+  const profiles: FirefoxProfile[] = [];
+
+  for (const rootDir of getFirefoxDataDirs(environment)) {
+    const iniPath = path.join(rootDir, 'profiles.ini');
+    if (!(await exists(hostPath(iniPath, path)))) continue;
+
+    for (const profile of parseProfilesIni(await readText(hostPath(iniPath, path)), rootDir, path)) {
+      if (await exists(hostPath(profile.path, path))) profiles.push(profile);
+    }
+  }
+
+  return profiles;
+}
@@ -0,0 +1,212 @@
+/**
+ * Page capture for OneTab Importer
+ *
+ * Downloads a page (up to a size cap), stores its HTML and readable text
+ * in the content store and reports what was stored. Pages are read
+ * through a `BodyFetcher` function so callers (and tests) can replace
+ * the network with canned responses.
+ */
+
+import { TextDecoder } from 'util';
+import type { PageCapture } from '../models/types.js';
+import { getDecoder, isHtmlType } from './enrich.js';
+import { decodeHtmlEntities } from './html.js';
+import { describeRequestError } from './link-check.js';
+import { hashContent, writeObject } from './content-store.js';
+
+/**
+ * A downloaded page (after redirects)
+ */
+export interface FetchedBody {
+  /** Final URL, after redirects */
+  url: string;
+  status: number;
+  /** Content-Type header ('' when missing) */
+  contentType: string;
+  /** Raw page bytes (empty for error statuses and non-HTML responses) */
+  body: Uint8Array;
+  /** The page was longer than the size cap and was cut */
+  truncated: boolean;
+}
+
+/**
+ * Download a page, reading at most `maxBytes`; rejects on network errors and timeouts
+ */
+export type BodyFetcher = (url: string, timeoutMs: number, maxBytes: number) => Promise<FetchedBody>;
+
+/**
+ * What capturing a page produced
+ */
+export interface CaptureResult {
+  capture: PageCapture;
+  /** Readable text of the page (only when it was stored) */
+  text?: string;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; onetab-importer page capture)';
+
+/**
+ * Longest readable text kept per page, in characters
+ */
+const MAX_TEXT_LENGTH = 200000;
+
+/**
+ * Main content shorter than this is ignored in favor of the whole body
+ * (pages sometimes wrap only a teaser in <main> or <article>)
+ */
+const MIN_MAIN_TEXT_LENGTH = 200;
+
+/**
+ * Elements whose content is never readable text
+ */
+const HIDDEN_ELEMENTS = /<(script|style|noscript|template|svg|iframe|head|select)\b[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Page chrome dropped when the page marks no main content
+ */
+const CHROME_ELEMENTS = /<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Tags that break lines in rendered text
+ */
+const BLOCK_TAGS = /<\/?(p|div|br|hr|li|ul|ol|dl|dt|dd|h[1-6]|tr|td|th|table|section|article|main|blockquote|pre|figure|figcaption)\b[^>]*>/gi;
+
+/**
+ * Default page downloader built on the global fetch
+ */
+export const fetchBody: BodyFetcher = async (url, timeoutMs, maxBytes) => {
+  const response = await fetch(url, {
+    redirect: 'follow',
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { 'user-agent': USER_AGENT, accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1' },
+  });
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const page: FetchedBody = {
+    url: response.url || url,
+    status: response.status,
+    contentType,
+    body: new Uint8Array(0),
+    truncated: false,
+  };
+
+  const reader = response.ok && isHtmlType(contentType) ? response.body?.getReader() : undefined;
+  if (!reader) {
+    await response.body?.cancel();
+    return page;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (bytes + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - bytes));
+      bytes = maxBytes;
+      page.truncated = true;
+      break;
+    }
+    chunks.push(value);
+    bytes += value.length;
+  }
+
+  await reader.cancel();
+  page.body = Buffer.concat(chunks, bytes);
+  return page;
+};
+
+/**
+ * Text decoder for a page: the Content-Type charset, else the one the
+ * document declares, else UTF-8
+ */
+function getPageDecoder(page: FetchedBody): TextDecoder {
+  if (/charset\s*=/i.test(page.contentType)) {
+    return getDecoder(page.contentType);
+  }
+
+  const start = Buffer.from(page.body.subarray(0, 2048)).toString('latin1');
+  const declared = /<meta\b[^>]*?charset\s*=\s*["']?([\w-]+)/i.exec(start)?.[1];
+  return getDecoder(declared ? `charset=${declared}` : '');
+}
+
+/**
+ * Convert HTML to markup-free text fragments
+ */
+function toText(html: string): string {
+  return decodeHtmlEntities(html.replace(BLOCK_TAGS, '\n').replace(/<[^>]*>/g, ''));
+}
+
+/**
+ * Extract the readable text of an HTML page
+ *
+ * Scripts, styles and other hidden elements are dropped. When the page
+ * marks its main content (<main> or <article>), only that is kept;
+ * otherwise navigation, headers, footers and sidebars are dropped.
+ * Block elements become line breaks, and the text is cut at
+ * `maxLength` characters.
+ */
+export function extractReadableText(html: string, maxLength = MAX_TEXT_LENGTH): string {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(HIDDEN_ELEMENTS, ' ');
+
+  const main = /<(main|article)\b[^>]*>([\s\S]*)<\/\1\s*>/i.exec(body)?.[2];
+  const mainText = main !== undefined ? toText(main) : '';
+  const text = mainText.replace(/\s+/g, '').length >= MIN_MAIN_TEXT_LENGTH
+    ? mainText
+    : toText(body.replace(CHROME_ELEMENTS, ' '));
+
+  const readable = text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line !== '')
+    .join('\n');
+
+  return readable.length > maxLength ? readable.substring(0, maxLength) : readable;
+}
+
+/**
+ * Download a page and save it in the content store (failures are
+ * recorded in `error`)
+ *
+ * @throws Error when the store cannot be written
+ */
+export async function capturePage(
+  url: string,
+  storeDir: string,
+  options: { timeoutMs: number; maxBytes: number; fetcher?: BodyFetcher }
+): Promise<CaptureResult> {
+  const capturedAt = new Date().toISOString();
+  let page: FetchedBody;
+
+  try {
+    page = await (options.fetcher ?? fetchBody)(url, options.timeoutMs, options.maxBytes);
+  } catch (error) {
+    return { capture: { error: describeRequestError(error), capturedAt } };
+  }
+
+  if (page.status >= 400) {
+    return { capture: { error: `HTTP ${page.status}`, capturedAt } };
+  }
+  if (!isHtmlType(page.contentType)) {
+    return { capture: { error: `not HTML (${page.contentType.split(';')[0].trim()})`, capturedAt } };
+  }
+
+  const hash = hashContent(page.body);
+  const text = extractReadableText(getPageDecoder(page).decode(page.body));
+  await writeObject(storeDir, hash, 'html', page.body);
+  await writeObject(storeDir, hash, 'txt', text);
+
+  return {
+    capture: {
+      hash,
+      bytes: page.body.length,
+      ...(page.truncated ? { truncated: true } : {}),
+      capturedAt,
+    },
+    text,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Inline SVG charts for HTML reports
+ *
+ * Charts are plain SVG strings with no scripts or external resources,
+ * so reports stay self-contained and render from file://.
+ */
+
+import { escapeHtml } from './html.js';
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+const CHART_COLOR = '#0969da';
+const AXIS_COLOR = '#d0d7de';
+const TEXT_COLOR = '#57606a';
+const FONT = 'font-family="system-ui, sans-serif" font-size="11"';
+
+/**
+ * Format a value for an axis or label
+ */
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+}
+
+/**
+ * Render a vertical bar chart (e.g. tabs per period)
+ *
+ * Labels are thinned out when there are too many bars to label each one.
+ */
+export function renderColumnChart(points: ChartPoint[], options: { width?: number; height?: number } = {}): string {
+  const width = options.width ?? 900;
+  const height = options.height ?? 220;
+  const margin = { top: 16, right: 8, bottom: 44, left: 44 };
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const max = Math.max(1, ...points.map((p) => p.value));
+  const slot = points.length > 0 ? plotWidth / points.length : plotWidth;
+  const barWidth = Math.max(1, slot * 0.8);
+  const labelEvery = Math.max(1, Math.ceil(points.length / Math.floor(plotWidth / 48)));
+
+  const parts: string[] = [];
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" style="max-width: ${width}px" role="img">`);
+
+  // Axis and max gridline
+  parts.push(`<line x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${width - margin.right}" y2="${margin.top + plotHeight}" stroke="${AXIS_COLOR}"/>`);
+  parts.push(`<line x1="${margin.left}" y1="${margin.top}" x2="${width - margin.right}" y2="${margin.top}" stroke="${AXIS_COLOR}" stroke-dasharray="3 3"/>`);
+  parts.push(`<text x="${margin.left - 6}" y="${margin.top + 4}" text-anchor="end" fill="${TEXT_COLOR}" ${FONT}>${formatValue(max)}</text>`);
+  parts.push(`<text x="${margin.left - 6}" y="${margin.top + plotHeight + 4}" text-anchor="end" fill="${TEXT_COLOR}" ${FONT}>0</text>`);
+
+  points.forEach((point, i) => {
+    const barHeight = (point.value / max) * plotHeight;
+    const x = margin.left + i * slot + (slot - barWidth) / 2;
+    const y = margin.top + plotHeight - barHeight;
+    const label = escapeHtml(point.label);
+
+    parts.push(
+      `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${barHeight.toFixed(1)}" fill="${CHART_COLOR}">` +
+      `<title>${label}: ${formatValue(point.value)}</title></rect>`
+    );
+
+    if (i % labelEvery === 0) {
+      const lx = x + barWidth / 2;
+      const ly = margin.top + plotHeight + 14;
+      parts.push(`<text x="${lx.toFixed(1)}" y="${ly}" text-anchor="end" transform="rotate(-35 ${lx.toFixed(1)} ${ly})" fill="${TEXT_COLOR}" ${FONT}>${label}</text>`);
+    }
+  });
+
+  parts.push('</svg>');
+  return parts.join('');
+}
+
+/**
+ * Render a horizontal bar chart (e.g. top domains)
+ */
+export function renderBarChart(points: ChartPoint[], options: { width?: number; labelWidth?: number } = {}): string {
+  const width = options.width ?? 600;
+  const labelWidth = options.labelWidth ?? 200;
+  const rowHeight = 20;
+  const valueWidth = 48;
+  const height = Math.max(rowHeight, points.length * rowHeight);
+  const plotWidth = width - labelWidth - valueWidth;
+  const max = Math.max(1, ...points.map((p) => p.value));
+
+  const parts: string[] = [];
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" style="max-width: ${width}px" role="img">`);
+
+  points.forEach((point, i) => {
+    const y = i * rowHeight;
+    const barWidth = Math.max(1, (point.value / max) * plotWidth);
+    const label = escapeHtml(point.label);
+
+    parts.push(`<text x="${labelWidth - 6}" y="${y + 14}" text-anchor="end" fill="${TEXT_COLOR}" ${FONT}>${label}</text>`);
+    parts.push(
+      `<rect x="${labelWidth}" y="${y + 3}" width="${barWidth.toFixed(1)}" height="${rowHeight - 6}" fill="${CHART_COLOR}">` +
+      `<title>${label}: ${formatValue(point.value)}</title></rect>`
+    );
+    parts.push(`<text x="${(labelWidth + barWidth + 4).toFixed(1)}" y="${y + 14}" fill="${TEXT_COLOR}" ${FONT}>${formatValue(point.value)}</text>`);
+  });
+
+  parts.push('</svg>');
+  return parts.join('');
+}
@@ -0,0 +1,363 @@
+/**
+ * Configuration files for OneTab Importer
+ *
+ * Settings come from onetabrc files in JSON or YAML: the nearest
+ * `.onetabrc` (also `.json`, `.yaml`, `.yml`) found from the working
+ * directory upward, on top of the user's `onetabrc` in the XDG config
+ * directory (`$XDG_CONFIG_HOME`, else `~/.config`). A file can hold
+ * top-level settings and named profiles; the active profile's settings
+ * win over the top-level ones. Options given on the command line win
+ * over everything.
+ */
+
+import { homedir } from 'os';
+import { dirname, extname, join, resolve } from 'path';
+import type {
+  ConfigFile,
+  ConfigSettings,
+  ConfigValue,
+  ExportPeriod,
+  ResolvedConfig,
+} from '../models/types.js';
+import { DEFAULT_PATHS } from '../models/types.js';
+import { parseYaml } from '../parsers/yaml.js';
+import { CHROMIUM_BROWSERS, isChromiumBrowser } from './browsers.js';
+import { exists, readText } from './files.js';
+
+/**
+ * Config file names looked for in the working directory and its parents
+ */
+export const CONFIG_FILE_NAMES = ['.onetabrc', '.onetabrc.json', '.onetabrc.yaml', '.onetabrc.yml'];
+
+/**
+ * Config file names looked for in the XDG config directory
+ */
+const USER_CONFIG_FILE_NAMES = ['onetabrc', 'onetabrc.json', 'onetabrc.yaml', 'onetabrc.yml'];
+
+const EXPORT_PERIODS: ExportPeriod[] = ['month', 'week', 'day'];
+
+/**
+ * Kind of value each setting takes, by setting path
+ */
+const SETTING_TYPES: Record<string, 'path' | 'string' | 'browser' | 'period' | 'boolean'> = {
+  master: 'path',
+  browser: 'browser',
+  extensionId: 'string',
+  browserProfile: 'string',
+  'export.output': 'path',
+  'export.format': 'string',
+  'export.groupBy': 'period',
+  'export.delimiter': 'string',
+  'export.excludeDead': 'boolean',
+  'export.archiveLinks': 'boolean',
+};
+
+/**
+ * Every setting path, in display order
+ */
+export const CONFIG_SETTINGS = Object.keys(SETTING_TYPES);
+
+/**
+ * Values used when no config file sets a setting
+ */
+const BUILT_IN_DEFAULTS: Record<string, string> = {
+  master: DEFAULT_PATHS.masterJson,
+  'export.output': DEFAULT_PATHS.outputDir,
+  'export.format': 'markdown',
+  'export.groupBy': 'month',
+};
+
+/**
+ * Command options filled from settings, by command name; commands not
+ * listed here take the master file as their `--input`
+ */
+const COMMAND_OPTIONS: Record<string, Record<string, string>> = {
+  import: {
+    output: 'master',
+    browser: 'browser',
+    extensionId: 'extensionId',
+    browserProfile: 'browserProfile',
+  },
+  snapshot: {
+    browser: 'browser',
+    extensionId: 'extensionId',
+    browserProfile: 'browserProfile',
+  },
+  'recover-history': {
+    output: 'master',
+    browser: 'browser',
+  },
+  export: {
+    input: 'master',
+    output: 'export.output',
+    format: 'export.format',
+    groupBy: 'export.groupBy',
+    delimiter: 'export.delimiter',
+    excludeDead: 'export.excludeDead',
+    archiveLinks: 'export.archiveLinks',
+  },
+};
+
+/**
+ * A config file that was found and parsed
+ */
+interface LoadedConfig {
+  path: string;
+  config: ConfigFile;
+}
+
+/**
+ * Get the XDG config directory
+ */
+export function getUserConfigDir(): string {
+  return process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+}
+
+/**
+ * Find the first existing file of a list of names in a directory
+ */
+async function findInDir(dir: string, names: string[]): Promise<string | undefined> {
+  for (const name of names) {
+    const path = join(dir, name);
+    if (await exists(path)) return path;
+  }
+  return undefined;
+}
+
+/**
+ * Find the config files that apply to a directory, lowest priority first
+ * (the user's XDG config, then the nearest project config)
+ */
+export async function findConfigFiles(cwd: string = process.cwd()): Promise<string[]> {
+  const files: string[] = [];
+
+  const userConfig = await findInDir(getUserConfigDir(), USER_CONFIG_FILE_NAMES);
+  if (userConfig) files.push(userConfig);
+
+  let dir = resolve(cwd);
+  for (;;) {
+    const projectConfig = await findInDir(dir, CONFIG_FILE_NAMES);
+    if (projectConfig) {
+      if (projectConfig !== userConfig) files.push(projectConfig);
+      break;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  return files;
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a settings object, collecting errors for unknown keys and bad values
+ */
+function validateSettings(settings: Record<string, unknown>, where: string, errors: string[]): void {
+  for (const [key, value] of Object.entries(settings)) {
+    if (key === 'export') {
+      if (value === null) continue;
+      if (!isObject(value)) {
+        errors.push(`${where}export: expected a mapping`);
+        continue;
+      }
+      for (const [exportKey, exportValue] of Object.entries(value)) {
+        validateSetting(`export.${exportKey}`, exportValue, where, errors);
+      }
+    } else {
+      validateSetting(key, value, where, errors);
+    }
+  }
+}
+
+/**
+ * Check a single setting value
+ */
+function validateSetting(path: string, value: unknown, where: string, errors: string[]): void {
+  const type = SETTING_TYPES[path];
+
+  if (!type) {
+    errors.push(`${where}unknown setting "${path}"`);
+  } else if (value === null) {
+    // An empty value leaves the setting unset
+  } else if (type === 'boolean') {
+    if (typeof value !== 'boolean') errors.push(`${where}${path}: expected true or false`);
+  } else if (typeof value !== 'string' || value === '') {
+    errors.push(`${where}${path}: expected a string`);
+  } else if (type === 'browser' && !isChromiumBrowser(value)) {
+    errors.push(`${where}${path}: expected one of ${CHROMIUM_BROWSERS.join(', ')}, got "${value}"`);
+  } else if (type === 'period' && !EXPORT_PERIODS.includes(value as ExportPeriod)) {
+    errors.push(`${where}${path}: expected one of ${EXPORT_PERIODS.join(', ')}, got "${value}"`);
+  }
+}
+
+/**
+ * Parse and validate the contents of a config file
+ *
+ * Files named `.json` are JSON and `.yaml`/`.yml` are YAML; a file
+ * without an extension is JSON when it starts with `{`.
+ *
+ * @throws Error naming the file and every problem found
+ */
+export function parseConfig(source: string, path: string): ConfigFile {
+  const extension = extname(path).toLowerCase();
+  const isJson = extension === '.json' || (extension !== '.yaml' && extension !== '.yml' && source.trimStart().startsWith('{'));
+
+  let data: unknown;
+  try {
+    data = isJson ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new Error(`Invalid config file ${path}: ${(error as Error).message}`);
+  }
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid config file ${path}: expected a mapping of settings`);
+  }
+
+  const errors: string[] = [];
+  const { defaultProfile, profiles, ...settings } = data;
+
+  if (defaultProfile !== undefined && defaultProfile !== null && typeof defaultProfile !== 'string') {
+    errors.push('defaultProfile: expected a profile name');
+  }
+  validateSettings(settings, '', errors);
+
+  if (profiles !== undefined && profiles !== null) {
+    if (!isObject(profiles)) {
+      errors.push('profiles: expected a mapping of profile names to settings');
+    } else {
+      for (const [name, profile] of Object.entries(profiles)) {
+        if (isObject(profile)) validateSettings(profile, `profiles.${name}: `, errors);
+        else if (profile !== null) errors.push(`profiles.${name}: expected a mapping of settings`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${path}:\n  ${errors.join('\n  ')}`);
+  }
+  return data as ConfigFile;
+}
+
+/**
+ * Read and parse a config file
+ */
+async function loadConfigFile(path: string): Promise<LoadedConfig> {
+  return { path, config: parseConfig(await readText(path), path) };
+}
+
+/**
+ * Resolve a path setting against the directory of the file that set it
+ * (`~` stands for the home directory)
+ */
+function resolveSettingPath(value: string, configPath: string): string {
+  if (value === '~' || value.startsWith('~/') || value.startsWith('~\\')) {
+    return join(homedir(), value.substring(1));
+  }
+  return resolve(dirname(configPath), value);
+}
+
+/**
+ * Copy the settings of one file (or one of its profiles) into the values
+ */
+function applySettings(
+  values: Record<string, ConfigValue>,
+  settings: ConfigSettings | null | undefined,
+  configPath: string,
+  source: string
+): void {
+  if (!settings) return;
+
+  const { export: exportDefaults, ...topLevel } = settings;
+  const entries: Array<[string, unknown]> = [
+    ...Object.entries(topLevel),
+    ...Object.entries(exportDefaults ?? {}).map(([key, value]): [string, unknown] => [`export.${key}`, value]),
+  ];
+
+  for (const [path, value] of entries) {
+    if (value === null || value === undefined) continue;
+    values[path] = {
+      value: SETTING_TYPES[path] === 'path' ? resolveSettingPath(value as string, configPath) : value as string | boolean,
+      source,
+    };
+  }
+}
+
+/**
+ * Load the config files that apply to a directory and resolve the
+ * effective settings
+ *
+ * Priority, lowest first: built-in defaults, the user config, the
+ * project config, the active profile in the user config, the active
+ * profile in the project config. The active profile is `profile`, else
+ * the nearest `defaultProfile`.
+ *
+ * @param profile - Profile chosen with --profile
+ * @throws Error if a file is invalid or the profile is not defined
+ */
+export async function loadConfig(profile?: string, cwd: string = process.cwd()): Promise<ResolvedConfig> {
+  const loaded = await Promise.all((await findConfigFiles(cwd)).map(loadConfigFile));
+
+  const values: Record<string, ConfigValue> = {};
+  for (const [path, value] of Object.entries(BUILT_IN_DEFAULTS)) {
+    values[path] = { value, source: 'default' };
+  }
+
+  let activeProfile = profile;
+  let profileSource = profile !== undefined ? '--profile' : undefined;
+  for (const { path, config } of loaded) {
+    if (profile === undefined && config.defaultProfile) {
+      activeProfile = config.defaultProfile;
+      profileSource = `defaultProfile in ${path}`;
+    }
+  }
+
+  const profiles = Array.from(new Set(loaded.flatMap(({ config }) => Object.keys(config.profiles ?? {})))).sort();
+  if (activeProfile !== undefined && !profiles.includes(activeProfile)) {
+    const reason = profiles.length > 0
+      ? `available: ${profiles.join(', ')}`
+      : loaded.length > 0 ? 'no profiles defined' : 'no onetabrc config file found';
+    throw new Error(`Unknown profile "${activeProfile}": ${reason}`);
+  }
+
+  for (const { path, config } of loaded) {
+    const { profiles: _profiles, defaultProfile: _defaultProfile, ...settings } = config;
+    applySettings(values, settings, path, path);
+  }
+  if (activeProfile !== undefined) {
+    for (const { path, config } of loaded) {
+      applySettings(values, config.profiles?.[activeProfile], path, `${path}, profile ${activeProfile}`);
+    }
+  }
+
+  return {
+    files: loaded.map(({ path }) => path),
+    ...(activeProfile !== undefined ? { profile: activeProfile, profileSource } : {}),
+    profiles,
+    values,
+  };
+}
+
+/**
+ * Config values for the options of a command, keyed by option attribute
+ * name (e.g. `input`, `groupBy`); built-in defaults are left to the
+ * command's own option defaults
+ */
+export function getCommandDefaults(config: ResolvedConfig, commandName: string): Record<string, ConfigValue> {
+  const options = COMMAND_OPTIONS[commandName] ?? { input: 'master' };
+  const defaults: Record<string, ConfigValue> = {};
+
+  for (const [option, path] of Object.entries(options)) {
+    const value = config.values[path];
+    if (value && value.source !== 'default') defaults[option] = value;
+  }
+
+  return defaults;
+}
+
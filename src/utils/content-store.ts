@@ -0,0 +1,173 @@
+/**
+ * Content-addressed page store for OneTab Importer
+ *
+ * Pages saved by `capture` live in a `content/` directory next to
+ * master.json (e.g. `data/content/`). Each page is stored once under the
+ * SHA-256 of its HTML, as the raw HTML (`.html`) and its readable text
+ * (`.txt`), so identical pages saved from different URLs share objects.
+ * An inverted index over the text (`content/index.json`) lets searches
+ * find pages by what they said without reading the text files.
+ */
+
+import { createHash } from 'crypto';
+import { rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { readJson, readText, writeJson, exists, ensureDir } from './files.js';
+import { findTerms, tokenize } from './search-index.js';
+
+/**
+ * Bump when the on-disk index layout changes (older indexes are rebuilt)
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * Longest token worth indexing (longer ones are hashes, base64 and the like)
+ */
+const MAX_TOKEN_LENGTH = 40;
+
+/**
+ * Kinds of object kept per page
+ */
+export type ContentObjectKind = 'html' | 'txt';
+
+/**
+ * On-disk text index of the content store
+ */
+export interface ContentIndex {
+  version: number;
+  /** Indexed text objects by hash; a document's number is its position */
+  documents: string[];
+  /** Term → numbers of the documents containing it */
+  terms: Record<string, number[]>;
+}
+
+/**
+ * Get the content store directory for a master JSON path
+ */
+export function getContentStorePath(masterPath: string): string {
+  return join(dirname(masterPath), 'content');
+}
+
+/**
+ * Path of an object, fanned out by the first two hash characters
+ */
+export function getObjectPath(storeDir: string, hash: string, kind: ContentObjectKind): string {
+  return join(storeDir, 'objects', hash.substring(0, 2), `${hash}.${kind}`);
+}
+
+/**
+ * SHA-256 hex digest of page content
+ */
+export function hashContent(content: Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Write an object unless the store already has it
+ *
+ * Objects are written to a temporary file and renamed, so an interrupted
+ * write never leaves a partial object behind.
+ */
+export async function writeObject(
+  storeDir: string,
+  hash: string,
+  kind: ContentObjectKind,
+  content: Uint8Array | string
+): Promise<void> {
+  const objectPath = getObjectPath(storeDir, hash, kind);
+  if (await exists(objectPath)) return;
+
+  await ensureDir(dirname(objectPath));
+  const tempPath = `${objectPath}.${process.pid}.tmp`;
+  await writeFile(tempPath, content);
+  await rename(tempPath, objectPath);
+}
+
+/**
+ * Read the stored text of a page
+ */
+export async function readObjectText(storeDir: string, hash: string): Promise<string> {
+  return readText(getObjectPath(storeDir, hash, 'txt'));
+}
+
+/**
+ * Load the text index of a store (empty if missing or unreadable)
+ */
+export async function loadContentIndex(storeDir: string): Promise<ContentIndex> {
+  const indexPath = join(storeDir, 'index.json');
+
+  if (await exists(indexPath)) {
+    try {
+      const index = await readJson<ContentIndex>(indexPath);
+      if (index.version === INDEX_VERSION) return index;
+    } catch {
+      // Corrupt index: rebuilt from the text objects by the next capture
+    }
+  }
+
+  return { version: INDEX_VERSION, documents: [], terms: {} };
+}
+
+/**
+ * Write the text index of a store
+ */
+export async function saveContentIndex(storeDir: string, index: ContentIndex): Promise<void> {
+  await writeJson(join(storeDir, 'index.json'), index, false);
+}
+
+/**
+ * Add a page's text to the index (the caller makes sure it is not indexed yet)
+ */
+export function addContentDocument(index: ContentIndex, hash: string, text: string): void {
+  const documentNumber = index.documents.length;
+  index.documents.push(hash);
+
+  for (const token of new Set(tokenize(text))) {
+    if (token.length > MAX_TOKEN_LENGTH) continue;
+    // Own-property check: terms such as "constructor" exist on every object
+    if (Object.hasOwn(index.terms, token)) index.terms[token].push(documentNumber);
+    else index.terms[token] = [documentNumber];
+  }
+}
+
+/**
+ * Build a lookup telling whether a word or phrase occurs in a stored page
+ *
+ * Every token of the text must start an indexed term of the page (the
+ * same prefix matching as bare query words). Tokens are not positional,
+ * so the words of a phrase may occur anywhere in the page.
+ */
+export function createContentMatcher(index: ContentIndex): (hash: string, text: string) => boolean {
+  const sortedTerms = Object.keys(index.terms).sort();
+  const documentNumbers = new Map(index.documents.map((hash, number) => [hash, number]));
+  const matchesByText = new Map<string, Set<number>>();
+
+  const findDocuments = (text: string): Set<number> => {
+    let found: Set<number> | undefined;
+
+    for (const token of new Set(tokenize(text, 1))) {
+      const withToken = new Set<number>();
+      for (const term of findTerms(sortedTerms, token)) {
+        for (const number of index.terms[term]) {
+          if (!found || found.has(number)) withToken.add(number);
+        }
+      }
+      found = withToken;
+      if (found.size === 0) break;
+    }
+
+    return found ?? new Set();
+  };
+
+  return (hash, text) => {
+    const number = documentNumbers.get(hash);
+    if (number === undefined) return false;
+
+    let documents = matchesByText.get(text);
+    if (!documents) {
+      documents = findDocuments(text);
+      matchesByText.set(text, documents);
+    }
+    return documents.has(number);
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Snapshot diffing utilities for OneTab Importer
+ *
+ * Tabs are matched by ID within their group, groups by ID.
+ */
+
+import type {
+  GroupDiff,
+  MasterDiff,
+  Tab,
+  TabChange,
+  TabGroup,
+} from '../models/types.js';
+
+/**
+ * Compare two versions of the same group
+ */
+export function diffGroup(before: TabGroup, after: TabGroup): GroupDiff {
+  const beforeTabs = new Map(before.tabs.map((tab) => [tab.id, tab]));
+  const afterIds = new Set(after.tabs.map((tab) => tab.id));
+
+  const addedTabs: Tab[] = [];
+  const changedTabs: TabChange[] = [];
+
+  for (const tab of after.tabs) {
+    const previous = beforeTabs.get(tab.id);
+
+    if (!previous) {
+      addedTabs.push(tab);
+    } else if (previous.url !== tab.url || previous.title !== tab.title) {
+      changedTabs.push({ before: previous, after: tab });
+    }
+  }
+
+  const removedTabs = before.tabs.filter((tab) => !afterIds.has(tab.id));
+
+  const changedFields: string[] = [];
+  if ((before.title ?? '') !== (after.title ?? '')) changedFields.push('title');
+  if (before.starred !== after.starred) changedFields.push('starred');
+
+  return { group: after, addedTabs, removedTabs, changedTabs, changedFields };
+}
+
+/**
+ * Check if a group diff contains any change
+ */
+export function hasChanges(diff: GroupDiff): boolean {
+  return (
+    diff.addedTabs.length > 0 ||
+    diff.removedTabs.length > 0 ||
+    diff.changedTabs.length > 0 ||
+    diff.changedFields.length > 0
+  );
+}
+
+/**
+ * Compare two snapshots' group lists
+ */
+export function diffGroups(before: TabGroup[], after: TabGroup[]): MasterDiff {
+  const beforeById = new Map(before.map((group) => [group.id, group]));
+  const afterIds = new Set(after.map((group) => group.id));
+
+  const addedGroups: TabGroup[] = [];
+  const changedGroups: GroupDiff[] = [];
+
+  for (const group of after) {
+    const previous = beforeById.get(group.id);
+
+    if (!previous) {
+      addedGroups.push(group);
+      continue;
+    }
+
+    const diff = diffGroup(previous, group);
+    if (hasChanges(diff)) {
+      changedGroups.push(diff);
+    }
+  }
+
+  const removedGroups = before.filter((group) => !afterIds.has(group.id));
+
+  return { addedGroups, removedGroups, changedGroups };
+}
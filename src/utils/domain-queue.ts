@@ -0,0 +1,98 @@
+/**
+ * Polite request scheduling for OneTab Importer
+ *
+ * Runs one task per URL concurrently across domains while keeping at
+ * most one request in flight per domain, with a minimum delay between
+ * request starts to the same domain.
+ */
+
+import { extractDomain } from './files.js';
+
+/**
+ * Scheduling options for runPerDomain
+ */
+export interface DomainQueueOptions<T> {
+  /** Tasks in flight at once (at most one per domain) */
+  concurrency: number;
+  /** Minimum milliseconds between task starts for the same domain */
+  delayMs: number;
+  /** Called once per URL as soon as its task finishes */
+  onResult: (url: string, result: T) => void | Promise<void>;
+  /** Polled between tasks; true stops scheduling new ones */
+  shouldStop?: () => boolean;
+}
+
+/**
+ * How long an idle worker waits before looking for a ready domain again
+ */
+const POLL_INTERVAL_MS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolveSleep) => setTimeout(resolveSleep, ms));
+}
+
+/**
+ * Run a task for every URL, spread across domains
+ *
+ * @param task - Must not reject; failures belong in its result
+ */
+export async function runPerDomain<T>(
+  urls: string[],
+  task: (url: string) => Promise<T>,
+  options: DomainQueueOptions<T>
+): Promise<void> {
+  // One queue per domain, so a slow or rate-limited site never blocks the others
+  const queues = new Map<string, string[]>();
+  for (const url of urls) {
+    const domain = extractDomain(url);
+    const queue = queues.get(domain);
+    if (queue) queue.push(url);
+    else queues.set(domain, [url]);
+  }
+
+  const busy = new Set<string>();
+  const nextStart = new Map<string, number>();
+
+  // The next URL whose domain is free and rested, or how long to wait for one
+  const takeNext = (): { url: string; domain: string } | { waitMs: number } => {
+    const now = Date.now();
+    let waitMs = POLL_INTERVAL_MS;
+
+    for (const [domain, queue] of queues) {
+      if (busy.has(domain)) continue;
+
+      const startAt = nextStart.get(domain) ?? 0;
+      if (startAt > now) {
+        waitMs = Math.min(waitMs, startAt - now);
+        continue;
+      }
+
+      const url = queue.shift()!;
+      if (queue.length === 0) queues.delete(domain);
+      busy.add(domain);
+      nextStart.set(domain, now + options.delayMs);
+      return { url, domain };
+    }
+
+    return { waitMs };
+  };
+
+  const worker = async (): Promise<void> => {
+    while (queues.size > 0 && !options.shouldStop?.()) {
+      const next = takeNext();
+      if ('waitMs' in next) {
+        await sleep(next.waitMs);
+        continue;
+      }
+
+      try {
+        await options.onResult(next.url, await task(next.url));
+      } finally {
+        busy.delete(next.domain);
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, queues.size));
+  await Promise.all(Array.from({ length: workers }, worker));
+}
@@ -0,0 +1,242 @@
+/**
+ * Page metadata extraction for OneTab Importer
+ *
+ * Pages are read through a `PageFetcher` function so callers (and
+ * tests) can replace the network with canned HTML. Only the document
+ * head is needed, so the default fetcher stops reading after `</head>`.
+ */
+
+import { TextDecoder } from 'util';
+import type { Tab, TabEnrichment } from '../models/types.js';
+import { decodeHtmlEntities } from './html.js';
+import { describeRequestError } from './link-check.js';
+
+/**
+ * A fetched page (after redirects)
+ */
+export interface FetchedPage {
+  /** Final URL, after redirects */
+  url: string;
+  status: number;
+  /** Content-Type header ('' when missing) */
+  contentType: string;
+  /** Start of the document, at least up to `</head>` when it has one */
+  html: string;
+}
+
+/**
+ * Fetch a page; rejects on network errors and timeouts
+ */
+export type PageFetcher = (url: string, timeoutMs: number) => Promise<FetchedPage>;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; onetab-importer metadata fetcher)';
+
+/**
+ * Bytes read at most per page (metadata sits at the top of the document)
+ */
+const MAX_HTML_BYTES = 512 * 1024;
+
+/**
+ * Longest stored text value; longer descriptions are cut
+ */
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Check if a Content-Type is an HTML document (a missing type counts)
+ */
+export function isHtmlType(contentType: string): boolean {
+  return contentType === '' || /\b(text\/html|application\/xhtml\+xml)\b/i.test(contentType);
+}
+
+/**
+ * Text decoder for the charset of a Content-Type (UTF-8 when unknown)
+ */
+export function getDecoder(contentType: string): TextDecoder {
+  const charset = /charset\s*=\s*"?([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8');
+  } catch {
+    return new TextDecoder('utf-8');
+  }
+}
+
+/**
+ * Default page fetcher built on the global fetch
+ */
+export const fetchPage: PageFetcher = async (url, timeoutMs) => {
+  const response = await fetch(url, {
+    redirect: 'follow',
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { 'user-agent': USER_AGENT, accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1' },
+  });
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const page: FetchedPage = { url: response.url || url, status: response.status, contentType, html: '' };
+
+  const reader = response.ok && isHtmlType(contentType) ? response.body?.getReader() : undefined;
+  if (!reader) {
+    await response.body?.cancel();
+    return page;
+  }
+
+  const decoder = getDecoder(contentType);
+  let bytes = 0;
+
+  while (bytes < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Look for the end of the head only in the new text (plus a tag's length of overlap)
+    const searchFrom = Math.max(0, page.html.length - 7);
+    page.html += decoder.decode(value, { stream: true });
+    bytes += value.length;
+    if (/<\/head\s*>/i.test(page.html.substring(searchFrom))) break;
+  }
+
+  await reader.cancel();
+  return page;
+};
+
+/**
+ * Read the attributes of a tag (names lowercased, first occurrence wins)
+ */
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+
+  for (const match of source.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    const name = match[1].toLowerCase();
+    if (!attributes.has(name)) {
+      attributes.set(name, decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? ''));
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Normalize whitespace and cut overly long text (undefined when empty)
+ */
+function cleanText(text: string | undefined): string | undefined {
+  const clean = text?.replace(/\s+/g, ' ').trim();
+  if (!clean) return undefined;
+  return clean.length > MAX_TEXT_LENGTH ? `${clean.substring(0, MAX_TEXT_LENGTH - 1)}…` : clean;
+}
+
+/**
+ * Resolve a link against the page, keeping http(s) URLs only
+ */
+function resolveLink(href: string | undefined, base: string): string | undefined {
+  if (!href?.trim()) return undefined;
+  try {
+    const url = new URL(href.trim(), base);
+    return /^https?:$/.test(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract page metadata from the head of an HTML document
+ *
+ * @param pageUrl - Final URL of the page, for resolving relative links
+ */
+export function extractMetadata(html: string, pageUrl: string): Omit<TabEnrichment, 'fetchedAt'> {
+  // Scripts and comments may contain tag-like text
+  const head = html
+    .split(/<\/head\s*>/i)[0]
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+  const meta = new Map<string, string>();
+  const links: Array<{ rel: string[]; href: string }> = [];
+  let base = pageUrl;
+
+  for (const [, tag, source] of head.matchAll(/<(meta|link|base)\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(source);
+
+    switch (tag.toLowerCase()) {
+      case 'meta': {
+        const key = (attributes.get('property') ?? attributes.get('name'))?.toLowerCase();
+        const content = attributes.get('content');
+        if (key && content !== undefined && !meta.has(key)) meta.set(key, content);
+        break;
+      }
+      case 'link':
+        links.push({
+          rel: (attributes.get('rel') ?? '').toLowerCase().split(/\s+/),
+          href: attributes.get('href') ?? '',
+        });
+        break;
+      case 'base':
+        base = resolveLink(attributes.get('href'), pageUrl) ?? base;
+        break;
+    }
+  }
+
+  const titleElement = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(head)?.[1];
+  const htmlLang = parseAttributes(/<html\b([^>]*)>/i.exec(html)?.[1] ?? '').get('lang');
+  const ogLocale = meta.get('og:locale')?.replace('_', '-');
+  const icon = links.find((link) => link.rel.includes('icon')) ??
+    links.find((link) => link.rel.includes('apple-touch-icon'));
+
+  const title = cleanText(meta.get('og:title') ?? meta.get('twitter:title') ?? decodeHtmlEntities(titleElement ?? ''));
+  const description = cleanText(meta.get('og:description') ?? meta.get('description'));
+  const canonicalUrl = resolveLink(links.find((link) => link.rel.includes('canonical'))?.href, base) ??
+    resolveLink(meta.get('og:url'), base);
+  const siteName = cleanText(meta.get('og:site_name'));
+  const language = cleanText(htmlLang ?? ogLocale);
+  const faviconUrl = resolveLink(icon?.href, base) ?? resolveLink('/favicon.ico', pageUrl);
+
+  return {
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(canonicalUrl ? { canonicalUrl } : {}),
+    ...(siteName ? { siteName } : {}),
+    ...(language ? { language } : {}),
+    ...(faviconUrl ? { faviconUrl } : {}),
+  };
+}
+
+/**
+ * Fetch a page and extract its metadata (failures are recorded in `error`)
+ */
+export async function enrichPage(
+  url: string,
+  timeoutMs: number,
+  fetcher: PageFetcher = fetchPage
+): Promise<TabEnrichment> {
+  const fetchedAt = new Date().toISOString();
+
+  try {
+    const page = await fetcher(url, timeoutMs);
+
+    if (page.status >= 400) {
+      return { error: `HTTP ${page.status}`, fetchedAt };
+    }
+    if (!isHtmlType(page.contentType)) {
+      return { error: `not HTML (${page.contentType.split(';')[0].trim()})`, fetchedAt };
+    }
+
+    return { ...extractMetadata(page.html, page.url), fetchedAt };
+  } catch (error) {
+    return { error: describeRequestError(error), fetchedAt };
+  }
+}
+
+/**
+ * Check if a tab has no real title (OneTab saved none, so the domain stands in)
+ */
+export function isUntitled(tab: Pick<Tab, 'title' | 'domain'>): boolean {
+  return !tab.title || tab.title === tab.domain;
+}
+
+/**
+ * Searchable text of a tab's page metadata ('' when not enriched)
+ */
+export function getMetadataText(tab: Tab): string {
+  const enrichment = tab.enrichment;
+  if (!enrichment) return '';
+  return [enrichment.title, enrichment.siteName, enrichment.description]
+    .filter((text) => text !== undefined)
+    .join('\n');
+}
@@ -4,7 +4,9 @@
 
 import { mkdir, readFile, writeFile, access, readdir, stat } from 'fs/promises';
 import { dirname, join } from 'path';
-import { constants } from 'fs';
+import { constants, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 
 /**
  * Ensure a directory exists, creating it if necessary
@@ -71,6 +73,15 @@ export async function writeText(filePath: string, content: string): Promise<void
   await writeFile(filePath, content, 'utf-8');
 }
 
+/**
+ * Write text chunks to a file as they are produced, so large output is
+ * never held in memory as a whole
+ */
+export async function writeTextStream(filePath: string, chunks: Iterable<string>): Promise<void> {
+  await ensureParentDir(filePath);
+  await pipeline(Readable.from(chunks), createWriteStream(filePath, 'utf-8'));
+}
+
 /**
  * List files in a directory (non-recursive)
  */
@@ -107,28 +118,6 @@ export async function listDirs(dirPath: string): Promise<string[]> {
   return dirs;
 }
 
-/**
- * Get the default LevelDB path for a browser
- */
-export function getDefaultLevelDbPath(
-  browser: 'edge' | 'chrome',
-  extensionId: string,
-  profile = 'Default'
-): string {
-  const localAppData = process.env.LOCALAPPDATA;
-
-  if (!localAppData) {
-    throw new Error('LOCALAPPDATA environment variable not set');
-  }
-
-  const browserPaths = {
-    edge: join(localAppData, 'Microsoft', 'Edge', 'User Data'),
-    chrome: join(localAppData, 'Google', 'Chrome', 'User Data'),
-  };
-
-  return join(browserPaths[browser], profile, 'Local Extension Settings', extensionId);
-}
-
 /**
  * Extract domain from a URL
  */
@@ -142,3 +131,12 @@ export function extractDomain(url: string): string {
     return match?.[1] ?? 'unknown';
   }
 }
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
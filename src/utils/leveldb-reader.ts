@@ -0,0 +1,416 @@
+/**
+ * Raw LevelDB file reader
+ *
+ * Reads the `.log` (write-ahead log) and `.ldb`/`.sst` (table) files of a
+ * LevelDB directory directly, without opening the database. This works
+ * while another process holds the LOCK file and when CURRENT, the
+ * MANIFEST or some files are damaged: every readable record of every
+ * file is recovered, and damaged parts are reported and skipped.
+ *
+ * Because obsolete files are read too, older versions of a key (for
+ * example earlier `state` values in a log that has not been deleted yet)
+ * are recovered alongside the latest one.
+ *
+ * Formats: https://github.com/google/leveldb/blob/main/doc/log_format.md
+ * and https://github.com/google/leveldb/blob/main/doc/table_format.md
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { decompressSnappy } from './snappy.js';
+
+/**
+ * One version of a key
+ */
+export interface LevelDbEntry {
+  key: string;
+  /** Sequence number (higher is newer) */
+  sequence: number;
+  /** Whether this version is a deletion */
+  deleted: boolean;
+  /** Value (UTF-8), undefined for deletions */
+  value?: string;
+  /** File the entry was read from */
+  file: string;
+}
+
+/**
+ * Everything recovered from a LevelDB directory
+ */
+export interface RecoveredLevelDb {
+  /** Newest entry of each key (may be a deletion) */
+  latest: Map<string, LevelDbEntry>;
+  /** Every distinct version of each key, oldest first */
+  versions: Map<string, LevelDbEntry[]>;
+  /** Files read, in the order they were read */
+  files: string[];
+  /** Damage found while reading (the affected records were skipped) */
+  errors: string[];
+}
+
+const LOG_BLOCK_SIZE = 32768;
+const LOG_HEADER_SIZE = 7;
+
+const LOG_FULL = 1;
+const LOG_FIRST = 2;
+const LOG_MIDDLE = 3;
+const LOG_LAST = 4;
+
+const TYPE_DELETION = 0;
+const TYPE_VALUE = 1;
+
+const TABLE_FOOTER_SIZE = 48;
+const TABLE_MAGIC = 0xdb4775248b80fb57n;
+const BLOCK_TRAILER_SIZE = 5;
+const COMPRESSION_NONE = 0;
+const COMPRESSION_SNAPPY = 1;
+
+/**
+ * File extensions of log and table files
+ */
+const LOG_EXTENSION = '.log';
+const TABLE_EXTENSIONS = ['.ldb', '.sst'];
+
+/**
+ * CRC-32C (Castagnoli) lookup table
+ */
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Compute LevelDB's masked CRC-32C of one or more buffers
+ */
+function maskedCrc32c(...parts: Buffer[]): number {
+  let crc = 0xffffffff;
+  for (const part of parts) {
+    for (const byte of part) {
+      crc = CRC32C_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  crc = (crc ^ 0xffffffff) >>> 0;
+  return (((crc >>> 15) | (crc << 17)) + 0xa282ead8) >>> 0;
+}
+
+/**
+ * Read a little-endian varint (up to 64 bits, as a Number)
+ */
+function readVarint(buffer: Buffer, offset: number): { value: number; length: number } {
+  let value = 0;
+
+  for (let i = 0; i < 10 && offset + i < buffer.length; i++) {
+    const byte = buffer[offset + i];
+    value += (byte & 0x7f) * 2 ** (7 * i);
+    if ((byte & 0x80) === 0) return { value, length: i + 1 };
+  }
+
+  throw new Error('truncated varint');
+}
+
+/**
+ * Read a length-prefixed slice
+ */
+function readSlice(buffer: Buffer, offset: number): { slice: Buffer; next: number } {
+  const length = readVarint(buffer, offset);
+  const start = offset + length.length;
+  if (start + length.value > buffer.length) throw new Error('slice out of bounds');
+  return { slice: buffer.subarray(start, start + length.value), next: start + length.value };
+}
+
+/**
+ * Split a log file into its logical records (write batches)
+ */
+function readLogRecords(log: Buffer, file: string, errors: string[]): Buffer[] {
+  const records: Buffer[] = [];
+  let fragments: Buffer[] | undefined;
+
+  for (let blockStart = 0; blockStart < log.length; blockStart += LOG_BLOCK_SIZE) {
+    const blockEnd = Math.min(blockStart + LOG_BLOCK_SIZE, log.length);
+    let pos = blockStart;
+
+    while (pos + LOG_HEADER_SIZE <= blockEnd) {
+      const checksum = log.readUInt32LE(pos);
+      const length = log.readUInt16LE(pos + 4);
+      const type = log[pos + 6];
+
+      // Zero-filled tail of a preallocated block
+      if (type === 0 && length === 0) break;
+
+      const dataStart = pos + LOG_HEADER_SIZE;
+      if (dataStart + length > blockEnd) {
+        errors.push(`${file}: record at offset ${pos} runs past its block, rest of block skipped`);
+        fragments = undefined;
+        break;
+      }
+
+      const data = log.subarray(dataStart, dataStart + length);
+      pos = dataStart + length;
+
+      if (maskedCrc32c(log.subarray(dataStart - 1, dataStart), data) !== checksum) {
+        errors.push(`${file}: checksum mismatch at offset ${dataStart - LOG_HEADER_SIZE}, rest of block skipped`);
+        fragments = undefined;
+        break;
+      }
+
+      if (type === LOG_FULL) {
+        if (fragments) errors.push(`${file}: incomplete record dropped before offset ${dataStart - LOG_HEADER_SIZE}`);
+        fragments = undefined;
+        records.push(data);
+      } else if (type === LOG_FIRST) {
+        if (fragments) errors.push(`${file}: incomplete record dropped before offset ${dataStart - LOG_HEADER_SIZE}`);
+        fragments = [data];
+      } else if (type === LOG_MIDDLE || type === LOG_LAST) {
+        if (!fragments) {
+          errors.push(`${file}: record fragment without a start at offset ${dataStart - LOG_HEADER_SIZE}`);
+          continue;
+        }
+        fragments.push(data);
+        if (type === LOG_LAST) {
+          records.push(Buffer.concat(fragments));
+          fragments = undefined;
+        }
+      } else {
+        errors.push(`${file}: unknown record type ${type} at offset ${dataStart - LOG_HEADER_SIZE}`);
+      }
+    }
+  }
+
+  if (fragments) errors.push(`${file}: log ends in the middle of a record`);
+  return records;
+}
+
+/**
+ * Decode a write batch: an 8-byte sequence number, a 4-byte count,
+ * then one put or delete per operation (sequence numbers increase by one)
+ */
+function readWriteBatch(batch: Buffer, file: string): LevelDbEntry[] {
+  if (batch.length < 12) throw new Error('write batch too short');
+
+  let sequence = Number(batch.readBigUInt64LE(0));
+  const count = batch.readUInt32LE(8);
+  const entries: LevelDbEntry[] = [];
+  let pos = 12;
+
+  for (let i = 0; i < count; i++) {
+    const type = batch[pos++];
+    const key = readSlice(batch, pos);
+    pos = key.next;
+
+    if (type === TYPE_VALUE) {
+      const value = readSlice(batch, pos);
+      pos = value.next;
+      entries.push({ key: key.slice.toString('utf8'), sequence, deleted: false, value: value.slice.toString('utf8'), file });
+    } else if (type === TYPE_DELETION) {
+      entries.push({ key: key.slice.toString('utf8'), sequence, deleted: true, file });
+    } else {
+      throw new Error(`unknown operation type ${type}`);
+    }
+    sequence++;
+  }
+
+  return entries;
+}
+
+/**
+ * Read all entries of a log file
+ */
+function readLogFile(log: Buffer, file: string, errors: string[]): LevelDbEntry[] {
+  const entries: LevelDbEntry[] = [];
+
+  for (const record of readLogRecords(log, file, errors)) {
+    try {
+      entries.push(...readWriteBatch(record, file));
+    } catch (error) {
+      errors.push(`${file}: damaged write batch skipped (${(error as Error).message})`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Read, verify and decompress the block at a handle (offset, size)
+ */
+function readBlock(table: Buffer, offset: number, size: number): Buffer {
+  if (offset + size + BLOCK_TRAILER_SIZE > table.length) {
+    throw new Error(`block at offset ${offset} out of bounds`);
+  }
+
+  const contents = table.subarray(offset, offset + size);
+  const compression = table[offset + size];
+  const checksum = table.readUInt32LE(offset + size + 1);
+
+  if (maskedCrc32c(contents, table.subarray(offset + size, offset + size + 1)) !== checksum) {
+    throw new Error(`checksum mismatch in block at offset ${offset}`);
+  }
+
+  if (compression === COMPRESSION_NONE) return contents;
+  if (compression === COMPRESSION_SNAPPY) return decompressSnappy(contents);
+  throw new Error(`unsupported compression type ${compression} in block at offset ${offset}`);
+}
+
+/**
+ * Iterate the key/value pairs of a block (keys are prefix-compressed)
+ */
+function readBlockEntries(block: Buffer): Array<{ key: Buffer; value: Buffer }> {
+  if (block.length < 4) throw new Error('block too short');
+
+  const restarts = block.readUInt32LE(block.length - 4);
+  const dataEnd = block.length - 4 - restarts * 4;
+  if (dataEnd < 0) throw new Error('invalid restart count');
+
+  const entries: Array<{ key: Buffer; value: Buffer }> = [];
+  let previousKey = Buffer.alloc(0);
+  let pos = 0;
+
+  while (pos < dataEnd) {
+    const shared = readVarint(block, pos);
+    pos += shared.length;
+    const unshared = readVarint(block, pos);
+    pos += unshared.length;
+    const valueLength = readVarint(block, pos);
+    pos += valueLength.length;
+
+    if (shared.value > previousKey.length || pos + unshared.value + valueLength.value > dataEnd) {
+      throw new Error('block entry out of bounds');
+    }
+
+    const key = Buffer.concat([previousKey.subarray(0, shared.value), block.subarray(pos, pos + unshared.value)]);
+    pos += unshared.value;
+    const value = block.subarray(pos, pos + valueLength.value);
+    pos += valueLength.value;
+
+    entries.push({ key, value });
+    previousKey = key;
+  }
+
+  return entries;
+}
+
+/**
+ * Read a block handle (two varints: offset and size)
+ */
+function readBlockHandle(buffer: Buffer, offset: number): { offset: number; size: number; next: number } {
+  const blockOffset = readVarint(buffer, offset);
+  const blockSize = readVarint(buffer, offset + blockOffset.length);
+  return { offset: blockOffset.value, size: blockSize.value, next: offset + blockOffset.length + blockSize.length };
+}
+
+/**
+ * Read all entries of a table file
+ */
+function readTableFile(table: Buffer, file: string, errors: string[]): LevelDbEntry[] {
+  if (table.length < TABLE_FOOTER_SIZE) {
+    errors.push(`${file}: too short to be a table`);
+    return [];
+  }
+
+  const footer = table.subarray(table.length - TABLE_FOOTER_SIZE);
+  if (footer.readBigUInt64LE(TABLE_FOOTER_SIZE - 8) !== TABLE_MAGIC) {
+    errors.push(`${file}: table footer not found (truncated file?)`);
+    return [];
+  }
+
+  const metaIndexHandle = readBlockHandle(footer, 0);
+  const indexHandle = readBlockHandle(footer, metaIndexHandle.next);
+
+  let index: Array<{ key: Buffer; value: Buffer }>;
+  try {
+    index = readBlockEntries(readBlock(table, indexHandle.offset, indexHandle.size));
+  } catch (error) {
+    errors.push(`${file}: index block unreadable (${(error as Error).message})`);
+    return [];
+  }
+
+  const entries: LevelDbEntry[] = [];
+
+  for (const { value: handle } of index) {
+    try {
+      const { offset, size } = readBlockHandle(handle, 0);
+
+      for (const { key, value } of readBlockEntries(readBlock(table, offset, size))) {
+        // Internal key: user key + 8 bytes of (sequence << 8 | type)
+        if (key.length < 8) throw new Error('internal key too short');
+        const tag = key.readBigUInt64LE(key.length - 8);
+        const type = Number(tag & 0xffn);
+        const userKey = key.subarray(0, key.length - 8).toString('utf8');
+
+        entries.push({
+          key: userKey,
+          sequence: Number(tag >> 8n),
+          deleted: type === TYPE_DELETION,
+          ...(type === TYPE_DELETION ? {} : { value: value.toString('utf8') }),
+          file,
+        });
+      }
+    } catch (error) {
+      errors.push(`${file}: data block skipped (${(error as Error).message})`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * List the log and table files of a LevelDB directory, oldest first
+ */
+export async function listLevelDbFiles(dir: string): Promise<string[]> {
+  const names = await readdir(dir);
+  return names
+    .filter((name) => extname(name) === LOG_EXTENSION || TABLE_EXTENSIONS.includes(extname(name)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Read every log and table file of a LevelDB directory
+ *
+ * @throws Error if the directory holds no log or table files
+ */
+export async function recoverLevelDb(dir: string): Promise<RecoveredLevelDb> {
+  const files = await listLevelDbFiles(dir);
+  if (files.length === 0) {
+    throw new Error(`No LevelDB log or table files found in: ${dir}`);
+  }
+
+  const errors: string[] = [];
+  const versions = new Map<string, LevelDbEntry[]>();
+
+  for (const file of files) {
+    let content: Buffer;
+    try {
+      content = await readFile(join(dir, file));
+    } catch (error) {
+      errors.push(`${file}: unreadable (${(error as Error).message})`);
+      continue;
+    }
+
+    const entries = extname(file) === LOG_EXTENSION
+      ? readLogFile(content, file, errors)
+      : readTableFile(content, file, errors);
+
+    for (const entry of entries) {
+      const keyVersions = versions.get(entry.key) ?? [];
+      // The same write can survive in both a log and the table it was compacted into
+      if (!keyVersions.some((v) => v.sequence === entry.sequence)) {
+        keyVersions.push(entry);
+      }
+      versions.set(entry.key, keyVersions);
+    }
+  }
+
+  const latest = new Map<string, LevelDbEntry>();
+  for (const [key, keyVersions] of versions) {
+    keyVersions.sort((a, b) => a.sequence - b.sequence);
+    latest.set(key, keyVersions[keyVersions.length - 1]);
+  }
+
+  return { latest, versions, files, errors };
+}
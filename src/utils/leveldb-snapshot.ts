@@ -0,0 +1,256 @@
+/**
+ * Consistent snapshots of live LevelDB directories
+ *
+ * A browser keeps its extension LevelDB open while running. Copying the
+ * directory file by file can race with compactions, so a snapshot is
+ * only accepted when no file changed during the copy and the copied
+ * CURRENT file names a MANIFEST that was copied too. The LOCK file is
+ * never copied, so the snapshot can be opened while the browser holds
+ * the original.
+ */
+
+import { copyFile, mkdir, readdir, readFile, rename, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { exists, listDirs } from './files.js';
+
+/**
+ * Files never copied into a snapshot
+ */
+const SKIPPED_FILES = new Set(['LOCK']);
+
+/**
+ * Default number of copy attempts before giving up
+ */
+export const DEFAULT_SNAPSHOT_ATTEMPTS = 5;
+
+/**
+ * Delay between attempts (multiplied by the attempt number)
+ */
+const RETRY_DELAY_MS = 250;
+
+/**
+ * Suffix of a snapshot directory while it is being written
+ */
+const PARTIAL_SUFFIX = '.partial';
+
+/**
+ * Size and modification time of a source file
+ */
+interface FileState {
+  size: number;
+  mtimeMs: number;
+}
+
+export interface LevelDbSnapshotOptions {
+  /** Copy attempts before giving up (default: DEFAULT_SNAPSHOT_ATTEMPTS) */
+  attempts?: number;
+  /** Snapshot folder name (default: UTC timestamp) */
+  name?: string;
+  /** Called before each retry with the reason */
+  onRetry?: (attempt: number, reason: string) => void;
+}
+
+export interface LevelDbSnapshot {
+  /** Snapshot directory */
+  path: string;
+  /** Files copied */
+  files: string[];
+  /** Total bytes copied */
+  bytes: number;
+  /** Attempts needed (1 = first try) */
+  attempts: number;
+  /** MANIFEST named by CURRENT */
+  manifest: string;
+}
+
+/**
+ * Build a folder name from the current time, e.g. 2026-01-31T18-05-09Z
+ */
+export function getSnapshotName(date = new Date()): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/:/g, '-');
+}
+
+/**
+ * Record size and mtime of every regular file to copy
+ */
+async function readFileStates(sourceDir: string): Promise<Map<string, FileState>> {
+  const states = new Map<string, FileState>();
+
+  for (const entry of await readdir(sourceDir, { withFileTypes: true })) {
+    if (!entry.isFile() || SKIPPED_FILES.has(entry.name)) continue;
+
+    try {
+      const { size, mtimeMs } = await stat(join(sourceDir, entry.name));
+      states.set(entry.name, { size, mtimeMs });
+    } catch (error) {
+      // Deleted between readdir and stat (e.g. by a compaction)
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Describe the first difference between two directory states (undefined if equal)
+ */
+function findChange(before: Map<string, FileState>, after: Map<string, FileState>): string | undefined {
+  for (const [name, state] of before) {
+    const current = after.get(name);
+    if (!current) return `${name} was deleted`;
+    if (current.size !== state.size || current.mtimeMs !== state.mtimeMs) return `${name} changed`;
+  }
+  for (const name of after.keys()) {
+    if (!before.has(name)) return `${name} was created`;
+  }
+  return undefined;
+}
+
+/**
+ * Check that CURRENT names a MANIFEST present in the directory
+ *
+ * @returns The MANIFEST file name
+ * @throws Error describing the inconsistency
+ */
+export async function verifyLevelDbDir(dir: string): Promise<string> {
+  const currentPath = join(dir, 'CURRENT');
+
+  if (!(await exists(currentPath))) {
+    throw new Error('CURRENT file is missing');
+  }
+
+  const manifest = (await readFile(currentPath, 'utf-8')).trim();
+
+  if (!/^MANIFEST-\d+$/.test(manifest)) {
+    throw new Error(`CURRENT does not name a MANIFEST (found "${manifest.substring(0, 40)}")`);
+  }
+
+  const manifestPath = join(dir, manifest);
+  if (!(await exists(manifestPath))) {
+    throw new Error(`CURRENT names ${manifest}, which is missing`);
+  }
+  if ((await stat(manifestPath)).size === 0) {
+    throw new Error(`${manifest} is empty`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Copy the files of one attempt
+ *
+ * @returns Reason the attempt must be retried, or undefined on success
+ */
+async function copyAttempt(
+  sourceDir: string,
+  targetDir: string,
+  states: Map<string, FileState>
+): Promise<string | undefined> {
+  for (const name of states.keys()) {
+    try {
+      await copyFile(join(sourceDir, name), join(targetDir, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return `${name} was deleted during the copy`;
+      }
+      throw error;
+    }
+  }
+
+  const change = findChange(states, await readFileStates(sourceDir));
+  if (change) return `${change} during the copy`;
+
+  try {
+    await verifyLevelDbDir(targetDir);
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  return undefined;
+}
+
+/**
+ * Copy a (possibly live) LevelDB directory into `<targetRoot>/<name>`
+ *
+ * @throws Error if the source is not a LevelDB directory or no
+ *         consistent copy could be made within the allowed attempts
+ */
+export async function snapshotLevelDb(
+  sourceDir: string,
+  targetRoot: string,
+  options: LevelDbSnapshotOptions = {}
+): Promise<LevelDbSnapshot> {
+  const attempts = options.attempts ?? DEFAULT_SNAPSHOT_ATTEMPTS;
+
+  // Refuse early when the source itself is not a LevelDB directory
+  try {
+    await verifyLevelDbDir(sourceDir);
+  } catch (error) {
+    throw new Error(`Not a LevelDB directory (${(error as Error).message}): ${sourceDir}`);
+  }
+
+  const baseName = options.name ?? getSnapshotName();
+  let name = baseName;
+  for (let n = 2; await exists(join(targetRoot, name)); n++) {
+    name = `${baseName}-${n}`;
+  }
+
+  const targetDir = join(targetRoot, name);
+  const partialDir = `${targetDir}${PARTIAL_SUFFIX}`;
+  let lastReason = '';
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    await rm(partialDir, { recursive: true, force: true });
+    await mkdir(partialDir, { recursive: true });
+
+    const states = await readFileStates(sourceDir);
+    const reason = await copyAttempt(sourceDir, partialDir, states);
+
+    if (!reason) {
+      const manifest = await verifyLevelDbDir(partialDir);
+      await rename(partialDir, targetDir);
+
+      return {
+        path: targetDir,
+        files: Array.from(states.keys()).sort(),
+        bytes: Array.from(states.values()).reduce((sum, s) => sum + s.size, 0),
+        attempts: attempt,
+        manifest,
+      };
+    }
+
+    lastReason = reason;
+    if (attempt < attempts) {
+      options.onRetry?.(attempt, reason);
+      await new Promise((resolveDelay) => setTimeout(resolveDelay, RETRY_DELAY_MS * attempt));
+    }
+  }
+
+  await rm(partialDir, { recursive: true, force: true });
+  throw new Error(
+    `Could not take a consistent snapshot after ${attempts} attempts (${lastReason}). ` +
+    'Close the browser and try again.'
+  );
+}
+
+/**
+ * Find the LevelDB directory to use under a copy root: the root itself
+ * if it is a LevelDB directory (e.g. made by copy-leveldb.ps1),
+ * otherwise its newest complete snapshot folder
+ */
+export async function findLatestSnapshot(root: string): Promise<string | undefined> {
+  if (!(await exists(root))) return undefined;
+  if (await exists(join(root, 'CURRENT'))) return root;
+
+  // Timestamp names sort chronologically; skip unfinished copies
+  const snapshots = (await listDirs(root))
+    .filter((dir) => !dir.endsWith(PARTIAL_SUFFIX))
+    .sort()
+    .reverse();
+
+  for (const dir of snapshots) {
+    if (await exists(join(dir, 'CURRENT'))) return dir;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,134 @@
+/**
+ * Link checking utilities for OneTab Importer
+ *
+ * Requests go through an `HttpClient` function so callers (and tests)
+ * can swap the default fetch-based client for a stub.
+ */
+
+import type { LinkCheck, TabGroup } from '../models/types.js';
+
+/**
+ * A single request made by the link checker
+ */
+export interface HttpRequest {
+  url: string;
+  method: 'HEAD' | 'GET';
+  timeoutMs: number;
+}
+
+/**
+ * The parts of a response the link checker needs
+ */
+export interface HttpResponse {
+  /** Status of the final response, after redirects */
+  status: number;
+  /** URL of the final response, after redirects */
+  url: string;
+}
+
+/**
+ * Send a request, following redirects; rejects on network errors and timeouts
+ */
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; onetab-importer link checker)';
+
+/**
+ * Statuses that mean the page exists but refused an automated request
+ */
+const BLOCKED_STATUSES = new Set([401, 403, 429]);
+
+/**
+ * Default HTTP layer built on the global fetch
+ */
+export const fetchHttpClient: HttpClient = async ({ url, method, timeoutMs }) => {
+  const response = await fetch(url, {
+    method,
+    redirect: 'follow',
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { 'user-agent': USER_AGENT },
+  });
+
+  // Only the status matters, so don't download the body
+  await response.body?.cancel();
+
+  return { status: response.status, url: response.url || url };
+};
+
+/**
+ * Check if a URL can be checked over HTTP
+ */
+export function isCheckableUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Short reason for a failed request, e.g. "timeout" or "ENOTFOUND"
+ */
+export function describeRequestError(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') return 'timeout';
+
+    // fetch wraps the system error: TypeError("fetch failed", { cause })
+    const cause = error.cause as { code?: string; message?: string } | undefined;
+    return cause?.code ?? cause?.message ?? error.message;
+  }
+  return String(error);
+}
+
+/**
+ * Check one URL: HEAD first, then GET when HEAD fails (some servers
+ * reject or mishandle HEAD requests)
+ */
+export async function checkUrl(
+  url: string,
+  timeoutMs: number,
+  http: HttpClient = fetchHttpClient
+): Promise<LinkCheck> {
+  const checkedAt = new Date().toISOString();
+
+  try {
+    let response = await http({ url, method: 'HEAD', timeoutMs }).catch(() => undefined);
+    if (!response || response.status >= 400) {
+      response = await http({ url, method: 'GET', timeoutMs });
+    }
+
+    return {
+      status: response.status,
+      ...(response.url !== url ? { finalUrl: response.url } : {}),
+      checkedAt,
+    };
+  } catch (error) {
+    return { error: describeRequestError(error), checkedAt };
+  }
+}
+
+/**
+ * Check if a link check found the link dead: no response at all, or an
+ * error status other than the ones servers use to turn away bots
+ */
+export function isDeadLink(check: LinkCheck | undefined): boolean {
+  if (!check) return false;
+  if (check.status === undefined) return true;
+  return check.status >= 400 && !BLOCKED_STATUSES.has(check.status);
+}
+
+/**
+ * Short display form of a link check: the status or the error
+ */
+export function describeLinkCheck(check: LinkCheck): string {
+  return check.status !== undefined ? String(check.status) : check.error ?? 'error';
+}
+
+/**
+ * Remove tabs whose last link check found them dead, dropping groups
+ * left without tabs
+ */
+export function excludeDeadLinks(groups: TabGroup[]): TabGroup[] {
+  return groups
+    .map((group) => {
+      const tabs = group.tabs.filter((tab) => !isDeadLink(tab.linkCheck));
+      return tabs.length === group.tabs.length ? group : { ...group, tabs, tabCount: tabs.length };
+    })
+    .filter((group) => group.tabs.length > 0);
+}
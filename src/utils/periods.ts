@@ -0,0 +1,61 @@
+/**
+ * Period helpers shared by exports and statistics
+ */
+
+import { join } from 'path';
+import type { ExportPeriod, TabGroup } from '../models/types.js';
+import { getYearMonth, getYearWeek, getDateOnly } from './dates.js';
+
+/**
+ * Get the period key of a date: YYYY-MM, YYYY-Www or YYYY-MM-DD
+ */
+export function getPeriodKey(isoString: string, groupBy: ExportPeriod): string {
+  switch (groupBy) {
+    case 'month':
+      return getYearMonth(isoString);
+    case 'week':
+      return getYearWeek(isoString);
+    case 'day':
+      return getDateOnly(isoString);
+  }
+}
+
+/**
+ * Group tabs by a date period
+ */
+export function groupByPeriod(
+  groups: TabGroup[],
+  groupBy: ExportPeriod
+): Map<string, TabGroup[]> {
+  const periodMap = new Map<string, TabGroup[]>();
+
+  for (const group of groups) {
+    const periodKey = getPeriodKey(group.createdAt, groupBy);
+    const existing = periodMap.get(periodKey) ?? [];
+    existing.push(group);
+    periodMap.set(periodKey, existing);
+  }
+
+  return periodMap;
+}
+
+/**
+ * Get output file path for a period
+ */
+export function getOutputPath(
+  outputDir: string,
+  periodKey: string,
+  groupBy: ExportPeriod,
+  extension = '.md'
+): string {
+  const year = periodKey.substring(0, 4);
+
+  switch (groupBy) {
+    case 'month':
+      return join(outputDir, year, `${periodKey}${extension}`);
+    case 'week':
+      return join(outputDir, year, `${periodKey}${extension}`);
+    case 'day':
+      return join(outputDir, year, periodKey.substring(0, 7), `${periodKey}${extension}`);
+  }
+}
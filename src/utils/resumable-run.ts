@@ -0,0 +1,145 @@
+/**
+ * Resumable per-URL runs for OneTab Importer
+ *
+ * check-links, enrich and capture work alike: one task per distinct tab
+ * URL, with each result stored on the tabs in master.json. Progress is
+ * saved every few results and when the run ends, and Ctrl+C lets the
+ * tasks in flight finish, so an interrupted run picks up where it stopped.
+ */
+
+import chalk from 'chalk';
+import type { MasterData, Tab } from '../models/types.js';
+import { loadMasterData } from '../parsers/master.js';
+import { nowIso } from './dates.js';
+import { runPerDomain } from './domain-queue.js';
+import { exists, writeJson } from './files.js';
+import { isCheckableUrl } from './link-check.js';
+
+/**
+ * Settings for runResumable
+ */
+export interface ResumableRunOptions<T> {
+  /** master.json path the results are saved to */
+  inputPath: string;
+  masterData: MasterData;
+  /** Tasks in flight at once (at most one per domain) */
+  concurrency: number;
+  /** Minimum milliseconds between task starts for the same domain */
+  delayMs: number;
+  /** Results between progress saves */
+  saveEvery: number;
+  /** What a finished task did, for progress lines (e.g. "checked") */
+  progressVerb: string;
+  /** Store a result; called once per URL in the order tasks finish */
+  onResult: (url: string, result: T) => void;
+  /** Written before master.json on every save (e.g. a content index) */
+  beforeSave?: () => Promise<void>;
+}
+
+/**
+ * Parse a non-negative integer option, exiting on invalid input
+ */
+export function parseCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    console.error(chalk.red(`❌ Invalid --${name}: ${value}`));
+    process.exit(1);
+  }
+  return count;
+}
+
+/**
+ * Group the fetchable tabs (optionally only the selected ones) by URL
+ */
+export function collectTabsByUrl(masterData: MasterData, selected?: Set<Tab>): Map<string, Tab[]> {
+  const tabsByUrl = new Map<string, Tab[]>();
+
+  for (const group of masterData.groups) {
+    for (const tab of group.tabs) {
+      if (!isCheckableUrl(tab.url)) continue;
+      if (selected && !selected.has(tab)) continue;
+      const tabs = tabsByUrl.get(tab.url);
+      if (tabs) tabs.push(tab);
+      else tabsByUrl.set(tab.url, [tab]);
+    }
+  }
+
+  return tabsByUrl;
+}
+
+/**
+ * Load master data, exiting with a hint to import first when it is missing
+ */
+export async function loadMasterDataOrExit(inputPath: string): Promise<MasterData> {
+  if (!(await exists(inputPath))) {
+    console.error(chalk.red(`❌ Master data not found: ${inputPath}`));
+    console.log(chalk.yellow('\n💡 Run import first:'));
+    console.log(chalk.gray('   onetab import --input your-export.json'));
+    process.exit(1);
+  }
+
+  return loadMasterData(inputPath);
+}
+
+/**
+ * Write master data back with a fresh export time
+ */
+export async function saveMasterData(inputPath: string, masterData: MasterData): Promise<void> {
+  await writeJson(inputPath, { ...masterData, exportedAt: nowIso() });
+}
+
+/**
+ * Run a task for every URL, spread across domains, saving as it goes
+ *
+ * @param task - Must not reject; failures belong in its result
+ * @returns Number of URLs whose task finished (less than `urls.length`
+ *   when the run was interrupted)
+ */
+export async function runResumable<T>(
+  urls: string[],
+  task: (url: string) => Promise<T>,
+  options: ResumableRunOptions<T>
+): Promise<number> {
+  let saving = Promise.resolve();
+  const save = (): Promise<void> => {
+    // Chain the writes so two saves never overlap
+    saving = saving
+      .then(() => options.beforeSave?.())
+      .then(() => saveMasterData(options.inputPath, options.masterData));
+    return saving;
+  };
+
+  let stopping = false;
+  const onInterrupt = (): void => {
+    stopping = true;
+    console.log(chalk.yellow('\n⏸️  Stopping after the requests in flight (run again to resume)'));
+  };
+  process.once('SIGINT', onInterrupt);
+
+  let done = 0;
+  console.log('');
+
+  try {
+    await runPerDomain(urls, task, {
+      concurrency: options.concurrency,
+      delayMs: options.delayMs,
+      shouldStop: () => stopping,
+      onResult: async (url, result) => {
+        options.onResult(url, result);
+
+        done++;
+        if (done % options.saveEvery === 0) {
+          console.log(chalk.gray(`   ... ${done}/${urls.length} ${options.progressVerb}`));
+          await save();
+        }
+      },
+    });
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+    await save();
+  }
+
+  return done;
+}
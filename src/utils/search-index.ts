@@ -0,0 +1,459 @@
+/**
+ * Persistent full-text search index for OneTab Importer
+ *
+ * An inverted index over tab titles, URLs and page metadata, stored next to
+ * master.json (e.g. `data/master.index.json`). Groups are fingerprinted
+ * so the index can be brought up to date incrementally: only groups that
+ * were added, changed or removed since the last build are re-indexed.
+ */
+
+import { createHash } from 'crypto';
+import type { MasterData, Tab, TabGroup } from '../models/types.js';
+import { readJson, writeJson, exists } from './files.js';
+import { getMetadataText } from './enrich.js';
+
+/**
+ * Bump when the on-disk layout changes (older indexes are rebuilt)
+ */
+const INDEX_VERSION = 2;
+
+/**
+ * Score weight of a hit in the title vs. in the URL or the page metadata
+ */
+const TITLE_WEIGHT = 3;
+const URL_WEIGHT = 1;
+const METADATA_WEIGHT = 1;
+
+/**
+ * Multiplier for prefix (non-exact) term matches
+ */
+const PREFIX_MATCH_FACTOR = 0.6;
+
+/**
+ * Recency boost: newest groups score up to (1 + RECENCY_WEIGHT)×,
+ * halving every RECENCY_HALF_LIFE_DAYS
+ */
+const RECENCY_WEIGHT = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 365;
+
+/**
+ * Tokens too common in URLs to be useful
+ */
+const STOP_TOKENS = new Set(['http', 'https', 'www', 'html', 'htm', 'php']);
+
+/**
+ * Minimum token length worth indexing
+ */
+const MIN_TOKEN_LENGTH = 2;
+
+/**
+ * Sorted term lists of indexes, for prefix lookups (dropped when the
+ * index changes and rebuilt on the next query)
+ */
+const sortedTermsCache = new WeakMap<SearchIndex, string[]>();
+
+/**
+ * Hits of one term in one tab: [title hits, URL hits, metadata hits]
+ */
+type Posting = [number, number, number];
+
+/**
+ * Indexed state of a single group
+ */
+interface IndexedGroup {
+  /** Hash of the group's tabs (IDs, URLs, titles, metadata) */
+  fingerprint: string;
+  /** Group creation time, for the recency boost */
+  createdAtEpoch: number;
+  /** Terms indexed for each tab ID (needed to remove postings) */
+  tabs: Record<string, string[]>;
+}
+
+/**
+ * On-disk search index
+ */
+export interface SearchIndex {
+  version: number;
+  /** `exportedAt` of the master data the index was built from */
+  builtFrom: string;
+  /** Indexed groups by ID */
+  groups: Record<string, IndexedGroup>;
+  /** Term → document key → posting */
+  terms: Record<string, Record<string, Posting>>;
+}
+
+/**
+ * Ranked hit for a single tab
+ */
+export interface IndexHit {
+  groupId: string;
+  tabId: string;
+  /** Relevance score (higher is better) */
+  score: number;
+  /** Whether any query term hit the title / the URL / the page metadata */
+  inTitle: boolean;
+  inUrl: boolean;
+  inMetadata: boolean;
+}
+
+/**
+ * Result of bringing an index up to date
+ */
+export interface IndexUpdate {
+  index: SearchIndex;
+  /** Groups (re-)indexed */
+  indexed: number;
+  /** Groups dropped from the index */
+  removed: number;
+}
+
+/**
+ * Split text into lowercase search tokens
+ */
+export function tokenize(text: string, minLength = MIN_TOKEN_LENGTH): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= minLength && !STOP_TOKENS.has(token));
+}
+
+/**
+ * Match a bare query word against a tab without an index, by the same
+ * rule `queryIndex` applies: every token of the word must be a prefix of
+ * a token in the title, URL or page metadata
+ *
+ * @returns Where the word hit, false for no hit, or undefined when the
+ *          word has no searchable tokens (e.g. "www" or "-")
+ */
+export function matchTabWord(
+  tab: Tab,
+  word: string
+): Pick<IndexHit, 'inTitle' | 'inUrl' | 'inMetadata'> | false | undefined {
+  const wordTokens = Array.from(new Set(tokenize(word, 1)));
+  if (wordTokens.length === 0) {
+    return undefined;
+  }
+
+  const [title, url, metadata] = [tab.title, tab.url, getMetadataText(tab)].map((text) => tokenize(text));
+  const hit = { inTitle: false, inUrl: false, inMetadata: false };
+
+  for (const wordToken of wordTokens) {
+    const matches = (tokens: string[]): boolean => tokens.some((token) => token.startsWith(wordToken));
+    const inTitle = matches(title);
+    const inUrl = matches(url);
+    const inMetadata = matches(metadata);
+    if (!inTitle && !inUrl && !inMetadata) return false;
+
+    hit.inTitle ||= inTitle;
+    hit.inUrl ||= inUrl;
+    hit.inMetadata ||= inMetadata;
+  }
+
+  return hit;
+}
+
+/**
+ * Build the key for a tab in the postings map (tab IDs are only unique per group)
+ */
+function docKey(groupId: string, tabId: string): string {
+  return `${groupId}\t${tabId}`;
+}
+
+/**
+ * Get the index file path that belongs to a master JSON path
+ */
+export function getIndexPath(masterPath: string): string {
+  return masterPath.replace(/(\.json)?$/i, '.index.json');
+}
+
+/**
+ * Fingerprint a group's searchable content
+ */
+function fingerprintGroup(group: TabGroup): string {
+  const hash = createHash('sha1');
+  for (const tab of group.tabs) {
+    hash.update(`${tab.id}\u0000${tab.url}\u0000${tab.title}\u0000${getMetadataText(tab)}\u0000`);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Create an empty index
+ */
+function createEmptyIndex(): SearchIndex {
+  return { version: INDEX_VERSION, builtFrom: '', groups: {}, terms: {} };
+}
+
+/**
+ * Remove all postings of a group from the index
+ */
+function removeGroup(index: SearchIndex, groupId: string): void {
+  if (!Object.hasOwn(index.groups, groupId)) return;
+  const indexed = index.groups[groupId];
+
+  for (const [tabId, terms] of Object.entries(indexed.tabs)) {
+    const key = docKey(groupId, tabId);
+    for (const term of terms) {
+      if (!Object.hasOwn(index.terms, term)) continue;
+      const postings = index.terms[term];
+      delete postings[key];
+      if (Object.keys(postings).length === 0) {
+        delete index.terms[term];
+      }
+    }
+  }
+
+  delete index.groups[groupId];
+}
+
+/**
+ * Add postings for every tab in a group
+ */
+function addGroup(index: SearchIndex, group: TabGroup, fingerprint: string): void {
+  const tabs: Record<string, string[]> = {};
+
+  for (const tab of group.tabs) {
+    const counts = new Map<string, Posting>();
+
+    const fields = [tab.title, tab.url, getMetadataText(tab)];
+    fields.forEach((text, field) => {
+      for (const token of tokenize(text)) {
+        const posting = counts.get(token) ?? [0, 0, 0];
+        posting[field]++;
+        counts.set(token, posting);
+      }
+    });
+
+    const key = docKey(group.id, tab.id);
+    for (const [term, posting] of counts) {
+      // Terms like "constructor" must not resolve to Object.prototype members
+      if (!Object.hasOwn(index.terms, term)) {
+        index.terms[term] = {};
+      }
+      index.terms[term][key] = posting;
+    }
+
+    tabs[tab.id] = Array.from(counts.keys());
+  }
+
+  index.groups[group.id] = {
+    fingerprint,
+    createdAtEpoch: group.createdAtEpoch,
+    tabs,
+  };
+}
+
+/**
+ * Bring an index up to date with master data, re-indexing only
+ * groups that are new or whose tabs changed
+ */
+export function updateSearchIndex(
+  index: SearchIndex | null,
+  masterData: MasterData
+): IndexUpdate {
+  const current = index && index.version === INDEX_VERSION ? index : createEmptyIndex();
+  const seen = new Set<string>();
+  let indexed = 0;
+  let removed = 0;
+
+  for (const group of masterData.groups) {
+    seen.add(group.id);
+    const fingerprint = fingerprintGroup(group);
+    const existing = Object.hasOwn(current.groups, group.id) ? current.groups[group.id] : undefined;
+
+    if (existing && existing.fingerprint === fingerprint) {
+      existing.createdAtEpoch = group.createdAtEpoch;
+      continue;
+    }
+
+    removeGroup(current, group.id);
+    addGroup(current, group, fingerprint);
+    indexed++;
+  }
+
+  for (const groupId of Object.keys(current.groups)) {
+    if (!seen.has(groupId)) {
+      removeGroup(current, groupId);
+      removed++;
+    }
+  }
+
+  if (indexed > 0 || removed > 0) {
+    sortedTermsCache.delete(current);
+  }
+
+  current.builtFrom = masterData.exportedAt;
+
+  return { index: current, indexed, removed };
+}
+
+/**
+ * Load the index for a master JSON file (null if missing or unreadable)
+ */
+export async function loadSearchIndex(masterPath: string): Promise<SearchIndex | null> {
+  const indexPath = getIndexPath(masterPath);
+
+  if (!(await exists(indexPath))) {
+    return null;
+  }
+
+  try {
+    return await readJson<SearchIndex>(indexPath);
+  } catch {
+    // Corrupt index: rebuild from scratch
+    return null;
+  }
+}
+
+/**
+ * Write the index next to its master JSON file
+ */
+export async function saveSearchIndex(masterPath: string, index: SearchIndex): Promise<void> {
+  await writeJson(getIndexPath(masterPath), index, false);
+}
+
+/**
+ * Load the index for a master JSON file and bring it up to date,
+ * saving it back if anything changed
+ */
+export async function refreshSearchIndex(
+  masterPath: string,
+  masterData: MasterData
+): Promise<IndexUpdate> {
+  const existing = await loadSearchIndex(masterPath);
+  const stale = existing?.builtFrom !== masterData.exportedAt;
+  const update = updateSearchIndex(existing, masterData);
+
+  if (stale || update.indexed > 0 || update.removed > 0) {
+    await saveSearchIndex(masterPath, update.index);
+  }
+
+  return update;
+}
+
+/**
+ * Get the index terms in sorted order (sorted once per index state)
+ */
+function getSortedTerms(index: SearchIndex): string[] {
+  let sortedTerms = sortedTermsCache.get(index);
+  if (!sortedTerms) {
+    sortedTerms = Object.keys(index.terms).sort();
+    sortedTermsCache.set(index, sortedTerms);
+  }
+  return sortedTerms;
+}
+
+/**
+ * Find all index terms starting with a prefix
+ */
+export function findTerms(sortedTerms: string[], prefix: string): string[] {
+  // Binary search for the first term >= prefix
+  let low = 0;
+  let high = sortedTerms.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sortedTerms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const terms: string[] = [];
+  for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+    terms.push(sortedTerms[i]);
+  }
+  return terms;
+}
+
+/**
+ * Recency multiplier for a group creation time
+ */
+function recencyBoost(createdAtEpoch: number, now: number): number {
+  const ageDays = Math.max(0, now - createdAtEpoch) / 86400000;
+  return 1 + RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Run a multi-word query against the index
+ *
+ * Every query token must match (exactly or as a prefix of an indexed
+ * term). Title hits weigh more than URL hits, exact matches more than
+ * prefix matches, and newer groups get a recency boost. Hits are
+ * returned best first.
+ */
+export function queryIndex(index: SearchIndex, query: string, now = Date.now()): IndexHit[] {
+  // Single characters are allowed in queries: they still work as prefixes
+  const tokens = Array.from(new Set(tokenize(query, 1)));
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const sortedTerms = getSortedTerms(index);
+  let scores: Map<string, Omit<IndexHit, 'groupId' | 'tabId'>> | null = null;
+
+  for (const token of tokens) {
+    const tokenScores = new Map<string, Omit<IndexHit, 'groupId' | 'tabId'>>();
+
+    for (const term of findTerms(sortedTerms, token)) {
+      const factor = term === token ? 1 : PREFIX_MATCH_FACTOR;
+
+      for (const [key, [titleHits, urlHits, metadataHits]] of Object.entries(index.terms[term])) {
+        const score = (titleHits * TITLE_WEIGHT + urlHits * URL_WEIGHT + metadataHits * METADATA_WEIGHT) * factor;
+        const best = tokenScores.get(key);
+
+        if (!best || score > best.score) {
+          tokenScores.set(key, {
+            score,
+            inTitle: (best?.inTitle ?? false) || titleHits > 0,
+            inUrl: (best?.inUrl ?? false) || urlHits > 0,
+            inMetadata: (best?.inMetadata ?? false) || metadataHits > 0,
+          });
+        } else {
+          best.inTitle ||= titleHits > 0;
+          best.inUrl ||= urlHits > 0;
+          best.inMetadata ||= metadataHits > 0;
+        }
+      }
+    }
+
+    // AND semantics: keep only documents matching every token so far
+    if (scores === null) {
+      scores = tokenScores;
+    } else {
+      const combined: typeof tokenScores = new Map();
+      for (const [key, previous] of scores) {
+        const next = tokenScores.get(key);
+        if (next) {
+          combined.set(key, {
+            score: previous.score + next.score,
+            inTitle: previous.inTitle || next.inTitle,
+            inUrl: previous.inUrl || next.inUrl,
+            inMetadata: previous.inMetadata || next.inMetadata,
+          });
+        }
+      }
+      scores = combined;
+    }
+
+    if (scores.size === 0) break;
+  }
+
+  const hits: IndexHit[] = [];
+
+  for (const [key, { score, inTitle, inUrl, inMetadata }] of scores ?? []) {
+    const separator = key.indexOf('\t');
+    const groupId = key.substring(0, separator);
+    const tabId = key.substring(separator + 1);
+    const epoch = Object.hasOwn(index.groups, groupId) ? index.groups[groupId].createdAtEpoch : 0;
+    hits.push({
+      groupId,
+      tabId,
+      score: Math.round(score * recencyBoost(epoch, now) * 1000) / 1000,
+      inTitle,
+      inUrl,
+      inMetadata,
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+
+  return hits;
+}
@@ -0,0 +1,148 @@
+/**
+ * Snappy decompression
+ *
+ * Browsers compress their extension storage with Snappy: Firefox for
+ * IndexedDB values, Chromium for LevelDB table blocks. Only decompression
+ * is needed, so this is a small pure TypeScript implementation of the raw
+ * format and the framing format (used for Firefox's external value files).
+ *
+ * Format: https://github.com/google/snappy/blob/main/format_description.txt
+ */
+
+/**
+ * Stream identifier that starts every framed Snappy stream
+ */
+const FRAME_STREAM_ID = Buffer.from([0xff, 0x06, 0x00, 0x00, 0x73, 0x4e, 0x61, 0x50, 0x70, 0x59]);
+
+/**
+ * Read the little-endian base-128 varint holding the uncompressed length
+ */
+function readLength(input: Buffer): { length: number; offset: number } {
+  let length = 0;
+  let shift = 0;
+  let offset = 0;
+
+  while (offset < input.length && shift < 35) {
+    const byte = input[offset++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return { length, offset };
+    shift += 7;
+  }
+
+  throw new Error('Snappy: invalid length header');
+}
+
+/**
+ * Decompress a raw (unframed) Snappy buffer
+ *
+ * @throws Error if the input is truncated or corrupt
+ */
+export function decompressSnappy(input: Buffer): Buffer {
+  const { length, offset: start } = readLength(input);
+  const output = Buffer.alloc(length);
+  let inPos = start;
+  let outPos = 0;
+
+  while (inPos < input.length) {
+    const tag = input[inPos++];
+    const type = tag & 0x03;
+
+    if (type === 0) {
+      // Literal: length in the tag, or in the following 1-4 bytes
+      let literalLength = tag >> 2;
+      if (literalLength >= 60) {
+        const bytes = literalLength - 59;
+        if (inPos + bytes > input.length) throw new Error('Snappy: truncated literal length');
+        literalLength = input.readUIntLE(inPos, bytes);
+        inPos += bytes;
+      }
+      literalLength += 1;
+
+      if (inPos + literalLength > input.length || outPos + literalLength > length) {
+        throw new Error('Snappy: literal out of bounds');
+      }
+      input.copy(output, outPos, inPos, inPos + literalLength);
+      inPos += literalLength;
+      outPos += literalLength;
+      continue;
+    }
+
+    // Copy of earlier output: 1, 2 or 4 offset bytes
+    let copyLength: number;
+    let copyOffset: number;
+
+    if (type === 1) {
+      if (inPos + 1 > input.length) throw new Error('Snappy: truncated copy');
+      copyLength = ((tag >> 2) & 0x07) + 4;
+      copyOffset = ((tag >> 5) << 8) | input[inPos];
+      inPos += 1;
+    } else if (type === 2) {
+      if (inPos + 2 > input.length) throw new Error('Snappy: truncated copy');
+      copyLength = (tag >> 2) + 1;
+      copyOffset = input.readUInt16LE(inPos);
+      inPos += 2;
+    } else {
+      if (inPos + 4 > input.length) throw new Error('Snappy: truncated copy');
+      copyLength = (tag >> 2) + 1;
+      copyOffset = input.readUInt32LE(inPos);
+      inPos += 4;
+    }
+
+    if (copyOffset === 0 || copyOffset > outPos || outPos + copyLength > length) {
+      throw new Error('Snappy: copy out of bounds');
+    }
+
+    // Byte by byte: source and destination may overlap (run-length copies)
+    for (let i = 0; i < copyLength; i++) {
+      output[outPos] = output[outPos - copyOffset];
+      outPos++;
+    }
+  }
+
+  if (outPos !== length) {
+    throw new Error(`Snappy: expected ${length} bytes, got ${outPos}`);
+  }
+
+  return output;
+}
+
+/**
+ * Check whether a buffer starts with the framed Snappy stream identifier
+ */
+export function isFramedSnappy(input: Buffer): boolean {
+  return input.length >= FRAME_STREAM_ID.length &&
+    input.subarray(0, FRAME_STREAM_ID.length).equals(FRAME_STREAM_ID);
+}
+
+/**
+ * Decompress a framed Snappy stream (CRCs are not verified)
+ *
+ * @throws Error if the stream is truncated or uses reserved chunk types
+ */
+export function decompressSnappyFramed(input: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    if (pos + 4 > input.length) throw new Error('Snappy: truncated chunk header');
+
+    const type = input[pos];
+    const chunkLength = input.readUIntLE(pos + 1, 3);
+    const body = input.subarray(pos + 4, pos + 4 + chunkLength);
+    if (body.length !== chunkLength) throw new Error('Snappy: truncated chunk');
+    pos += 4 + chunkLength;
+
+    if (type === 0x00) {
+      // Compressed data, after a 4-byte masked CRC-32C
+      chunks.push(decompressSnappy(body.subarray(4)));
+    } else if (type === 0x01) {
+      // Uncompressed data, after a 4-byte masked CRC-32C
+      chunks.push(body.subarray(4));
+    } else if (type >= 0x02 && type <= 0x7f) {
+      throw new Error(`Snappy: reserved chunk type 0x${type.toString(16)}`);
+    }
+    // 0x80-0xfe (padding, skippable) and 0xff (stream identifier) carry no data
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,412 @@
+/**
+ * Minimal read-only SQLite reader
+ *
+ * Reads whole tables from a SQLite database file without a native
+ * module. Enough of the file format is supported to read Firefox's
+ * IndexedDB databases: table and index b-trees (rowid and WITHOUT ROWID
+ * tables), overflow pages, every record serial type, and the
+ * write-ahead log, whose committed pages take precedence over the main
+ * file (Firefox keeps recent changes there while it runs).
+ *
+ * Format: https://www.sqlite.org/fileformat2.html
+ */
+
+import { readFile } from 'fs/promises';
+import { exists } from './files.js';
+
+/**
+ * A column value as stored in a record
+ */
+export type SqliteValue = null | number | bigint | string | Buffer;
+
+/**
+ * A table row keyed by column name
+ */
+export type SqliteRow = Record<string, SqliteValue>;
+
+/**
+ * An open (fully loaded) database
+ */
+export interface SqliteDatabase {
+  pageSize: number;
+  /** Page size minus the reserved bytes at the end of each page */
+  usableSize: number;
+  /** Text encoding of the database */
+  encoding: 'utf8' | 'utf16le' | 'utf16be';
+  /** Page contents by page number (1-based), with the WAL applied */
+  getPage: (pageNumber: number) => Buffer;
+}
+
+/**
+ * A table listed in sqlite_master
+ */
+export interface SqliteTable {
+  name: string;
+  rootPage: number;
+  sql: string;
+  withoutRowid: boolean;
+  columns: string[];
+  /** Column aliasing the rowid (INTEGER PRIMARY KEY), stored as NULL in records */
+  rowidColumn?: string;
+}
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const WAL_MAGIC = [0x377f0682, 0x377f0683];
+
+const PAGE_INDEX_INTERIOR = 0x02;
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_INDEX_LEAF = 0x0a;
+const PAGE_TABLE_LEAF = 0x0d;
+
+/**
+ * Read a big-endian SQLite varint (1-9 bytes)
+ */
+function readVarint(buffer: Buffer, offset: number): { value: number; length: number } {
+  let value = 0;
+
+  for (let i = 0; i < 8; i++) {
+    const byte = buffer[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) return { value, length: i + 1 };
+  }
+
+  return { value: value * 256 + buffer[offset + 8], length: 9 };
+}
+
+/**
+ * Load committed WAL frames as a page number → page map
+ *
+ * Frames after the last commit frame, and frames left over from an
+ * earlier WAL generation (different salt), are ignored.
+ */
+async function readWal(walPath: string, pageSize: number): Promise<Map<number, Buffer>> {
+  const pages = new Map<number, Buffer>();
+  if (!(await exists(walPath))) return pages;
+
+  const wal = await readFile(walPath);
+  if (wal.length < 32 || !WAL_MAGIC.includes(wal.readUInt32BE(0)) || wal.readUInt32BE(8) !== pageSize) {
+    return pages;
+  }
+
+  const salt1 = wal.readUInt32BE(16);
+  const salt2 = wal.readUInt32BE(20);
+  const frameSize = 24 + pageSize;
+  let pending = new Map<number, Buffer>();
+
+  for (let offset = 32; offset + frameSize <= wal.length; offset += frameSize) {
+    if (wal.readUInt32BE(offset + 8) !== salt1 || wal.readUInt32BE(offset + 12) !== salt2) break;
+
+    const pageNumber = wal.readUInt32BE(offset);
+    pending.set(pageNumber, wal.subarray(offset + 24, offset + frameSize));
+
+    // A non-zero database size marks a commit frame
+    if (wal.readUInt32BE(offset + 4) !== 0) {
+      for (const [number, page] of pending) pages.set(number, page);
+      pending = new Map();
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Load a database file (and its `-wal` file, if present) into memory
+ *
+ * @throws Error if the file is not a SQLite database
+ */
+export async function openSqliteDatabase(path: string): Promise<SqliteDatabase> {
+  const file = await readFile(path);
+
+  if (file.length < 100 || file.toString('latin1', 0, 16) !== HEADER_MAGIC) {
+    throw new Error(`Not a SQLite database: ${path}`);
+  }
+
+  const rawPageSize = file.readUInt16BE(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usableSize = pageSize - file[20];
+  const encodingCode = file.readUInt32BE(56);
+  const encoding = encodingCode === 2 ? 'utf16le' : encodingCode === 3 ? 'utf16be' : 'utf8';
+  const walPages = await readWal(`${path}-wal`, pageSize);
+
+  const getPage = (pageNumber: number): Buffer => {
+    const walPage = walPages.get(pageNumber);
+    if (walPage) return walPage;
+
+    const start = (pageNumber - 1) * pageSize;
+    if (pageNumber < 1 || start + pageSize > file.length) {
+      throw new Error(`SQLite page ${pageNumber} is out of range`);
+    }
+    return file.subarray(start, start + pageSize);
+  };
+
+  return { pageSize, usableSize, encoding, getPage };
+}
+
+/**
+ * Decode text in the database encoding
+ */
+function decodeText(bytes: Buffer, encoding: SqliteDatabase['encoding']): string {
+  if (encoding === 'utf16be') {
+    return Buffer.from(bytes).swap16().toString('utf16le');
+  }
+  return bytes.toString(encoding);
+}
+
+/**
+ * Decode a record into its column values
+ */
+function decodeRecord(payload: Buffer, encoding: SqliteDatabase['encoding']): SqliteValue[] {
+  const header = readVarint(payload, 0);
+  const types: number[] = [];
+
+  for (let offset = header.length; offset < header.value;) {
+    const type = readVarint(payload, offset);
+    types.push(type.value);
+    offset += type.length;
+  }
+
+  const values: SqliteValue[] = [];
+  let offset = header.value;
+
+  for (const type of types) {
+    if (type === 0) {
+      values.push(null);
+    } else if (type >= 1 && type <= 6) {
+      const size = [0, 1, 2, 3, 4, 6, 8][type];
+      if (size <= 6) {
+        values.push(payload.readIntBE(offset, size));
+      } else {
+        const big = payload.readBigInt64BE(offset);
+        const safe = big >= BigInt(Number.MIN_SAFE_INTEGER) && big <= BigInt(Number.MAX_SAFE_INTEGER);
+        values.push(safe ? Number(big) : big);
+      }
+      offset += size;
+    } else if (type === 7) {
+      values.push(payload.readDoubleBE(offset));
+      offset += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const bytes = payload.subarray(offset, offset + size);
+      values.push(type % 2 === 0 ? Buffer.from(bytes) : decodeText(bytes, encoding));
+      offset += size;
+    } else {
+      throw new Error(`Unsupported SQLite serial type ${type}`);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Read a cell payload, following overflow pages when it does not fit
+ */
+function readPayload(db: SqliteDatabase, page: Buffer, offset: number, size: number, isTable: boolean): Buffer {
+  const usable = db.usableSize;
+  const maxLocal = isTable ? usable - 35 : Math.floor(((usable - 12) * 64) / 255) - 23;
+
+  if (size <= maxLocal) {
+    return page.subarray(offset, offset + size);
+  }
+
+  const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+  const surplus = minLocal + ((size - minLocal) % (usable - 4));
+  const localSize = surplus <= maxLocal ? surplus : minLocal;
+
+  const parts: Buffer[] = [page.subarray(offset, offset + localSize)];
+  let remaining = size - localSize;
+  let overflowPage = page.readUInt32BE(offset + localSize);
+  const seen = new Set<number>();
+
+  while (remaining > 0 && overflowPage !== 0) {
+    if (seen.has(overflowPage)) throw new Error('SQLite overflow chain loops');
+    seen.add(overflowPage);
+
+    const overflow = db.getPage(overflowPage);
+    const chunk = Math.min(remaining, usable - 4);
+    parts.push(overflow.subarray(4, 4 + chunk));
+    remaining -= chunk;
+    overflowPage = overflow.readUInt32BE(0);
+  }
+
+  if (remaining > 0) throw new Error('SQLite overflow chain is truncated');
+  return Buffer.concat(parts);
+}
+
+/**
+ * Visit every record of a b-tree (index b-tree records on interior
+ * pages are visited before those of their children)
+ *
+ * @param visit - Called with the decoded record and, for table b-trees, the rowid
+ */
+function walkBTree(
+  db: SqliteDatabase,
+  rootPage: number,
+  visit: (values: SqliteValue[], rowid?: number) => void
+): void {
+  const stack = [rootPage];
+  const seen = new Set<number>();
+
+  while (stack.length > 0) {
+    const pageNumber = stack.pop()!;
+    if (seen.has(pageNumber)) throw new Error(`SQLite b-tree page ${pageNumber} is referenced twice`);
+    seen.add(pageNumber);
+
+    const page = db.getPage(pageNumber);
+    const headerOffset = pageNumber === 1 ? 100 : 0;
+    const type = page[headerOffset];
+    const cellCount = page.readUInt16BE(headerOffset + 3);
+    const isInterior = type === PAGE_TABLE_INTERIOR || type === PAGE_INDEX_INTERIOR;
+    const isTable = type === PAGE_TABLE_INTERIOR || type === PAGE_TABLE_LEAF;
+    const pointerOffset = headerOffset + (isInterior ? 12 : 8);
+
+    if (![PAGE_INDEX_INTERIOR, PAGE_TABLE_INTERIOR, PAGE_INDEX_LEAF, PAGE_TABLE_LEAF].includes(type)) {
+      throw new Error(`SQLite page ${pageNumber} is not a b-tree page (type ${type})`);
+    }
+
+    const children: number[] = [];
+
+    for (let i = 0; i < cellCount; i++) {
+      let offset = page.readUInt16BE(pointerOffset + i * 2);
+
+      if (isInterior) {
+        children.push(page.readUInt32BE(offset));
+        offset += 4;
+        // Table interior cells only hold a key; index interior cells also hold a record
+        if (isTable) continue;
+      }
+
+      const size = readVarint(page, offset);
+      offset += size.length;
+
+      let rowid: number | undefined;
+      if (isTable) {
+        const key = readVarint(page, offset);
+        rowid = key.value;
+        offset += key.length;
+      }
+
+      visit(decodeRecord(readPayload(db, page, offset, size.value, isTable), db.encoding), rowid);
+    }
+
+    if (isInterior) {
+      children.push(page.readUInt32BE(headerOffset + 8));
+      // Pop order: left-most child first
+      stack.push(...children.reverse());
+    }
+  }
+}
+
+/**
+ * Split a CREATE TABLE body on top-level commas
+ */
+function splitDefinitions(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
+
+/**
+ * Extract column names (in storage order) from a CREATE TABLE statement
+ */
+function parseTableSql(sql: string): Pick<SqliteTable, 'columns' | 'rowidColumn' | 'withoutRowid'> {
+  const open = sql.indexOf('(');
+  const close = sql.lastIndexOf(')');
+  const withoutRowid = /\)\s*WITHOUT\s+ROWID\s*;?\s*$/i.test(sql);
+  const definitions = splitDefinitions(sql.substring(open + 1, close));
+
+  const columns: string[] = [];
+  let rowidColumn: string | undefined;
+  let primaryKey: string[] = [];
+
+  for (const definition of definitions) {
+    const constraint = /^(?:CONSTRAINT\s+\S+\s+)?(PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY)\b/i.exec(definition);
+    if (constraint) {
+      if (/^PRIMARY/i.test(constraint[1])) {
+        const keyColumns = /\(([^)]*)\)/.exec(definition)?.[1] ?? '';
+        primaryKey = keyColumns.split(',').map((name) => name.trim().split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, ''));
+      }
+      continue;
+    }
+
+    const name = /^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))/.exec(definition);
+    if (!name) continue;
+    const column = name[1] ?? name[2] ?? name[3] ?? name[4];
+    columns.push(column);
+
+    if (/\bPRIMARY\s+KEY\b/i.test(definition)) {
+      primaryKey = [column];
+      if (/^\S+\s+INTEGER\s+PRIMARY\s+KEY\b/i.test(definition) && !withoutRowid) {
+        rowidColumn = column;
+      }
+    }
+  }
+
+  // WITHOUT ROWID records store the primary key columns first
+  const ordered = withoutRowid
+    ? [...primaryKey, ...columns.filter((column) => !primaryKey.includes(column))]
+    : columns;
+
+  return { columns: ordered, rowidColumn, withoutRowid };
+}
+
+/**
+ * List the tables of a database
+ */
+export function listSqliteTables(db: SqliteDatabase): SqliteTable[] {
+  const tables: SqliteTable[] = [];
+
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  walkBTree(db, 1, (values) => {
+    const [type, name, , rootPage, sql] = values;
+    if (type !== 'table' || typeof name !== 'string' || typeof rootPage !== 'number' || typeof sql !== 'string') {
+      return;
+    }
+    tables.push({ name, rootPage, sql, ...parseTableSql(sql) });
+  });
+
+  return tables;
+}
+
+/**
+ * Read every row of a table
+ *
+ * @throws Error if the table does not exist
+ */
+export function readSqliteTable(db: SqliteDatabase, tableName: string): SqliteRow[] {
+  const table = listSqliteTables(db).find((t) => t.name === tableName);
+  if (!table) {
+    throw new Error(`SQLite table not found: ${tableName}`);
+  }
+
+  const rows: SqliteRow[] = [];
+
+  walkBTree(db, table.rootPage, (values, rowid) => {
+    const row: SqliteRow = {};
+    table.columns.forEach((column, i) => {
+      // Columns added by ALTER TABLE are missing from older records
+      row[column] = values[i] ?? null;
+    });
+    if (table.rowidColumn && rowid !== undefined) {
+      row[table.rowidColumn] = rowid;
+    }
+    rows.push(row);
+  });
+
+  return rows;
+}
@@ -0,0 +1,232 @@
+/**
+ * Decoder for SpiderMonkey's structured clone format
+ *
+ * Firefox serializes IndexedDB values (and so WebExtension
+ * `storage.local` values) with the structured clone algorithm. The
+ * buffer is a sequence of little-endian 64-bit words, each a
+ * (tag, data) pair of 32-bit halves; any word whose tag is below
+ * SCTAG_FLOAT_MAX is a double.
+ *
+ * Plain data is supported: primitives, strings, objects, arrays, dates,
+ * boxed primitives, regular expressions, Maps, Sets and BigInts.
+ * Binary data (ArrayBuffers, typed arrays, blobs) is not: OneTab never
+ * stores it.
+ *
+ * Format: js/src/vm/StructuredClone.cpp in the Firefox source tree
+ */
+
+const SCTAG_FLOAT_MAX = 0xfff00000;
+const SCTAG_HEADER = 0xfff10000;
+const SCTAG_NULL = 0xffff0000;
+const SCTAG_UNDEFINED = 0xffff0001;
+const SCTAG_BOOLEAN = 0xffff0002;
+const SCTAG_INT32 = 0xffff0003;
+const SCTAG_STRING = 0xffff0004;
+const SCTAG_DATE_OBJECT = 0xffff0005;
+const SCTAG_REGEXP_OBJECT = 0xffff0006;
+const SCTAG_ARRAY_OBJECT = 0xffff0007;
+const SCTAG_OBJECT_OBJECT = 0xffff0008;
+const SCTAG_BOOLEAN_OBJECT = 0xffff000a;
+const SCTAG_STRING_OBJECT = 0xffff000b;
+const SCTAG_NUMBER_OBJECT = 0xffff000c;
+const SCTAG_BACK_REFERENCE_OBJECT = 0xffff000d;
+const SCTAG_MAP_OBJECT = 0xffff0011;
+const SCTAG_SET_OBJECT = 0xffff0012;
+const SCTAG_END_OF_KEYS = 0xffff0013;
+const SCTAG_BIGINT = 0xffff001d;
+const SCTAG_BIGINT_OBJECT = 0xffff001e;
+const SCTAG_TRANSFER_MAP_HEADER = 0xffff0200;
+
+/**
+ * Latin-1 flag in the data half of a string word
+ */
+const LATIN1_FLAG = 0x80000000;
+
+/**
+ * RegExp flag bits, in SpiderMonkey's order
+ */
+const REGEXP_FLAGS: Array<[number, string]> = [
+  [0x02, 'g'], [0x01, 'i'], [0x04, 'm'], [0x08, 's'], [0x10, 'u'], [0x20, 'y'], [0x40, 'd'], [0x80, 'v'],
+];
+
+/**
+ * Container being filled while its entries are read
+ */
+type Frame =
+  | { kind: 'object'; value: Record<string, unknown>; key?: string; hasKey: boolean }
+  | { kind: 'array'; value: unknown[]; key?: string; hasKey: boolean }
+  | { kind: 'map'; value: Map<unknown, unknown>; key?: unknown; hasKey: boolean }
+  | { kind: 'set'; value: Set<unknown> };
+
+/**
+ * Decode a structured clone buffer into a JavaScript value
+ *
+ * @throws Error on truncated input or unsupported types
+ */
+export function readStructuredClone(buffer: Buffer): unknown {
+  let pos = 0;
+  const allObjects: unknown[] = [];
+
+  const readPair = (): { tag: number; data: number } => {
+    if (pos + 8 > buffer.length) throw new Error('Structured clone: unexpected end of data');
+    const data = buffer.readUInt32LE(pos);
+    const tag = buffer.readUInt32LE(pos + 4);
+    pos += 8;
+    return { tag, data };
+  };
+
+  const readDouble = (): number => {
+    if (pos + 8 > buffer.length) throw new Error('Structured clone: unexpected end of data');
+    const value = buffer.readDoubleLE(pos);
+    pos += 8;
+    return value;
+  };
+
+  const readString = (data: number): string => {
+    const length = data & ~LATIN1_FLAG;
+    const latin1 = (data & LATIN1_FLAG) !== 0;
+    const size = latin1 ? length : length * 2;
+    if (pos + size > buffer.length) throw new Error('Structured clone: string out of bounds');
+
+    const value = buffer.toString(latin1 ? 'latin1' : 'utf16le', pos, pos + size);
+    // Strings are padded to a whole word
+    pos += Math.ceil(size / 8) * 8;
+    return value;
+  };
+
+  const readBigInt = (data: number): bigint => {
+    const negative = (data & 0x80000000) !== 0;
+    const digits = data & 0x7fffffff;
+    let value = 0n;
+    for (let i = 0; i < digits; i++) {
+      if (pos + 8 > buffer.length) throw new Error('Structured clone: BigInt out of bounds');
+      value |= buffer.readBigUInt64LE(pos) << BigInt(64 * i);
+      pos += 8;
+    }
+    return negative ? -value : value;
+  };
+
+  const readRegExp = (flagBits: number): RegExp => {
+    const source = readPair();
+    if (source.tag !== SCTAG_STRING) throw new Error('Structured clone: RegExp source is not a string');
+    const flags = REGEXP_FLAGS.filter(([bit]) => flagBits & bit).map(([, flag]) => flag).join('');
+    return new RegExp(readString(source.data), flags);
+  };
+
+  /**
+   * Read one value; containers are returned empty and filled by the caller
+   */
+  const readValue = (tag: number, data: number): { value: unknown; frame?: Frame } => {
+    if (tag < SCTAG_FLOAT_MAX) {
+      pos -= 8;
+      return { value: readDouble() };
+    }
+
+    switch (tag) {
+      case SCTAG_NULL: return { value: null };
+      case SCTAG_UNDEFINED: return { value: undefined };
+      case SCTAG_BOOLEAN: return { value: data !== 0 };
+      case SCTAG_INT32: return { value: data | 0 };
+      case SCTAG_STRING: return { value: readString(data) };
+      case SCTAG_BIGINT: return { value: readBigInt(data) };
+      case SCTAG_BACK_REFERENCE_OBJECT: {
+        if (data >= allObjects.length) throw new Error('Structured clone: invalid back reference');
+        return { value: allObjects[data] };
+      }
+      case SCTAG_DATE_OBJECT: {
+        const value = new Date(readDouble());
+        allObjects.push(value);
+        return { value };
+      }
+      case SCTAG_REGEXP_OBJECT: {
+        const value = readRegExp(data);
+        allObjects.push(value);
+        return { value };
+      }
+      case SCTAG_BOOLEAN_OBJECT:
+      case SCTAG_NUMBER_OBJECT:
+      case SCTAG_STRING_OBJECT:
+      case SCTAG_BIGINT_OBJECT: {
+        // Boxed primitives are unboxed
+        const value = tag === SCTAG_BOOLEAN_OBJECT ? data !== 0
+          : tag === SCTAG_NUMBER_OBJECT ? readDouble()
+            : tag === SCTAG_STRING_OBJECT ? readString(data)
+              : readBigInt(data);
+        allObjects.push(value);
+        return { value };
+      }
+      case SCTAG_OBJECT_OBJECT: {
+        const value: Record<string, unknown> = {};
+        allObjects.push(value);
+        return { value, frame: { kind: 'object', value, hasKey: false } };
+      }
+      case SCTAG_ARRAY_OBJECT: {
+        const value: unknown[] = new Array(data);
+        allObjects.push(value);
+        return { value, frame: { kind: 'array', value, hasKey: false } };
+      }
+      case SCTAG_MAP_OBJECT: {
+        const value = new Map<unknown, unknown>();
+        allObjects.push(value);
+        return { value, frame: { kind: 'map', value, hasKey: false } };
+      }
+      case SCTAG_SET_OBJECT: {
+        const value = new Set<unknown>();
+        allObjects.push(value);
+        return { value, frame: { kind: 'set', value } };
+      }
+      default:
+        throw new Error(`Structured clone: unsupported tag 0x${tag.toString(16)}`);
+    }
+  };
+
+  // Optional header words (scope, transfer map)
+  let first = readPair();
+  while (first.tag === SCTAG_HEADER || first.tag === SCTAG_TRANSFER_MAP_HEADER) {
+    if (first.tag === SCTAG_TRANSFER_MAP_HEADER && first.data !== 0) {
+      throw new Error('Structured clone: transferred objects are not supported');
+    }
+    first = readPair();
+  }
+
+  const root = readValue(first.tag, first.data);
+  const stack: Frame[] = root.frame ? [root.frame] : [];
+
+  // Containers are read iteratively: each word is a key or a value of the innermost one
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const { tag, data } = readPair();
+
+    if (tag === SCTAG_END_OF_KEYS) {
+      stack.pop();
+      continue;
+    }
+
+    const { value, frame: child } = readValue(tag, data);
+
+    if (frame.kind === 'set') {
+      frame.value.add(value);
+    } else if (!frame.hasKey) {
+      if (frame.kind === 'map') {
+        frame.key = value;
+      } else {
+        if (child) throw new Error('Structured clone: object used as property key');
+        frame.key = String(value);
+      }
+      frame.hasKey = true;
+    } else {
+      if (frame.kind === 'map') {
+        frame.value.set(frame.key, value);
+      } else if (frame.kind === 'array') {
+        frame.value[Number(frame.key)] = value;
+      } else {
+        frame.value[frame.key as string] = value;
+      }
+      frame.hasKey = false;
+    }
+
+    if (child) stack.push(child);
+  }
+
+  return root.value;
+}
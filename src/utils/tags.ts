@@ -0,0 +1,77 @@
+/**
+ * Tag utilities for OneTab Importer
+ */
+
+/**
+ * Characters a (normalized) tag may use: letters, digits, `_`, `/` and `-`
+ */
+const TAG_PATTERN = /^[\p{L}\p{N}_/-]+$/u;
+
+/**
+ * Normalize a tag: trimmed, lowercase, without a leading `#`
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+/**
+ * Check if a normalized tag only uses the allowed characters
+ */
+export function isValidTag(tag: string): boolean {
+  return TAG_PATTERN.test(tag);
+}
+
+/**
+ * Normalize a tag given by the user
+ *
+ * @throws Error if the tag contains spaces or punctuation (it would not
+ *         survive `#tag` rendering or the query syntax)
+ */
+export function parseTag(tag: string): string {
+  const normalized = normalizeTag(tag);
+  if (!isValidTag(normalized)) {
+    throw new Error(`Invalid tag "${tag.trim()}": use letters, digits, _, / and -`);
+  }
+  return normalized;
+}
+
+/**
+ * Parse a comma-separated tag list into normalized, unique tags
+ *
+ * @throws Error if any tag is invalid (see `parseTag`)
+ */
+export function parseTagList(list: string): string[] {
+  const tags = list.split(',').filter((tag) => normalizeTag(tag) !== '').map(parseTag);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Check if a tab or group carries a (normalized) tag
+ */
+export function hasTag(item: { tags?: string[] }, tag: string): boolean {
+  return item.tags?.includes(tag) ?? false;
+}
+
+/**
+ * Apply tag additions and removals, returning a sorted tag list
+ * (or undefined when no tags remain, so the field is omitted from JSON)
+ */
+export function updateTags(
+  current: string[] | undefined,
+  add: string[],
+  remove: string[]
+): string[] | undefined {
+  const tags = new Set(current ?? []);
+
+  for (const tag of add) tags.add(tag);
+  for (const tag of remove) tags.delete(tag);
+
+  return tags.size > 0 ? Array.from(tags).sort() : undefined;
+}
+
+/**
+ * Format tags for display (e.g. `#work #rust`)
+ */
+export function formatTags(tags: string[] | undefined): string {
+  return (tags ?? []).map((tag) => `#${tag}`).join(' ');
+}
@@ -0,0 +1,70 @@
+/**
+ * URL utilities for OneTab Importer
+ */
+
+/**
+ * Query parameters that only carry tracking information
+ */
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'ref_src',
+  'ref_url',
+]);
+
+/**
+ * Prefixes of tracking query parameters (e.g. utm_source, utm_medium)
+ */
+const TRACKING_PARAM_PREFIXES = ['utm_'];
+
+/**
+ * Check if a query parameter is a known tracking parameter
+ */
+export function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix))
+  );
+}
+
+/**
+ * Normalize a URL so that trivially different links compare equal.
+ *
+ * Lowercases the host, drops a leading `www.`, the fragment, tracking
+ * parameters and trailing slashes, and sorts the remaining parameters.
+ * URLs that cannot be parsed are returned trimmed.
+ */
+export function normalizeUrl(url: string): string {
+  let urlObj: URL;
+
+  try {
+    urlObj = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  // Only web URLs get the full treatment (chrome://, about:, file: are kept as-is)
+  if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') {
+    return urlObj.href;
+  }
+
+  const host = urlObj.hostname.toLowerCase().replace(/^www\./, '');
+  const port = urlObj.port ? `:${urlObj.port}` : '';
+  const path = urlObj.pathname.replace(/\/+$/, '');
+
+  const params = Array.from(urlObj.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${urlObj.protocol}//${host}${port}${path}${query}`;
+}
@@ -0,0 +1,151 @@
+/**
+ * Wayback Machine snapshot lookups for OneTab Importer
+ *
+ * Answers from a Wayback-style availability API are cached next to
+ * master.json (e.g. `data/master.archive.json`), keyed by URL and the
+ * day the snapshot should be closest to, so each pair is asked once.
+ */
+
+import type { Tab, TabGroup } from '../models/types.js';
+import { readJson, writeJson, exists } from './files.js';
+import { getDateOnly } from './dates.js';
+
+/**
+ * Availability endpoint of the Internet Archive
+ */
+export const DEFAULT_WAYBACK_API = 'https://archive.org/wayback/available';
+
+/**
+ * Bump when the on-disk layout changes (older caches are discarded)
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * An archived copy of a URL
+ */
+export interface ArchiveSnapshot {
+  /** Snapshot URL to open */
+  url: string;
+  /** Capture time as YYYYMMDDhhmmss */
+  timestamp: string;
+  /** HTTP status recorded at capture time */
+  status?: string;
+}
+
+/**
+ * A cached availability answer
+ */
+export interface ArchiveCacheEntry {
+  /** Closest snapshot, or null when the archive has none */
+  snapshot: ArchiveSnapshot | null;
+  /** When the API was asked (ISO 8601) */
+  lookedUpAt: string;
+}
+
+/**
+ * On-disk archive lookup cache
+ */
+export interface ArchiveCache {
+  version: number;
+  /** Answers by lookupKey() */
+  entries: Record<string, ArchiveCacheEntry>;
+}
+
+/**
+ * Availability API response (only the fields used here)
+ */
+interface AvailabilityResponse {
+  archived_snapshots?: {
+    closest?: { available?: boolean; url?: string; timestamp?: string; status?: string };
+  };
+}
+
+/**
+ * Get the cache path for a master JSON path
+ */
+export function getArchiveCachePath(masterPath: string): string {
+  return masterPath.replace(/(\.json)?$/i, '.archive.json');
+}
+
+/**
+ * Wayback timestamp (YYYYMMDD) for the day of an ISO date
+ */
+export function toWaybackDate(isoString: string): string {
+  return getDateOnly(isoString).replace(/-/g, '');
+}
+
+/**
+ * Cache key of a URL looked up near a day
+ */
+export function lookupKey(url: string, waybackDate: string): string {
+  return `${waybackDate} ${url}`;
+}
+
+/**
+ * Load the archive cache for a master JSON file (empty if missing or unreadable)
+ */
+export async function loadArchiveCache(masterPath: string): Promise<ArchiveCache> {
+  const cachePath = getArchiveCachePath(masterPath);
+
+  if (await exists(cachePath)) {
+    try {
+      const cache = await readJson<ArchiveCache>(cachePath);
+      if (cache.version === CACHE_VERSION) return cache;
+    } catch {
+      // Corrupt cache: start over
+    }
+  }
+
+  return { version: CACHE_VERSION, entries: {} };
+}
+
+/**
+ * Write the cache next to its master JSON file
+ */
+export async function saveArchiveCache(masterPath: string, cache: ArchiveCache): Promise<void> {
+  await writeJson(getArchiveCachePath(masterPath), cache, false);
+}
+
+/**
+ * Ask the availability API for the snapshot of a URL closest to a day
+ *
+ * @param apiUrl - Availability endpoint (replaceable, e.g. with a local mock)
+ * @returns The snapshot, or null when the archive has none
+ * @throws Error on network errors and non-2xx responses
+ */
+export async function lookupSnapshot(
+  url: string,
+  waybackDate: string,
+  apiUrl: string = DEFAULT_WAYBACK_API,
+  timeoutMs = 30000
+): Promise<ArchiveSnapshot | null> {
+  const requestUrl = new URL(apiUrl);
+  requestUrl.searchParams.set('url', url);
+  requestUrl.searchParams.set('timestamp', waybackDate);
+
+  const response = await fetch(requestUrl, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`availability API returned HTTP ${response.status}`);
+  }
+
+  const closest = ((await response.json()) as AvailabilityResponse).archived_snapshots?.closest;
+  if (!closest?.available || !closest.url || !closest.timestamp) {
+    return null;
+  }
+
+  return {
+    // The API answers with http:// snapshot URLs
+    url: closest.url.replace(/^http:\/\/web\.archive\.org\//, 'https://web.archive.org/'),
+    timestamp: closest.timestamp,
+    ...(closest.status ? { status: closest.status } : {}),
+  };
+}
+
+/**
+ * Build a lookup of cached snapshot URLs for rendering archive links
+ */
+export function createArchiveLookup(cache: ArchiveCache): (tab: Tab, group: TabGroup) => string | undefined {
+  return (tab, group) =>
+    cache.entries[lookupKey(tab.url, toWaybackDate(group.createdAt))]?.snapshot?.url;
+}
@@ -0,0 +1,275 @@
+/**
+ * Single-page web UI served by `onetab serve`
+ *
+ * Self-contained HTML (inline CSS and vanilla JS, no external requests)
+ * that talks to the JSON API under /api. All data is inserted with
+ * textContent, and only http(s)/ftp/file URLs become clickable links.
+ */
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.45 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; background: #f6f8fa; }
+  header { display: flex; gap: 12px; align-items: center; padding: 10px 16px; background: #24292f; color: #fff; position: sticky; top: 0; z-index: 1; }
+  header h1 { font-size: 16px; margin: 0; white-space: nowrap; }
+  header form { flex: 1; display: flex; gap: 8px; }
+  header input { flex: 1; padding: 6px 10px; border-radius: 6px; border: 1px solid #57606a; font: inherit; }
+  header button { padding: 6px 12px; border-radius: 6px; border: 0; background: #2da44e; color: #fff; font: inherit; cursor: pointer; }
+  #summary { font-size: 12px; color: #d0d7de; white-space: nowrap; }
+  main { display: grid; grid-template-columns: 220px 1fr 260px; gap: 16px; padding: 16px; }
+  aside, section { min-width: 0; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .04em; color: #57606a; margin: 0 0 8px; }
+  .nav-item { display: flex; justify-content: space-between; width: 100%; padding: 3px 8px; border: 0; border-radius: 6px; background: none; font: inherit; text-align: left; cursor: pointer; color: inherit; }
+  .nav-item:hover { background: #eaeef2; }
+  .nav-item.active { background: #0969da; color: #fff; }
+  .count { color: #57606a; font-variant-numeric: tabular-nums; }
+  .nav-item.active .count { color: #fff; }
+  .bar { height: 4px; background: #54aeff; border-radius: 2px; margin: 0 8px 4px; }
+  .group { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 10px 14px; margin-bottom: 12px; }
+  .group-header { display: flex; gap: 8px; align-items: baseline; flex-wrap: wrap; margin-bottom: 6px; }
+  .group-date { font-weight: 600; }
+  .group-title, .meta { color: #57606a; }
+  .tag { color: #8250df; font-size: 12px; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { padding: 2px 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  li a { color: #0969da; text-decoration: none; }
+  li a:hover { text-decoration: underline; }
+  .domain { color: #57606a; font-size: 12px; margin-left: 6px; }
+  .score { display: inline-block; width: 44px; color: #9a6700; font-size: 12px; font-variant-numeric: tabular-nums; }
+  #status { margin-bottom: 12px; color: #57606a; }
+  #status.error { color: #cf222e; white-space: pre; font-family: ui-monospace, monospace; }
+  #more { display: block; margin: 0 auto; padding: 6px 16px; border-radius: 6px; border: 1px solid #d0d7de; background: #fff; font: inherit; cursor: pointer; }
+  @media (max-width: 900px) { main { grid-template-columns: 1fr; } }
+`;
+
+const SCRIPT = `
+(function () {
+  'use strict';
+
+  var PAGE_SIZE = 50;
+  var state = { query: '', month: '', offset: 0 };
+
+  var $ = function (id) { return document.getElementById(id); };
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function api(path, params) {
+    var query = new URLSearchParams();
+    Object.keys(params || {}).forEach(function (key) {
+      if (params[key] !== '' && params[key] !== undefined) query.set(key, params[key]);
+    });
+    var qs = query.toString();
+    return fetch(path + (qs ? '?' + qs : '')).then(function (res) {
+      return res.json().then(function (body) {
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        return body;
+      });
+    });
+  }
+
+  function isSafeUrl(url) {
+    return /^(https?|ftp|file):/i.test(url);
+  }
+
+  function renderTab(tab, score) {
+    var li = el('li');
+    if (score !== undefined) li.appendChild(el('span', 'score', score.toFixed(2)));
+    var title = tab.title || tab.url;
+    if (isSafeUrl(tab.url)) {
+      var link = el('a', '', title);
+      link.href = tab.url;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      link.title = tab.url;
+      li.appendChild(link);
+    } else {
+      li.appendChild(el('span', '', title));
+    }
+    li.appendChild(el('span', 'domain', tab.domain));
+    (tab.tags || []).forEach(function (tag) { li.appendChild(el('span', 'tag', ' #' + tag)); });
+    return li;
+  }
+
+  function renderGroupCard(group, tabs) {
+    var card = el('div', 'group');
+    var header = el('div', 'group-header');
+    header.appendChild(el('span', 'group-date', new Date(group.createdAt).toLocaleString()));
+    if (group.title) header.appendChild(el('span', 'group-title', group.title));
+    if (group.starred) header.appendChild(el('span', '', '\\u2605'));
+    (group.tags || []).forEach(function (tag) { header.appendChild(el('span', 'tag', '#' + tag)); });
+    header.appendChild(el('span', 'meta', tabs.length + ' tab(s)'));
+    card.appendChild(header);
+    var list = el('ul');
+    tabs.forEach(function (item) { list.appendChild(renderTab(item.tab, item.score)); });
+    card.appendChild(list);
+    return card;
+  }
+
+  function setStatus(text, isError) {
+    var status = $('status');
+    status.textContent = text;
+    status.className = isError ? 'error' : '';
+  }
+
+  function monthRange() {
+    return state.month ? { from: state.month, to: state.month } : {};
+  }
+
+  function loadGroups(append) {
+    var params = Object.assign({ tabs: '1', offset: state.offset, limit: PAGE_SIZE }, monthRange());
+    return api('/api/groups', params).then(function (body) {
+      var results = $('results');
+      if (!append) results.textContent = '';
+      body.groups.forEach(function (group) {
+        results.appendChild(renderGroupCard(group, group.tabs.map(function (tab) { return { tab: tab }; })));
+      });
+      state.offset += body.groups.length;
+      setStatus(body.total + ' group(s)' + (state.month ? ' in ' + state.month : ''));
+      $('more').hidden = state.offset >= body.total;
+    });
+  }
+
+  function runSearch() {
+    var params = Object.assign({ q: state.query }, monthRange());
+    return api('/api/search', params).then(function (body) {
+      var results = $('results');
+      results.textContent = '';
+      $('more').hidden = true;
+      setStatus(body.totalResults + ' match(es) for ' + state.query + (state.month ? ' in ' + state.month : ''));
+
+      // Ranked results stay in relevance order; others are grouped by group
+      if (body.results.length && body.results[0].score !== undefined) {
+        var list = el('ul');
+        var card = el('div', 'group');
+        body.results.forEach(function (result) { list.appendChild(renderTab(result.tab, result.score)); });
+        card.appendChild(list);
+        results.appendChild(card);
+        return;
+      }
+
+      var byGroup = new Map();
+      body.results.forEach(function (result) {
+        var entry = byGroup.get(result.group.id);
+        if (!entry) {
+          entry = { group: result.group, tabs: [] };
+          byGroup.set(result.group.id, entry);
+        }
+        entry.tabs.push({ tab: result.tab });
+      });
+      byGroup.forEach(function (entry) { results.appendChild(renderGroupCard(entry.group, entry.tabs)); });
+    });
+  }
+
+  function refresh() {
+    state.offset = 0;
+    setStatus('Loading\\u2026');
+    var work = state.query ? runSearch() : loadGroups(false);
+    work.catch(function (error) { setStatus(error.message, true); });
+  }
+
+  function renderTimeline(months) {
+    var nav = $('timeline');
+    var max = months.reduce(function (m, month) { return Math.max(m, month.tabs); }, 1);
+    var all = el('button', 'nav-item active');
+    all.appendChild(el('span', '', 'All'));
+    all.dataset.month = '';
+    nav.appendChild(all);
+    months.forEach(function (month) {
+      var item = el('button', 'nav-item');
+      item.dataset.month = month.month;
+      item.appendChild(el('span', '', month.month));
+      item.appendChild(el('span', 'count', String(month.tabs)));
+      nav.appendChild(item);
+      var bar = el('div', 'bar');
+      bar.style.width = Math.max(2, Math.round(month.tabs / max * 100)) + '%';
+      nav.appendChild(bar);
+    });
+    nav.addEventListener('click', function (event) {
+      var item = event.target.closest('.nav-item');
+      if (!item) return;
+      nav.querySelectorAll('.nav-item').forEach(function (node) { node.classList.remove('active'); });
+      item.classList.add('active');
+      state.month = item.dataset.month;
+      refresh();
+    });
+  }
+
+  function renderDomains(domains) {
+    var nav = $('domains');
+    domains.forEach(function (entry) {
+      var item = el('button', 'nav-item');
+      item.appendChild(el('span', '', entry.domain));
+      item.appendChild(el('span', 'count', String(entry.count)));
+      item.addEventListener('click', function () {
+        $('query').value = 'domain:' + entry.domain;
+        state.query = $('query').value;
+        refresh();
+      });
+      nav.appendChild(item);
+    });
+  }
+
+  $('search').addEventListener('submit', function (event) {
+    event.preventDefault();
+    state.query = $('query').value.trim();
+    refresh();
+  });
+
+  $('more').addEventListener('click', function () {
+    loadGroups(true).catch(function (error) { setStatus(error.message, true); });
+  });
+
+  api('/api/summary').then(function (body) {
+    $('summary').textContent = body.stats.totalTabs + ' tabs in ' + body.stats.totalGroups + ' groups';
+  });
+  api('/api/timeline').then(function (body) { renderTimeline(body.months); });
+  api('/api/domains', { limit: 30 }).then(function (body) { renderDomains(body.domains); });
+  refresh();
+})();
+`;
+
+/**
+ * Render the web UI page
+ */
+export function renderWebUi(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>OneTab Archive</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>OneTab Archive</h1>
+  <form id="search">
+    <input id="query" type="search" placeholder='Search, e.g. title:"react hooks" -domain:gist.github.com (rust OR go)' autofocus>
+    <button type="submit">Search</button>
+  </form>
+  <span id="summary"></span>
+</header>
+<main>
+  <aside>
+    <h2>Timeline</h2>
+    <nav id="timeline"></nav>
+  </aside>
+  <section>
+    <div id="status"></div>
+    <div id="results"></div>
+    <button id="more" hidden>Load more</button>
+  </section>
+  <aside>
+    <h2>Top Domains</h2>
+    <nav id="domains"></nav>
+  </aside>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { archiveLookupCommand } from '../../src/commands/archive-lookup.js';
+import { getArchiveCachePath, lookupKey } from '../../src/utils/wayback.js';
+import type { ArchiveCache } from '../../src/utils/wayback.js';
+import { readJson } from '../../src/utils/files.js';
+import { createMasterData, startStubServer, writeTempMaster } from '../helpers.js';
+import type { StubServer, TempMaster } from '../helpers.js';
+
+const DAY = '20240105';
+
+describe('archiveLookupCommand', () => {
+  let master: TempMaster;
+  let server: StubServer;
+  let onRequest: (() => void) | undefined;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    onRequest = undefined;
+
+    // Snapshots exist for every URL except those containing "missing"
+    server = await startStubServer((request, response) => {
+      onRequest?.();
+      const url = new URL(request.url!, 'http://localhost').searchParams.get('url')!;
+      const closest = url.includes('missing')
+        ? undefined
+        : { available: true, timestamp: `${DAY}000000`, url: `http://web.archive.org/web/${DAY}000000/${url}` };
+      response.writeHead(200).end(JSON.stringify({ archived_snapshots: closest ? { closest } : {} }));
+    });
+
+    master = await writeTempMaster(createMasterData([
+      {
+        id: 'g1',
+        createdAtEpoch: Date.UTC(2024, 0, 5),
+        tabs: [
+          { url: 'https://a.example/' },
+          { url: 'https://b.example/missing' },
+          { url: 'https://c.example/' },
+          { url: 'chrome://settings' },
+        ],
+      },
+    ]));
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await server.close();
+    await master.cleanup();
+  });
+
+  const run = (options: { retryMissing?: boolean } = {}) =>
+    archiveLookupCommand({ input: master.path, api: server.url, delay: '0', ...options });
+
+  const readCache = () => readJson<ArchiveCache>(getArchiveCachePath(master.path));
+
+  it('caches snapshots and "no snapshot" answers', async () => {
+    await run();
+
+    assert.equal(server.requests.length, 3);
+    const { entries } = await readCache();
+    assert.equal(
+      entries[lookupKey('https://a.example/', DAY)].snapshot?.url,
+      `https://web.archive.org/web/${DAY}000000/https://a.example/`
+    );
+    assert.equal(entries[lookupKey('https://b.example/missing', DAY)].snapshot, null);
+  });
+
+  it('answers from the cache, asking again for missing snapshots only with --retry-missing', async () => {
+    await run();
+    server.requests.length = 0;
+
+    await run();
+    assert.deepEqual(server.requests, []);
+
+    await run({ retryMissing: true });
+    assert.deepEqual(server.requests, [`GET /?url=${encodeURIComponent('https://b.example/missing')}&timestamp=${DAY}`]);
+  });
+
+  it('resumes an interrupted run', async () => {
+    // Ctrl+C during the first request: it finishes, nothing else is asked
+    onRequest = () => process.emit('SIGINT');
+    await run();
+
+    assert.equal(server.requests.length, 1);
+    assert.equal(Object.keys((await readCache()).entries).length, 1);
+
+    onRequest = undefined;
+    await run();
+    assert.equal(server.requests.length, 3);
+    assert.equal(Object.keys((await readCache()).entries).length, 3);
+  });
+});
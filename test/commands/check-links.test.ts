@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkLinksCommand } from '../../src/commands/check-links.js';
+import type { HttpClient, HttpRequest } from '../../src/utils/link-check.js';
+import { createMasterData, findTab, writeTempMaster } from '../helpers.js';
+import type { TempMaster } from '../helpers.js';
+
+const OLD = '2020-01-01T00:00:00.000Z';
+
+/**
+ * Fake HTTP layer: 404 for paths containing "gone", 200 otherwise
+ */
+function createHttp(onRequest?: (request: HttpRequest) => void): { http: HttpClient; urls: string[] } {
+  const urls: string[] = [];
+  const http: HttpClient = async (request) => {
+    if (request.method === 'HEAD') urls.push(request.url);
+    onRequest?.(request);
+    return { status: request.url.includes('gone') ? 404 : 200, url: request.url };
+  };
+  return { http, urls };
+}
+
+describe('checkLinksCommand', () => {
+  let master: TempMaster;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    master = await writeTempMaster(createMasterData([
+      {
+        id: 'g1',
+        tabs: [
+          { url: 'https://a.example/page' },
+          { url: 'https://b.example/gone' },
+          { url: 'file:///C:/notes.txt' },
+        ],
+      },
+      { id: 'g2', tabs: [{ url: 'https://a.example/page' }, { url: 'https://c.example/' }] },
+    ]));
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await master.cleanup();
+  });
+
+  it('checks each distinct URL once and stores the result on every tab', async () => {
+    const { http, urls } = createHttp();
+    await checkLinksCommand({ input: master.path, delay: '0' }, http);
+
+    assert.deepEqual(
+      [...urls].sort(),
+      ['https://a.example/page', 'https://b.example/gone', 'https://c.example/']
+    );
+
+    const data = await master.read();
+    const [first, , notHttp] = data.groups[0].tabs;
+    assert.equal(first.linkCheck?.status, 200);
+    assert.deepEqual(data.groups[1].tabs[0].linkCheck, first.linkCheck);
+    assert.equal(findTab(data, 'https://b.example/gone').linkCheck?.status, 404);
+    assert.equal(notHttp.linkCheck, undefined);
+  });
+
+  it('resumes an interrupted run with the URLs not checked yet', async () => {
+    // Ctrl+C during the first request: it finishes, nothing else starts
+    const first = createHttp(() => process.emit('SIGINT'));
+    await checkLinksCommand({ input: master.path, delay: '0', concurrency: '1' }, first.http);
+
+    assert.equal(first.urls.length, 1);
+    const interrupted = await master.read();
+    assert.ok(findTab(interrupted, first.urls[0]).linkCheck);
+
+    const second = createHttp();
+    await checkLinksCommand({ input: master.path, delay: '0' }, second.http);
+
+    assert.equal(second.urls.length, 2);
+    assert.ok(!second.urls.includes(first.urls[0]));
+    const resumed = await master.read();
+    for (const url of ['https://a.example/page', 'https://b.example/gone', 'https://c.example/']) {
+      assert.ok(findTab(resumed, url).linkCheck, url);
+    }
+  });
+
+  it('copies a stored result to new tabs of an already-checked URL', async () => {
+    const data = createMasterData([
+      { id: 'old', tabs: [{ url: 'https://a.example/page', linkCheck: { status: 200, checkedAt: OLD } }] },
+      { id: 'new', tabs: [{ url: 'https://a.example/page' }] },
+    ]);
+    await master.cleanup();
+    master = await writeTempMaster(data);
+
+    const { http, urls } = createHttp();
+    await checkLinksCommand({ input: master.path, delay: '0' }, http);
+
+    assert.deepEqual(urls, []);
+    const saved = await master.read();
+    assert.deepEqual(saved.groups[1].tabs[0].linkCheck, { status: 200, checkedAt: OLD });
+  });
+
+  it('checks again results older than --older-than days, or all with --recheck', async () => {
+    const recent = new Date().toISOString();
+    const data = createMasterData([
+      {
+        id: 'checked',
+        tabs: [
+          { url: 'https://a.example/stale', linkCheck: { status: 200, checkedAt: OLD } },
+          { url: 'https://b.example/fresh', linkCheck: { status: 200, checkedAt: recent } },
+        ],
+      },
+    ]);
+    await master.cleanup();
+    master = await writeTempMaster(data);
+
+    const unchanged = createHttp();
+    await checkLinksCommand({ input: master.path, delay: '0' }, unchanged.http);
+    assert.deepEqual(unchanged.urls, []);
+
+    const stale = createHttp();
+    await checkLinksCommand({ input: master.path, delay: '0', olderThan: '30' }, stale.http);
+    assert.deepEqual(stale.urls, ['https://a.example/stale']);
+    assert.notEqual(findTab(await master.read(), 'https://a.example/stale').linkCheck?.checkedAt, OLD);
+
+    const all = createHttp();
+    await checkLinksCommand({ input: master.path, delay: '0', recheck: true }, all.http);
+    assert.deepEqual([...all.urls].sort(), ['https://a.example/stale', 'https://b.example/fresh']);
+  });
+
+  it('sends no requests and writes nothing on a dry run', async () => {
+    const before = await master.read();
+    const { http, urls } = createHttp();
+    await checkLinksCommand({ input: master.path, dryRun: true }, http);
+
+    assert.deepEqual(urls, []);
+    assert.deepEqual(await master.read(), before);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { enrichCommand } from '../../src/commands/enrich.js';
+import type { PageFetcher } from '../../src/utils/enrich.js';
+import { createMasterData, findTab, writeTempMaster } from '../helpers.js';
+import type { TempMaster } from '../helpers.js';
+
+const FETCHED_AT = '2024-01-01T00:00:00.000Z';
+
+/**
+ * Stub fetcher: pages titled after their path, 500 for paths containing "broken"
+ */
+function createFetcher(): { fetcher: PageFetcher; urls: string[] } {
+  const urls: string[] = [];
+  const fetcher: PageFetcher = async (url) => {
+    urls.push(url);
+    const title = `Page ${new URL(url).pathname.substring(1)}`;
+    return {
+      url,
+      status: url.includes('broken') ? 500 : 200,
+      contentType: 'text/html',
+      html: `<head><title>${title}</title><meta name="description" content="About ${title}"></head>`,
+    };
+  };
+  return { fetcher, urls };
+}
+
+describe('enrichCommand', () => {
+  let master: TempMaster;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await master.cleanup();
+  });
+
+  it('stores metadata on every tab and fills only missing titles', async () => {
+    master = await writeTempMaster(createMasterData([
+      {
+        id: 'g1',
+        tabs: [
+          { url: 'https://a.example/one', title: '' },
+          { url: 'https://b.example/two', title: 'b.example' },
+          { url: 'https://c.example/three', title: 'Saved title' },
+        ],
+      },
+      { id: 'g2', tabs: [{ url: 'https://a.example/one', title: 'Own title' }] },
+    ]));
+
+    const { fetcher, urls } = createFetcher();
+    await enrichCommand({ input: master.path, delay: '0' }, fetcher);
+    assert.equal(urls.length, 3);
+
+    const data = await master.read();
+    const [one, two, three] = data.groups[0].tabs;
+    assert.equal(one.title, 'Page one');
+    assert.equal(two.title, 'Page two');
+    assert.equal(three.title, 'Saved title');
+    assert.equal(three.enrichment?.description, 'About Page three');
+    assert.equal(data.groups[1].tabs[0].title, 'Own title');
+    assert.equal(data.groups[1].tabs[0].enrichment?.title, 'Page one');
+  });
+
+  it('fetches failed pages again only with --retry-failed, and all with --refresh', async () => {
+    master = await writeTempMaster(createMasterData([
+      {
+        id: 'g1',
+        tabs: [
+          { url: 'https://a.example/done', enrichment: { title: 'Done', fetchedAt: FETCHED_AT } },
+          { url: 'https://b.example/broken', enrichment: { error: 'HTTP 500', fetchedAt: FETCHED_AT } },
+        ],
+      },
+    ]));
+
+    const skipped = createFetcher();
+    await enrichCommand({ input: master.path, delay: '0' }, skipped.fetcher);
+    assert.deepEqual(skipped.urls, []);
+
+    const retried = createFetcher();
+    await enrichCommand({ input: master.path, delay: '0', retryFailed: true }, retried.fetcher);
+    assert.deepEqual(retried.urls, ['https://b.example/broken']);
+    assert.notEqual(findTab(await master.read(), 'https://b.example/broken').enrichment?.fetchedAt, FETCHED_AT);
+
+    const refreshed = createFetcher();
+    await enrichCommand({ input: master.path, delay: '0', refresh: true }, refreshed.fetcher);
+    assert.deepEqual([...refreshed.urls].sort(), ['https://a.example/done', 'https://b.example/broken']);
+    assert.equal(findTab(await master.read(), 'https://a.example/done').enrichment?.title, 'Page done');
+  });
+
+  it('only fetches tabs matching --query', async () => {
+    master = await writeTempMaster(createMasterData([
+      {
+        id: 'g1',
+        tabs: [
+          { url: 'https://doc.rust-lang.org/book', title: 'The Rust Book' },
+          { url: 'https://go.dev/tour', title: 'A Tour of Go' },
+        ],
+      },
+    ]));
+
+    const { fetcher, urls } = createFetcher();
+    await enrichCommand({ input: master.path, delay: '0', query: 'rust' }, fetcher);
+
+    assert.deepEqual(urls, ['https://doc.rust-lang.org/book']);
+    assert.equal(findTab(await master.read(), 'https://go.dev/tour').enrichment, undefined);
+  });
+});
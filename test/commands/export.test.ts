@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { exportSingleFile } from '../../src/commands/export.js';
+import { readText } from '../../src/utils/files.js';
+import { createMasterData, writeTempMaster } from '../helpers.js';
+import type { TempMaster } from '../helpers.js';
+
+describe('exportSingleFile', () => {
+  let master: TempMaster;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    master = await writeTempMaster(createMasterData([
+      {
+        id: 'g1',
+        createdAtEpoch: Date.UTC(2024, 0, 10),
+        tabs: [
+          { url: 'https://rust-lang.org/learn', title: 'Learn Rust' },
+          { url: 'https://go.dev/doc', title: 'Go docs' },
+        ],
+      },
+      {
+        id: 'g2',
+        createdAtEpoch: Date.UTC(2024, 2, 5),
+        tabs: [{ url: 'https://doc.rust-lang.org/book', title: 'The Rust book' }],
+      },
+      {
+        id: 'g3',
+        createdAtEpoch: Date.UTC(2024, 5, 1),
+        tabs: [{ url: 'https://rustacean.net', title: 'Rust crab', linkCheck: { status: 404, checkedAt: '2024-06-02T00:00:00.000Z' } }],
+      },
+    ]));
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await master.cleanup();
+  });
+
+  it('applies the export filters and counts only the selected groups', async () => {
+    const output = join(master.dir, 'all-links.md');
+    await exportSingleFile({ input: master.path, output, query: 'rust', to: '2024-03-31', excludeDead: true });
+
+    const content = await readText(output);
+    assert.match(content, /^totalGroups: 2$/m);
+    assert.match(content, /^totalTabs: 2$/m);
+    assert.match(content, /^dateRange: "2024-01-10 to 2024-03-05"$/m);
+    assert.match(content, /rust-lang\.org\/learn/);
+    assert.match(content, /doc\.rust-lang\.org\/book/);
+    assert.doesNotMatch(content, /go\.dev/);
+    assert.doesNotMatch(content, /rustacean\.net/);
+  });
+
+  it('honours --groups', async () => {
+    const output = join(master.dir, 'all-links.md');
+    await exportSingleFile({ input: master.path, output, groups: 'g3' });
+
+    const content = await readText(output);
+    assert.match(content, /^totalGroups: 1$/m);
+    assert.match(content, /rustacean\.net/);
+    assert.doesNotMatch(content, /go\.dev/);
+  });
+});
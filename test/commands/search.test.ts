@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { searchData } from '../../src/commands/search.js';
+import type { SearchOptions } from '../../src/models/types.js';
+import { updateSearchIndex } from '../../src/utils/search-index.js';
+import { createMasterData } from '../helpers.js';
+
+const DATA = createMasterData([
+  {
+    id: 'g1',
+    createdAtEpoch: Date.UTC(2024, 0, 10),
+    tabs: [
+      { url: 'https://www.rust-lang.org/learn', title: 'Learn Rust' },
+      { url: 'https://go.dev/doc', title: 'Go documentation' },
+      { url: 'https://example.com/trusty', title: 'Trusty tools' },
+    ],
+  },
+  {
+    id: 'g2',
+    createdAtEpoch: Date.UTC(2024, 4, 1),
+    tabs: [
+      { url: 'https://doc.rust-lang.org/book', title: 'The Rust book' },
+      { url: 'https://github.com/golang/go', title: 'golang/go on GitHub' },
+    ],
+  },
+]);
+
+const INDEX = updateSearchIndex(null, DATA).index;
+
+/**
+ * Tab URLs of the results, in result order
+ */
+function search(options: SearchOptions, indexed: boolean): string[] {
+  return searchData(DATA, options, indexed ? INDEX : undefined).map((result) => result.tab.url);
+}
+
+describe('searchData', () => {
+  it('ranks indexed results and evaluates only the candidate tabs', () => {
+    assert.deepEqual(search({ query: 'rust book' }, true), ['https://doc.rust-lang.org/book']);
+    assert.deepEqual(search({ query: 'rust' }, true).sort(), [
+      'https://doc.rust-lang.org/book',
+      'https://www.rust-lang.org/learn',
+    ]);
+  });
+
+  it('still scans every tab when an alternative is not bounded by the index', () => {
+    assert.deepEqual(search({ query: 'book OR title:documentation' }, true).sort(), [
+      'https://doc.rust-lang.org/book',
+      'https://go.dev/doc',
+    ]);
+  });
+
+  it('matches bare words the same way with and without the index', () => {
+    const queries = ['rust', 'rus', '-rust', 'go -rust', 'lang -book', 'doc OR trusty', 'NOT (rust OR go)'];
+
+    for (const query of queries) {
+      assert.deepEqual(search({ query }, true).sort(), search({ query }, false).sort(), query);
+    }
+    // Words match token prefixes, not substrings inside tokens
+    assert.ok(!search({ query: 'rust' }, false).includes('https://example.com/trusty'));
+    assert.ok(search({ query: '-rust' }, true).includes('https://example.com/trusty'));
+  });
+
+  it('applies date and field filters to the candidates', () => {
+    assert.deepEqual(search({ query: 'rust after:2024-03' }, true), ['https://doc.rust-lang.org/book']);
+    assert.deepEqual(search({ query: 'rust', to: '2024-02' }, true), ['https://www.rust-lang.org/learn']);
+    assert.deepEqual(search({ query: 'go domain:github.com' }, true), ['https://github.com/golang/go']);
+  });
+});
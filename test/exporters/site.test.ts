@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { siteExporter } from '../../src/exporters/site.js';
+import { createMasterData } from '../helpers.js';
+
+describe('siteExporter', () => {
+  it('never gives a domain page the path of the domain list', () => {
+    const { groups } = createMasterData([
+      { id: 'g1', tabs: [{ url: 'http://index/wiki' }, { url: 'https://example.com/' }] },
+    ]);
+
+    const files = Array.from(siteExporter.renderFiles!(groups, 'month', {}));
+    const paths = files.map((file) => file.path);
+    assert.equal(paths.filter((path) => path === 'domains/index.html').length, 1);
+    assert.ok(paths.includes('domains/index-2.html'));
+
+    const domainList = files.find((file) => file.path === 'domains/index.html')!.content;
+    assert.match(domainList, /href="\.\.\/domains\/index-2\.html">index</);
+  });
+});
@@ -0,0 +1,4 @@
+// Mozilla User Preferences
+
+user_pref("browser.startup.page", 3);
+user_pref("extensions.webextensions.uuids", "{\"uBlock0@raymondhill.net\":\"f1e2d3c4-0000-4000-8000-000000000000\",\"extension@one-tab.com\":\"0b9c6e2e-5a0f-4c31-9a7e-2d3f8e1c4b7a\"}");
@@ -0,0 +1,375 @@
+#!/usr/bin/env python3
+"""
+Generate the binary test fixtures
+
+The fixtures are committed; run this only to rebuild them after changing
+it (python3 test/fixtures/generate.py). Everything is written from
+onetab-state.json with small writers for each format, so the readers in
+src/ are checked against independent encoders:
+
+  firefox-home/        fake home with a Firefox profile holding OneTab's
+                       IndexedDB database: `settings` is inline (overflow
+                       pages), `state` is committed only in the -wal file
+                       and stored as a framed Snappy external value file
+  structured-clone/    onetab-state.bin: the state as a structured clone
+  leveldb/             Chromium extension storage: an obsolete log, the
+                       table it was compacted into and a current log
+                       whose last record is cut off
+"""
+
+import json
+import os
+import shutil
+import sqlite3
+import struct
+import tempfile
+
+FIXTURES = os.path.dirname(os.path.abspath(__file__))
+
+FIREFOX_EXTENSION_ID = 'extension@one-tab.com'
+FIREFOX_UUID = '0b9c6e2e-5a0f-4c31-9a7e-2d3f8e1c4b7a'
+FIREFOX_PROFILE = 'k3x9q2ab.default-release'
+FIREFOX_DATABASE = '3647222921wleabcEoxlt-eengsairo'
+
+
+# ---------------------------------------------------------------------------
+# CRC-32C, as masked by Snappy framing and LevelDB
+# ---------------------------------------------------------------------------
+
+def _crc32c_table():
+    table = []
+    for i in range(256):
+        crc = i
+        for _ in range(8):
+            crc = (crc >> 1) ^ 0x82F63B78 if crc & 1 else crc >> 1
+        table.append(crc)
+    return table
+
+
+CRC32C_TABLE = _crc32c_table()
+
+
+def masked_crc32c(data):
+    crc = 0xFFFFFFFF
+    for byte in data:
+        crc = CRC32C_TABLE[(crc ^ byte) & 0xFF] ^ (crc >> 8)
+    crc ^= 0xFFFFFFFF
+    return (((crc >> 15) | (crc << 17)) + 0xA282EAD8) & 0xFFFFFFFF
+
+
+# ---------------------------------------------------------------------------
+# Snappy
+# ---------------------------------------------------------------------------
+
+def varint(value):
+    out = bytearray()
+    while value >= 0x80:
+        out.append((value & 0x7F) | 0x80)
+        value >>= 7
+    out.append(value)
+    return bytes(out)
+
+
+def _literal(data):
+    out = bytearray()
+    length = len(data) - 1
+    if length < 60:
+        out.append(length << 2)
+    else:
+        size = (length.bit_length() + 7) // 8
+        out.append((59 + size) << 2)
+        out += length.to_bytes(size, 'little')
+    return bytes(out + data)
+
+
+def _copy(offset, length):
+    out = bytearray()
+    while length > 0:
+        if 4 <= length <= 11 and offset < 2048:
+            # 1-byte offset form
+            out += bytes([((offset >> 8) << 5) | ((length - 4) << 2) | 1, offset & 0xFF])
+            break
+        # 2-byte offset form, at most 64 bytes per copy (never leave 1-3)
+        part = min(length, 64) if length - min(length, 64) not in (1, 2, 3) else 60
+        out += bytes([((part - 1) << 2) | 2]) + struct.pack('<H', offset)
+        length -= part
+    return bytes(out)
+
+
+def snappy_compress(data):
+    """Greedy compressor emitting literals and both copy forms"""
+    out = bytearray(varint(len(data)))
+    table = {}
+    pos = 0
+    literal_start = 0
+
+    while pos + 4 <= len(data):
+        key = data[pos:pos + 4]
+        candidate = table.get(key)
+        table[key] = pos
+        if candidate is None or pos - candidate > 0xFFFF:
+            pos += 1
+            continue
+
+        length = 4
+        while pos + length < len(data) and data[candidate + length] == data[pos + length]:
+            length += 1
+        if literal_start < pos:
+            out += _literal(data[literal_start:pos])
+        out += _copy(pos - candidate, length)
+        pos += length
+        literal_start = pos
+
+    if literal_start < len(data):
+        out += _literal(data[literal_start:])
+    return bytes(out)
+
+
+def snappy_framed(data, chunk_size=256):
+    """Framed stream with small chunks: compressed, stored and padding"""
+    out = bytearray(b'\xff\x06\x00\x00sNaPpY')
+    for number, start in enumerate(range(0, len(data), chunk_size)):
+        chunk = data[start:start + chunk_size]
+        stored = number % 3 == 2
+        body = struct.pack('<I', masked_crc32c(chunk)) + (chunk if stored else snappy_compress(chunk))
+        out += bytes([0x01 if stored else 0x00]) + len(body).to_bytes(3, 'little') + body
+        if number == 0:
+            out += b'\xfe\x02\x00\x00\x00\x00'
+    return bytes(out)
+
+
+# ---------------------------------------------------------------------------
+# SpiderMonkey structured clone
+# ---------------------------------------------------------------------------
+
+SCTAG_HEADER = 0xFFF10000
+SCTAG_NULL = 0xFFFF0000
+SCTAG_BOOLEAN = 0xFFFF0002
+SCTAG_INT32 = 0xFFFF0003
+SCTAG_STRING = 0xFFFF0004
+SCTAG_ARRAY_OBJECT = 0xFFFF0007
+SCTAG_OBJECT_OBJECT = 0xFFFF0008
+SCTAG_END_OF_KEYS = 0xFFFF0013
+
+
+def _pair(tag, data):
+    return struct.pack('<II', data & 0xFFFFFFFF, tag)
+
+
+def _string(value):
+    if all(ord(char) < 256 for char in value):
+        data, body = len(value) | 0x80000000, value.encode('latin-1')
+    else:
+        body = value.encode('utf-16-le')
+        data = len(body) // 2
+    return _pair(SCTAG_STRING, data) + body + b'\x00' * (-len(body) % 8)
+
+
+def _value(value):
+    if value is None:
+        return _pair(SCTAG_NULL, 0)
+    if isinstance(value, bool):
+        return _pair(SCTAG_BOOLEAN, int(value))
+    if isinstance(value, int) and -2**31 <= value < 2**31:
+        return _pair(SCTAG_INT32, value)
+    if isinstance(value, (int, float)):
+        return struct.pack('<d', value)
+    if isinstance(value, str):
+        return _string(value)
+    if isinstance(value, list):
+        out = _pair(SCTAG_ARRAY_OBJECT, len(value))
+        for index, item in enumerate(value):
+            out += _pair(SCTAG_INT32, index) + _value(item)
+        return out + _pair(SCTAG_END_OF_KEYS, 0)
+    if isinstance(value, dict):
+        out = _pair(SCTAG_OBJECT_OBJECT, 0)
+        for key, item in value.items():
+            out += _string(key) + _value(item)
+        return out + _pair(SCTAG_END_OF_KEYS, 0)
+    raise TypeError(f'cannot clone {type(value).__name__}')
+
+
+def structured_clone(value):
+    return _pair(SCTAG_HEADER, 2) + _value(value)
+
+
+# ---------------------------------------------------------------------------
+# Firefox IndexedDB
+# ---------------------------------------------------------------------------
+
+def idb_string_key(value):
+    return b'\x30' + bytes(ord(char) + 1 for char in value)
+
+
+def write_firefox_home(state):
+    home = os.path.join(FIXTURES, 'firefox-home')
+    shutil.rmtree(home, ignore_errors=True)
+
+    root = os.path.join(home, '.mozilla', 'firefox')
+    profile = os.path.join(root, FIREFOX_PROFILE)
+    idb = os.path.join(profile, 'storage', 'default',
+                       f'moz-extension+++{FIREFOX_UUID}^userContextId=4294967295', 'idb')
+    os.makedirs(os.path.join(idb, f'{FIREFOX_DATABASE}.files'))
+
+    with open(os.path.join(root, 'profiles.ini'), 'w', newline='\n') as ini:
+        ini.write('[General]\nStartWithLastProfile=1\nVersion=2\n\n'
+                  f'[Profile0]\nName=default-release\nIsRelative=1\nPath={FIREFOX_PROFILE}\nDefault=1\n')
+
+    uuids = json.dumps({
+        'uBlock0@raymondhill.net': 'f1e2d3c4-0000-4000-8000-000000000000',
+        FIREFOX_EXTENSION_ID: FIREFOX_UUID,
+    }, separators=(',', ':'))
+    with open(os.path.join(profile, 'prefs.js'), 'w', newline='\n') as prefs:
+        prefs.write('// Mozilla User Preferences\n\n'
+                    'user_pref("browser.startup.page", 3);\n'
+                    f'user_pref("extensions.webextensions.uuids", {json.dumps(uuids)});\n')
+
+    # Incompressible enough to need overflow pages at a 1 KiB page size
+    token = ''.join(f'{(i * 2654435761) % 2**32:08x}' for i in range(80))
+    settings = json.dumps({'theme': 'dark', 'restoreWindow': 'current', 'token': token}, separators=(',', ':'))
+    state_json = json.dumps(state, ensure_ascii=False, separators=(',', ':'))
+
+    with open(os.path.join(idb, f'{FIREFOX_DATABASE}.files', '1'), 'wb') as external:
+        external.write(snappy_framed(structured_clone(state_json)))
+
+    with tempfile.TemporaryDirectory() as temp:
+        path = os.path.join(temp, 'db.sqlite')
+        db = sqlite3.connect(path, isolation_level=None)
+        db.execute('PRAGMA page_size = 1024')
+        db.execute('PRAGMA journal_mode = WAL')
+        db.execute('PRAGMA wal_autocheckpoint = 0')
+        db.execute('BEGIN')
+        db.execute('CREATE TABLE object_store (id INTEGER PRIMARY KEY, auto_increment INTEGER NOT NULL DEFAULT 0, '
+                   'name TEXT NOT NULL, key_path TEXT)')
+        db.execute('CREATE TABLE object_data (object_store_id INTEGER NOT NULL, key BLOB NOT NULL, '
+                   'index_data_values BLOB DEFAULT NULL, file_ids TEXT, data BLOB NOT NULL, '
+                   'PRIMARY KEY (object_store_id, key), '
+                   'FOREIGN KEY (object_store_id) REFERENCES object_store(id)) WITHOUT ROWID')
+        db.execute("INSERT INTO object_store (id, name) VALUES (1, 'storage-local')")
+        db.execute('INSERT INTO object_data (object_store_id, key, data) VALUES (1, ?, ?)',
+                   (idb_string_key('settings'), snappy_compress(structured_clone(settings))))
+        db.execute('COMMIT')
+        db.execute('PRAGMA wal_checkpoint(TRUNCATE)')
+
+        # Committed to the WAL only: the main file never sees this row
+        db.execute('BEGIN')
+        db.execute("INSERT INTO object_data (object_store_id, key, file_ids, data) VALUES (1, ?, '.1', x'')",
+                   (idb_string_key('state'),))
+        db.execute('COMMIT')
+
+        database = os.path.join(idb, f'{FIREFOX_DATABASE}.sqlite')
+        shutil.copyfile(path, database)
+        shutil.copyfile(f'{path}-wal', f'{database}-wal')
+        db.close()
+
+
+# ---------------------------------------------------------------------------
+# LevelDB
+# ---------------------------------------------------------------------------
+
+LEVELDB_PUT = 1
+LEVELDB_DELETE = 0
+
+
+def leveldb_batch(sequence, operations):
+    out = bytearray(struct.pack('<QI', sequence, len(operations)))
+    for key, value in operations:
+        out.append(LEVELDB_DELETE if value is None else LEVELDB_PUT)
+        out += varint(len(key)) + key.encode()
+        if value is not None:
+            out += varint(len(value.encode())) + value.encode()
+    return bytes(out)
+
+
+def leveldb_log_record(data):
+    """A FULL record (every batch here fits in the first block)"""
+    header = struct.pack('<IHB', masked_crc32c(bytes([1]) + data), len(data), 1)
+    return header + data
+
+
+def leveldb_block(entries):
+    out = bytearray()
+    previous = b''
+    for key, value in entries:
+        shared = 0
+        while shared < min(len(key), len(previous)) and key[shared] == previous[shared]:
+            shared += 1
+        out += varint(shared) + varint(len(key) - shared) + varint(len(value)) + key[shared:] + value
+        previous = key
+    return bytes(out + struct.pack('<II', 0, 1))
+
+
+def leveldb_table(entries):
+    """One Snappy data block, an empty metaindex block and an index block"""
+    out = bytearray()
+
+    def append_block(contents, compression):
+        handle = varint(len(out)) + varint(len(contents))
+        out.extend(contents + bytes([compression]) + struct.pack('<I', masked_crc32c(contents + bytes([compression]))))
+        return handle
+
+    data = append_block(snappy_compress(leveldb_block(entries)), 1)
+    metaindex = append_block(leveldb_block([]), 0)
+    index = append_block(leveldb_block([(entries[-1][0], data)]), 0)
+
+    footer = metaindex + index
+    return bytes(out + footer + b'\x00' * (40 - len(footer)) + struct.pack('<Q', 0xDB4775248B80FB57))
+
+
+def leveldb_internal_key(key, sequence, kind=LEVELDB_PUT):
+    return key.encode() + struct.pack('<Q', (sequence << 8) | kind)
+
+
+def write_leveldb(state):
+    directory = os.path.join(FIXTURES, 'leveldb')
+    shutil.rmtree(directory, ignore_errors=True)
+    os.makedirs(directory)
+
+    def state_version(*group_ids):
+        groups = [group for group in state['tabGroups'] if group['id'] in group_ids]
+        return json.dumps({'tabGroups': groups}, ensure_ascii=False, separators=(',', ':'))
+
+    v1 = state_version('fx-group-1')
+    v2 = state_version('fx-group-1', 'fx-group-2')
+    v3 = state_version('fx-group-2')
+    v4 = json.dumps(state, ensure_ascii=False, separators=(',', ':'))
+    settings = json.dumps({'theme': 'light'})
+
+    def write(name, content):
+        with open(os.path.join(directory, name), 'wb') as out:
+            out.write(content)
+
+    # Obsolete log, left behind after compaction into 000005.ldb
+    write('000003.log', leveldb_log_record(leveldb_batch(1, [('state', v1), ('settings', settings)])))
+    write('000005.ldb', leveldb_table([
+        (leveldb_internal_key('settings', 2), settings.encode()),
+        (leveldb_internal_key('state', 1), v1.encode()),
+    ]))
+
+    # Current log: the last write was cut off mid-record
+    truncated = leveldb_log_record(leveldb_batch(6, [('state', v4)]))
+    write('000006.log', b''.join([
+        leveldb_log_record(leveldb_batch(3, [('state', v2)])),
+        leveldb_log_record(leveldb_batch(4, [('state', v3), ('settings', None)])),
+        truncated[:len(truncated) // 2],
+    ]))
+
+
+def write_structured_clone(state):
+    directory = os.path.join(FIXTURES, 'structured-clone')
+    os.makedirs(directory, exist_ok=True)
+    with open(os.path.join(directory, 'onetab-state.bin'), 'wb') as blob:
+        blob.write(structured_clone(state))
+
+
+def main():
+    with open(os.path.join(FIXTURES, 'onetab-state.json'), encoding='utf-8') as source:
+        state = json.load(source)
+
+    write_firefox_home(state)
+    write_structured_clone(state)
+    write_leveldb(state)
+
+
+if __name__ == '__main__':
+    main()
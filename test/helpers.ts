@@ -0,0 +1,144 @@
+/**
+ * Shared helpers for the test suite
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import type { MasterData, Tab, TabGroup } from '../src/models/types.js';
+import { SCHEMA_VERSION } from '../src/models/types.js';
+import { calculateStats } from '../src/parsers/json.js';
+import { extractDomain, readJson, writeJson } from '../src/utils/files.js';
+
+/**
+ * Repository root (tests run from dist-test/test/...)
+ */
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+/**
+ * Absolute path of a file under test/fixtures
+ */
+export function fixturePath(...parts: string[]): string {
+  return join(ROOT, 'test', 'fixtures', ...parts);
+}
+
+/**
+ * Group description for createMasterData: tabs need only a URL
+ */
+export interface GroupSpec {
+  id: string;
+  createdAtEpoch?: number;
+  title?: string;
+  tabs: Array<Partial<Tab> & { url: string }>;
+}
+
+/**
+ * Build valid master data from a few groups
+ */
+export function createMasterData(specs: GroupSpec[]): MasterData {
+  const groups: TabGroup[] = specs.map((spec, groupIndex) => {
+    const createdAtEpoch = spec.createdAtEpoch ?? Date.UTC(2024, 0, groupIndex + 1);
+    const tabs = spec.tabs.map((tab, tabIndex) => ({
+      id: `${spec.id}-tab-${tabIndex + 1}`,
+      title: '',
+      domain: extractDomain(tab.url),
+      ...tab,
+    }));
+
+    return {
+      id: spec.id,
+      tabs,
+      createdAt: new Date(createdAtEpoch).toISOString(),
+      createdAtEpoch,
+      tabCount: tabs.length,
+      starred: false,
+      ...(spec.title !== undefined ? { title: spec.title } : {}),
+    };
+  });
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { browser: 'chrome', extensionId: 'test', extractionMethod: 'import' },
+    stats: calculateStats(groups),
+    groups,
+  };
+}
+
+/**
+ * A master.json in a fresh temporary directory
+ */
+export interface TempMaster {
+  dir: string;
+  path: string;
+  /** Read master.json back */
+  read: () => Promise<MasterData>;
+  /** Delete the directory */
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Write master data to master.json in a new temporary directory
+ */
+export async function writeTempMaster(data: MasterData): Promise<TempMaster> {
+  const dir = await mkdtemp(join(tmpdir(), 'onetab-test-'));
+  const path = join(dir, 'master.json');
+  await writeJson(path, data);
+
+  return {
+    dir,
+    path,
+    read: () => readJson<MasterData>(path),
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Find a tab by URL (first match across groups)
+ */
+export function findTab(data: MasterData, url: string): Tab {
+  const tab = data.groups.flatMap((group) => group.tabs).find((t) => t.url === url);
+  if (!tab) throw new Error(`No tab with URL ${url}`);
+  return tab;
+}
+
+/**
+ * A local HTTP server for stubbing remote sites
+ */
+export interface StubServer {
+  /** Base URL, e.g. "http://127.0.0.1:54321" */
+  url: string;
+  /** Requests received, as "METHOD /path?query" */
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start an HTTP server on a free local port
+ */
+export async function startStubServer(
+  handler: (request: IncomingMessage, response: ServerResponse) => void
+): Promise<StubServer> {
+  const requests: string[] = [];
+  const server = createServer((request, response) => {
+    requests.push(`${request.method} ${request.url}`);
+    handler(request, response);
+  });
+
+  await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolveClose) => {
+      // Drop kept-alive and hanging connections so close() returns
+      server.closeAllConnections();
+      server.close(() => resolveClose());
+    }),
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  decodeIdbKey,
+  findFirefoxOneTab,
+  parseFirefoxStorage,
+  readFirefoxStorage,
+  resolveFirefoxDatabases,
+} from '../../src/parsers/firefox.js';
+import type { MasterData } from '../../src/models/types.js';
+import { fixturePath } from '../helpers.js';
+
+const HOME = fixturePath('firefox-home');
+const PROFILE = fixturePath('firefox-home/.mozilla/firefox/k3x9q2ab.default-release');
+const UUID = '0b9c6e2e-5a0f-4c31-9a7e-2d3f8e1c4b7a';
+const DATABASE = join(
+  PROFILE,
+  'storage',
+  'default',
+  `moz-extension+++${UUID}^userContextId=4294967295`,
+  'idb',
+  '3647222921wleabcEoxlt-eengsairo.sqlite'
+);
+
+const SOURCE: MasterData['source'] = {
+  browser: 'firefox',
+  extensionId: 'extension@one-tab.com',
+  extractionMethod: 'indexeddb',
+};
+
+describe('decodeIdbKey', () => {
+  it('decodes string keys and skips other key types', () => {
+    assert.equal(decodeIdbKey(Buffer.from([0x30, 0x74, 0x75, 0x62, 0x75, 0x66])), 'state');
+    assert.equal(decodeIdbKey(Buffer.from([0x10, 0x40])), undefined);
+  });
+});
+
+describe('findFirefoxOneTab', () => {
+  it('finds the database through profiles.ini and prefs.js', async () => {
+    const locations = await findFirefoxOneTab({ platform: 'linux', homeDir: HOME, env: {} });
+
+    assert.equal(locations.length, 1);
+    assert.deepEqual(locations[0].profile, { name: 'default-release', path: PROFILE });
+    assert.equal(locations[0].uuid, UUID);
+    assert.equal(locations[0].databasePath, DATABASE);
+  });
+
+  it('finds nothing for an extension without a UUID', async () => {
+    const locations = await findFirefoxOneTab({ platform: 'linux', homeDir: HOME, env: {} }, 'other@example.com');
+    assert.deepEqual(locations, []);
+  });
+});
+
+describe('resolveFirefoxDatabases', () => {
+  it('accepts a profile, a storage directory, an idb directory or a file', async () => {
+    const idbDir = join(DATABASE, '..');
+
+    assert.deepEqual(await resolveFirefoxDatabases(PROFILE), [DATABASE]);
+    assert.deepEqual(await resolveFirefoxDatabases(join(idbDir, '..')), [DATABASE]);
+    assert.deepEqual(await resolveFirefoxDatabases(idbDir), [DATABASE]);
+    assert.deepEqual(await resolveFirefoxDatabases(DATABASE), [DATABASE]);
+  });
+});
+
+describe('readFirefoxStorage', () => {
+  it('reads inline and external values', async () => {
+    const values = await readFirefoxStorage(DATABASE);
+    const state = JSON.parse(await readFile(fixturePath('onetab-state.json'), 'utf8'));
+
+    assert.deepEqual(Object.keys(values).sort(), ['settings', 'state']);
+    assert.deepEqual(JSON.parse(values.state as string), state);
+
+    const settings = JSON.parse(values.settings as string);
+    assert.equal(settings.theme, 'dark');
+    assert.equal(settings.token.length, 640);
+  });
+});
+
+describe('parseFirefoxStorage', () => {
+  it('converts the OneTab state to master data', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const data = await parseFirefoxStorage(PROFILE, { ...SOURCE, extractionMethod: 'leveldb' });
+
+    assert.equal(data.source.extractionMethod, 'indexeddb');
+    assert.equal(data.groups.length, 2);
+
+    const storage = data.groups.find((group) => group.id === 'fx-group-1')!;
+    assert.equal(storage.title, 'Storage formats');
+    assert.equal(storage.starred, true);
+    assert.equal(storage.createdAtEpoch, 1717243200000);
+    assert.deepEqual(
+      storage.tabs.map((tab) => tab.url),
+      [
+        'https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API',
+        'https://www.sqlite.org/fileformat2.html',
+        'https://github.com/google/snappy/blob/main/framing_format.txt',
+      ]
+    );
+
+    const wiki = data.groups.find((group) => group.id === 'fx-group-2')!;
+    assert.equal(wiki.starred, false);
+    assert.equal(wiki.tabs[0].title, 'Café – Wikipedia');
+  });
+
+  it('rejects paths without a database', async () => {
+    await assert.rejects(parseFirefoxStorage(HOME, SOURCE), /No OneTab IndexedDB database found/);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCHEMA_VERSION } from '../../src/models/types.js';
+import { detectSchemaVersion, migrateMasterData } from '../../src/parsers/master.js';
+import { createMasterData } from '../helpers.js';
+
+describe('detectSchemaVersion', () => {
+  it('returns a major.minor.patch version', () => {
+    assert.equal(detectSchemaVersion({ schemaVersion: '1.2.0' }), '1.2.0');
+  });
+
+  it('refuses a missing or malformed version instead of guessing', () => {
+    assert.throws(() => detectSchemaVersion({}), /schemaVersion is missing/);
+    assert.throws(() => detectSchemaVersion({ schemaVersion: '1.2' }), /"1\.2" is not a major\.minor\.patch version/);
+    assert.throws(() => detectSchemaVersion({ schemaVersion: 2 }), /2 is not a major\.minor\.patch version/);
+  });
+});
+
+describe('migrateMasterData', () => {
+  it('upgrades old files to the current schema', () => {
+    const data = createMasterData([{ id: 'g1', tabs: [{ url: 'https://example.com/' }] }]);
+    const { data: migrated, fromVersion, applied } = migrateMasterData({ ...data, schemaVersion: '1.0.0' });
+
+    assert.equal(fromVersion, '1.0.0');
+    assert.equal(applied[applied.length - 1].to, SCHEMA_VERSION);
+    assert.equal(migrated.schemaVersion, SCHEMA_VERSION);
+  });
+
+  it('refuses files without a schema version', () => {
+    const { schemaVersion: _, ...data } = createMasterData([]);
+    assert.throws(() => migrateMasterData(data), /Invalid master data: schemaVersion is missing/);
+  });
+});
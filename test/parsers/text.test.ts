@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOneTabText, parseOneTabTextGroups } from '../../src/parsers/text.js';
+import { mergeMasterData } from '../../src/parsers/json.js';
+import type { MasterData } from '../../src/models/types.js';
+
+const SOURCE: MasterData['source'] = { browser: 'unknown', extensionId: 'unknown', extractionMethod: 'text' };
+
+const DUMP = [
+  'https://a.example/1 | First',
+  'https://a.example/2 | Second',
+  'https://a.example/3 | Third',
+  '',
+  'https://b.example/ | Other group',
+  '',
+].join('\n');
+
+describe('parseOneTabTextGroups', () => {
+  it('reads one group per block with stable IDs', () => {
+    const groups = parseOneTabTextGroups(DUMP, { baseEpoch: 1717243200000 });
+
+    assert.equal(groups.length, 2);
+    assert.match(groups[0].id, /^text-[0-9a-f]{16}$/);
+    assert.deepEqual(groups[0].tabsMeta.map((tab) => tab.title), ['First', 'Second', 'Third']);
+    assert.equal(groups[1].createDate, 1717243200000 - 60000);
+    assert.deepEqual(parseOneTabTextGroups(DUMP, { baseEpoch: 0 }).map((g) => g.id), groups.map((g) => g.id));
+  });
+});
+
+describe('mergeMasterData with text imports', () => {
+  it('keeps a group that lost a restored tab, tracking the removal', () => {
+    const first = parseOneTabText(DUMP, SOURCE, { baseEpoch: Date.UTC(2024, 5, 1) });
+    const stored = mergeMasterData({ ...first, groups: [] }, first);
+    const group = stored.groups.find((g) => g.tabs.length === 3)!;
+    group.tabs[1].tags = ['keep'];
+    group.tags = ['research'];
+
+    // The first tab was restored in OneTab; a newer dump is imported later
+    const shrunk = DUMP.replace('https://a.example/1 | First\n', '');
+    const second = parseOneTabText(shrunk, SOURCE, { baseEpoch: Date.UTC(2024, 6, 1) });
+    assert.ok(!second.groups.some((g) => g.id === group.id));
+
+    const merged = mergeMasterData(stored, second);
+    assert.equal(merged.groups.length, 2);
+
+    const updated = merged.groups.find((g) => g.id === group.id)!;
+    assert.deepEqual(updated.tabs.map((tab) => tab.url), ['https://a.example/2', 'https://a.example/3']);
+    assert.deepEqual(updated.tabs.map((tab) => tab.id), [group.tabs[1].id, group.tabs[2].id]);
+    assert.deepEqual(updated.tabs[0].tags, ['keep']);
+    assert.deepEqual(updated.tags, ['research']);
+    assert.equal(updated.createdAt, group.createdAt);
+    assert.deepEqual(updated.removedTabs?.map((tab) => tab.url), ['https://a.example/1']);
+  });
+
+  it('adds groups that share too few URLs with any stored group', () => {
+    const first = parseOneTabText(DUMP, SOURCE, { baseEpoch: Date.UTC(2024, 5, 1) });
+    const stored = mergeMasterData({ ...first, groups: [] }, first);
+
+    const next = parseOneTabText(
+      'https://a.example/1 | First\nhttps://c.example/ | New\nhttps://d.example/ | New too\n',
+      SOURCE,
+      { baseEpoch: Date.UTC(2024, 6, 1) }
+    );
+    const merged = mergeMasterData(stored, next);
+
+    assert.equal(merged.groups.length, 3);
+    for (const group of stored.groups) {
+      assert.deepEqual(merged.groups.find((g) => g.id === group.id), group);
+    }
+  });
+});
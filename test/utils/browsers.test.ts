@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join, win32 } from 'path';
+import {
+  discoverFirefoxProfiles,
+  discoverProfiles,
+  formatProfile,
+  getDefaultLevelDbPath,
+  getFirefoxDataDirs,
+  getUserDataDirs,
+  matchesProfile,
+} from '../../src/utils/browsers.js';
+import type { DiscoveryEnvironment } from '../../src/utils/browsers.js';
+import { DEFAULT_EXTENSION_IDS } from '../../src/models/types.js';
+import { fixturePath } from '../helpers.js';
+
+const LINUX: DiscoveryEnvironment = { platform: 'linux', homeDir: fixturePath('browsers', 'linux'), env: {} };
+const MACOS: DiscoveryEnvironment = { platform: 'darwin', homeDir: fixturePath('browsers', 'macos'), env: {} };
+
+// Windows paths are built with win32 joins so the case runs on any host
+const WINDOWS_HOME = fixturePath('browsers', 'windows');
+const WINDOWS: DiscoveryEnvironment = {
+  platform: 'win32',
+  homeDir: WINDOWS_HOME,
+  env: { LOCALAPPDATA: win32.join(WINDOWS_HOME, 'AppData', 'Local'), APPDATA: win32.join(WINDOWS_HOME, 'AppData', 'Roaming') },
+};
+
+describe('getUserDataDirs', () => {
+  it('uses %LOCALAPPDATA% on Windows, falling back to the home directory', () => {
+    const env = { LOCALAPPDATA: 'D:\\Profiles\\ada\\Local' };
+    assert.deepEqual(
+      getUserDataDirs('chrome', { platform: 'win32', homeDir: 'C:\\Users\\ada', env }),
+      ['D:\\Profiles\\ada\\Local\\Google\\Chrome\\User Data']
+    );
+    assert.deepEqual(
+      getUserDataDirs('edge', { platform: 'win32', homeDir: 'C:\\Users\\ada', env: {} }),
+      ['C:\\Users\\ada\\AppData\\Local\\Microsoft\\Edge\\User Data']
+    );
+  });
+
+  it('uses Application Support on macOS', () => {
+    assert.deepEqual(
+      getUserDataDirs('brave', { platform: 'darwin', homeDir: '/Users/ada', env: {} }),
+      ['/Users/ada/Library/Application Support/BraveSoftware/Brave-Browser']
+    );
+  });
+
+  it('uses $XDG_CONFIG_HOME, then Snap and Flatpak directories on Linux', () => {
+    assert.deepEqual(
+      getUserDataDirs('chromium', { platform: 'linux', homeDir: '/home/ada', env: { XDG_CONFIG_HOME: '/xdg' } }),
+      [
+        '/xdg/chromium',
+        '/home/ada/snap/chromium/common/chromium',
+        '/home/ada/.var/app/org.chromium.Chromium/config/chromium',
+      ]
+    );
+    assert.deepEqual(
+      getUserDataDirs('vivaldi', { platform: 'linux', homeDir: '/home/ada', env: {} }),
+      ['/home/ada/.config/vivaldi']
+    );
+  });
+});
+
+describe('getDefaultLevelDbPath', () => {
+  it('points at the extension folder of a profile', () => {
+    const env = { LOCALAPPDATA: 'C:\\Users\\ada\\AppData\\Local' };
+    assert.equal(
+      getDefaultLevelDbPath('edge', DEFAULT_EXTENSION_IDS.edge, 'Profile 1', { platform: 'win32', homeDir: 'C:\\Users\\ada', env }),
+      `C:\\Users\\ada\\AppData\\Local\\Microsoft\\Edge\\User Data\\Profile 1\\Local Extension Settings\\${DEFAULT_EXTENSION_IDS.edge}`
+    );
+    assert.equal(
+      getDefaultLevelDbPath('chrome', DEFAULT_EXTENSION_IDS.chrome, undefined, { platform: 'linux', homeDir: '/home/ada', env: {} }),
+      `/home/ada/.config/google-chrome/Default/Local Extension Settings/${DEFAULT_EXTENSION_IDS.chrome}`
+    );
+  });
+});
+
+describe('getFirefoxDataDirs', () => {
+  it('uses %APPDATA% on Windows and Application Support on macOS', () => {
+    assert.deepEqual(
+      getFirefoxDataDirs({ platform: 'win32', homeDir: 'C:\\Users\\ada', env: { APPDATA: 'C:\\Users\\ada\\AppData\\Roaming' } }),
+      ['C:\\Users\\ada\\AppData\\Roaming\\Mozilla\\Firefox']
+    );
+    assert.deepEqual(
+      getFirefoxDataDirs({ platform: 'darwin', homeDir: '/Users/ada', env: {} }),
+      ['/Users/ada/Library/Application Support/Firefox']
+    );
+  });
+});
+
+describe('discoverProfiles', () => {
+  it('finds Linux profiles with their display names and OneTab storage', async () => {
+    const userDataDir = join(LINUX.homeDir, '.config', 'google-chrome');
+    const profiles = await discoverProfiles(LINUX, { extensionIds: ['abcdefghijklmnopabcdefghijklmnop'] });
+
+    assert.deepEqual(
+      profiles.map((profile) => [profile.browser, profile.profile, profile.displayName, profile.oneTab?.extensionId]),
+      [
+        ['chrome', 'Default', 'Person 1', DEFAULT_EXTENSION_IDS.chrome],
+        ['chrome', 'Profile 2', 'Work', undefined],
+        ['chrome', 'Profile 10', undefined, 'abcdefghijklmnopabcdefghijklmnop'],
+        ['chromium', 'Default', undefined, undefined],
+      ]
+    );
+
+    const [defaultProfile] = profiles;
+    assert.equal(defaultProfile.userDataDir, userDataDir);
+    assert.equal(defaultProfile.profilePath, join(userDataDir, 'Default'));
+    assert.equal(
+      defaultProfile.oneTab?.path,
+      join(userDataDir, 'Default', 'Local Extension Settings', DEFAULT_EXTENSION_IDS.chrome)
+    );
+    assert.ok(!Number.isNaN(Date.parse(defaultProfile.oneTab!.lastModified)));
+  });
+
+  it('only looks for the requested browsers', async () => {
+    const profiles = await discoverProfiles(LINUX, { browsers: ['chromium', 'edge'] });
+    assert.deepEqual(profiles.map((profile) => [profile.browser, profile.profile]), [['chromium', 'Default']]);
+  });
+
+  it('finds macOS profiles', async () => {
+    const profiles = await discoverProfiles(MACOS);
+
+    assert.equal(profiles.length, 1);
+    assert.equal(profiles[0].browser, 'edge');
+    assert.equal(profiles[0].displayName, 'Personal');
+    assert.equal(profiles[0].oneTab?.extensionId, DEFAULT_EXTENSION_IDS.edge);
+  });
+
+  it('finds Windows profiles', async () => {
+    const profiles = await discoverProfiles(WINDOWS);
+    const userDataDir = win32.join(WINDOWS_HOME, 'AppData', 'Local', 'Google', 'Chrome', 'User Data');
+
+    assert.deepEqual(
+      profiles.map((profile) => [profile.browser, profile.profile, profile.displayName, profile.oneTab?.extensionId]),
+      [
+        ['chrome', 'Default', 'Person 1', undefined],
+        ['chrome', 'Profile 1', 'Research', DEFAULT_EXTENSION_IDS.chrome],
+      ]
+    );
+    assert.equal(profiles[1].profilePath, win32.join(userDataDir, 'Profile 1'));
+  });
+});
+
+describe('discoverFirefoxProfiles', () => {
+  it('keeps the existing profiles listed in profiles.ini on Linux', async () => {
+    assert.deepEqual(await discoverFirefoxProfiles(LINUX), [
+      { name: 'default-release', path: join(LINUX.homeDir, '.mozilla', 'firefox', 'h1q7x0vz.default-release') },
+    ]);
+  });
+
+  it('resolves relative paths with subfolders on macOS', async () => {
+    assert.deepEqual(await discoverFirefoxProfiles(MACOS), [
+      {
+        name: 'default-release',
+        path: join(MACOS.homeDir, 'Library', 'Application Support', 'Firefox', 'Profiles', 'r8m2k5tw.default-release'),
+      },
+    ]);
+  });
+
+  it('reads profiles.ini with CRLF line endings on Windows', async () => {
+    assert.deepEqual(await discoverFirefoxProfiles(WINDOWS), [
+      { name: 'default-release', path: win32.join(WINDOWS_HOME, 'AppData', 'Roaming', 'Mozilla', 'Firefox', 'Profiles', 'p4n6c3ds.default-release') },
+    ]);
+  });
+});
+
+describe('matchesProfile and formatProfile', () => {
+  it('match and show the directory and display names', async () => {
+    const [person, work, unnamed] = await discoverProfiles(LINUX, { browsers: ['chrome'] });
+
+    assert.ok(matchesProfile(work, 'profile 2'));
+    assert.ok(matchesProfile(work, 'WORK'));
+    assert.ok(!matchesProfile(person, 'Work'));
+
+    assert.equal(formatProfile(person), 'Chrome / Person 1 (Default)');
+    assert.equal(formatProfile(unnamed), 'Chrome / Profile 10');
+  });
+});
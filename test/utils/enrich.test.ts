@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { enrichPage, extractMetadata, isUntitled } from '../../src/utils/enrich.js';
+import type { FetchedPage, PageFetcher } from '../../src/utils/enrich.js';
+
+/**
+ * Fetcher answering every URL with the same page
+ */
+function fetcherFor(page: Partial<FetchedPage>): PageFetcher {
+  return async (url) => ({ url, status: 200, contentType: 'text/html; charset=utf-8', html: '', ...page });
+}
+
+describe('extractMetadata', () => {
+  it('prefers Open Graph tags and resolves links against the page', () => {
+    const html = `<!doctype html>
+      <html lang="en-GB">
+      <head>
+        <title>Fallback title</title>
+        <meta property="og:title" content="Open &amp; Graph">
+        <meta name="description" content="Plain description">
+        <meta property="og:description" content="  Social
+          description ">
+        <meta property="og:site_name" content="Example">
+        <link rel="canonical" href="/articles/1">
+        <link rel="shortcut icon" href="static/icon.png">
+      </head>
+      <body><meta property="og:title" content="Not in the head"></body>
+      </html>`;
+
+    assert.deepEqual(extractMetadata(html, 'https://example.com/blog/post?id=1'), {
+      title: 'Open & Graph',
+      description: 'Social description',
+      canonicalUrl: 'https://example.com/articles/1',
+      siteName: 'Example',
+      language: 'en-GB',
+      faviconUrl: 'https://example.com/blog/static/icon.png',
+    });
+  });
+
+  it('resolves links against <base> and falls back to /favicon.ico', () => {
+    const html = `<head>
+      <base href="https://cdn.example.net/docs/">
+      <title>Docs  home</title>
+      <meta property="og:url" content="index.html">
+    </head>`;
+
+    assert.deepEqual(extractMetadata(html, 'https://example.com/start'), {
+      title: 'Docs home',
+      canonicalUrl: 'https://cdn.example.net/docs/index.html',
+      faviconUrl: 'https://example.com/favicon.ico',
+    });
+  });
+
+  it('ignores tags inside comments and scripts', () => {
+    const html = `<head>
+      <!-- <meta property="og:title" content="Commented"> -->
+      <script>document.write('<meta name="description" content="Scripted">')</script>
+      <title>Real</title>
+    </head>`;
+
+    const metadata = extractMetadata(html, 'https://example.com/');
+    assert.equal(metadata.title, 'Real');
+    assert.equal(metadata.description, undefined);
+  });
+});
+
+describe('enrichPage', () => {
+  it('extracts metadata from the final URL after redirects', async () => {
+    const fetcher = fetcherFor({ url: 'https://example.com/new/', html: '<head><link rel="icon" href="i.svg"></head>' });
+    const enrichment = await enrichPage('https://example.com/old', 1000, fetcher);
+
+    assert.equal(enrichment.faviconUrl, 'https://example.com/new/i.svg');
+    assert.equal(enrichment.error, undefined);
+    assert.ok(enrichment.fetchedAt);
+  });
+
+  it('records HTTP errors, non-HTML pages and failed requests', async () => {
+    assert.equal((await enrichPage('https://example.com/', 1000, fetcherFor({ status: 404 }))).error, 'HTTP 404');
+    assert.equal(
+      (await enrichPage('https://example.com/a.pdf', 1000, fetcherFor({ contentType: 'application/pdf; q=1' }))).error,
+      'not HTML (application/pdf)'
+    );
+
+    const timeout: PageFetcher = async () => {
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    };
+    const failed = await enrichPage('https://example.com/', 1000, timeout);
+    assert.deepEqual(Object.keys(failed).sort(), ['error', 'fetchedAt']);
+    assert.equal(failed.error, 'timeout');
+  });
+});
+
+describe('isUntitled', () => {
+  it('treats an empty title or the domain as no title', () => {
+    assert.ok(isUntitled({ title: '', domain: 'example.com' }));
+    assert.ok(isUntitled({ title: 'example.com', domain: 'example.com' }));
+    assert.ok(!isUntitled({ title: 'Example', domain: 'example.com' }));
+  });
+});
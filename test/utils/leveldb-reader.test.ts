@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { recoverLevelDb } from '../../src/utils/leveldb-reader.js';
+import type { LevelDbEntry } from '../../src/utils/leveldb-reader.js';
+import { fixturePath } from '../helpers.js';
+
+const LEVELDB = fixturePath('leveldb');
+
+/**
+ * Group IDs of a stored `state` value
+ */
+function groupIds(entry: LevelDbEntry): string[] {
+  return (JSON.parse(entry.value!) as { tabGroups: Array<{ id: string }> }).tabGroups.map((group) => group.id);
+}
+
+describe('recoverLevelDb', () => {
+  it('reads logs and tables oldest first', async () => {
+    const { files } = await recoverLevelDb(LEVELDB);
+    assert.deepEqual(files, ['000003.log', '000005.ldb', '000006.log']);
+  });
+
+  it('recovers every version of a key, oldest first', async () => {
+    const { versions } = await recoverLevelDb(LEVELDB);
+    const state = versions.get('state')!;
+
+    assert.deepEqual(
+      state.map((entry) => [entry.sequence, entry.file]),
+      [[1, '000003.log'], [3, '000006.log'], [4, '000006.log']]
+    );
+    assert.deepEqual(state.map(groupIds), [
+      ['fx-group-1'],
+      ['fx-group-1', 'fx-group-2'],
+      ['fx-group-2'],
+    ]);
+
+    assert.deepEqual(
+      versions.get('settings')!.map((entry) => [entry.sequence, entry.deleted]),
+      [[2, false], [5, true]]
+    );
+  });
+
+  it('reports the newest version of each key, including deletions', async () => {
+    const { latest } = await recoverLevelDb(LEVELDB);
+
+    assert.equal(latest.get('state')!.sequence, 4);
+    assert.deepEqual(groupIds(latest.get('state')!), ['fx-group-2']);
+    assert.deepEqual(latest.get('settings'), { key: 'settings', sequence: 5, deleted: true, file: '000006.log' });
+  });
+
+  it('skips a record cut off at the end of a log', async () => {
+    const { errors } = await recoverLevelDb(LEVELDB);
+
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^000006\.log: record at offset \d+ runs past its block, rest of block skipped$/);
+  });
+
+  it('reads compacted entries from a table file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'onetab-leveldb-'));
+    try {
+      await copyFile(join(LEVELDB, '000005.ldb'), join(dir, '000005.ldb'));
+      const { latest, errors } = await recoverLevelDb(dir);
+
+      assert.deepEqual(errors, []);
+      assert.equal(latest.get('state')!.file, '000005.ldb');
+      assert.deepEqual(groupIds(latest.get('state')!), ['fx-group-1']);
+      assert.equal(latest.get('settings')!.value, '{"theme": "light"}');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects directories without log or table files', async () => {
+    await assert.rejects(recoverLevelDb(fixturePath('structured-clone')), /No LevelDB log or table files found/);
+  });
+});
@@ -0,0 +1,92 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkUrl, excludeDeadLinks, fetchHttpClient, isDeadLink } from '../../src/utils/link-check.js';
+import { createMasterData, startStubServer } from '../helpers.js';
+import type { StubServer } from '../helpers.js';
+
+describe('checkUrl', () => {
+  let server: StubServer;
+
+  before(async () => {
+    server = await startStubServer((request, response) => {
+      switch (request.url) {
+        case '/ok':
+          response.writeHead(200).end('ok');
+          break;
+        case '/moved':
+          response.writeHead(301, { location: '/ok' }).end();
+          break;
+        case '/no-head':
+          response.writeHead(request.method === 'HEAD' ? 405 : 200).end();
+          break;
+        case '/slow':
+          // Never answers
+          break;
+        default:
+          response.writeHead(404).end();
+      }
+    });
+  });
+
+  after(() => server.close());
+
+  it('records the status of a working link', async () => {
+    const check = await checkUrl(`${server.url}/ok`, 2000, fetchHttpClient);
+    assert.equal(check.status, 200);
+    assert.equal(check.finalUrl, undefined);
+    assert.ok(!isDeadLink(check));
+  });
+
+  it('records a missing page as dead', async () => {
+    const check = await checkUrl(`${server.url}/gone`, 2000, fetchHttpClient);
+    assert.equal(check.status, 404);
+    assert.ok(isDeadLink(check));
+  });
+
+  it('follows redirects and records where they end', async () => {
+    const check = await checkUrl(`${server.url}/moved`, 2000, fetchHttpClient);
+    assert.equal(check.status, 200);
+    assert.equal(check.finalUrl, `${server.url}/ok`);
+  });
+
+  it('falls back to GET when HEAD fails', async () => {
+    const before = server.requests.length;
+    const check = await checkUrl(`${server.url}/no-head`, 2000, fetchHttpClient);
+
+    assert.equal(check.status, 200);
+    assert.deepEqual(server.requests.slice(before), ['HEAD /no-head', 'GET /no-head']);
+  });
+
+  it('records a timeout as an error', async () => {
+    const check = await checkUrl(`${server.url}/slow`, 100, fetchHttpClient);
+    assert.equal(check.status, undefined);
+    assert.equal(check.error, 'timeout');
+    assert.ok(isDeadLink(check));
+  });
+});
+
+describe('excludeDeadLinks', () => {
+  it('drops dead tabs and groups left empty, keeping blocked ones', () => {
+    const checkedAt = '2024-01-01T00:00:00.000Z';
+    const { groups } = createMasterData([
+      {
+        id: 'mixed',
+        tabs: [
+          { url: 'https://a.example/', linkCheck: { status: 200, checkedAt } },
+          { url: 'https://b.example/', linkCheck: { status: 404, checkedAt } },
+          { url: 'https://c.example/', linkCheck: { status: 403, checkedAt } },
+          { url: 'https://d.example/' },
+        ],
+      },
+      { id: 'dead', tabs: [{ url: 'https://e.example/', linkCheck: { error: 'ENOTFOUND', checkedAt } }] },
+    ]);
+
+    const kept = excludeDeadLinks(groups);
+    assert.deepEqual(kept.map((group) => group.id), ['mixed']);
+    assert.deepEqual(
+      kept[0].tabs.map((tab) => tab.url),
+      ['https://a.example/', 'https://c.example/', 'https://d.example/']
+    );
+    assert.equal(kept[0].tabCount, 3);
+  });
+});
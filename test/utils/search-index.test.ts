@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { queryIndex, updateSearchIndex } from '../../src/utils/search-index.js';
+import { createMasterData } from '../helpers.js';
+
+describe('queryIndex', () => {
+  it('matches words as token prefixes and ranks title hits first', () => {
+    const { index } = updateSearchIndex(null, createMasterData([
+      {
+        id: 'g1',
+        tabs: [
+          { url: 'https://example.com/typescript', title: 'Notes' },
+          { url: 'https://example.com/notes', title: 'TypeScript handbook' },
+          { url: 'https://example.com/other', title: 'Types of coffee' },
+        ],
+      },
+    ]));
+
+    const hits = queryIndex(index, 'typescript');
+    assert.deepEqual(hits.map((hit) => hit.tabId), ['g1-tab-2', 'g1-tab-1']);
+    assert.equal(queryIndex(index, 'typ').length, 3);
+  });
+
+  it('finds terms added by an incremental update after earlier queries', () => {
+    const first = createMasterData([{ id: 'g1', tabs: [{ url: 'https://example.com/a', title: 'Alpha' }] }]);
+    const { index } = updateSearchIndex(null, first);
+    assert.equal(queryIndex(index, 'beta').length, 0);
+
+    const second = createMasterData([
+      { id: 'g1', tabs: [{ url: 'https://example.com/a', title: 'Alpha' }] },
+      { id: 'g2', tabs: [{ url: 'https://example.com/b', title: 'Beta' }] },
+    ]);
+    const update = updateSearchIndex(index, second);
+    assert.equal(update.indexed, 1);
+    assert.deepEqual(queryIndex(update.index, 'beta').map((hit) => hit.groupId), ['g2']);
+
+    const third = createMasterData([{ id: 'g2', tabs: [{ url: 'https://example.com/b', title: 'Beta' }] }]);
+    assert.equal(queryIndex(updateSearchIndex(update.index, third).index, 'alpha').length, 0);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { decompressSnappy, decompressSnappyFramed, isFramedSnappy } from '../../src/utils/snappy.js';
+import { readStructuredClone } from '../../src/utils/structured-clone.js';
+import { fixturePath } from '../helpers.js';
+
+const EXTERNAL_VALUE = fixturePath(
+  'firefox-home/.mozilla/firefox/k3x9q2ab.default-release/storage/default/moz-extension+++0b9c6e2e-5a0f-4c31-9a7e-2d3f8e1c4b7a^userContextId=4294967295/idb',
+  '3647222921wleabcEoxlt-eengsairo.files',
+  '1'
+);
+
+describe('decompressSnappy', () => {
+  it('decodes literals', () => {
+    const input = Buffer.from([0x05, 0x10, ...Buffer.from('hello')]);
+    assert.equal(decompressSnappy(input).toString(), 'hello');
+  });
+
+  it('decodes overlapping 1-byte-offset copies', () => {
+    const input = Buffer.from([0x08, 0x04, 0x61, 0x62, 0x09, 0x02]);
+    assert.equal(decompressSnappy(input).toString(), 'abababab');
+  });
+
+  it('decodes 2-byte-offset copies', () => {
+    const input = Buffer.from([0x08, 0x0c, ...Buffer.from('abcd'), 0x0e, 0x04, 0x00]);
+    assert.equal(decompressSnappy(input).toString(), 'abcdabcd');
+  });
+
+  it('rejects truncated and corrupt input', () => {
+    assert.throws(() => decompressSnappy(Buffer.from([0x05, 0x10, 0x68, 0x65])), /literal out of bounds/);
+    assert.throws(() => decompressSnappy(Buffer.from([0x04, 0x09, 0x02])), /copy out of bounds/);
+    assert.throws(() => decompressSnappy(Buffer.from([0x06, 0x10, ...Buffer.from('hello')])), /expected 6 bytes, got 5/);
+  });
+});
+
+describe('decompressSnappyFramed', () => {
+  it('decodes a Firefox external value file', async () => {
+    const content = await readFile(EXTERNAL_VALUE);
+    const expected = JSON.parse(await readFile(fixturePath('onetab-state.json'), 'utf8'));
+
+    assert.ok(isFramedSnappy(content));
+    const value = readStructuredClone(decompressSnappyFramed(content));
+    assert.equal(typeof value, 'string');
+    assert.deepEqual(JSON.parse(value as string), expected);
+  });
+
+  it('does not take raw Snappy for a framed stream', () => {
+    assert.equal(isFramedSnappy(Buffer.from([0x05, 0x10, ...Buffer.from('hello')])), false);
+  });
+
+  it('rejects reserved chunk types', () => {
+    const stream = Buffer.from([0xff, 0x06, 0x00, 0x00, ...Buffer.from('sNaPpY'), 0x02, 0x00, 0x00, 0x00]);
+    assert.throws(() => decompressSnappyFramed(stream), /reserved chunk type 0x2/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { listSqliteTables, openSqliteDatabase, readSqliteTable } from '../../src/utils/sqlite.js';
+import { decodeIdbKey } from '../../src/parsers/firefox.js';
+import { fixturePath } from '../helpers.js';
+
+const DATABASE = fixturePath(
+  'firefox-home/.mozilla/firefox/k3x9q2ab.default-release/storage/default/moz-extension+++0b9c6e2e-5a0f-4c31-9a7e-2d3f8e1c4b7a^userContextId=4294967295/idb',
+  '3647222921wleabcEoxlt-eengsairo.sqlite'
+);
+
+/**
+ * Decoded keys of the object_data rows
+ */
+function keysOf(rows: Array<Record<string, unknown>>): Array<string | undefined> {
+  return rows.map((row) => decodeIdbKey(row.key as Buffer));
+}
+
+describe('openSqliteDatabase', () => {
+  it('reads the page size from the header', async () => {
+    const db = await openSqliteDatabase(DATABASE);
+    assert.equal(db.pageSize, 1024);
+    assert.equal(db.encoding, 'utf8');
+  });
+
+  it('rejects files that are not databases', async () => {
+    await assert.rejects(openSqliteDatabase(fixturePath('onetab-state.json')), /Not a SQLite database/);
+  });
+});
+
+describe('listSqliteTables', () => {
+  it('lists columns, with primary key columns first for WITHOUT ROWID tables', async () => {
+    const tables = listSqliteTables(await openSqliteDatabase(DATABASE));
+    const byName = new Map(tables.map((table) => [table.name, table]));
+
+    assert.deepEqual([...byName.keys()].sort(), ['object_data', 'object_store']);
+
+    const store = byName.get('object_store')!;
+    assert.equal(store.withoutRowid, false);
+    assert.equal(store.rowidColumn, 'id');
+    assert.deepEqual(store.columns, ['id', 'auto_increment', 'name', 'key_path']);
+
+    const data = byName.get('object_data')!;
+    assert.equal(data.withoutRowid, true);
+    assert.equal(data.rowidColumn, undefined);
+    assert.deepEqual(data.columns, ['object_store_id', 'key', 'index_data_values', 'file_ids', 'data']);
+  });
+});
+
+describe('readSqliteTable', () => {
+  it('fills the rowid alias column', async () => {
+    const rows = readSqliteTable(await openSqliteDatabase(DATABASE), 'object_store');
+    assert.deepEqual(rows, [{ id: 1, auto_increment: 0, name: 'storage-local', key_path: null }]);
+  });
+
+  it('reads records that spill onto overflow pages', async () => {
+    const rows = readSqliteTable(await openSqliteDatabase(DATABASE), 'object_data');
+    const settings = rows.find((row) => decodeIdbKey(row.key as Buffer) === 'settings');
+
+    assert.ok(settings);
+    assert.ok(Buffer.isBuffer(settings.data));
+    // Larger than an index b-tree cell can hold on a 1 KiB page
+    assert.ok(settings.data.length > 231);
+    assert.equal(settings.file_ids, null);
+  });
+
+  it('applies committed write-ahead log frames', async () => {
+    const rows = readSqliteTable(await openSqliteDatabase(DATABASE), 'object_data');
+    assert.deepEqual(keysOf(rows), ['settings', 'state']);
+    assert.equal(rows[1].file_ids, '.1');
+  });
+
+  it('reads the main file alone without the write-ahead log', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'onetab-sqlite-'));
+    try {
+      const copy = join(dir, 'storage.sqlite');
+      await copyFile(DATABASE, copy);
+
+      const rows = readSqliteTable(await openSqliteDatabase(copy), 'object_data');
+      assert.deepEqual(keysOf(rows), ['settings']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unknown tables', async () => {
+    const db = await openSqliteDatabase(DATABASE);
+    assert.throws(() => readSqliteTable(db, 'missing'), /SQLite table not found: missing/);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { readStructuredClone } from '../../src/utils/structured-clone.js';
+import { fixturePath } from '../helpers.js';
+
+/**
+ * Encode (data, tag) words as a structured clone buffer
+ */
+function words(...pairs: Array<[number, number]>): Buffer {
+  const buffer = Buffer.alloc(pairs.length * 8);
+  pairs.forEach(([data, tag], i) => {
+    buffer.writeUInt32LE(data >>> 0, i * 8);
+    buffer.writeUInt32LE(tag, i * 8 + 4);
+  });
+  return buffer;
+}
+
+const HEADER: [number, number] = [2, 0xfff10000];
+
+describe('readStructuredClone', () => {
+  it('decodes a OneTab state object', async () => {
+    const blob = await readFile(fixturePath('structured-clone', 'onetab-state.bin'));
+    const expected = JSON.parse(await readFile(fixturePath('onetab-state.json'), 'utf8'));
+
+    assert.deepEqual(readStructuredClone(blob), expected);
+  });
+
+  it('decodes primitives', () => {
+    assert.equal(readStructuredClone(words(HEADER, [0, 0xffff0000])), null);
+    assert.equal(readStructuredClone(words(HEADER, [1, 0xffff0002])), true);
+    assert.equal(readStructuredClone(words(HEADER, [-7, 0xffff0003])), -7);
+
+    const double = Buffer.alloc(8);
+    double.writeDoubleLE(1.5);
+    assert.equal(readStructuredClone(Buffer.concat([words(HEADER), double])), 1.5);
+  });
+
+  it('rejects truncated input', () => {
+    // An object whose keys never end
+    assert.throws(() => readStructuredClone(words(HEADER, [0, 0xffff0008])));
+  });
+});
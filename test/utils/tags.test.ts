@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTag, parseTagList } from '../../src/utils/tags.js';
+import { parseQuery } from '../../src/parsers/query.js';
+
+describe('parseTag and parseTagList', () => {
+  it('normalize case, "#" prefixes and duplicates', () => {
+    assert.equal(parseTag(' #Work '), 'work');
+    assert.deepEqual(parseTagList('rust, #Reading,,rust,lang/go,to-read,été_2024'), [
+      'rust',
+      'reading',
+      'lang/go',
+      'to-read',
+      'été_2024',
+    ]);
+  });
+
+  it('reject tags with spaces or punctuation', () => {
+    assert.throws(() => parseTag('bad tag!'), /Invalid tag "bad tag!"/);
+    assert.throws(() => parseTagList('ok,no.dots'), /Invalid tag "no\.dots"/);
+    assert.throws(() => parseTag('#'), /Invalid tag/);
+  });
+
+  it('are enforced by the tag: query field', () => {
+    assert.deepEqual(parseQuery('tag:#Work'), { type: 'term', field: 'tag', value: 'work', match: 'word' });
+    assert.throws(() => parseQuery('tag:"bad tag"'), /tag: expects letters, digits/);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeUrl } from '../../src/utils/urls.js';
+
+describe('normalizeUrl', () => {
+  it('drops tracking parameters', () => {
+    assert.equal(
+      normalizeUrl('https://www.Example.com/post/?utm_source=x&id=7&fbclid=abc&ref_src=twsrc#top'),
+      normalizeUrl('https://example.com/post?id=7')
+    );
+  });
+
+  it('keeps "ref", which code hosts use for branches', () => {
+    assert.notEqual(
+      normalizeUrl('https://gitlab.com/group/project/-/blob/main/README.md?ref=main'),
+      normalizeUrl('https://gitlab.com/group/project/-/blob/main/README.md?ref=dev')
+    );
+    assert.match(normalizeUrl('https://github.com/o/r/compare?ref=feature'), /ref=feature/);
+  });
+});
@@ -0,0 +1,114 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createArchiveLookup,
+  getArchiveCachePath,
+  lookupKey,
+  lookupSnapshot,
+  toWaybackDate,
+} from '../../src/utils/wayback.js';
+import { createMasterData, startStubServer } from '../helpers.js';
+import type { StubServer } from '../helpers.js';
+
+/**
+ * Captures known to the stub archive, by URL
+ */
+const CAPTURES: Record<string, string[]> = {
+  'https://a.example/': ['20200105120000', '20230610080000', '20240301000000'],
+};
+
+/**
+ * Day number of a Wayback timestamp, for distance comparisons
+ */
+function toDay(timestamp: string): number {
+  const [, year, month, day] = /^(\d{4})(\d{2})(\d{2})/.exec(timestamp)!;
+  return Date.UTC(Number(year), Number(month) - 1, Number(day)) / 86400000;
+}
+
+describe('lookupSnapshot', () => {
+  let server: StubServer;
+
+  before(async () => {
+    // Answers like the availability API: the capture closest to the timestamp
+    server = await startStubServer((request, response) => {
+      const query = new URL(request.url!, 'http://localhost').searchParams;
+      if (query.get('url') === 'https://broken.example/') {
+        response.writeHead(503).end();
+        return;
+      }
+
+      const target = toDay(query.get('timestamp')!);
+      const closest = [...(CAPTURES[query.get('url')!] ?? [])]
+        .sort((a, b) => Math.abs(toDay(a) - target) - Math.abs(toDay(b) - target))[0];
+
+      response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({
+        url: query.get('url'),
+        archived_snapshots: closest
+          ? {
+            closest: {
+              available: true,
+              status: '200',
+              timestamp: closest,
+              url: `http://web.archive.org/web/${closest}/${query.get('url')}`,
+            },
+          }
+          : {},
+      }));
+    });
+  });
+
+  after(() => server.close());
+
+  it('returns the snapshot closest to the requested day', async () => {
+    const api = `${server.url}/wayback/available`;
+
+    assert.deepEqual(await lookupSnapshot('https://a.example/', '20230101', api), {
+      url: 'https://web.archive.org/web/20230610080000/https://a.example/',
+      timestamp: '20230610080000',
+      status: '200',
+    });
+    assert.equal((await lookupSnapshot('https://a.example/', '20190101', api))?.timestamp, '20200105120000');
+    assert.equal((await lookupSnapshot('https://a.example/', '20240215', api))?.timestamp, '20240301000000');
+    assert.equal(server.requests.at(-1), 'GET /wayback/available?url=https%3A%2F%2Fa.example%2F&timestamp=20240215');
+  });
+
+  it('returns null when the archive has no snapshot', async () => {
+    assert.equal(await lookupSnapshot('https://never.example/', '20240101', server.url), null);
+  });
+
+  it('throws on error responses', async () => {
+    await assert.rejects(
+      lookupSnapshot('https://broken.example/', '20240101', server.url),
+      /availability API returned HTTP 503/
+    );
+  });
+});
+
+describe('archive cache helpers', () => {
+  it('derive the cache path and keys', () => {
+    assert.equal(getArchiveCachePath('/data/master.json'), '/data/master.archive.json');
+    assert.equal(toWaybackDate('2024-03-05T22:10:00.000Z'), '20240305');
+    assert.equal(lookupKey('https://a.example/', '20240305'), '20240305 https://a.example/');
+  });
+
+  it('look up cached snapshots by tab URL and group day', () => {
+    const data = createMasterData([
+      { id: 'g1', createdAtEpoch: Date.UTC(2024, 2, 5, 12), tabs: [{ url: 'https://a.example/' }, { url: 'https://b.example/' }] },
+    ]);
+    const snapshotUrl = 'https://web.archive.org/web/20240301000000/https://a.example/';
+    const lookup = createArchiveLookup({
+      version: 1,
+      entries: {
+        [lookupKey('https://a.example/', '20240305')]: {
+          snapshot: { url: snapshotUrl, timestamp: '20240301000000' },
+          lookedUpAt: '2024-04-01T00:00:00.000Z',
+        },
+        [lookupKey('https://b.example/', '20240305')]: { snapshot: null, lookedUpAt: '2024-04-01T00:00:00.000Z' },
+      },
+    });
+
+    const [group] = data.groups;
+    assert.equal(lookup(group.tabs[0], group), snapshotUrl);
+    assert.equal(lookup(group.tabs[1], group), undefined);
+  });
+});